@@ -0,0 +1,41 @@
+/**
+ * Admin API for reading the audit log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || undefined;
+    const resource = searchParams.get('resource') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+
+    const logs = await prisma.auditLog.findMany({
+      where: { action, resource },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return NextResponse.json({
+      logs: logs.map(log => ({
+        ...log,
+        details: log.details ? JSON.parse(log.details) : null
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    );
+  }
+}
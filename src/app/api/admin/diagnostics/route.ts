@@ -0,0 +1,99 @@
+/**
+ * Admin diagnostics API
+ * Repository and contributor listings that used to live under /api/debug
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+const SECTIONS = ['repositories', 'contributors'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const requested = searchParams.get('section');
+    if (requested && !SECTIONS.includes(requested)) {
+      return NextResponse.json({ error: `Section must be one of ${SECTIONS.join(', ')}` }, { status: 400 });
+    }
+    const sections = requested ? [requested] : SECTIONS;
+
+    const diagnostics: Record<string, unknown> = {};
+
+    if (sections.includes('repositories')) {
+      const repositories = await prisma.repository.findMany({
+        select: {
+          id: true,
+          fullName: true,
+          owner: true,
+          managerId: true,
+          organizationId: true,
+          active: true,
+          manager: { select: { githubAccessToken: true } }
+        },
+        orderBy: { fullName: 'asc' }
+      });
+      const syncStates = await prisma.pullRequestSyncState.findMany();
+
+      diagnostics.repositories = {
+        total: repositories.length,
+        active: repositories.filter(repo => repo.active).length,
+        withoutManagerToken: repositories.filter(repo => !repo.manager.githubAccessToken).length,
+        items: repositories.map(({ manager, ...repo }) => {
+          const sync = syncStates.find(state => state.repo === repo.fullName);
+          return {
+            ...repo,
+            managerHasGithubToken: !!manager.githubAccessToken,
+            prCacheStatus: sync?.status || null,
+            prCacheSyncedAt: sync?.lastSyncedAt || null
+          };
+        })
+      };
+    }
+
+    if (sections.includes('contributors')) {
+      const contributors = await prisma.contributor.findMany({
+        select: {
+          id: true,
+          githubHandle: true,
+          hederaAccountId: true,
+          userId: true,
+          active: true
+        },
+        orderBy: { githubHandle: 'asc' }
+      });
+
+      diagnostics.contributors = {
+        total: contributors.length,
+        active: contributors.filter(contributor => contributor.active).length,
+        withWallet: contributors.filter(contributor => contributor.active && contributor.hederaAccountId).length,
+        items: contributors
+      };
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'ADMIN_DIAGNOSTICS_VIEWED',
+      undefined,
+      { sections }
+    );
+
+    return NextResponse.json({
+      success: true,
+      generatedAt: new Date().toISOString(),
+      ...diagnostics
+    });
+  } catch (error) {
+    console.error('Error fetching admin diagnostics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch diagnostics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Admin API to resume interrupted payroll runs
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { resumeStuckPayrollRuns } from '@/lib/execution';
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('Resuming interrupted payroll runs...');
+    const results = await resumeStuckPayrollRuns();
+
+    await createAuditLog(
+      session.user.id,
+      'PAYROLL_RUNS_RESUMED',
+      undefined,
+      { results }
+    );
+
+    return NextResponse.json({ 
+      message: 'Payroll run resume process completed',
+      results,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error resuming payroll runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume payroll runs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Admin API for user roles, global or scoped to a repository or organization
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, addUserRole, removeUserRole, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import {
+  rbacService,
+  parseRoles,
+  validateRoleGrant,
+  ROLES,
+  ROLE_PERMISSIONS,
+  RoleScope,
+  ScopeType
+} from '@/lib/rbac';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [users, assignments, repositories, organizations] = await Promise.all([
+      prisma.user.findMany({
+        select: { id: true, email: true, githubLogin: true, roles: true, selfVerificationStatus: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      rbacService.listAssignments(),
+      prisma.repository.findMany({ select: { id: true, fullName: true }, orderBy: { fullName: 'asc' } }),
+      prisma.organization.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } })
+    ]);
+
+    const scopeName = (scopeType: string, scopeId: string) => scopeType === 'REPOSITORY'
+      ? repositories.find(repo => repo.id === scopeId)?.fullName
+      : organizations.find(org => org.id === scopeId)?.name;
+
+    return NextResponse.json({
+      roles: ROLES.map(role => ({ role, permissions: ROLE_PERMISSIONS[role] })),
+      users: users.map(user => ({
+        id: user.id,
+        email: user.email,
+        githubLogin: user.githubLogin,
+        selfVerified: user.selfVerificationStatus,
+        roles: parseRoles(user.roles),
+        scopedRoles: assignments
+          .filter(assignment => assignment.userId === user.id)
+          .map(assignment => ({
+            role: assignment.role,
+            scopeType: assignment.scopeType,
+            scopeId: assignment.scopeId,
+            scopeName: scopeName(assignment.scopeType, assignment.scopeId) || assignment.scopeId
+          }))
+      })),
+      repositories,
+      organizations
+    });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch roles' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId, role, scopeType, scopeId } = await request.json();
+
+    const errors = validateRoleGrant(role, scopeType, scopeId);
+    if (!userId) {
+      errors.push('User ID is required');
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid role grant', details: errors }, { status: 400 });
+    }
+
+    const scope: RoleScope | undefined = scopeType ? { type: scopeType as ScopeType, id: scopeId } : undefined;
+    if (!await addUserRole(userId, role, scope, session.user.id)) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'ROLE_GRANTED',
+      userId,
+      { role, scopeType, scopeId }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error granting role:', error);
+    return NextResponse.json(
+      { error: 'Failed to grant role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const role = searchParams.get('role');
+    const scopeType = searchParams.get('scopeType');
+    const scopeId = searchParams.get('scopeId');
+
+    if (!userId || !role) {
+      return NextResponse.json({ error: 'User ID and role are required' }, { status: 400 });
+    }
+
+    // Owners cannot lock themselves out of role management
+    if (userId === session.user.id && role === 'owner' && !scopeType) {
+      return NextResponse.json({ error: 'You cannot remove your own owner role' }, { status: 400 });
+    }
+
+    const scope: RoleScope | undefined = scopeType && scopeId ? { type: scopeType as ScopeType, id: scopeId } : undefined;
+    if (!await removeUserRole(userId, role, scope)) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'ROLE_REVOKED',
+      userId,
+      { role, scopeType, scopeId }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking role:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke role' },
+      { status: 500 }
+    );
+  }
+}
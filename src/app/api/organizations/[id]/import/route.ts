@@ -0,0 +1,63 @@
+/**
+ * API route importing a GitHub organization's repositories into an organization
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { createGitHubService } from '@/lib/github';
+import { organizationService, MANAGING_ROLES } from '@/lib/organizations';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const organization = await organizationService.getForMember(id, session.user.id, MANAGING_ROLES);
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found or access denied' }, { status: 404 });
+    }
+    if (!organization.githubOrg) {
+      return NextResponse.json({ error: 'Set the GitHub organization to import from first' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id }
+    });
+    if (!user?.githubAccessToken) {
+      return NextResponse.json({ error: 'GitHub access token not found' }, { status: 400 });
+    }
+
+    const result = await organizationService.importFromGitHub(
+      id,
+      session.user.id,
+      createGitHubService(user.githubAccessToken)
+    );
+
+    await createAuditLog(
+      session.user.id,
+      'ORGANIZATION_IMPORTED',
+      id,
+      { githubOrg: organization.githubOrg, ...result }
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error importing organization repositories:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import organization repositories' },
+      { status: 500 }
+    );
+  }
+}
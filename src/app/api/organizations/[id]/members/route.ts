@@ -0,0 +1,129 @@
+/**
+ * API route for organization members and their roles
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { organizationService, ORGANIZATION_ROLES, OrganizationRole } from '@/lib/organizations';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { githubLogin, role = 'MANAGER' } = await request.json();
+
+    if (!githubLogin) {
+      return NextResponse.json({ error: 'GitHub login is required' }, { status: 400 });
+    }
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      return NextResponse.json({ error: `Role must be one of ${ORGANIZATION_ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    const organization = await organizationService.getForMember(id, session.user.id, ['OWNER']);
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found or access denied' }, { status: 404 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { githubLogin }
+    });
+    if (!user) {
+      return NextResponse.json({ error: `No user has signed in as ${githubLogin}` }, { status: 404 });
+    }
+
+    let member;
+    try {
+      member = await organizationService.setMember(id, user.id, role as OrganizationRole);
+    } catch (memberError) {
+      return NextResponse.json(
+        { error: memberError instanceof Error ? memberError.message : 'Failed to set member' },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'ORGANIZATION_MEMBER_SET',
+      id,
+      { userId: user.id, githubLogin, role }
+    );
+
+    return NextResponse.json({
+      success: true,
+      member: { userId: member.userId, githubLogin, email: user.email, role: member.role }
+    });
+  } catch (error) {
+    console.error('Error setting organization member:', error);
+    return NextResponse.json(
+      { error: 'Failed to set organization member' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    // Owners remove anyone; everyone else can only leave
+    const organization = await organizationService.getForMember(
+      id,
+      session.user.id,
+      userId === session.user.id ? undefined : ['OWNER']
+    );
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found or access denied' }, { status: 404 });
+    }
+
+    if (!organization.members.some(member => member.userId === userId)) {
+      return NextResponse.json({ error: 'User is not a member of this organization' }, { status: 404 });
+    }
+
+    try {
+      await organizationService.removeMember(id, userId);
+    } catch (memberError) {
+      return NextResponse.json(
+        { error: memberError instanceof Error ? memberError.message : 'Failed to remove member' },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'ORGANIZATION_MEMBER_REMOVED',
+      id,
+      { userId }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing organization member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove organization member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * API route for updating and deleting an organization
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import {
+  organizationService,
+  parseRepoBudgetShares,
+  validateOrganization,
+  MANAGING_ROLES,
+  OrganizationInput
+} from '@/lib/organizations';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body: OrganizationInput & { repositoryIds?: string[] } = await request.json();
+    const { repositoryIds, ...changes } = body;
+
+    const organization = await organizationService.getForMember(id, session.user.id, MANAGING_ROLES);
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found or access denied' }, { status: 404 });
+    }
+
+    // Managers may change the repositories; the envelope and identity are the owners'
+    const isOwner = organization.members.some(member =>
+      member.userId === session.user.id && member.role === 'OWNER'
+    );
+    if (!isOwner && Object.keys(changes).length > 0) {
+      return NextResponse.json({ error: 'Only organization owners can change its settings' }, { status: 403 });
+    }
+
+    const errors = validateOrganization({
+      ...changes,
+      monthlyBudgetUsd: changes.monthlyBudgetUsd ?? organization.monthlyBudgetUsd,
+      repoBudgetShares: changes.repoBudgetShares ?? parseRepoBudgetShares(organization.repoBudgetShares)
+    });
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid organization', details: errors }, { status: 400 });
+    }
+
+    if (repositoryIds) {
+      try {
+        await organizationService.setRepositories(id, session.user.id, repositoryIds);
+      } catch (repoError) {
+        return NextResponse.json(
+          { error: repoError instanceof Error ? repoError.message : 'Failed to update repositories' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await organizationService.updateOrganization(id, changes);
+
+    await createAuditLog(
+      session.user.id,
+      'ORGANIZATION_UPDATED',
+      id,
+      { ...changes, repositoryIds }
+    );
+
+    return NextResponse.json({
+      success: true,
+      organization: {
+        ...updated,
+        repoBudgetShares: parseRepoBudgetShares(updated.repoBudgetShares),
+        envelope: await organizationService.getBudgetEnvelope(id)
+      }
+    });
+  } catch (error) {
+    console.error('Error updating organization:', error);
+    return NextResponse.json(
+      { error: 'Failed to update organization' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const organization = await organizationService.getForMember(id, session.user.id, ['OWNER']);
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found or access denied' }, { status: 404 });
+    }
+
+    // Repositories and past runs stay; they only lose the organization
+    await prisma.organization.delete({
+      where: { id }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'ORGANIZATION_DELETED',
+      id,
+      { name: organization.name, repositories: organization.repositories.map(repo => repo.fullName) }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting organization:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete organization' },
+      { status: 500 }
+    );
+  }
+}
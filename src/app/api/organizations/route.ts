@@ -0,0 +1,95 @@
+/**
+ * API route for organizations grouping repositories under one budget envelope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import {
+  organizationService,
+  parseRepoBudgetShares,
+  validateOrganization,
+  OrganizationInput
+} from '@/lib/organizations';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizations = await organizationService.listForUser(session.user.id);
+
+    return NextResponse.json({
+      organizations: await Promise.all(organizations.map(async organization => ({
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        githubOrg: organization.githubOrg,
+        monthlyBudgetUsd: organization.monthlyBudgetUsd,
+        defaultAsset: organization.defaultAsset,
+        repoBudgetShares: parseRepoBudgetShares(organization.repoBudgetShares),
+        role: organization.members.find(member => member.userId === session.user.id)?.role,
+        members: organization.members.map(member => ({
+          userId: member.userId,
+          githubLogin: member.user.githubLogin,
+          email: member.user.email,
+          role: member.role
+        })),
+        repositories: organization.repositories,
+        envelope: await organizationService.getBudgetEnvelope(organization.id)
+      })))
+    });
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch organizations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: OrganizationInput = await request.json();
+
+    const errors = validateOrganization({ ...body, name: body.name ?? '' });
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid organization', details: errors }, { status: 400 });
+    }
+
+    let organization;
+    try {
+      organization = await organizationService.createOrganization(session.user.id, body);
+    } catch (createError) {
+      return NextResponse.json(
+        { error: createError instanceof Error ? createError.message : 'Failed to create organization' },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'ORGANIZATION_CREATED',
+      organization.id,
+      { name: organization.name, slug: organization.slug, githubOrg: organization.githubOrg, monthlyBudgetUsd: organization.monthlyBudgetUsd }
+    );
+
+    return NextResponse.json({
+      success: true,
+      organization
+    });
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    return NextResponse.json(
+      { error: 'Failed to create organization' },
+      { status: 500 }
+    );
+  }
+}
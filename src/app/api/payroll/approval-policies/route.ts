@@ -0,0 +1,296 @@
+/**
+ * API route for M-of-N payroll approval policies
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import type { ApprovalPolicy } from '@prisma/client';
+import { validateApprovalPolicy, parseApproverIds, ApprovalPolicyInput } from '@/lib/run-approval';
+import { managedRepositoryFilter, MANAGING_ROLES } from '@/lib/organizations';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await getManagedScope(session.user.id);
+
+    const policies = await prisma.approvalPolicy.findMany({
+      where: {
+        OR: [
+          { repositoryId: { in: scope.repositoryIds } },
+          { organizationId: { in: scope.organizationIds } }
+        ]
+      },
+      include: {
+        repository: {
+          select: { fullName: true }
+        },
+        organization: {
+          select: { name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({
+      policies: policies.map(formatPolicy)
+    });
+  } catch (error) {
+    console.error('Error fetching approval policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval policies' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: ApprovalPolicyInput = await request.json();
+
+    const errors = await validatePolicyForUser(session.user.id, body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid approval policy', details: errors }, { status: 400 });
+    }
+
+    const policy = await prisma.approvalPolicy.create({
+      data: {
+        name: body.name!,
+        repositoryId: body.repositoryId || null,
+        organizationId: body.organizationId || null,
+        minRunUsd: body.minRunUsd ?? 0,
+        requiredApprovals: body.requiredApprovals!,
+        approverIds: JSON.stringify(body.approverIds),
+        createdById: session.user.id
+      },
+      include: {
+        repository: {
+          select: { fullName: true }
+        },
+        organization: {
+          select: { name: true }
+        }
+      }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'APPROVAL_POLICY_CREATED',
+      policy.id,
+      body
+    );
+
+    return NextResponse.json({
+      success: true,
+      policy: formatPolicy(policy)
+    });
+  } catch (error) {
+    console.error('Error creating approval policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create approval policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { id, active, ...changes } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'Policy ID is required' }, { status: 400 });
+    }
+
+    const existing = await findManagedPolicy(session.user.id, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Approval policy not found or access denied' }, { status: 404 });
+    }
+
+    const merged: ApprovalPolicyInput = {
+      name: changes.name ?? existing.name,
+      repositoryId: changes.repositoryId !== undefined ? changes.repositoryId : existing.repositoryId,
+      organizationId: changes.organizationId !== undefined ? changes.organizationId : existing.organizationId,
+      minRunUsd: changes.minRunUsd ?? existing.minRunUsd,
+      requiredApprovals: changes.requiredApprovals ?? existing.requiredApprovals,
+      approverIds: changes.approverIds ?? parseApproverIds(existing.approverIds)
+    };
+
+    const errors = await validatePolicyForUser(session.user.id, merged);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid approval policy', details: errors }, { status: 400 });
+    }
+
+    const policy = await prisma.approvalPolicy.update({
+      where: { id },
+      data: {
+        name: merged.name,
+        repositoryId: merged.repositoryId || null,
+        organizationId: merged.organizationId || null,
+        minRunUsd: merged.minRunUsd,
+        requiredApprovals: merged.requiredApprovals,
+        approverIds: JSON.stringify(merged.approverIds),
+        active: active !== undefined ? active : existing.active
+      },
+      include: {
+        repository: {
+          select: { fullName: true }
+        },
+        organization: {
+          select: { name: true }
+        }
+      }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'APPROVAL_POLICY_UPDATED',
+      id,
+      { ...merged, active: policy.active }
+    );
+
+    return NextResponse.json({
+      success: true,
+      policy: formatPolicy(policy)
+    });
+  } catch (error) {
+    console.error('Error updating approval policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update approval policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Policy ID is required' }, { status: 400 });
+    }
+
+    const policy = await findManagedPolicy(session.user.id, id);
+    if (!policy) {
+      return NextResponse.json({ error: 'Approval policy not found or access denied' }, { status: 404 });
+    }
+
+    await prisma.approvalPolicy.delete({
+      where: { id }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'APPROVAL_POLICY_DELETED',
+      id,
+      { name: policy.name, repositoryId: policy.repositoryId, organizationId: policy.organizationId }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting approval policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete approval policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Repositories and organizations the user manages
+ */
+async function getManagedScope(userId: string) {
+  const [repositories, memberships] = await Promise.all([
+    prisma.repository.findMany({
+      where: managedRepositoryFilter(userId),
+      select: { id: true }
+    }),
+    prisma.organizationMember.findMany({
+      where: { userId, role: { in: MANAGING_ROLES } },
+      select: { organizationId: true }
+    })
+  ]);
+
+  return {
+    repositoryIds: repositories.map(repo => repo.id),
+    organizationIds: memberships.map(membership => membership.organizationId)
+  };
+}
+
+async function findManagedPolicy(userId: string, id: string) {
+  const scope = await getManagedScope(userId);
+  return prisma.approvalPolicy.findFirst({
+    where: {
+      id,
+      OR: [
+        { repositoryId: { in: scope.repositoryIds } },
+        { organizationId: { in: scope.organizationIds } }
+      ]
+    }
+  });
+}
+
+async function validatePolicyForUser(userId: string, policy: ApprovalPolicyInput): Promise<string[]> {
+  const errors = validateApprovalPolicy(policy);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const scope = await getManagedScope(userId);
+  if (policy.repositoryId && !scope.repositoryIds.includes(policy.repositoryId)) {
+    errors.push('Repository not found or access denied');
+  }
+  if (policy.organizationId && !scope.organizationIds.includes(policy.organizationId)) {
+    errors.push('Organization not found or access denied');
+  }
+
+  const approvers = await prisma.user.count({
+    where: { id: { in: policy.approverIds } }
+  });
+  if (approvers !== policy.approverIds!.length) {
+    errors.push('One or more approvers do not exist');
+  }
+
+  return errors;
+}
+
+function formatPolicy(policy: ApprovalPolicy & {
+  repository?: { fullName: string } | null;
+  organization?: { name: string } | null;
+}) {
+  return {
+    id: policy.id,
+    name: policy.name,
+    repositoryId: policy.repositoryId,
+    repository: policy.repository?.fullName || null,
+    organizationId: policy.organizationId,
+    organization: policy.organization?.name || null,
+    minRunUsd: policy.minRunUsd,
+    requiredApprovals: policy.requiredApprovals,
+    approverIds: parseApproverIds(policy.approverIds),
+    active: policy.active,
+    createdAt: policy.createdAt,
+    updatedAt: policy.updatedAt
+  };
+}
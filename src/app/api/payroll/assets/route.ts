@@ -0,0 +1,174 @@
+/**
+ * API route for the payout asset registry
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import type { PayoutAsset } from '@prisma/client';
+import { assetRegistry, validateAssetInput, AssetInput } from '@/lib/assets';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const network = searchParams.get('network') || undefined;
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const assets = await assetRegistry.listAssets(network, includeInactive);
+
+    return NextResponse.json({
+      assets: assets.map(formatAsset)
+    });
+  } catch (error) {
+    console.error('Error fetching payout assets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payout assets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: AssetInput = await request.json();
+    const input: AssetInput = { ...body, symbol: body.symbol?.toUpperCase() };
+
+    const errors = validateAssetInput(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid asset', details: errors }, { status: 400 });
+    }
+
+    const existing = await prisma.payoutAsset.findUnique({
+      where: { symbol_network: { symbol: input.symbol!, network: input.network! } }
+    });
+    if (existing) {
+      return NextResponse.json({ error: `${input.symbol} is already registered on ${input.network}` }, { status: 409 });
+    }
+
+    let asset: PayoutAsset;
+    try {
+      asset = await assetRegistry.registerAsset(input, session.user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Could not read token decimals', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'PAYOUT_ASSET_REGISTERED',
+      asset.id,
+      formatAsset(asset)
+    );
+
+    return NextResponse.json({
+      success: true,
+      asset: formatAsset(asset)
+    });
+  } catch (error) {
+    console.error('Error registering payout asset:', error);
+    return NextResponse.json(
+      { error: 'Failed to register payout asset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, active, name, priceSource, priceFeedId, coingeckoId, pegged } = await request.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'Asset ID is required' }, { status: 400 });
+    }
+
+    const existing = await prisma.payoutAsset.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Payout asset not found' }, { status: 404 });
+    }
+
+    // Token identity and decimals are fixed once registered
+    const merged: AssetInput = {
+      symbol: existing.symbol,
+      name: name ?? existing.name,
+      network: existing.network,
+      kind: existing.kind as AssetInput['kind'],
+      tokenId: existing.tokenId,
+      contractAddress: existing.contractAddress,
+      priceSource: priceSource ?? existing.priceSource,
+      priceFeedId: priceFeedId !== undefined ? priceFeedId : existing.priceFeedId,
+      coingeckoId: coingeckoId !== undefined ? coingeckoId : existing.coingeckoId,
+      pegged: pegged ?? existing.pegged
+    };
+
+    const errors = validateAssetInput(merged);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid asset', details: errors }, { status: 400 });
+    }
+
+    const asset = await prisma.payoutAsset.update({
+      where: { id },
+      data: {
+        name: merged.name,
+        priceSource: merged.pegged ? 'PEGGED' : merged.priceSource,
+        priceFeedId: merged.pegged ? null : merged.priceFeedId,
+        coingeckoId: merged.coingeckoId || null,
+        pegged: merged.pegged === true,
+        active: active !== undefined ? active : existing.active
+      }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'PAYOUT_ASSET_UPDATED',
+      id,
+      formatAsset(asset)
+    );
+
+    return NextResponse.json({
+      success: true,
+      asset: formatAsset(asset)
+    });
+  } catch (error) {
+    console.error('Error updating payout asset:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payout asset' },
+      { status: 500 }
+    );
+  }
+}
+
+function formatAsset(asset: PayoutAsset) {
+  return {
+    id: asset.id,
+    symbol: asset.symbol,
+    name: asset.name,
+    network: asset.network,
+    kind: asset.kind,
+    tokenId: asset.tokenId,
+    contractAddress: asset.contractAddress,
+    decimals: asset.decimals,
+    priceSource: asset.priceSource,
+    priceFeedId: asset.priceFeedId,
+    coingeckoId: asset.coingeckoId,
+    pegged: asset.pegged,
+    active: asset.active
+  };
+}
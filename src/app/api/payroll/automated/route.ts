@@ -0,0 +1,200 @@
+/**
+ * API route for automated payroll rules on a repository or a whole organization
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getDistributionStrategy } from '@/lib/distribution';
+import { managedRepositoryFilter, MANAGING_ROLES } from '@/lib/organizations';
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+
+interface AutomatedPayrollInput {
+  repositoryId?: string | null;
+  organizationId?: string | null;
+  ruleName?: string;
+  frequency?: string;
+  distributionRule?: string;
+  minimumAmount?: number;
+  maximumAmount?: number | null;
+  enabled?: boolean;
+  configuration?: Record<string, unknown>;
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await prisma.automatedPayroll.findMany({
+      where: managedRuleFilter(session.user.id),
+      include: {
+        repository: { select: { fullName: true } },
+        organization: { select: { name: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({
+      rules: rules.map(rule => ({
+        ...rule,
+        repository: rule.repository?.fullName || null,
+        organization: rule.organization?.name || null,
+        configuration: JSON.parse(rule.configuration || '{}')
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching automated payroll rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch automated payroll rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: AutomatedPayrollInput = await request.json();
+
+    const errors = await validateRuleForUser(session.user.id, body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid automated payroll rule', details: errors }, { status: 400 });
+    }
+
+    const rule = await prisma.automatedPayroll.create({
+      data: {
+        repositoryId: body.repositoryId || null,
+        organizationId: body.organizationId || null,
+        ruleName: body.ruleName || 'default',
+        frequency: body.frequency || 'weekly',
+        distributionRule: body.distributionRule || 'PR_COUNT_PROPORTIONAL',
+        minimumAmount: body.minimumAmount ?? 0,
+        maximumAmount: body.maximumAmount ?? null,
+        enabled: body.enabled === true,
+        configuration: JSON.stringify(body.configuration || {})
+      }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'AUTOMATED_PAYROLL_CREATED',
+      rule.id,
+      body
+    );
+
+    return NextResponse.json({
+      success: true,
+      rule
+    });
+  } catch (error) {
+    console.error('Error creating automated payroll rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create automated payroll rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
+    }
+
+    const rule = await prisma.automatedPayroll.findFirst({
+      where: { id, ...managedRuleFilter(session.user.id) }
+    });
+    if (!rule) {
+      return NextResponse.json({ error: 'Automated payroll rule not found or access denied' }, { status: 404 });
+    }
+
+    await prisma.automatedPayroll.delete({
+      where: { id }
+    });
+
+    await createAuditLog(
+      session.user.id,
+      'AUTOMATED_PAYROLL_DELETED',
+      id,
+      { ruleName: rule.ruleName, repositoryId: rule.repositoryId, organizationId: rule.organizationId }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting automated payroll rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete automated payroll rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rules on repositories or organizations the user manages
+ */
+function managedRuleFilter(userId: string) {
+  return {
+    OR: [
+      { repository: managedRepositoryFilter(userId) },
+      { organization: { members: { some: { userId, role: { in: MANAGING_ROLES } } } } }
+    ]
+  };
+}
+
+async function validateRuleForUser(userId: string, rule: AutomatedPayrollInput): Promise<string[]> {
+  const errors: string[] = [];
+
+  if (!rule.repositoryId === !rule.organizationId) {
+    errors.push('A rule targets either a repository or an organization');
+  }
+  if (rule.frequency && !FREQUENCIES.includes(rule.frequency)) {
+    errors.push(`Frequency must be one of ${FREQUENCIES.join(', ')}`);
+  }
+  if (rule.distributionRule && !getDistributionStrategy(rule.distributionRule)) {
+    errors.push(`Unknown distribution rule: ${rule.distributionRule}`);
+  }
+  if (rule.minimumAmount !== undefined && !(rule.minimumAmount >= 0)) {
+    errors.push('Minimum amount cannot be negative');
+  }
+  if (rule.maximumAmount != null && !(rule.maximumAmount >= (rule.minimumAmount ?? 0))) {
+    errors.push('Maximum amount must be at least the minimum amount');
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (rule.repositoryId) {
+    const repository = await prisma.repository.findFirst({
+      where: { id: rule.repositoryId, ...managedRepositoryFilter(userId) }
+    });
+    if (!repository) {
+      errors.push('Repository not found or access denied');
+    }
+  } else {
+    const membership = await prisma.organizationMember.findFirst({
+      where: { organizationId: rule.organizationId!, userId, role: { in: MANAGING_ROLES } }
+    });
+    if (!membership) {
+      errors.push('Organization not found or access denied');
+    }
+  }
+
+  return errors;
+}
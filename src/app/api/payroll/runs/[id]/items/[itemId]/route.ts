@@ -0,0 +1,115 @@
+/**
+ * Payroll Run Item Adjustment API
+ * Excludes, re-weights or reassigns a PR on a PREVIEW_READY run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { runAdjustmentService, RunItemAdjustment } from '@/lib/run-adjustments';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, itemId } = await params;
+    const { action, weight, authorLogin, reason } = await request.json();
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ error: 'A reason is required for manual adjustments' }, { status: 400 });
+    }
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    if (run.status !== 'PREVIEW_READY') {
+      return NextResponse.json(
+        { error: `Run items can only be adjusted while the run is PREVIEW_READY (current: ${run.status})` },
+        { status: 400 }
+      );
+    }
+
+    let adjustment: RunItemAdjustment;
+    switch (action) {
+      case 'exclude':
+      case 'include':
+        adjustment = { type: 'exclude', excluded: action === 'exclude' };
+        break;
+
+      case 'weight':
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+          return NextResponse.json({ error: 'Weight must be a non-negative number' }, { status: 400 });
+        }
+        adjustment = { type: 'weight', weight };
+        break;
+
+      case 'reassign':
+        if (!authorLogin || typeof authorLogin !== 'string') {
+          return NextResponse.json({ error: 'Co-author GitHub login is required' }, { status: 400 });
+        }
+        adjustment = { type: 'reassign', authorLogin: authorLogin.trim().replace(/^@/, '') };
+        break;
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    const item = await prisma.runItem.findFirst({
+      where: { id: itemId, runId: id }
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: 'Run item not found' }, { status: 404 });
+    }
+
+    // Co-authored PRs have an item per credited author
+    if (adjustment.type === 'reassign') {
+      const credited = await prisma.runItem.findFirst({
+        where: { runId: id, repo: item.repo, prNumber: item.prNumber, authorLogin: adjustment.authorLogin }
+      });
+      if (credited) {
+        return NextResponse.json(
+          { error: `${adjustment.authorLogin} is already credited for ${item.repo}#${item.prNumber}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await runAdjustmentService.adjustRunItem(
+      session.user.id,
+      id,
+      itemId,
+      adjustment,
+      reason.trim()
+    );
+
+    return NextResponse.json({
+      success: true,
+      previewHash: result.previewHash,
+      summary: {
+        totalPrCount: result.totalPrCount,
+        totalPayouts: result.totalPayouts,
+        totalDistribution: result.totalDistribution
+      },
+      warnings: result.warnings
+    });
+  } catch (error) {
+    console.error('Error adjusting run item:', error);
+    return NextResponse.json(
+      { error: 'Failed to adjust run item', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
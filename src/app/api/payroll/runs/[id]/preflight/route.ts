@@ -0,0 +1,49 @@
+/**
+ * Payroll Run Treasury Pre-flight API
+ * Re-checks that the treasury can cover a run's unpaid payouts plus fees
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { createHederaService } from '@/lib/hedera';
+import { createTreasuryService } from '@/lib/treasury';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    const treasuryService = createTreasuryService(createHederaService({
+      network: run.environment as 'testnet' | 'mainnet'
+    }));
+    const preflight = await treasuryService.preflightRun(run.id);
+
+    return NextResponse.json({
+      success: true,
+      preflight
+    });
+  } catch (error) {
+    console.error('Error running treasury pre-flight:', error);
+    return NextResponse.json(
+      { error: 'Failed to run treasury pre-flight', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
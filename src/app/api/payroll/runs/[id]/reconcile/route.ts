@@ -0,0 +1,112 @@
+/**
+ * Payroll Run Reconciliation API
+ * Compares a run's recorded payouts with the treasury's on-chain transfers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { createHederaService } from '@/lib/hedera';
+import { createReconciliationService } from '@/lib/reconciliation';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id },
+      include: {
+        artifacts: {
+          where: { type: 'reconciliation' },
+          orderBy: { createdAt: 'desc' }
+        }
+      }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      reconciliationStatus: run.reconciliationStatus,
+      reconciledAt: run.reconciledAt,
+      summary: JSON.parse(run.reconciliationSummary || '{}'),
+      reports: run.artifacts.map(artifact => ({
+        id: artifact.id,
+        filename: artifact.filename,
+        cid: artifact.cid,
+        size: artifact.size,
+        createdAt: artifact.createdAt
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching payroll run reconciliation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll run reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    if (!['EXECUTING', 'COMPLETED', 'FAILED'].includes(run.status)) {
+      return NextResponse.json({ error: 'Only executed runs can be reconciled' }, { status: 400 });
+    }
+
+    const hederaService = createHederaService({
+      network: run.environment as 'testnet' | 'mainnet'
+    });
+    const report = await createReconciliationService(hederaService).reconcileRun(run.id);
+
+    await createAuditLog(
+      session.user.id,
+      'PAYROLL_RUN_RECONCILED',
+      run.id,
+      {
+        hasDiscrepancies: report.hasDiscrepancies,
+        verified: report.verified,
+        summary: report.summary,
+        artifactCid: report.artifactCid
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    console.error('Error reconciling payroll run:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile payroll run', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
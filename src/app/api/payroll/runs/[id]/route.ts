@@ -5,8 +5,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { authOptions, verifyUserAccess } from '@/lib/auth';
+import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { runApprovalService, parseApproverIds, parseRequoteResult } from '@/lib/run-approval';
+import { parseScheduleConfig } from '@/lib/scheduled-payouts';
+import { parsePreflightResult } from '@/lib/treasury';
+import { pythPriceService } from '@/lib/pyth';
+import { describePricing } from '@/lib/price-history';
+import { ACTIVITY_LABELS, ActivityKind } from '@/lib/github';
+import { DistributionConfig, RepositoryBreakdown, summarizeRepositories } from '@/lib/distribution';
 
 export async function GET(
   request: NextRequest,
@@ -18,19 +25,12 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const { id } = await params;
 
-    // Get specific payroll run by ID
+    // Get specific payroll run by ID; the API middleware checked the
+    // caller may view its repositories or organization
     const run = await prisma.payrollRun.findFirst({
-      where: {
-        id,
-        createdById: session.user.id
-      },
+      where: { id },
       include: {
         payouts: {
           include: {
@@ -38,13 +38,33 @@ export async function GET(
               include: {
                 user: true
               }
+            },
+            legs: {
+              orderBy: { symbol: 'asc' }
             }
           }
         },
         runItems: {
           orderBy: { mergedAt: 'desc' }
         },
-        artifacts: true
+        activityItems: {
+          orderBy: { occurredAt: 'desc' }
+        },
+        artifacts: true,
+        approvals: {
+          orderBy: { approvedAt: 'asc' }
+        },
+        schedules: {
+          orderBy: { createdAt: 'asc' }
+        },
+        batches: {
+          orderBy: { batchNumber: 'asc' }
+        },
+        reservations: { orderBy: { createdAt: 'asc' } },
+        ledgerEntries: {
+          include: { contributor: true },
+          orderBy: { createdAt: 'asc' }
+        }
       }
     });
 
@@ -62,6 +82,13 @@ export async function GET(
       }
     });
 
+    const priceSnapshot = pythPriceService.parseStoredSnapshot(run.priceSnapshot);
+    const distributionConfig = JSON.parse(run.distributionConfig || '{}') as Partial<DistributionConfig>;
+    const payoutBreakdowns = new Map(run.payouts.map(payout => [
+      payout.id,
+      JSON.parse(payout.repoBreakdown || '[]') as RepositoryBreakdown[]
+    ]));
+
     return NextResponse.json({
       run: {
         id: run.id,
@@ -70,9 +97,100 @@ export async function GET(
         environment: run.environment,
         startDate: run.startDate,
         endDate: run.endDate,
+        prDataAsOf: run.prDataAsOf,
         distributionMode: run.distributionMode,
         usdBudget: run.usdBudget,
         asset: run.asset,
+        previewHash: run.previewHash,
+        approval: run.approvedAt ? {
+          approvedById: run.approvedById,
+          approvedAt: run.approvedAt,
+          approvedHash: run.approvedHash,
+          signature: run.approvalSignature
+        } : null,
+        approvals: {
+          policyId: run.approvalPolicyId,
+          requiredApprovals: run.requiredApprovals,
+          approverIds: parseApproverIds(run.approverIds),
+          canApprove: runApprovalService.canApprove(run, session.user.id),
+          signatures: run.approvals.map(approval => ({
+            approverId: approval.approverId,
+            previewHash: approval.previewHash,
+            approvedAt: approval.approvedAt,
+            current: approval.previewHash === run.previewHash
+          }))
+        },
+        executionMode: run.executionMode,
+        allowIndividualFallback: run.allowIndividualFallback,
+        batches: run.batches.map(batch => ({
+          id: batch.id,
+          batchNumber: batch.batchNumber,
+          payoutIds: JSON.parse(batch.payoutIds || '[]'),
+          totalAmount: batch.totalAmount,
+          txId: batch.txId,
+          status: batch.status,
+          error: batch.error,
+          submittedAt: batch.submittedAt,
+          confirmedAt: batch.confirmedAt
+        })),
+        scheduleConfig: parseScheduleConfig(run.scheduleConfig),
+        schedules: run.schedules.map(schedule => ({
+          id: schedule.id,
+          scheduleId: schedule.scheduleId,
+          status: schedule.status,
+          payoutIds: JSON.parse(schedule.payoutIds || '[]'),
+          requiredSigners: JSON.parse(schedule.requiredSigners || '[]'),
+          collectedSigners: JSON.parse(schedule.collectedSigners || '[]'),
+          expiresAt: schedule.expiresAt,
+          executedAt: schedule.executedAt,
+          lastCheckedAt: schedule.lastCheckedAt,
+          error: schedule.error
+        })),
+        pricing: {
+          method: run.pricingMethod,
+          price: priceSnapshot.price,
+          description: describePricing(priceSnapshot)
+        },
+        requote: {
+          policy: run.requotePolicy,
+          tolerancePercent: run.priceTolerancePercent,
+          result: parseRequoteResult(run.requoteResult),
+          approvedPriceSnapshot: run.approvedPriceSnapshot
+            ? pythPriceService.parseStoredSnapshot(run.approvedPriceSnapshot)
+            : null,
+          executionPriceSnapshot: run.executionPriceSnapshot
+            ? pythPriceService.parseStoredSnapshot(run.executionPriceSnapshot)
+            : null
+        },
+        preflight: parsePreflightResult(run.preflightResult),
+        reservations: run.reservations.map(reservation => ({
+          status: reservation.status,
+          treasuryAccountId: reservation.treasuryAccountId,
+          asset: reservation.asset,
+          amount: reservation.amount,
+          feeAmount: reservation.feeAmount,
+          createdAt: reservation.createdAt,
+          releasedAt: reservation.releasedAt
+        })),
+        reconciliation: {
+          status: run.reconciliationStatus,
+          reconciledAt: run.reconciledAt,
+          summary: JSON.parse(run.reconciliationSummary || '{}')
+        },
+        carryForward: {
+          accruedUsd: run.ledgerEntries
+            .filter(entry => entry.kind === 'ACCRUED')
+            .reduce((sum, entry) => sum + entry.usdAmount, 0),
+          carriedInUsd: run.payouts.reduce((sum, payout) => sum + payout.carriedInUsd, 0),
+          redistributedUsd: run.payouts.reduce((sum, payout) => sum + Math.max(0, payout.redistributedUsd), 0),
+          accrued: run.ledgerEntries
+            .filter(entry => entry.kind === 'ACCRUED')
+            .map(entry => ({
+              contributorId: entry.contributorId,
+              githubHandle: entry.contributor.githubHandle || 'unknown',
+              usdAmount: entry.usdAmount
+            }))
+        },
         totalPrCount: run.totalPrCount,
         totalPayouts: run.totalPayouts,
         successfulPayouts: run.successfulPayouts,
@@ -86,6 +204,13 @@ export async function GET(
           name: r.name,
           fullName: r.fullName
         })),
+        repoSubtotals: distributionConfig.repositoryBudgets?.length
+          ? summarizeRepositories(
+              distributionConfig.repositoryBudgets,
+              run.usdBudget,
+              Array.from(payoutBreakdowns.values())
+            )
+          : null,
         payouts: run.payouts.map(payout => ({
           id: payout.id,
           contributorId: payout.contributorId,
@@ -95,9 +220,28 @@ export async function GET(
           nativeAmount: payout.nativeAmount,
           status: payout.status,
           txId: payout.txId,
+          scheduleId: payout.scheduleId,
           error: payout.error,
           submittedAt: payout.submittedAt,
           confirmedAt: payout.confirmedAt,
+          carriedInUsd: payout.carriedInUsd,
+          redistributedUsd: payout.redistributedUsd,
+          repoBreakdown: payoutBreakdowns.get(payout.id) || [],
+          assetPercent: payout.assetPercent,
+          legs: payout.legs.map(leg => ({
+            id: leg.id,
+            symbol: leg.symbol,
+            asset: leg.asset,
+            percent: leg.percent,
+            usdAmount: leg.usdAmount,
+            nativeAmount: leg.nativeAmount,
+            decimals: leg.decimals,
+            price: pythPriceService.parseStoredSnapshot(leg.priceSnapshot).price,
+            status: leg.status,
+            txId: leg.txId,
+            error: leg.error,
+            confirmedAt: leg.confirmedAt
+          })),
           contributor: {
             githubHandle: payout.contributor.githubHandle || payout.contributor.user?.githubLogin || 'unknown',
             hederaAccountId: payout.contributor.hederaAccountId
@@ -112,7 +256,25 @@ export async function GET(
           title: item.title,
           linesAdded: item.linesAdded,
           linesDeleted: item.linesDeleted,
-          filesChanged: item.filesChanged
+          filesChanged: item.filesChanged,
+          weight: item.weight,
+          weightRule: item.weightRule,
+          creditShare: item.creditShare,
+          excluded: item.excluded,
+          originalAuthorLogin: item.originalAuthorLogin,
+          overrideReason: item.overrideReason
+        })),
+        activityItems: run.activityItems.map(item => ({
+          id: item.id,
+          kind: item.kind,
+          label: ACTIVITY_LABELS[item.kind as ActivityKind] || item.kind,
+          repo: item.repo,
+          number: item.number,
+          actorLogin: item.actorLogin,
+          title: item.title,
+          url: item.url,
+          occurredAt: item.occurredAt,
+          points: item.points
         })),
         artifacts: run.artifacts.map(artifact => ({
           id: artifact.id,
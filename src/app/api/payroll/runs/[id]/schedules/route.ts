@@ -0,0 +1,120 @@
+/**
+ * Payroll Run Schedules API
+ * Lists the Hedera schedules of a SCHEDULED run and syncs their state from the network
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { createHederaService } from '@/lib/hedera';
+import { lighthouseService } from '@/lib/lighthouse';
+import { createPayrollExecutionService } from '@/lib/execution';
+import { createScheduledPayoutService } from '@/lib/scheduled-payouts';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    const hederaService = createHederaService({
+      network: run.environment as 'testnet' | 'mainnet'
+    });
+    const schedules = await createScheduledPayoutService(hederaService).getRunSchedules(run.id);
+
+    return NextResponse.json({
+      executionMode: run.executionMode,
+      schedules
+    });
+  } catch (error) {
+    console.error('Error fetching payroll run schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll run schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 });
+    }
+
+    if (run.executionMode !== 'SCHEDULED') {
+      return NextResponse.json({ error: 'Run does not use scheduled execution' }, { status: 400 });
+    }
+
+    const hederaService = createHederaService({
+      network: run.environment as 'testnet' | 'mainnet'
+    });
+
+    const executionService = createPayrollExecutionService({
+      runId: run.id,
+      environment: run.environment as 'testnet' | 'mainnet',
+      hederaService,
+      lighthouseService,
+      maxRetries: 3,
+      retryDelay: 2000
+    });
+
+    const { execution, sync } = await executionService.syncScheduledPayouts();
+
+    if (execution.status === 'COMPLETED' && run.status !== 'COMPLETED') {
+      await createAuditLog(
+        session.user.id,
+        'PAYROLL_RUN_SCHEDULES_SETTLED',
+        run.id,
+        {
+          confirmedPayouts: sync.confirmedPayouts,
+          failedPayouts: sync.failedPayouts,
+          schedules: sync.schedules.map(s => ({ scheduleId: s.scheduleId, status: s.status }))
+        }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: execution.status,
+      settled: sync.settled,
+      confirmedPayouts: sync.confirmedPayouts,
+      failedPayouts: sync.failedPayouts,
+      schedules: sync.schedules
+    });
+  } catch (error) {
+    console.error('Error syncing payroll run schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync payroll run schedules' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,14 +4,27 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { authOptions, verifyUserAccess, createAuditLog } from '@/lib/auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
 import { prisma } from '@/lib/db';
-import { createGitHubService } from '@/lib/github';
+import { createGitHubService, creditActivities, ContributorActivity, ContributorStats, PRSearchParams } from '@/lib/github';
+import { prCacheService } from '@/lib/pr-cache';
+import { identityService } from '@/lib/identity';
 import { pythPriceService } from '@/lib/pyth';
-import { distributionService } from '@/lib/distribution';
+import { distributionService, DistributionConfig, ContributorDistribution, DEFAULT_ACTIVITY_POINTS } from '@/lib/distribution';
 import { createHederaService } from '@/lib/hedera';
 import { lighthouseService } from '@/lib/lighthouse';
-import { createPayrollExecutionService } from '@/lib/execution';
+import { createPayrollExecutionService, storedPayoutPreview } from '@/lib/execution';
+import { parseWeightingRules, DEFAULT_WEIGHT_RULE } from '@/lib/weighting';
+import { runApprovalService } from '@/lib/run-approval';
+import { validateScheduleConfig } from '@/lib/scheduled-payouts';
+import { createTreasuryService, PreflightResult } from '@/lib/treasury';
+import { assetRegistry, getTransferAsset } from '@/lib/assets';
+import { priceHistoryService, validatePricingConfig } from '@/lib/price-history';
+import { validateRequoteConfig } from '@/lib/price-requote';
+import { payoutSplitService } from '@/lib/payout-splits';
+import { payoutLedgerService } from '@/lib/payout-ledger';
+import { organizationService, managedRepositoryFilter, OrganizationRunScope, ENVELOPE_EXCEEDED } from '@/lib/organizations';
+import { rbacService } from '@/lib/rbac';
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,19 +33,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
 
-    const where: any = {
-      createdById: session.user.id
-    };
+    // Runs of the repositories and organizations the user may view
+    const where: any = await rbacService.runFilter(session.user.id, 'run:view');
 
     if (status) {
       where.status = status;
@@ -123,11 +130,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const body = await request.json();
     const {
       action,
@@ -139,40 +141,105 @@ export async function POST(request: NextRequest) {
       asset = 'HBAR',
       minPrCountThreshold = 1,
       maxShareCap,
+      labelWeights,
+      hybridWeights,
+      creditActivity = false,
+      activityPoints,
+      repositoryBudgets,
       environment = 'testnet',
+      executionMode = 'DIRECT',
+      scheduleConfig,
+      allowIndividualFallback = false,
+      pricingMethod = 'SPOT',
+      closeTime,
+      requotePolicy = 'KEEP_NATIVE',
+      priceTolerancePercent = parseFloat(process.env.PRICE_REQUOTE_TOLERANCE_PERCENT || '2'),
+      refreshCache = false,
+      organizationId, // Run for every repository of an organization
       runId // For preview/execute actions
     } = body;
 
+    // An organization run covers its active repositories and draws on what is
+    // left of its monthly envelope, split by the organization's repository shares
+    let organizationScope: OrganizationRunScope | undefined;
+    if (organizationId && (action === 'preview' || action === 'create')) {
+      try {
+        organizationScope = await organizationService.resolveRunScope(organizationId, session.user.id);
+      } catch (scopeError) {
+        return NextResponse.json(
+          { error: scopeError instanceof Error ? scopeError.message : 'Invalid organization' },
+          { status: 400 }
+        );
+      }
+
+      if (usdBudget !== undefined && usdBudget > organizationScope.usdBudget + 0.005) {
+        return NextResponse.json({
+          error: `${ENVELOPE_EXCEEDED} ($${organizationScope.usdBudget.toFixed(2)})`
+        }, { status: 400 });
+      }
+    }
+
     switch (action) {
       case 'preview':
         return await handlePreview(session.user.id, {
-          repositoryIds,
+          repositoryIds: organizationScope?.repositoryIds ?? repositoryIds,
+          organizationId: organizationScope?.organizationId,
           startDate: new Date(startDate),
           endDate: new Date(endDate),
           distributionMode,
-          usdBudget,
+          usdBudget: usdBudget ?? organizationScope?.usdBudget,
           asset,
           minPrCountThreshold,
           maxShareCap,
-          environment
+          labelWeights,
+          hybridWeights,
+          creditActivity,
+          activityPoints,
+          repositoryBudgets: repositoryBudgets ?? organizationScope?.repositoryBudgets,
+          environment,
+          executionMode,
+          scheduleConfig,
+          pricingMethod,
+          closeTime: closeTime ? new Date(closeTime) : undefined,
+          refreshCache
         });
 
       case 'create':
         return await handleCreateRun(session.user.id, {
-          repositoryIds,
+          repositoryIds: organizationScope?.repositoryIds ?? repositoryIds,
+          organizationId: organizationScope?.organizationId,
           startDate: new Date(startDate),
           endDate: new Date(endDate),
           distributionMode,
-          usdBudget,
+          usdBudget: usdBudget ?? organizationScope?.usdBudget,
           asset,
           minPrCountThreshold,
           maxShareCap,
-          environment
+          labelWeights,
+          hybridWeights,
+          creditActivity,
+          activityPoints,
+          repositoryBudgets: repositoryBudgets ?? organizationScope?.repositoryBudgets,
+          environment,
+          executionMode,
+          scheduleConfig,
+          allowIndividualFallback,
+          pricingMethod,
+          closeTime: closeTime ? new Date(closeTime) : undefined,
+          requotePolicy,
+          priceTolerancePercent,
+          refreshCache
         });
 
+      case 'approve':
+        return await handleApproveRun(session.user.id, runId);
+
       case 'execute':
         return await handleExecuteRun(session.user.id, runId);
 
+      case 'resume':
+        return await handleResumeRun(session.user.id, runId);
+
       default:
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
@@ -187,12 +254,22 @@ export async function POST(request: NextRequest) {
 
 async function handlePreview(userId: string, config: any) {
   try {
+    const pricingErrors = validatePricingConfig({
+      method: config.pricingMethod,
+      startDate: config.startDate,
+      endDate: config.endDate,
+      closeTime: config.closeTime
+    });
+    if (pricingErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid pricing configuration', details: pricingErrors }, { status: 400 });
+    }
+
     // Validate repositories belong to user
     const repositories = await prisma.repository.findMany({
       where: {
         id: { in: config.repositoryIds },
-        managerId: userId,
-        active: true
+        active: true,
+        ...managedRepositoryFilter(userId)
       }
     });
 
@@ -209,18 +286,81 @@ async function handlePreview(userId: string, config: any) {
       return NextResponse.json({ error: 'GitHub access token not found' }, { status: 400 });
     }
 
-    // Collect PR data from GitHub
     const githubService = createGitHubService(user.githubAccessToken);
-    const contributorStats = await githubService.searchMergedPRs({
+    const searchParams: PRSearchParams = {
       repos: repositories.map(r => r.fullName),
       startDate: config.startDate,
       endDate: config.endDate,
-      includeLabels: repositories.flatMap(r => JSON.parse(r.includeLabels || "[]")),
-      excludeLabels: repositories.flatMap(r => JSON.parse(r.excludeLabels || "[]"))
-    });
+      repoLabels: Object.fromEntries(repositories.map(r => [r.fullName, {
+        includeLabels: JSON.parse(r.includeLabels || "[]"),
+        excludeLabels: JSON.parse(r.excludeLabels || "[]")
+      }])),
+      weightingRules: Object.fromEntries(
+        repositories.map(r => [r.fullName, parseWeightingRules(r.weightingRules)])
+      ),
+      identity: await identityService.loadResolver(),
+      includeActivity: config.creditActivity === true
+    };
+
+    // Bring the PR cache up to date first when asked to
+    if (config.refreshCache === true) {
+      for (const repository of repositories) {
+        const result = await prCacheService.syncRepository(repository.fullName, githubService);
+        if (result.error) {
+          console.error(`PR cache refresh failed for ${repository.fullName}:`, result.error);
+        }
+      }
+    }
+
+    // Read merged PRs from the cache, crawling GitHub when it does not cover the window
+    let contributorStats: Map<string, ContributorStats>;
+    let dataAsOf: Date;
+    const cached = await prCacheService.harvest(searchParams);
+    if (cached) {
+      contributorStats = cached.contributorStats;
+      dataAsOf = cached.dataAsOf;
+      if (searchParams.includeActivity) {
+        creditActivities(contributorStats, await githubService.searchActivity(searchParams), searchParams.identity!);
+      }
+    } else {
+      dataAsOf = new Date();
+      contributorStats = await githubService.searchMergedPRs(searchParams);
+    }
 
-    // Get current price from Pyth
-    const priceSnapshot = await pythPriceService.getLatestPrice(config.asset === 'HBAR' ? 'HBAR' : config.asset);
+    // Resolve the payout asset from the registry
+    const payoutAsset = await assetRegistry.resolveAsset(config.asset, config.environment);
+    if (!payoutAsset) {
+      return NextResponse.json(
+        { error: `Asset ${config.asset} is not registered for ${config.environment}` },
+        { status: 400 }
+      );
+    }
+    if (payoutAsset.kind === 'ERC20') {
+      return NextResponse.json(
+        { error: 'ERC-20 assets cannot be paid out through Hedera transfers' },
+        { status: 400 }
+      );
+    }
+    const transferAsset = getTransferAsset(payoutAsset);
+
+    // Price the run by the chosen method; pegged stablecoins skip the oracle
+    let priceSnapshot;
+    try {
+      priceSnapshot = await priceHistoryService.getRunPrice(payoutAsset, {
+        method: config.pricingMethod,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        closeTime: config.closeTime
+      });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Unable to price payout asset',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 422 }
+      );
+    }
 
     // Get verified contributors
     const verifiedContributors = new Map<string, string>();
@@ -236,39 +376,124 @@ async function handlePreview(userId: string, config: any) {
     });
 
     // Calculate distribution
-    const distributionConfig = {
-      mode: 'PR_COUNT_PROPORTIONAL' as const,
+    const distributionConfig: DistributionConfig = {
+      mode: config.distributionMode,
       totalBudgetUsd: config.usdBudget,
       minPrCountThreshold: config.minPrCountThreshold,
-      maxShareCap: config.maxShareCap
+      maxShareCap: config.maxShareCap,
+      labelWeights: config.labelWeights,
+      hybridWeights: config.hybridWeights,
+      activityPoints: config.creditActivity === true
+        ? { ...DEFAULT_ACTIVITY_POINTS, ...config.activityPoints }
+        : undefined,
+      // Each repository of a multi-repository run gets its own share of the budget
+      repositoryBudgets: repositories.length > 1
+        ? repositories.map(r => ({
+            repo: r.fullName,
+            fixedUsd: config.repositoryBudgets?.[r.id]?.fixedUsd,
+            percent: config.repositoryBudgets?.[r.id]?.percent
+          }))
+        : undefined
     };
 
-    const assetDecimals = config.asset === 'HBAR' ? 8 : 8; // Assume 8 decimals for now
-    const preview = distributionService.calculatePRCountDistribution(
+    const configValidation = distributionService.validateDistributionConfig(distributionConfig);
+    if (!configValidation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid distribution configuration', details: configValidation.errors },
+        { status: 400 }
+      );
+    }
+
+    const basePreview = distributionService.calculateDistribution(
       contributorStats,
       distributionConfig,
       priceSnapshot,
-      config.asset,
-      assetDecimals,
+      transferAsset,
+      payoutAsset.decimals,
       verifiedContributors
     );
 
+    // Hold back payouts below contributors' thresholds and redistribute those above their caps
+    const limitedPreview = distributionService.applyContributorLimits(
+      basePreview,
+      await payoutLedgerService.loadLimits(basePreview.distributions)
+    );
+
+    // Pay part of each payout in other assets where contributors asked for it
+    const preview = await payoutSplitService.applySplits(limitedPreview, {
+      runAssetSymbol: payoutAsset.symbol,
+      network: config.environment,
+      executionMode: config.executionMode || 'DIRECT',
+      pricing: {
+        method: config.pricingMethod,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        closeTime: config.closeTime
+      }
+    });
+
     // Validate distribution for execution readiness
     const validation = distributionService.validateDistributionForExecution(
       preview,
       verifiedContributors
     );
 
+    // Check the treasury can cover the payouts plus fees
+    const eligible = preview.distributions.filter(d => d.eligible);
+    let preflight: PreflightResult | null = null;
+    try {
+      preflight = await createTreasuryService(createHederaService({
+        network: config.environment
+      })).runPreflight({
+        network: config.environment,
+        asset: transferAsset,
+        amount: eligible.reduce((sum, d) => sum + BigInt(d.nativeAmount), BigInt(0)).toString(),
+        legs: eligible.flatMap(d => (d.legs || []).map(leg => ({ asset: leg.asset, amount: leg.nativeAmount }))),
+        payoutCount: eligible.length,
+        executionMode: config.executionMode || 'DIRECT',
+        scheduleConfig: JSON.stringify(config.scheduleConfig || {})
+      });
+    } catch (error) {
+      console.error('Treasury pre-flight failed:', error);
+    }
+
     return NextResponse.json({
       success: true,
       preview,
       validation,
+      preflight,
       metadata: {
+        asset: {
+          id: payoutAsset.id,
+          symbol: payoutAsset.symbol,
+          kind: payoutAsset.kind,
+          tokenId: payoutAsset.tokenId,
+          decimals: payoutAsset.decimals,
+          pegged: payoutAsset.pegged
+        },
         repositories: repositories.map(r => ({ id: r.id, fullName: r.fullName })),
+        dataSource: cached ? 'cache' : 'github',
+        dataAsOf: dataAsOf.toISOString(),
         contributorStats: Array.from(contributorStats.entries()).map(([login, stats]) => ({
           githubLogin: login,
+          id: stats.id,
           prCount: stats.prCount,
-          verified: verifiedContributors.has(login)
+          weightedPoints: stats.weightedPoints,
+          verified: verifiedContributors.has(login),
+          prs: stats.prs.map(pr => ({
+            repository: pr.repository,
+            number: pr.number,
+            title: pr.title,
+            merged_at: pr.merged_at,
+            labels: pr.labels,
+            additions: pr.additions,
+            deletions: pr.deletions,
+            changed_files: pr.changed_files,
+            weight: pr.weight,
+            weightRule: pr.weightRule,
+            credit: pr.credit
+          })),
+          activities: stats.activities || []
         }))
       }
     });
@@ -283,6 +508,22 @@ async function handlePreview(userId: string, config: any) {
 
 async function handleCreateRun(userId: string, config: any) {
   try {
+    if (!['DIRECT', 'BATCH', 'SCHEDULED'].includes(config.executionMode)) {
+      return NextResponse.json({ error: 'Execution mode must be DIRECT, BATCH or SCHEDULED' }, { status: 400 });
+    }
+
+    const scheduleErrors = config.executionMode === 'SCHEDULED'
+      ? validateScheduleConfig(config.scheduleConfig || {})
+      : [];
+    if (scheduleErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid schedule configuration', details: scheduleErrors }, { status: 400 });
+    }
+
+    const requoteErrors = validateRequoteConfig(config.requotePolicy, config.priceTolerancePercent);
+    if (requoteErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid re-quote configuration', details: requoteErrors }, { status: 400 });
+    }
+
     // Generate preview first
     const previewResponse = await handlePreview(userId, config);
     const previewData = await previewResponse.json();
@@ -293,43 +534,65 @@ async function handleCreateRun(userId: string, config: any) {
 
     const { preview } = previewData;
 
-    // Create payroll run in database
-    const run = await prisma.payrollRun.create({
-      data: {
-        repoIds: JSON.stringify(config.repositoryIds),
-        startDate: config.startDate,
-        endDate: config.endDate,
-        distributionMode: config.distributionMode,
-        usdBudget: config.usdBudget,
-        asset: config.asset,
-        pythFeedId: preview.priceSnapshot.feedId,
-        priceSnapshot: pythPriceService.createStorableSnapshot(preview.priceSnapshot),
-        environment: config.environment,
-        createdById: userId,
-        totalPrCount: preview.totalPrCount,
-        totalPayouts: preview.distributions.filter((d: any) => d.eligible).length,
-        previewHash: preview.metadata.previewHash,
-        status: 'PREVIEW_READY'
+    // Create payroll run in database, re-checking the organization's
+    // envelope in the same transaction so concurrent runs cannot overdraw it
+    const run = await prisma.$transaction(async tx => {
+      if (config.organizationId) {
+        await organizationService.assertEnvelopeCovers(config.organizationId, config.usdBudget, new Date(), tx);
       }
+
+      return tx.payrollRun.create({
+        data: {
+          repoIds: JSON.stringify(config.repositoryIds),
+          organizationId: config.organizationId,
+          startDate: config.startDate,
+          endDate: config.endDate,
+          prDataAsOf: new Date(previewData.metadata.dataAsOf),
+          distributionMode: config.distributionMode,
+          distributionConfig: JSON.stringify(preview.config),
+          usdBudget: config.usdBudget,
+          asset: preview.metadata.asset,
+          assetId: previewData.metadata.asset.id,
+          assetDecimals: preview.metadata.assetDecimals,
+          pythFeedId: preview.priceSnapshot.feedId,
+          priceSnapshot: pythPriceService.createStorableSnapshot(preview.priceSnapshot),
+          pricingMethod: config.pricingMethod,
+          requotePolicy: config.requotePolicy,
+          priceTolerancePercent: config.priceTolerancePercent,
+          environment: config.environment,
+          executionMode: config.executionMode,
+          scheduleConfig: JSON.stringify(config.executionMode === 'SCHEDULED' ? config.scheduleConfig || {} : {}),
+          allowIndividualFallback: config.executionMode === 'BATCH' && config.allowIndividualFallback === true,
+          createdById: userId,
+          totalPrCount: preview.totalPrCount,
+          totalPayouts: preview.distributions.filter((d: any) => d.eligible).length,
+          previewHash: preview.metadata.previewHash,
+          preflightResult: JSON.stringify(previewData.preflight || {}),
+          status: 'PREVIEW_READY'
+        }
+      });
     });
 
     // Create run items (PR records)
     const runItems = [];
-    for (const [githubLogin, stats] of Object.entries(previewData.metadata.contributorStats)) {
-      for (const pr of (stats as any).prs || []) {
+    for (const stats of previewData.metadata.contributorStats) {
+      const githubLogin = stats.githubLogin;
+      for (const pr of stats.prs || []) {
         runItems.push({
           runId: run.id,
           repo: pr.repository || '',
           prNumber: pr.number,
           authorLogin: githubLogin,
-          authorId: (stats as any).id?.toString(),
+          authorId: stats.id?.toString(),
           mergedAt: new Date(pr.merged_at),
           title: pr.title,
-          labels: pr.labels?.map((l: any) => l.name) || [],
+          labels: JSON.stringify(pr.labels?.map((l: any) => l.name) || []),
           linesAdded: pr.additions || 0,
           linesDeleted: pr.deletions || 0,
           filesChanged: pr.changed_files || 0,
-          weight: 1.0,
+          weight: pr.weight ?? 1.0,
+          weightRule: pr.weightRule || DEFAULT_WEIGHT_RULE,
+          creditShare: pr.credit ?? 1,
           contributorId: preview.distributions.find((d: any) => d.githubLogin === githubLogin)?.contributorId
         });
       }
@@ -341,6 +604,33 @@ async function handleCreateRun(userId: string, config: any) {
       });
     }
 
+    // Create review and triage activity records, when credited
+    const activityPoints: Record<string, number> = preview.config.activityPoints || {};
+    const activityItems = preview.config.activityPoints
+      ? previewData.metadata.contributorStats.flatMap((stats: { githubLogin: string; activities?: ContributorActivity[] }) =>
+        (stats.activities || []).map(activity => ({
+          runId: run.id,
+          kind: activity.kind,
+          repo: activity.repository,
+          number: activity.number,
+          actorLogin: stats.githubLogin,
+          title: activity.title,
+          url: activity.url,
+          occurredAt: new Date(activity.occurredAt),
+          points: activityPoints[activity.kind] ?? 0,
+          contributorId: preview.distributions.find(
+            (d: ContributorDistribution) => d.githubLogin === stats.githubLogin
+          )?.contributorId
+        }))
+      )
+      : [];
+
+    if (activityItems.length > 0) {
+      await prisma.runActivityItem.createMany({
+        data: activityItems
+      });
+    }
+
     // Create payout records
     const payouts = preview.distributions
       .filter((d: any) => d.eligible && d.contributorId)
@@ -352,6 +642,10 @@ async function handleCreateRun(userId: string, config: any) {
         usdAmount: d.usdAmount,
         nativeAmount: d.nativeAmount,
         decimals: preview.metadata.assetDecimals,
+        assetPercent: d.assetPercent ?? 100,
+        carriedInUsd: d.carriedInUsd || 0,
+        redistributedUsd: d.redistributedUsd || 0,
+        repoBreakdown: JSON.stringify(d.repoBreakdown || []),
         status: 'PENDING',
         idempotencyKey: distributionService.createPayoutIdempotencyKey(run.id, d.contributorId)
       }));
@@ -360,7 +654,11 @@ async function handleCreateRun(userId: string, config: any) {
       await prisma.payout.createMany({
         data: payouts
       });
+      await payoutSplitService.storeLegs(run.id, preview.distributions);
     }
+    await payoutLedgerService.recordRunEntries(run.id, preview.distributions);
+
+    const approvalRequirement = await runApprovalService.applyApprovalPolicy(run.id);
 
     await createAuditLog(
       userId,
@@ -368,9 +666,16 @@ async function handleCreateRun(userId: string, config: any) {
       run.id,
       {
         repositories: config.repositoryIds,
+        organizationId: config.organizationId,
         usdBudget: config.usdBudget,
         asset: config.asset,
-        environment: config.environment
+        environment: config.environment,
+        executionMode: config.executionMode,
+        allowIndividualFallback: config.allowIndividualFallback === true,
+        approvalPolicyId: approvalRequirement.policyId,
+        requiredApprovals: approvalRequirement.requiredApprovals,
+        prDataSource: previewData.metadata.dataSource,
+        prDataAsOf: previewData.metadata.dataAsOf
       }
     );
 
@@ -381,12 +686,19 @@ async function handleCreateRun(userId: string, config: any) {
         runNumber: run.runNumber,
         status: run.status,
         previewHash: run.previewHash,
+        prDataAsOf: run.prDataAsOf,
+        requiredApprovals: approvalRequirement.requiredApprovals,
+        approverIds: approvalRequirement.approverIds,
         createdAt: run.createdAt
       },
-      preview
+      preview,
+      preflight: previewData.preflight
     });
   } catch (error) {
     console.error('Error creating payroll run:', error);
+    if (error instanceof Error && error.message.startsWith(ENVELOPE_EXCEEDED)) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json(
       { error: 'Failed to create payroll run' },
       { status: 500 }
@@ -394,6 +706,56 @@ async function handleCreateRun(userId: string, config: any) {
   }
 }
 
+async function handleApproveRun(userId: string, runId: string) {
+  try {
+    if (!runId) {
+      return NextResponse.json({ error: 'Run ID is required' }, { status: 400 });
+    }
+
+    const run = await prisma.payrollRun.findFirst({
+      where: {
+        id: runId,
+        status: 'PREVIEW_READY'
+      }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found or not ready for approval' }, { status: 404 });
+    }
+
+    if (!runApprovalService.canApprove(run, userId)) {
+      return NextResponse.json({ error: 'You are not an approver for this run' }, { status: 403 });
+    }
+
+    const approval = await runApprovalService.approveRun(userId, runId);
+
+    await createAuditLog(
+      userId,
+      approval.quorumReached ? 'PAYROLL_RUN_APPROVED' : 'PAYROLL_RUN_APPROVAL_RECORDED',
+      runId,
+      {
+        previewHash: approval.previewHash,
+        approvedAt: approval.approvedAt,
+        signature: approval.signature,
+        approvals: approval.approvals,
+        requiredApprovals: approval.requiredApprovals
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      approval
+    });
+  } catch (error) {
+    console.error('Error approving payroll run:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to approve payroll run', details: message },
+      { status: message.startsWith('Treasury pre-flight failed') || message.startsWith(ENVELOPE_EXCEEDED) ? 409 : 500 }
+    );
+  }
+}
+
 async function handleExecuteRun(userId: string, runId: string) {
   try {
     if (!runId) {
@@ -404,49 +766,24 @@ async function handleExecuteRun(userId: string, runId: string) {
     const run = await prisma.payrollRun.findFirst({
       where: {
         id: runId,
-        createdById: userId,
-        status: 'PREVIEW_READY'
+        status: 'APPROVED'
       },
       include: {
         payouts: {
-          include: { contributor: true }
+          include: { contributor: true, legs: true }
         }
       }
     });
 
     if (!run) {
-      return NextResponse.json({ error: 'Run not found or not ready for execution' }, { status: 404 });
+      return NextResponse.json({ error: 'Run not found or not approved for execution' }, { status: 404 });
     }
 
-    // Update run status to executing
-    await prisma.payrollRun.update({
-      where: { id: runId },
-      data: {
-        status: 'EXECUTING',
-        startedAt: new Date()
-      }
-    });
-
     // Parse price snapshot for execution
     const priceSnapshot = pythPriceService.parseStoredSnapshot(run.priceSnapshot);
 
-    // Create preview for execution
-    const preview = {
-      distributions: run.payouts.map(payout => ({
-        githubLogin: payout.contributor.githubHandle || 'unknown',
-        githubId: 0,
-        contributorId: payout.contributorId,
-        prCount: payout.prCount,
-        shareRatio: payout.shareRatio,
-        usdAmount: payout.usdAmount,
-        nativeAmount: payout.nativeAmount,
-        eligible: true
-      })),
-      metadata: {
-        asset: run.asset,
-        assetDecimals: 8 // Assume 8 decimals
-      }
-    };
+    // Execute exactly the payouts that were approved
+    const preview = storedPayoutPreview(run);
 
     // Create execution context
     const hederaService = createHederaService({
@@ -466,7 +803,18 @@ async function handleExecuteRun(userId: string, runId: string) {
     const executionService = createPayrollExecutionService(executionContext);
     
     // Execute the run
-    const executionResult = await executionService.executePayrollRun(preview as any);
+    const executionResult = await executionService.executePayrollRun(preview);
+
+    if (executionResult.status === 'REFUSED') {
+      await createAuditLog(userId, 'PAYROLL_RUN_EXECUTION_REFUSED', runId, {
+        reason: executionResult.error
+      });
+
+      return NextResponse.json(
+        { error: 'Execution refused', details: executionResult.error },
+        { status: 409 }
+      );
+    }
 
     await createAuditLog(
       userId,
@@ -510,4 +858,78 @@ async function handleExecuteRun(userId: string, runId: string) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+async function handleResumeRun(userId: string, runId: string) {
+  try {
+    if (!runId) {
+      return NextResponse.json({ error: 'Run ID is required' }, { status: 400 });
+    }
+
+    const run = await prisma.payrollRun.findFirst({
+      where: {
+        id: runId,
+        status: { in: ['EXECUTING', 'FAILED'] }
+      }
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found or not resumable' }, { status: 404 });
+    }
+
+    const executionService = createPayrollExecutionService({
+      runId: run.id,
+      environment: run.environment as 'testnet' | 'mainnet',
+      hederaService: createHederaService({
+        network: run.environment as 'testnet' | 'mainnet'
+      }),
+      lighthouseService,
+      maxRetries: 3,
+      retryDelay: 2000
+    });
+
+    const executionResult = await executionService.resumePayrollRun();
+
+    if (executionResult.status === 'REFUSED') {
+      await createAuditLog(userId, 'PAYROLL_RUN_EXECUTION_REFUSED', runId, {
+        reason: executionResult.error,
+        resume: true
+      });
+
+      return NextResponse.json(
+        { error: 'Resume refused', details: executionResult.error },
+        { status: 409 }
+      );
+    }
+
+    await createAuditLog(
+      userId,
+      'PAYROLL_RUN_RESUMED',
+      runId,
+      {
+        status: executionResult.status,
+        successfulPayouts: executionResult.successfulPayouts,
+        failedPayouts: executionResult.failedPayouts,
+        reconciliation: executionResult.reconciliation
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      execution: {
+        runId: executionResult.runId,
+        status: executionResult.status,
+        totalPayouts: executionResult.totalPayouts,
+        successfulPayouts: executionResult.successfulPayouts,
+        failedPayouts: executionResult.failedPayouts,
+        reconciliation: executionResult.reconciliation
+      }
+    });
+  } catch (error) {
+    console.error('Error resuming payroll run:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume payroll run' },
+      { status: 500 }
+    );
+  }
+}
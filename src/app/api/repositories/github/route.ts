@@ -4,7 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { authOptions, verifyUserAccess } from '@/lib/auth';
+import { authOptions } from '@/lib/auth';
 import { createGitHubService } from '@/lib/github';
 import { prisma } from '@/lib/db';
 
@@ -15,12 +15,6 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Verify user has manager role and Self verification
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
       include: { managedRepos: true }
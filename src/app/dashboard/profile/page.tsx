@@ -281,7 +281,7 @@ export default function ProfilePage() {
                     <span className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium bg-green-100 text-green-800">
                       ✓ Verified
                     </span>
-                    {process.env.NODE_ENV !== 'production' && (
+                    {process.env.NODE_ENV === 'development' && (
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -403,7 +403,7 @@ export default function ProfilePage() {
                         </Button>
                         
                         {/* Test button only in development and as a small secondary option */}
-                        {process.env.NODE_ENV !== 'production' && (
+                        {process.env.NODE_ENV === 'development' && (
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -446,7 +446,7 @@ export default function ProfilePage() {
                           >
                             Try Again
                           </Button>
-                          {process.env.NODE_ENV !== 'production' && (
+                          {process.env.NODE_ENV === 'development' && (
                             <Button 
                               variant="ghost" 
                               size="sm" 
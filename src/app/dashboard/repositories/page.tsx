@@ -157,7 +157,7 @@ export default function RepositoriesPage() {
     loadAllGitHubRepos();
   }
 
-  const isManager = session?.user.roles?.includes('manager');
+  const isManager = session?.user.permissions?.includes('repository:manage');
 
   if (!isManager) {
     return (
@@ -17,8 +17,114 @@ interface PayrollRunDetail {
   runNumber: number;
   startDate: string;
   endDate: string;
+  prDataAsOf?: string | null;
   usdBudget: number;
+  asset?: string;
   status: string;
+  previewHash?: string;
+  approval?: {
+    approvedById: string;
+    approvedAt: string;
+    approvedHash: string;
+    signature: string;
+  } | null;
+  approvals?: {
+    policyId: string | null;
+    requiredApprovals: number;
+    approverIds: string[];
+    canApprove: boolean;
+    signatures: Array<{
+      approverId: string;
+      previewHash: string;
+      approvedAt: string;
+      current: boolean;
+    }>;
+  };
+  executionMode?: 'DIRECT' | 'BATCH' | 'SCHEDULED';
+  allowIndividualFallback?: boolean;
+  batches?: Array<{
+    id: string;
+    batchNumber: number;
+    payoutIds: string[];
+    totalAmount: string;
+    txId?: string;
+    status: string;
+    error?: string;
+    submittedAt?: string;
+    confirmedAt?: string;
+  }>;
+  schedules?: Array<{
+    id: string;
+    scheduleId: string;
+    status: string;
+    payoutIds: string[];
+    requiredSigners: string[];
+    collectedSigners: string[];
+    expiresAt?: string;
+    executedAt?: string;
+    lastCheckedAt?: string;
+    error?: string;
+  }>;
+  pricing?: {
+    method: 'SPOT' | 'TWAP' | 'VWAP' | 'CLOSE';
+    price: number;
+    description: string;
+  };
+  requote?: {
+    policy: 'KEEP_NATIVE' | 'RECOMPUTE_NATIVE';
+    tolerancePercent: number;
+    result: {
+      checkedAt: string;
+      approvedPrice: number;
+      executionPrice: number;
+      deviationPercent: number;
+      outcome: 'KEPT' | 'RECOMPUTED' | 'HALTED';
+    } | null;
+  };
+  preflight?: {
+    passed: boolean;
+    checkedAt: string;
+    treasuryAccountId: string;
+    asset: string;
+    required: { amount: string; fees: string; feePerTransaction: string; transactionCount: number; feeSamples: number };
+    balances: { hbar: string; token?: string };
+    reserved: { hbar: string; token?: string };
+    available: { hbar: string; token?: string };
+    shortfalls: string[];
+  } | null;
+  reservations?: {
+    status: string;
+    asset: string;
+    amount: string;
+    feeAmount: string;
+    createdAt: string;
+    releasedAt?: string;
+  }[];
+  reconciliation?: {
+    status?: 'RECONCILED' | 'DISCREPANCIES' | 'UNVERIFIED' | null;
+    reconciledAt?: string;
+    summary: {
+      matched?: number;
+      amountMismatches?: number;
+      missingOnChain?: number;
+      unexpectedTransfers?: number;
+      lookupFailures?: number;
+      totalFees?: string;
+    };
+  };
+  carryForward?: {
+    accruedUsd: number;
+    carriedInUsd: number;
+    redistributedUsd: number;
+    accrued: Array<{ contributorId: string; githubHandle: string; usdAmount: number }>;
+  };
+  repoSubtotals?: Array<{
+    repo: string;
+    budgetUsd: number;
+    usdAmount: number;
+    prCount: number;
+    contributors: number;
+  }> | null;
   totalPrCount: number;
   totalPayouts: number;
   successfulPayouts: number;
@@ -30,11 +136,53 @@ interface PayrollRunDetail {
     usdAmount: number;
     status: string;
     transactionId?: string;
+    carriedInUsd?: number;
+    redistributedUsd?: number;
+    repoBreakdown?: Array<{ repo: string; prCount: number; weightedPoints: number; usdAmount: number }>;
+    assetPercent?: number;
+    legs?: Array<{
+      id: string;
+      symbol: string;
+      percent: number;
+      usdAmount: number;
+      nativeAmount: string;
+      decimals: number;
+      status: string;
+      txId?: string;
+    }>;
     contributor: {
       githubHandle: string;
       hederaAccountId?: string;
     };
   }>;
+  runItems: Array<{
+    id: string;
+    repo: string;
+    prNumber: number;
+    authorLogin: string;
+    title: string;
+    linesAdded?: number;
+    linesDeleted?: number;
+    filesChanged?: number;
+    weight: number;
+    weightRule?: string;
+    creditShare?: number;
+    excluded: boolean;
+    originalAuthorLogin?: string;
+    overrideReason?: string;
+  }>;
+  activityItems?: Array<{
+    id: string;
+    kind: string;
+    label: string;
+    repo: string;
+    number: number;
+    actorLogin: string;
+    title: string;
+    url: string;
+    occurredAt: string;
+    points: number;
+  }>;
 }
 
 export default function PayrollRunDetailPage() {
@@ -48,6 +196,11 @@ export default function PayrollRunDetailPage() {
   const [payslips, setPayslips] = useState<any[]>([]);
   const [generatingPayslips, setGeneratingPayslips] = useState(false);
   const [payslipError, setPayslipError] = useState<string | null>(null);
+  const [adjustingItemId, setAdjustingItemId] = useState<string | null>(null);
+  const [approving, setApproving] = useState(false);
+  const [syncingSchedules, setSyncingSchedules] = useState(false);
+  const [reconciling, setReconciling] = useState(false);
+  const [checkingTreasury, setCheckingTreasury] = useState(false);
 
   useEffect(() => {
     if (runId) {
@@ -128,6 +281,182 @@ export default function PayrollRunDetailPage() {
     }
   }
 
+  async function adjustRunItem(itemId: string, action: 'exclude' | 'include' | 'weight' | 'reassign') {
+    const body: Record<string, unknown> = { action };
+
+    if (action === 'weight') {
+      const input = prompt('New weight for this PR (e.g. 0.5, 1, 2):');
+      if (input === null) return;
+      const weight = parseFloat(input);
+      if (isNaN(weight) || weight < 0) {
+        alert('Please enter a non-negative number.');
+        return;
+      }
+      body.weight = weight;
+    }
+
+    if (action === 'reassign') {
+      const authorLogin = prompt('GitHub login of the co-author to credit:');
+      if (!authorLogin) return;
+      body.authorLogin = authorLogin;
+    }
+
+    const reason = prompt('Reason for this change (recorded in the audit log):');
+    if (!reason?.trim()) {
+      alert('A reason is required.');
+      return;
+    }
+    body.reason = reason;
+
+    try {
+      setAdjustingItemId(itemId);
+      const response = await fetch(`/api/payroll/runs/${runId}/items/${itemId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Failed to adjust PR: ${result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error adjusting PR: ${error}`);
+    } finally {
+      setAdjustingItemId(null);
+    }
+  }
+
+  async function approveRun() {
+    if (!confirm(`Approve this payroll run?\n\nPreview hash: ${run?.previewHash}\n\nExecution will be refused if payouts change after approval.`)) {
+      return;
+    }
+
+    try {
+      setApproving(true);
+      const response = await fetch('/api/payroll/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'approve', runId })
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Approval failed: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error approving payroll run: ${error}`);
+    } finally {
+      setApproving(false);
+    }
+  }
+
+  async function executeRunPayouts() {
+    try {
+      setExecuting(true);
+      const response = await fetch('/api/payroll/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'execute', runId })
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        alert(run?.executionMode === 'SCHEDULED'
+          ? `✅ Created Hedera schedules for ${result.execution.totalPayouts} payouts.\n\nPayouts confirm once the required signers sign each schedule.`
+          : `✅ Paid ${result.execution.successfulPayouts}/${result.execution.totalPayouts} payouts in atomic batches.`);
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Execution failed: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error executing payroll: ${error}`);
+    } finally {
+      setExecuting(false);
+    }
+  }
+
+  async function syncSchedules() {
+    try {
+      setSyncingSchedules(true);
+      const response = await fetch(`/api/payroll/runs/${runId}/schedules`, { method: 'POST' });
+      const result = await response.json();
+      if (result.success) {
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Schedule sync failed: ${result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error syncing schedules: ${error}`);
+    } finally {
+      setSyncingSchedules(false);
+    }
+  }
+
+  async function resumeRun() {
+    try {
+      setExecuting(true);
+      const response = await fetch('/api/payroll/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'resume', runId })
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        const reconciliation: Array<{ outcome: string }> = result.execution.reconciliation || [];
+        const confirmed = reconciliation.filter(r => r.outcome === 'CONFIRMED').length;
+        const inFlight = reconciliation.filter(r => r.outcome === 'IN_FLIGHT').length;
+        alert(`✅ Run resumed: ${result.execution.status}\n\nReconciled on-chain: ${confirmed} confirmed, ${inFlight} still in flight\nPayouts: ${result.execution.successfulPayouts}/${result.execution.totalPayouts} successful`);
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Resume failed: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error resuming payroll run: ${error}`);
+    } finally {
+      setExecuting(false);
+    }
+  }
+
+  async function checkTreasury() {
+    try {
+      setCheckingTreasury(true);
+      const response = await fetch(`/api/payroll/runs/${runId}/preflight`, { method: 'POST' });
+      const result = await response.json();
+      if (result.success) {
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Treasury pre-flight failed: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error checking treasury: ${error}`);
+    } finally {
+      setCheckingTreasury(false);
+    }
+  }
+
+  async function reconcileRun() {
+    try {
+      setReconciling(true);
+      const response = await fetch(`/api/payroll/runs/${runId}/reconcile`, { method: 'POST' });
+      const result = await response.json();
+      if (result.success) {
+        fetchPayrollRunDetail();
+      } else {
+        alert(`❌ Reconciliation failed: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      alert(`❌ Error reconciling payroll run: ${error}`);
+    } finally {
+      setReconciling(false);
+    }
+  }
+
   async function executePayrollWithHedera() {
     try {
       setExecuting(true);
@@ -142,8 +471,13 @@ export default function PayrollRunDetailPage() {
       if (result.success) {
         const breakdown = result.data.paymentBreakdown;
         const contributions = result.data.contributionBreakdown || [];
+        const subtotals: Array<{ repo: string; budgetUsd: number; usdAmount: number }> = result.data.repositorySubtotals || [];
         
         let contributionDetails = '';
+        if (subtotals.length > 1) {
+          contributionDetails += '\n\nRepositories:\n' +
+            subtotals.map(s => `• ${s.repo}: $${s.usdAmount.toFixed(2)} of $${s.budgetUsd.toFixed(2)}`).join('\n');
+        }
         if (contributions.length > 0) {
           contributionDetails = '\n\nContribution-Based Payments:\n' + 
             contributions.map((c: any) => `• ${c.contributor}: ${c.contributions} contributions → $${c.amount} (${c.percentage})`).join('\n');
@@ -205,7 +539,7 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
     }
   }
 
-  const isManager = session?.user.roles?.includes('manager');
+  const isManager = session?.user.permissions?.includes('run:view');
 
   if (!isManager) {
     return (
@@ -266,10 +600,26 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
             <p className="text-gray-600 mt-1">
               {new Date(run.startDate).toLocaleDateString()} - {new Date(run.endDate).toLocaleDateString()}
             </p>
+            {run.prDataAsOf && (
+              <p className="text-sm text-gray-500">
+                PR data as of {new Date(run.prDataAsOf).toLocaleString()}
+              </p>
+            )}
           </div>
+          {run.status === 'PREVIEW_READY' && run.approvals?.canApprove && (
+            <Button
+              onClick={approveRun}
+              disabled={approving}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {approving
+                ? 'Approving...'
+                : `✅ Approve Run (${run.approvals.signatures.filter(s => s.current).length}/${run.approvals.requiredApprovals})`}
+            </Button>
+          )}
           {run.status === 'APPROVED' && (
             <Button 
-              onClick={executePayrollWithHedera}
+              onClick={run.executionMode && run.executionMode !== 'DIRECT' ? executeRunPayouts : executePayrollWithHedera}
               disabled={executing}
               className="bg-purple-600 hover:bg-purple-700"
             >
@@ -278,11 +628,24 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                   Executing...
                 </>
+              ) : run.executionMode === 'SCHEDULED' ? (
+                <>🗓️ Create Hedera Schedules</>
+              ) : run.executionMode === 'BATCH' ? (
+                <>💎 Pay in Atomic Batches</>
               ) : (
                 <>💎 Pay with Hedera</>
               )}
             </Button>
           )}
+          {(run.status === 'EXECUTING' || run.status === 'FAILED') && (
+            <Button
+              onClick={resumeRun}
+              disabled={executing}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {executing ? 'Resuming...' : '🔁 Resume Execution'}
+            </Button>
+          )}
         </div>
 
         {/* Summary Cards */}
@@ -359,6 +722,51 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
         )}
 
         {/* Payouts List */}
+        {['PREVIEW_READY', 'APPROVED', 'EXECUTING', 'FAILED'].includes(run.status) && (
+          <div className={`rounded-lg border p-4 ${
+            !run.preflight ? 'bg-gray-50 border-gray-200'
+              : run.preflight.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+          }`}>
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900">
+                {!run.preflight
+                  ? 'Treasury pre-flight: not checked'
+                  : run.preflight.passed ? '✅ Treasury pre-flight passed' : '❌ Treasury pre-flight failed'}
+              </h3>
+              <button
+                onClick={checkTreasury}
+                disabled={checkingTreasury}
+                className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                {checkingTreasury ? 'Checking...' : 'Re-check treasury'}
+              </button>
+            </div>
+            {run.preflight && (
+              <div className="mt-2 text-sm text-gray-700 space-y-1">
+                <p>
+                  Treasury <span className="font-mono">{run.preflight.treasuryAccountId}</span> • checked {new Date(run.preflight.checkedAt).toLocaleString()}
+                </p>
+                <p>
+                  Needs {run.preflight.required.amount} {run.preflight.asset} base units + {(Number(run.preflight.required.fees) / 1e8).toFixed(8)} HBAR fees
+                  ({run.preflight.required.transactionCount} transactions, {run.preflight.required.feeSamples > 0 ? `estimated from ${run.preflight.required.feeSamples} recent payouts` : 'default fee estimate'})
+                </p>
+                <p>
+                  Available after reservations: {(Number(run.preflight.available.hbar) / 1e8).toFixed(8)} HBAR
+                  {run.preflight.available.token !== undefined && ` • ${run.preflight.available.token} ${run.preflight.asset} base units`}
+                </p>
+                {run.preflight.shortfalls.map(shortfall => (
+                  <p key={shortfall} className="text-red-700">{shortfall}</p>
+                ))}
+                {run.reservations?.map(reservation => (
+                  <p key={reservation.asset} className="text-gray-500">
+                    {reservation.asset} reservation of {reservation.amount} base units {reservation.status.toLowerCase()} since {new Date(reservation.createdAt).toLocaleString()}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="bg-white shadow rounded-lg">
           <div className="px-6 py-4 border-b border-gray-200">
             <div className="flex items-center justify-between">
@@ -399,11 +807,47 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
                       <p className="text-sm font-medium text-gray-900">
                         ${payout.usdAmount.toFixed(2)}
                       </p>
+                      {!!payout.carriedInUsd && (
+                        <p className="text-xs text-gray-500">
+                          incl. ${payout.carriedInUsd.toFixed(2)} carried forward
+                        </p>
+                      )}
+                      {!!payout.redistributedUsd && Math.abs(payout.redistributedUsd) >= 0.005 && (
+                        <p className="text-xs text-gray-500">
+                          {payout.redistributedUsd > 0
+                            ? `+$${payout.redistributedUsd.toFixed(2)} redistributed from capped payouts`
+                            : `-$${(-payout.redistributedUsd).toFixed(2)} above payout cap`}
+                        </p>
+                      )}
+                      {payout.repoBreakdown && payout.repoBreakdown.length > 1 && (
+                        <div className="mt-1 space-y-0.5">
+                          {payout.repoBreakdown.map((breakdown) => (
+                            <p key={breakdown.repo} className="text-xs text-gray-500">
+                              {breakdown.repo}: {breakdown.prCount} PRs, ${breakdown.usdAmount.toFixed(2)}
+                            </p>
+                          ))}
+                        </div>
+                      )}
                       {payout.transactionId && (
                         <p className="text-xs text-blue-600 font-mono">
                           {payout.transactionId}
                         </p>
                       )}
+                      {payout.legs && payout.legs.length > 0 && (
+                        <div className="mt-1 space-y-0.5">
+                          <p className="text-xs text-gray-500">
+                            {payout.assetPercent}% in {run.asset}
+                          </p>
+                          {payout.legs.map((leg) => (
+                            <p key={leg.id} className="text-xs text-gray-500">
+                              {leg.percent}% in {leg.symbol}: ${leg.usdAmount.toFixed(2)} = {(Number(leg.nativeAmount) / Math.pow(10, leg.decimals)).toFixed(Math.min(leg.decimals, 6))} {leg.symbol}
+                              {' · '}
+                              <span className={leg.status === 'FAILED' ? 'text-red-600' : ''}>{leg.status}</span>
+                              {leg.txId && <span className="font-mono text-blue-600"> {leg.txId}</span>}
+                            </p>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getPayoutStatusColor(payout.status)}`}>
                       {payout.status}
@@ -413,8 +857,306 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
               </div>
             ))}
           </div>
+          {run.carryForward && run.carryForward.accrued.length > 0 && (
+            <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
+              <h4 className="text-sm font-medium text-gray-900">Carried Forward (below minimum payout)</h4>
+              <ul className="mt-2 space-y-1">
+                {run.carryForward.accrued.map((entry) => (
+                  <li key={entry.contributorId} className="text-sm text-gray-600 flex justify-between">
+                    <span>@{entry.githubHandle}</span>
+                    <span>${entry.usdAmount.toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-gray-500">
+                Accrued ${run.carryForward.accruedUsd.toFixed(2)} • carried in ${run.carryForward.carriedInUsd.toFixed(2)} • redistributed ${run.carryForward.redistributedUsd.toFixed(2)}
+              </p>
+            </div>
+          )}
         </div>
 
+        {/* Repository Subtotals */}
+        {run.repoSubtotals && run.repoSubtotals.length > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Repositories</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Repository</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Budget</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Allocated</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">PRs</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Contributors</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {run.repoSubtotals.map(subtotal => (
+                    <tr key={subtotal.repo}>
+                      <td className="px-6 py-4 text-sm text-gray-900">{subtotal.repo}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">${subtotal.budgetUsd.toFixed(2)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">${subtotal.usdAmount.toFixed(2)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{subtotal.prCount}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{subtotal.contributors}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Atomic Batches */}
+        {run.executionMode === 'BATCH' && (run.batches?.length || 0) > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Atomic Batches</h3>
+                <div className="text-sm text-gray-500">
+                  {run.allowIndividualFallback ? 'Individual fallback allowed' : 'No individual fallback'}
+                </div>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Batch</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Payouts</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Transaction</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {run.batches!.map(batch => (
+                    <tr key={batch.id}>
+                      <td className="px-6 py-4 text-sm text-gray-900">#{batch.batchNumber}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{batch.payoutIds.length}</td>
+                      <td className="px-6 py-4 text-sm font-mono text-gray-900">{batch.txId || '—'}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getPayoutStatusColor(batch.status)}`}>
+                          {batch.status}
+                        </span>
+                        {batch.error && (
+                          <p className="text-xs text-red-600 mt-1">{batch.error}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Hedera Schedules */}
+        {run.executionMode === 'SCHEDULED' && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Hedera Schedules</h3>
+                {(run.schedules?.length || 0) > 0 && (
+                  <Button
+                    onClick={syncSchedules}
+                    disabled={syncingSchedules}
+                    variant="outline"
+                  >
+                    {syncingSchedules ? 'Syncing...' : '🔄 Sync Schedules'}
+                  </Button>
+                )}
+              </div>
+            </div>
+            {(run.schedules?.length || 0) === 0 ? (
+              <div className="p-6 text-sm text-gray-500">
+                Schedules are created when the approved run is executed.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Schedule</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Payouts</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Signatures</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Expires / Executed</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {run.schedules!.map(schedule => (
+                      <tr key={schedule.id}>
+                        <td className="px-6 py-4 text-sm font-mono text-gray-900">{schedule.scheduleId}</td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{schedule.payoutIds.length}</td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {schedule.collectedSigners.length} / {schedule.requiredSigners.length}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getStatusColor(schedule.status === 'EXECUTED' ? 'COMPLETED' : schedule.status === 'PENDING_SIGNATURES' ? 'PENDING' : 'FAILED')}`}>
+                            {schedule.status}
+                          </span>
+                          {schedule.error && (
+                            <p className="text-xs text-red-600 mt-1">{schedule.error}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500">
+                          {schedule.executedAt
+                            ? new Date(schedule.executedAt).toLocaleString()
+                            : schedule.expiresAt
+                              ? `expires ${new Date(schedule.expiresAt).toLocaleString()}`
+                              : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Pull Requests */}
+        {run.runItems?.length > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Pull Requests</h3>
+                <div className="text-sm text-gray-500">
+                  {run.runItems.filter(item => !item.excluded).length} PRs • {run.runItems
+                    .filter(item => !item.excluded)
+                    .reduce((sum, item) => sum + item.weight, 0)
+                    .toFixed(2)} weighted points
+                </div>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">PR</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Author</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Size</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Weight</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rule</th>
+                    {run.status === 'PREVIEW_READY' && (
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Adjust</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {run.runItems.map((item) => (
+                    <tr key={item.id} className={item.excluded ? 'bg-gray-50 opacity-60' : ''}>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        <span className="font-mono text-gray-500">{item.repo}#{item.prNumber}</span>
+                        <p className={`truncate max-w-xs ${item.excluded ? 'line-through' : ''}`}>{item.title}</p>
+                        {item.overrideReason && (
+                          <p className="text-xs text-amber-700 mt-1">Adjusted: {item.overrideReason}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        @{item.authorLogin}
+                        {item.originalAuthorLogin && (
+                          <p className="text-xs text-gray-500">from @{item.originalAuthorLogin}</p>
+                        )}
+                        {item.creditShare !== undefined && item.creditShare < 1 && (
+                          <p className="text-xs text-gray-500">{(item.creditShare * 100).toFixed(0)}% co-author credit</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-500">
+                        +{item.linesAdded || 0} / -{item.linesDeleted || 0} • {item.filesChanged || 0} files
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right font-medium">
+                        {item.weight.toFixed(2)}
+                      </td>
+                      <td className="px-6 py-3 text-xs text-gray-500 font-mono">
+                        {item.excluded ? 'excluded' : item.weightRule || 'default'}
+                      </td>
+                      {run.status === 'PREVIEW_READY' && (
+                        <td className="px-6 py-3 text-right whitespace-nowrap space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={adjustingItemId === item.id}
+                            onClick={() => adjustRunItem(item.id, item.excluded ? 'include' : 'exclude')}
+                          >
+                            {item.excluded ? 'Include' : 'Exclude'}
+                          </Button>
+                          {!item.excluded && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={adjustingItemId === item.id}
+                                onClick={() => adjustRunItem(item.id, 'weight')}
+                              >
+                                Weight
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={adjustingItemId === item.id}
+                                onClick={() => adjustRunItem(item.id, 'reassign')}
+                              >
+                                Reassign
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Reviews & Triage */}
+        {(run.activityItems?.length ?? 0) > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Reviews &amp; Triage</h3>
+                <div className="text-sm text-gray-500">
+                  {run.activityItems!.length} activities • {run.activityItems!
+                    .reduce((sum, item) => sum + item.points, 0)
+                    .toFixed(2)} points
+                </div>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">PR / Issue</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Contributor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Activity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Points</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {run.activityItems!.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 hover:underline">
+                          {item.repo}#{item.number}
+                        </a>
+                        <p className="truncate max-w-xs">{item.title}</p>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900">@{item.actorLogin}</td>
+                      <td className="px-6 py-3 text-sm text-gray-500">{item.label}</td>
+                      <td className="px-6 py-3 text-sm text-gray-500">{new Date(item.occurredAt).toLocaleDateString()}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right font-medium">{item.points.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Payslips Section */}
         <div className="bg-white shadow rounded-lg">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -598,6 +1340,120 @@ ${result.data.hederaExplorer ? `\n🔗 View on Hedera Explorer: ${result.data.he
                 <dt className="text-sm font-medium text-gray-500">Status</dt>
                 <dd className="text-sm text-gray-900">{run.status}</dd>
               </div>
+              {run.pricing && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Pricing ({run.pricing.method})</dt>
+                  <dd className="text-sm text-gray-900">
+                    ${run.pricing.price.toFixed(6)}
+                    <span className="block text-xs text-gray-500">{run.pricing.description}</span>
+                  </dd>
+                </div>
+              )}
+              {run.requote && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">
+                    Execution Re-quote ({run.requote.policy === 'RECOMPUTE_NATIVE' ? 'recompute native amounts' : 'keep native amounts'}, ±{run.requote.tolerancePercent}%)
+                  </dt>
+                  <dd className="text-sm text-gray-900">
+                    {!run.requote.result ? (
+                      <span className="text-gray-500">Price is re-quoted when the run executes</span>
+                    ) : (
+                      <>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                          run.requote.result.outcome === 'HALTED' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                        }`}>
+                          {run.requote.result.outcome}
+                        </span>
+                        <span className="ml-2">
+                          ${run.requote.result.approvedPrice.toFixed(6)} → ${run.requote.result.executionPrice.toFixed(6)} ({run.requote.result.deviationPercent.toFixed(2)}%)
+                        </span>
+                        <span className="block text-xs text-gray-500">{new Date(run.requote.result.checkedAt).toLocaleString()}</span>
+                      </>
+                    )}
+                  </dd>
+                </div>
+              )}
+              {run.previewHash && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Preview Hash (SHA-256)</dt>
+                  <dd className="text-sm text-gray-900 font-mono break-all">{run.previewHash}</dd>
+                </div>
+              )}
+              {run.approvals && (
+                <div className="sm:col-span-2">
+                  <dt className="text-sm font-medium text-gray-500">
+                    Approvals ({run.approvals.signatures.filter(s => s.current).length} of {run.approvals.requiredApprovals} required)
+                  </dt>
+                  <dd className="text-sm text-gray-900">
+                    {run.approvals.signatures.length === 0 ? (
+                      <span className="text-gray-500">No approvals yet</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {run.approvals.signatures.map(signature => (
+                          <li key={signature.approverId} className={signature.current ? '' : 'text-gray-400 line-through'}>
+                            <span className="font-mono">{signature.approverId}</span>
+                            <span className="text-gray-500 ml-2">{new Date(signature.approvedAt).toLocaleString()}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </dd>
+                </div>
+              )}
+              {run.approval && (
+                <>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Approved</dt>
+                    <dd className="text-sm text-gray-900">
+                      {new Date(run.approval.approvedAt).toLocaleString()}
+                      <span className="text-gray-500 font-mono ml-2">by {run.approval.approvedById}</span>
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Approval Signature</dt>
+                    <dd className="text-sm text-gray-900 font-mono break-all">{run.approval.signature}</dd>
+                  </div>
+                </>
+              )}
+              {['EXECUTING', 'COMPLETED', 'FAILED'].includes(run.status) && (
+                <div className="sm:col-span-2">
+                  <dt className="text-sm font-medium text-gray-500 flex items-center justify-between">
+                    <span>On-chain Reconciliation</span>
+                    <button
+                      onClick={reconcileRun}
+                      disabled={reconciling}
+                      className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                    >
+                      {reconciling ? 'Reconciling...' : 'Reconcile with mirror node'}
+                    </button>
+                  </dt>
+                  <dd className="text-sm text-gray-900">
+                    {!run.reconciliation?.status ? (
+                      <span className="text-gray-500">Not reconciled yet</span>
+                    ) : (
+                      <>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                          run.reconciliation.status === 'DISCREPANCIES' ? 'bg-red-100 text-red-800'
+                            : run.reconciliation.status === 'UNVERIFIED' ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-green-100 text-green-800'
+                        }`}>
+                          {run.reconciliation.status === 'DISCREPANCIES' ? '⚠️ Discrepancies found'
+                            : run.reconciliation.status === 'UNVERIFIED' ? '⏳ Mirror node unavailable'
+                            : '✅ Matches chain'}
+                        </span>
+                        <span className="text-gray-500 ml-2">
+                          {run.reconciliation.summary.matched ?? 0} matched •{' '}
+                          {run.reconciliation.summary.amountMismatches ?? 0} amount mismatches •{' '}
+                          {run.reconciliation.summary.missingOnChain ?? 0} missing on-chain •{' '}
+                          {run.reconciliation.summary.unexpectedTransfers ?? 0} unexpected transfers
+                          {!!run.reconciliation.summary.lookupFailures && ` • ${run.reconciliation.summary.lookupFailures} lookups failed`}
+                          {run.reconciliation.reconciledAt && ` • ${new Date(run.reconciliation.reconciledAt).toLocaleString()}`}
+                        </span>
+                      </>
+                    )}
+                  </dd>
+                </div>
+              )}
               <div>
                 <dt className="text-sm font-medium text-gray-500">Created</dt>
                 <dd className="text-sm text-gray-900">{new Date(run.createdAt).toLocaleString()}</dd>
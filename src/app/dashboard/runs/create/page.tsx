@@ -40,7 +40,7 @@ export default function CreatePayrollRunPage() {
     description: ''
   });
 
-  const isManager = session?.user.roles?.includes('manager');
+  const isManager = session?.user.permissions?.includes('run:create');
 
   useEffect(() => {
     if (isManager) {
@@ -147,7 +147,7 @@ export default function CreatePayrollRunPage() {
       repositoryIds: [formData.repositoryId],
       startDate: finalStartDate,
       endDate: finalEndDate,
-      distributionMode: formData.payoutRule === 'equal' ? 'EQUAL_DISTRIBUTION' : 
+      distributionMode: formData.payoutRule === 'equal' ? 'EQUAL_SPLIT' : 
                       formData.payoutRule === 'contribution_based' ? 'PR_COUNT_PROPORTIONAL' : 
                       'PR_COUNT_PROPORTIONAL', // Default for role_based
       usdBudget: formData.usdBudget,
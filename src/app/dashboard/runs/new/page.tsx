@@ -18,28 +18,96 @@ interface Repository {
   isActive: boolean;
 }
 
+interface Organization {
+  id: string;
+  name: string;
+  role: string;
+  repositories: { id: string; fullName: string; active: boolean }[];
+  envelope: { month: string; monthlyBudgetUsd: number; remainingUsd: number };
+}
+
+interface PayoutAsset {
+  id: string;
+  symbol: string;
+  name: string;
+  kind: 'NATIVE' | 'HTS' | 'ERC20';
+  tokenId?: string;
+  decimals: number;
+  pegged: boolean;
+}
+
 export default function NewPayrollRunPage() {
   const { data: session } = useSession();
   const [loading, setLoading] = useState(false);
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [repositoriesLoading, setRepositoriesLoading] = useState(true);
+  const [assets, setAssets] = useState<PayoutAsset[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [formData, setFormData] = useState({
     startDate: '',
     endDate: '',
     usdBudget: '',
     asset: 'HBAR',
+    pricingMethod: 'SPOT',
+    closeTime: '',
+    requotePolicy: 'KEEP_NATIVE',
+    priceTolerancePercent: '2',
+    distributionMode: 'PR_COUNT_PROPORTIONAL',
+    creditActivity: false,
+    refreshCache: false,
+    executionMode: 'DIRECT',
+    scheduleGranularity: 'PAYOUT',
+    requiredSigners: '',
+    allowIndividualFallback: false,
     repositories: [] as string[],
+    // A whole organization instead of hand-picked repositories
+    organizationId: '',
+    // Budget share per repository ID in multi-repository runs; unset repositories split the rest
+    repositoryBudgets: {} as Record<string, { type: 'EQUAL' | 'FIXED' | 'PERCENT'; value: string }>,
   });
 
-  const isManager = session?.user.roles?.includes('manager');
+  const isManager = session?.user.permissions?.includes('run:create');
+  const selectedOrganization = organizations.find(org => org.id === formData.organizationId);
   const isSelfVerified = session?.user.selfVerified;
 
   useEffect(() => {
     if (session?.user) {
       fetchRepositories();
+      fetchOrganizations();
+      fetchAssets();
     }
   }, [session]);
 
+  async function fetchAssets() {
+    try {
+      const response = await fetch('/api/payroll/assets?network=testnet');
+      if (response.ok) {
+        const data = await response.json();
+        // ERC-20 assets are registered for reference but cannot be paid through Hedera
+        setAssets((data.assets || []).filter((asset: PayoutAsset) => asset.kind !== 'ERC20'));
+      } else {
+        console.error('Failed to fetch payout assets:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching payout assets:', error);
+    }
+  }
+
+  async function fetchOrganizations() {
+    try {
+      const response = await fetch('/api/organizations');
+      if (response.ok) {
+        const data = await response.json();
+        // Viewers cannot run payroll for an organization
+        setOrganizations((data.organizations || []).filter((org: Organization) => org.role !== 'VIEWER'));
+      } else {
+        console.error('Failed to fetch organizations:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+    }
+  }
+
   async function fetchRepositories() {
     try {
       setRepositoriesLoading(true);
@@ -109,7 +177,7 @@ export default function NewPayrollRunPage() {
     e.preventDefault();
     
     // Validation
-    if (formData.repositories.length === 0) {
+    if (!formData.organizationId && formData.repositories.length === 0) {
       alert('Please select at least one repository for the payroll run.');
       return;
     }
@@ -124,7 +192,8 @@ export default function NewPayrollRunPage() {
       return;
     }
 
-    if (!formData.usdBudget || parseFloat(formData.usdBudget) <= 0) {
+    // Organization runs default to the rest of the monthly envelope
+    if (!(formData.organizationId && !formData.usdBudget) && (!formData.usdBudget || parseFloat(formData.usdBudget) <= 0)) {
       alert('Please enter a valid budget amount.');
       return;
     }
@@ -135,12 +204,38 @@ export default function NewPayrollRunPage() {
       // Transform form data to match API expectations
       const payrollData = {
         action: 'create',
-        repositoryIds: formData.repositories,
+        ...(formData.organizationId
+          ? { organizationId: formData.organizationId }
+          : { repositoryIds: formData.repositories }),
         startDate: formData.startDate,
         endDate: formData.endDate,
-        usdBudget: parseFloat(formData.usdBudget),
+        ...(formData.usdBudget && { usdBudget: parseFloat(formData.usdBudget) }),
         asset: formData.asset,
-        distributionMode: 'PR_COUNT_PROPORTIONAL',
+        pricingMethod: formData.pricingMethod,
+        ...(formData.pricingMethod === 'CLOSE' && formData.closeTime && {
+          closeTime: new Date(formData.closeTime).toISOString()
+        }),
+        distributionMode: formData.distributionMode,
+        creditActivity: formData.creditActivity,
+        refreshCache: formData.refreshCache,
+        ...(!formData.organizationId && formData.repositories.length > 1 && {
+          repositoryBudgets: Object.fromEntries(formData.repositories
+            .map(id => [id, formData.repositoryBudgets[id]] as const)
+            .filter(([, budget]) => budget && budget.type !== 'EQUAL' && budget.value !== '')
+            .map(([id, budget]) => [id, budget.type === 'FIXED'
+              ? { fixedUsd: parseFloat(budget.value) }
+              : { percent: parseFloat(budget.value) }]))
+        }),
+        requotePolicy: formData.requotePolicy,
+        priceTolerancePercent: parseFloat(formData.priceTolerancePercent),
+        executionMode: formData.executionMode,
+        allowIndividualFallback: formData.executionMode === 'BATCH' && formData.allowIndividualFallback,
+        ...(formData.executionMode === 'SCHEDULED' && {
+          scheduleConfig: {
+            granularity: formData.scheduleGranularity,
+            requiredSigners: formData.requiredSigners.split('\n').map(key => key.trim()).filter(Boolean)
+          }
+        }),
         environment: 'testnet'
       };
 
@@ -155,7 +250,15 @@ export default function NewPayrollRunPage() {
       if (response.ok) {
         const result = await response.json();
         console.log('Payroll creation result:', result); // Debug log
-        alert(`✅ Payroll run created successfully!\nRun ID: ${result.run?.id || 'N/A'}`);
+        const preflightLine = result.preflight
+          ? result.preflight.passed
+            ? '\nTreasury pre-flight: ✅ passed'
+            : `\nTreasury pre-flight: ❌ failed\n${result.preflight.shortfalls.join('\n')}`
+          : '\nTreasury pre-flight: not available';
+        const dataAsOfLine = result.run?.prDataAsOf
+          ? `\nPR data as of ${new Date(result.run.prDataAsOf).toLocaleString()}`
+          : '';
+        alert(`✅ Payroll run created successfully!\nRun ID: ${result.run?.id || 'N/A'}${dataAsOfLine}${preflightLine}`);
         // Redirect to runs page
         window.location.href = '/dashboard/runs';
       } else {
@@ -226,14 +329,18 @@ export default function NewPayrollRunPage() {
                 type="number"
                 step="0.01"
                 min="0"
-                required
-                placeholder="100.00"
+                required={!formData.organizationId}
+                placeholder={selectedOrganization
+                  ? selectedOrganization.envelope.remainingUsd.toFixed(2)
+                  : '100.00'}
                 value={formData.usdBudget}
                 onChange={(e) => setFormData({ ...formData, usdBudget: e.target.value })}
                 className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
               />
               <p className="text-xs text-gray-500 mt-1">
-                Total USD amount to distribute among contributors
+                {selectedOrganization
+                  ? `Leave empty to use the rest of ${selectedOrganization.name}'s ${selectedOrganization.envelope.month} envelope ($${selectedOrganization.envelope.remainingUsd.toFixed(2)} of $${selectedOrganization.envelope.monthlyBudgetUsd.toFixed(2)})`
+                  : 'Total USD amount to distribute among contributors'}
               </p>
             </div>
 
@@ -247,18 +354,124 @@ export default function NewPayrollRunPage() {
                 onChange={(e) => setFormData({ ...formData, asset: e.target.value })}
                 className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
               >
-                <option value="HBAR">HBAR (Hedera Hashgraph)</option>
-                <option value="USDC">USDC (USD Coin)</option>
+                {assets.length === 0 && <option value="HBAR">HBAR (Hedera Hashgraph)</option>}
+                {assets.map(asset => (
+                  <option key={asset.id} value={asset.symbol}>
+                    {asset.symbol} ({asset.name}{asset.tokenId ? ` • ${asset.tokenId}` : ''} • {asset.decimals} decimals{asset.pegged ? ' • USD-pegged' : ''})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Pricing */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Pricing Method
+              </label>
+              <select
+                value={formData.pricingMethod}
+                onChange={(e) => setFormData({ ...formData, pricingMethod: e.target.value })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="SPOT">Spot price at creation</option>
+                <option value="TWAP">Time-weighted average over the pay period (TWAP)</option>
+                <option value="VWAP">Volume-weighted average over the pay period (VWAP)</option>
+                <option value="CLOSE">Price at a fixed close time</option>
               </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Averages use the price history sampled every 15 minutes; USD-pegged assets are always $1
+              </p>
+            </div>
+
+            {formData.pricingMethod === 'CLOSE' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Close Time
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formData.closeTime}
+                  onChange={(e) => setFormData({ ...formData, closeTime: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Defaults to the end of the pay period
+                </p>
+              </div>
+            )}
+
+            {/* Re-quote at execution */}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  If the price moves before execution
+                </label>
+                <select
+                  value={formData.requotePolicy}
+                  onChange={(e) => setFormData({ ...formData, requotePolicy: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  <option value="KEEP_NATIVE">Pay the approved token amounts</option>
+                  <option value="RECOMPUTE_NATIVE">Keep USD amounts, recompute token amounts</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Price Tolerance (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="50"
+                  step="0.1"
+                  value={formData.priceTolerancePercent}
+                  onChange={(e) => setFormData({ ...formData, priceTolerancePercent: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+              <p className="text-xs text-gray-500 sm:col-span-2">
+                Larger moves halt execution and send the run back for approval at the new price
+              </p>
             </div>
 
+            {/* Organization */}
+            {organizations.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Organization
+                </label>
+                <select
+                  value={formData.organizationId}
+                  onChange={(e) => setFormData({ ...formData, organizationId: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  <option value="">None (select repositories)</option>
+                  {organizations.map((org) => (
+                    <option key={org.id} value={org.id}>{org.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  An organization run pays all of its active repositories, split by the organization&apos;s repository shares
+                </p>
+              </div>
+            )}
+
             {/* Repositories */}
             <div>
               <label className="block text-sm font-medium text-gray-700">
                 Repositories
               </label>
               <div className="mt-1 p-4 border border-gray-300 rounded-md">
-                {repositoriesLoading ? (
+                {selectedOrganization ? (
+                  <div className="space-y-1">
+                    {selectedOrganization.repositories.filter(repo => repo.active).map((repo) => (
+                      <p key={repo.id} className="text-sm text-gray-900">{repo.fullName}</p>
+                    ))}
+                    <SafeLink href="/dashboard/organizations" className="text-blue-600 hover:text-blue-700 text-sm font-medium">
+                      Manage organization
+                    </SafeLink>
+                  </div>
+                ) : repositoriesLoading ? (
                   <div className="flex items-center space-x-2">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
                     <span className="text-sm text-gray-500">Loading repositories...</span>
@@ -295,6 +508,46 @@ export default function NewPayrollRunPage() {
                         </div>
                       </label>
                     ))}
+                    {formData.repositories.length > 1 && (
+                      <div className="mt-3 space-y-2">
+                        <p className="text-sm text-gray-700">
+                          Budget share per repository (repositories left on equal share split what remains):
+                        </p>
+                        {formData.repositories.map((repoId) => {
+                          const repo = repositories.find(r => r.id === repoId);
+                          const budget = formData.repositoryBudgets[repoId] || { type: 'EQUAL', value: '' };
+                          const setBudget = (update: Partial<typeof budget>) => setFormData({
+                            ...formData,
+                            repositoryBudgets: { ...formData.repositoryBudgets, [repoId]: { ...budget, ...update } }
+                          });
+                          return (
+                            <div key={repoId} className="flex items-center space-x-2">
+                              <span className="flex-1 text-sm text-gray-900">{repo?.fullName || repoId}</span>
+                              <select
+                                value={budget.type}
+                                onChange={(e) => setBudget({ type: e.target.value as typeof budget.type })}
+                                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                              >
+                                <option value="EQUAL">Equal share</option>
+                                <option value="FIXED">Fixed USD</option>
+                                <option value="PERCENT">Percent</option>
+                              </select>
+                              {budget.type !== 'EQUAL' && (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={budget.value}
+                                  onChange={(e) => setBudget({ value: e.target.value })}
+                                  className="w-28 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                                  placeholder={budget.type === 'FIXED' ? 'USD' : '%'}
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                     {formData.repositories.length > 0 && (
                       <div className="mt-3 p-3 bg-blue-50 rounded-md">
                         <p className="text-sm text-blue-800">
@@ -325,9 +578,16 @@ export default function NewPayrollRunPage() {
               <label className="block text-sm font-medium text-gray-700">
                 Distribution Method
               </label>
-              <select className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2">
+              <select
+                value={formData.distributionMode}
+                onChange={(e) => setFormData({ ...formData, distributionMode: e.target.value })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+              >
                 <option value="PR_COUNT_PROPORTIONAL">Proportional by PR Count</option>
-                <option value="LINES_WEIGHTED">Weighted by Lines Changed</option>
+                <option value="LINES_CHANGED_WEIGHTED">Weighted by Lines Changed</option>
+                <option value="FILES_CHANGED_WEIGHTED">Weighted by Files Changed</option>
+                <option value="LABEL_WEIGHTED">Weighted by PR Labels</option>
+                <option value="HYBRID">Hybrid (PRs, Lines and Files)</option>
                 <option value="EQUAL_SPLIT">Equal Split</option>
               </select>
               <p className="text-xs text-gray-500 mt-1">
@@ -335,6 +595,96 @@ export default function NewPayrollRunPage() {
               </p>
             </div>
 
+            <div className="flex items-center">
+              <input
+                id="creditActivity"
+                type="checkbox"
+                checked={formData.creditActivity}
+                onChange={(e) => setFormData({ ...formData, creditActivity: e.target.checked })}
+                className="h-4 w-4 border-gray-300 rounded"
+              />
+              <label htmlFor="creditActivity" className="ml-2 text-sm text-gray-700">
+                Also credit PR reviews and issue triage
+              </label>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                id="refreshCache"
+                type="checkbox"
+                checked={formData.refreshCache}
+                onChange={(e) => setFormData({ ...formData, refreshCache: e.target.checked })}
+                className="h-4 w-4 border-gray-300 rounded"
+              />
+              <label htmlFor="refreshCache" className="ml-2 text-sm text-gray-700">
+                Sync PR data from GitHub before building the run
+              </label>
+            </div>
+
+            {/* Execution Mode */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Execution Mode
+              </label>
+              <select
+                value={formData.executionMode}
+                onChange={(e) => setFormData({ ...formData, executionMode: e.target.value })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="DIRECT">Direct transfers</option>
+                <option value="BATCH">Atomic batch transfers</option>
+                <option value="SCHEDULED">Hedera scheduled transactions</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Scheduled payouts only execute once every required signer has signed the schedule
+              </p>
+            </div>
+
+            {formData.executionMode === 'BATCH' && (
+              <div className="flex items-center">
+                <input
+                  id="allowIndividualFallback"
+                  type="checkbox"
+                  checked={formData.allowIndividualFallback}
+                  onChange={(e) => setFormData({ ...formData, allowIndividualFallback: e.target.checked })}
+                  className="h-4 w-4 border-gray-300 rounded"
+                />
+                <label htmlFor="allowIndividualFallback" className="ml-2 text-sm text-gray-700">
+                  Fall back to individual transfers if an atomic batch fails
+                </label>
+              </div>
+            )}
+
+            {formData.executionMode === 'SCHEDULED' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Schedule Granularity
+                  </label>
+                  <select
+                    value={formData.scheduleGranularity}
+                    onChange={(e) => setFormData({ ...formData, scheduleGranularity: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                  >
+                    <option value="PAYOUT">One schedule per payout</option>
+                    <option value="BATCH">One schedule per batch of payouts</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Required Signers
+                  </label>
+                  <textarea
+                    value={formData.requiredSigners}
+                    onChange={(e) => setFormData({ ...formData, requiredSigners: e.target.value })}
+                    rows={3}
+                    placeholder="One public key per line"
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-sm"
+                  />
+                </div>
+              </>
+            )}
+
             {/* Actions */}
             <div className="flex items-center justify-between pt-6 border-t border-gray-200">
               <SafeLink href="/dashboard/runs">
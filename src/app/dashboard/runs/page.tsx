@@ -174,7 +174,7 @@ ${result.data.transactionId ? `\nTransaction ID: ${result.data.transactionId}` :
     }
   }
 
-  const isManager = session?.user.roles?.includes('manager');
+  const isManager = session?.user.permissions?.includes('run:view');
 
   if (!isManager) {
     return (
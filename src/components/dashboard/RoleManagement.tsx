@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Shield } from 'lucide-react';
+
+interface ScopedRole {
+  role: string;
+  scopeType: 'REPOSITORY' | 'ORGANIZATION';
+  scopeId: string;
+  scopeName: string;
+}
+
+interface RoleUser {
+  id: string;
+  email: string;
+  githubLogin?: string | null;
+  selfVerified: boolean;
+  roles: string[];
+  scopedRoles: ScopedRole[];
+}
+
+interface RolesData {
+  roles: { role: string; permissions: string[] }[];
+  users: RoleUser[];
+  repositories: { id: string; fullName: string }[];
+  organizations: { id: string; name: string }[];
+}
+
+interface Grant {
+  role: string;
+  scope: string; // "" for global, else "REPOSITORY:<id>" or "ORGANIZATION:<id>"
+}
+
+export default function RoleManagement() {
+  const [data, setData] = useState<RolesData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [grants, setGrants] = useState<Record<string, Grant>>({});
+
+  const fetchRoles = async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/admin/roles');
+      const result = await response.json();
+
+      if (response.ok) {
+        setData(result);
+      } else {
+        setError(result.error || 'Failed to fetch roles');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const grantRole = async (userId: string) => {
+    const grant = grants[userId] || { role: 'viewer', scope: '' };
+    const [scopeType, scopeId] = grant.scope ? grant.scope.split(':') : [undefined, undefined];
+
+    const response = await fetch('/api/admin/roles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, role: grant.role, scopeType, scopeId })
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      setError(`${result.error}${result.details ? `: ${result.details.join(', ')}` : ''}`);
+      return;
+    }
+    await fetchRoles();
+  };
+
+  const revokeRole = async (userId: string, role: string, scope?: ScopedRole) => {
+    const params = new URLSearchParams({ userId, role });
+    if (scope) {
+      params.set('scopeType', scope.scopeType);
+      params.set('scopeId', scope.scopeId);
+    }
+
+    const response = await fetch(`/api/admin/roles?${params}`, { method: 'DELETE' });
+    const result = await response.json();
+    if (!response.ok) {
+      setError(result.error || 'Failed to revoke role');
+      return;
+    }
+    await fetchRoles();
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Roles &amp; Permissions
+        </CardTitle>
+        <CardDescription>
+          Grant roles everywhere or on a single repository or organization
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {data && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {data.roles.map(({ role, permissions }) => (
+                <div key={role} className="text-sm">
+                  <span className="font-medium">{role}</span>
+                  <span className="text-gray-500">: {permissions.length > 0 ? permissions.join(', ') : 'own data only'}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="divide-y">
+              {data.users.map(user => {
+                const grant = grants[user.id] || { role: 'viewer', scope: '' };
+                const setGrant = (update: Partial<Grant>) =>
+                  setGrants({ ...grants, [user.id]: { ...grant, ...update } });
+
+                return (
+                  <div key={user.id} className="py-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium">{user.githubLogin || user.email}</span>
+                        {!user.selfVerified && (
+                          <span className="ml-2 text-xs text-yellow-700">not Self verified</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={grant.role}
+                          onChange={e => setGrant({ role: e.target.value })}
+                          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        >
+                          {data.roles.map(({ role }) => (
+                            <option key={role} value={role}>{role}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={grant.scope}
+                          onChange={e => setGrant({ scope: e.target.value })}
+                          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        >
+                          <option value="">Everywhere</option>
+                          {data.organizations.map(org => (
+                            <option key={org.id} value={`ORGANIZATION:${org.id}`}>Org: {org.name}</option>
+                          ))}
+                          {data.repositories.map(repo => (
+                            <option key={repo.id} value={`REPOSITORY:${repo.id}`}>Repo: {repo.fullName}</option>
+                          ))}
+                        </select>
+                        <Button size="sm" onClick={() => grantRole(user.id)}>Grant</Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {user.roles.map(role => (
+                        <Badge key={role} variant="secondary" className="cursor-pointer" onClick={() => revokeRole(user.id, role)}>
+                          {role} ✕
+                        </Badge>
+                      ))}
+                      {user.scopedRoles.map(scoped => (
+                        <Badge
+                          key={`${scoped.role}-${scoped.scopeId}`}
+                          variant="outline"
+                          className="cursor-pointer"
+                          onClick={() => revokeRole(user.id, scoped.role, scoped)}
+                        >
+                          {scoped.role} on {scoped.scopeName} ✕
+                        </Badge>
+                      ))}
+                      {user.roles.length === 0 && user.scopedRoles.length === 0 && (
+                        <span className="text-xs text-gray-500">No roles</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,16 +15,17 @@ interface NavItem {
   name: string;
   href: string;
   icon: string;
-  roles?: string[];
+  permission?: string; // Shown to users holding it in at least one scope
 }
 
 const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/dashboard', icon: '📊' },
-  { name: 'Repositories', href: '/dashboard/repositories', icon: '📁', roles: ['manager'] },
+  { name: 'Repositories', href: '/dashboard/repositories', icon: '📁', permission: 'repository:manage' },
+  { name: 'Organizations', href: '/dashboard/organizations', icon: '🏢', permission: 'run:view' },
   { name: 'Contributors', href: '/dashboard/contributors', icon: '👥' },
-  { name: 'Payroll Runs', href: '/dashboard/runs', icon: '💰', roles: ['manager'] },
-  { name: 'Integrations', href: '/dashboard/integrations', icon: '🔗', roles: ['manager'] },
-  { name: 'Admin', href: '/dashboard/admin', icon: '⚡', roles: ['manager'] },
+  { name: 'Payroll Runs', href: '/dashboard/runs', icon: '💰', permission: 'run:view' },
+  { name: 'Integrations', href: '/dashboard/integrations', icon: '🔗', permission: 'system:admin' },
+  { name: 'Admin', href: '/dashboard/admin', icon: '⚡', permission: 'system:admin' },
   { name: 'Profile', href: '/dashboard/profile', icon: '👤' },
   { name: 'Settings', href: '/dashboard/settings', icon: '⚙️' },
 ];
@@ -61,7 +62,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   }
 
   const filteredNavigation = navigation.filter(item => 
-    !item.roles || item.roles.some(role => session.user.roles?.includes(role))
+    !item.permission || session.user.permissions?.includes(item.permission)
   );
 
   return (
@@ -0,0 +1,289 @@
+/**
+ * Payout Asset Registry
+ * Persisted HBAR, HTS and ERC-20 assets runs can pay in, with the decimals
+ * read from each token and where its USD price comes from
+ */
+
+import { ethers } from 'ethers';
+import type { PayoutAsset } from '@prisma/client';
+import { prisma } from './db';
+import { HederaService } from './hedera';
+import { pythPriceService, PriceSnapshot } from './pyth';
+import { createPriceOracle } from './price-oracle';
+import { SEPOLIA_CONFIG } from './blockchain';
+
+export type AssetKind = 'NATIVE' | 'HTS' | 'ERC20';
+export type PriceSource = 'PYTH' | 'PEGGED';
+
+export interface AssetInput {
+  symbol?: string;
+  name?: string;
+  network?: string;
+  kind?: AssetKind;
+  tokenId?: string | null;
+  contractAddress?: string | null;
+  priceSource?: PriceSource;
+  priceFeedId?: string | null;
+  coingeckoId?: string | null;
+  pegged?: boolean;
+}
+
+const HBAR_FEED_ID = '0x3728e591097635310e6341af53db8b7d9d6d9cbc7ddcdde1e41d9c7ac66d4fb6';
+
+const MIRROR_NODE_URLS: Record<string, string> = {
+  testnet: 'https://testnet.mirrornode.hedera.com',
+  mainnet: 'https://mainnet.mirrornode.hedera.com'
+};
+
+const EVM_RPC_URLS: Record<string, string> = {
+  testnet: 'https://testnet.hashio.io/api',
+  mainnet: 'https://mainnet.hashio.io/api',
+  sepolia: SEPOLIA_CONFIG.rpcUrl
+};
+
+// Seeded on first use; decimals are those published by each token
+const DEFAULT_ASSETS: Array<Omit<PayoutAsset, 'id' | 'active' | 'createdById' | 'createdAt' | 'updatedAt'>> = [
+  ...['testnet', 'mainnet'].map(network => ({
+    symbol: 'HBAR',
+    name: 'Hedera Hashgraph',
+    network,
+    kind: 'NATIVE',
+    tokenId: null,
+    contractAddress: null,
+    decimals: 8,
+    priceSource: 'PYTH',
+    priceFeedId: HBAR_FEED_ID,
+    coingeckoId: 'hedera-hashgraph',
+    pegged: false
+  })),
+  {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    network: 'mainnet',
+    kind: 'HTS',
+    tokenId: '0.0.456858',
+    contractAddress: null,
+    decimals: 6,
+    priceSource: 'PEGGED',
+    priceFeedId: null,
+    coingeckoId: 'usd-coin',
+    pegged: true
+  },
+  {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    network: 'testnet',
+    kind: 'HTS',
+    tokenId: '0.0.429274',
+    contractAddress: null,
+    decimals: 6,
+    priceSource: 'PEGGED',
+    priceFeedId: null,
+    coingeckoId: 'usd-coin',
+    pegged: true
+  },
+  {
+    symbol: 'PYUSD',
+    name: 'PayPal USD',
+    network: 'sepolia',
+    kind: 'ERC20',
+    tokenId: null,
+    contractAddress: SEPOLIA_CONFIG.pyusdTokenAddress,
+    decimals: 6,
+    priceSource: 'PEGGED',
+    priceFeedId: null,
+    coingeckoId: 'paypal-usd',
+    pegged: true
+  }
+];
+
+/**
+ * Validate an asset definition, returning a list of problems
+ */
+export function validateAssetInput(input: AssetInput): string[] {
+  const errors: string[] = [];
+
+  if (!input.symbol || !/^[A-Z0-9.]{1,12}$/.test(input.symbol)) {
+    errors.push('Symbol must be 1-12 uppercase letters or digits');
+  }
+  if (!input.name) {
+    errors.push('Name is required');
+  }
+  if (!input.network || !EVM_RPC_URLS[input.network]) {
+    errors.push(`Network must be one of ${Object.keys(EVM_RPC_URLS).join(', ')}`);
+  }
+
+  switch (input.kind) {
+    case 'NATIVE':
+      if (input.symbol !== 'HBAR') {
+        errors.push('Only HBAR can be registered as a native asset');
+      }
+      break;
+    case 'HTS':
+      if (!input.tokenId || !HederaService.isValidTokenId(input.tokenId)) {
+        errors.push('A valid HTS token ID is required');
+      }
+      if (input.network && !MIRROR_NODE_URLS[input.network]) {
+        errors.push('HTS tokens must be on a Hedera network');
+      }
+      break;
+    case 'ERC20':
+      if (!input.contractAddress || !ethers.isAddress(input.contractAddress)) {
+        errors.push('A valid ERC-20 contract address is required');
+      }
+      break;
+    default:
+      errors.push('Kind must be NATIVE, HTS or ERC20');
+  }
+
+  if (!input.pegged) {
+    if (input.priceSource !== 'PYTH') {
+      errors.push('Assets that are not pegged need a PYTH price source');
+    } else if (!input.priceFeedId) {
+      errors.push('A price feed ID is required');
+    }
+  }
+
+  if (input.coingeckoId && !/^[a-z0-9-]+$/.test(input.coingeckoId)) {
+    errors.push('CoinGecko ID must be lowercase letters, digits and dashes');
+  }
+
+  return errors;
+}
+
+export class AssetRegistryService {
+
+  /**
+   * Seed the built-in assets if the registry is empty
+   */
+  async ensureDefaultAssets(): Promise<void> {
+    const count = await prisma.payoutAsset.count();
+    if (count > 0) {
+      return;
+    }
+
+    for (const asset of DEFAULT_ASSETS) {
+      await prisma.payoutAsset.upsert({
+        where: { symbol_network: { symbol: asset.symbol, network: asset.network } },
+        update: {},
+        create: asset
+      });
+    }
+  }
+
+  /**
+   * List registered assets, optionally for one network only
+   */
+  async listAssets(network?: string, includeInactive: boolean = false): Promise<PayoutAsset[]> {
+    await this.ensureDefaultAssets();
+
+    return prisma.payoutAsset.findMany({
+      where: {
+        ...(network && { network }),
+        ...(!includeInactive && { active: true })
+      },
+      orderBy: [{ network: 'asc' }, { symbol: 'asc' }]
+    });
+  }
+
+  /**
+   * Find an active asset by registry ID, symbol or HTS token ID on a network
+   */
+  async resolveAsset(reference: string, network: string): Promise<PayoutAsset | null> {
+    await this.ensureDefaultAssets();
+
+    return prisma.payoutAsset.findFirst({
+      where: {
+        active: true,
+        network,
+        OR: [
+          { id: reference },
+          { symbol: reference.toUpperCase() },
+          { tokenId: reference }
+        ]
+      }
+    });
+  }
+
+  /**
+   * Register an asset, reading its decimals from the token itself
+   */
+  async registerAsset(input: AssetInput, createdById: string): Promise<PayoutAsset> {
+    const decimals = await this.readTokenDecimals(input);
+
+    return prisma.payoutAsset.create({
+      data: {
+        symbol: input.symbol!,
+        name: input.name!,
+        network: input.network!,
+        kind: input.kind!,
+        tokenId: input.kind === 'HTS' ? input.tokenId : null,
+        contractAddress: input.kind === 'ERC20' ? ethers.getAddress(input.contractAddress!) : null,
+        decimals,
+        priceSource: input.pegged ? 'PEGGED' : input.priceSource!,
+        priceFeedId: input.pegged ? null : input.priceFeedId,
+        coingeckoId: input.coingeckoId || null,
+        pegged: input.pegged === true,
+        createdById
+      }
+    });
+  }
+
+  /**
+   * Current USD price snapshot for an asset from the price oracle of its
+   * network. Pegged assets skip the oracle.
+   */
+  async getPriceSnapshot(asset: PayoutAsset): Promise<PriceSnapshot> {
+    if (asset.pegged) {
+      return pythPriceService.createPeggedSnapshot(asset.symbol);
+    }
+
+    return createPriceOracle(asset.network === 'mainnet' ? 'mainnet' : 'testnet').getPrice({
+      symbol: asset.symbol,
+      pythFeedId: asset.priceFeedId,
+      coingeckoId: asset.coingeckoId
+    });
+  }
+
+  /**
+   * Decimals reported by the token: the mirror node for HTS tokens and
+   * decimals() for ERC-20 contracts
+   */
+  async readTokenDecimals(input: AssetInput): Promise<number> {
+    if (input.kind === 'NATIVE') {
+      return 8;
+    }
+
+    if (input.kind === 'HTS') {
+      const response = await fetch(`${MIRROR_NODE_URLS[input.network!]}/api/v1/tokens/${input.tokenId}`, {
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Token ${input.tokenId} not found on ${input.network} (${response.status})`);
+      }
+
+      const token = await response.json();
+      return parseInt(token.decimals);
+    }
+
+    const provider = new ethers.JsonRpcProvider(EVM_RPC_URLS[input.network!]);
+    const contract = new ethers.Contract(
+      input.contractAddress!,
+      ['function decimals() view returns (uint8)'],
+      provider
+    );
+    return Number(await contract.decimals());
+  }
+}
+
+/**
+ * Asset identifier Hedera transfers expect: "HBAR" or the HTS token ID
+ */
+export function getTransferAsset(asset: PayoutAsset): string {
+  return asset.kind === 'HTS' ? asset.tokenId! : 'HBAR';
+}
+
+export const assetRegistry = new AssetRegistryService();
@@ -3,10 +3,13 @@
  */
 
 import { NextAuthOptions } from 'next-auth';
+import { getToken } from 'next-auth/jwt';
 import { PrismaAdapter } from '@next-auth/prisma-adapter';
 import GitHubProvider from 'next-auth/providers/github';
+import type { NextRequest } from 'next/server';
 import { prisma } from './db';
 import { selfIdentityService } from './self-identity';
+import { rbacService, isPermission, AccessScope, RoleScope, Role } from './rbac';
 
 export const authOptions: NextAuthOptions = {
   // JWT sessions + manual database user management for best of both worlds
@@ -62,6 +65,7 @@ export const authOptions: NextAuthOptions = {
             roles = [];
           }
           session.user.roles = roles;
+          session.user.permissions = await rbacService.getPermissions(dbUser.id);
           
           session.user.selfVerified = dbUser.selfVerificationStatus || false;
           session.user.isContributor = !!dbUser.contributorProfile;
@@ -71,6 +75,7 @@ export const authOptions: NextAuthOptions = {
           session.user.githubId = token.githubId as string;
           session.user.githubLogin = token.githubLogin as string;
           session.user.roles = [];
+          session.user.permissions = [];
           session.user.selfVerified = false;
           session.user.isContributor = false;
         }
@@ -154,6 +159,7 @@ declare module 'next-auth' {
       name?: string;
       image?: string;
       roles: string[];
+      permissions: string[]; // Held in at least one repository or organization
       selfVerified: boolean;
       githubId?: string;
       githubLogin?: string;
@@ -184,23 +190,33 @@ export function requireVerifiedRole(user: any, role: string): boolean {
 }
 
 /**
- * Middleware to check authentication and authorization
+ * Middleware check of a request's session token against a role or permission
  */
 export function createAuthMiddleware(requiredRole?: string, requireSelfVerification = true) {
-  return async (req: Request) => {
-    // This would be implemented as Next.js middleware
-    // For now, return a placeholder
-    return { authorized: false, reason: 'Not implemented' };
+  return async (
+    req: NextRequest,
+    scope?: AccessScope
+  ): Promise<{ authorized: boolean; reason?: string; status: number; userId?: string }> => {
+    const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+    const userId = token?.userId as string | undefined;
+    if (!userId) {
+      return { authorized: false, reason: 'Unauthorized', status: 401 };
+    }
+
+    const access = await verifyUserAccess(userId, requiredRole, requireSelfVerification, scope);
+    return { ...access, status: access.authorized ? 200 : 403, userId };
   };
 }
 
 /**
- * Server-side user verification
+ * Server-side user verification. requiredRole may also be a permission,
+ * checked against the given scope.
  */
 export async function verifyUserAccess(
   userId: string,
   requiredRole?: string,
-  requireSelfVerification = true
+  requireSelfVerification = true,
+  scope?: AccessScope
 ): Promise<{ authorized: boolean; reason?: string }> {
   try {
     const user = await prisma.user.findUnique({
@@ -215,7 +231,11 @@ export async function verifyUserAccess(
       return { authorized: false, reason: 'Self verification required' };
     }
 
-    if (requiredRole) {
+    if (isPermission(requiredRole)) {
+      if (!await rbacService.hasPermission(userId, requiredRole, scope)) {
+        return { authorized: false, reason: `Permission '${requiredRole}' required` };
+      }
+    } else if (requiredRole) {
       let roles: string[] = [];
       try {
         roles = user.roles ? JSON.parse(user.roles) : [];
@@ -236,10 +256,20 @@ export async function verifyUserAccess(
 }
 
 /**
- * Add role to user
+ * Add role to user, everywhere or only on a repository or organization
  */
-export async function addUserRole(userId: string, role: string): Promise<boolean> {
+export async function addUserRole(
+  userId: string,
+  role: string,
+  scope?: RoleScope,
+  grantedById?: string
+): Promise<boolean> {
   try {
+    if (scope) {
+      await rbacService.assignScopedRole(userId, role as Role, scope, grantedById);
+      return true;
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: userId },
     });
@@ -276,10 +306,15 @@ export async function addUserRole(userId: string, role: string): Promise<boolean
 }
 
 /**
- * Remove role from user
+ * Remove role from user, everywhere or only on a repository or organization
  */
-export async function removeUserRole(userId: string, role: string): Promise<boolean> {
+export async function removeUserRole(userId: string, role: string, scope?: RoleScope): Promise<boolean> {
   try {
+    if (scope) {
+      await rbacService.revokeScopedRole(userId, role as Role, scope);
+      return true;
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: userId },
     });
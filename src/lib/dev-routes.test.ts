@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEV_ONLY_API_ROUTES, devRoutesEnabled, isDevOnlyRoute } from './dev-routes';
+
+describe('devRoutesEnabled', () => {
+  it('enables development-only routes in development alone', () => {
+    expect(devRoutesEnabled('development')).toBe(true);
+    expect(devRoutesEnabled('production')).toBe(false);
+    expect(devRoutesEnabled('test')).toBe(false);
+    expect(devRoutesEnabled(undefined)).toBe(false);
+  });
+});
+
+describe('isDevOnlyRoute', () => {
+  it('matches every route and the paths below it', () => {
+    for (const route of DEV_ONLY_API_ROUTES) {
+      expect(isDevOnlyRoute(route), route).toBe(true);
+      expect(isDevOnlyRoute(`${route}/`), `${route}/`).toBe(true);
+      expect(isDevOnlyRoute(`${route}/nested/path`), `${route}/nested/path`).toBe(true);
+    }
+  });
+
+  it('does not match routes that only share a prefix', () => {
+    expect(isDevOnlyRoute('/api/self/verification')).toBe(false);
+    expect(isDevOnlyRoute('/api/self/verification/tests')).toBe(false);
+    expect(isDevOnlyRoute('/api/testing')).toBe(false);
+    expect(isDevOnlyRoute('/api/debugger')).toBe(false);
+    expect(isDevOnlyRoute('/api/demo')).toBe(false);
+    expect(isDevOnlyRoute('/api/admin/diagnostics')).toBe(false);
+  });
+});
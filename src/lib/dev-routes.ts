@@ -0,0 +1,25 @@
+/**
+ * Development-only API routes
+ * Debug, demo and test endpoints the API middleware hides (404) outside
+ * development. Their useful data is served by /api/admin/diagnostics.
+ */
+
+export const DEV_ONLY_API_ROUTES = [
+  '/api/debug',
+  '/api/test',
+  '/api/test-pyusd',
+  '/api/demo/init-donation-page',
+  '/api/self/verification/test'
+];
+
+export function devRoutesEnabled(nodeEnv: string | undefined = process.env.NODE_ENV): boolean {
+  return nodeEnv === 'development';
+}
+
+/**
+ * Whether the path is one of the routes or below one of them
+ */
+export function isDevOnlyRoute(pathname: string): boolean {
+  const path = pathname.replace(/\/+$/, '');
+  return DEV_ONLY_API_ROUTES.some(route => path === route || path.startsWith(`${route}/`));
+}
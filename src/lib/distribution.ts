@@ -1,17 +1,89 @@
 /**
  * Distribution Calculation Service
- * Handles PR-count based distribution logic and payout calculations
+ * Handles pluggable distribution strategies and payout calculations
  */
 
-import { ContributorStats } from './github';
-import { PriceSnapshot } from './pyth';
+import { createHash } from 'crypto';
+import { ActivityKind, ContributorStats, GitHubPR } from './github';
+import { PriceSnapshot, allocateNativeUnits } from './pyth';
+import { DEFAULT_WEIGHT_RULE } from './weighting';
+
+export type DistributionMode =
+  | 'PR_COUNT_PROPORTIONAL'
+  | 'LINES_CHANGED_WEIGHTED'
+  | 'FILES_CHANGED_WEIGHTED'
+  | 'EQUAL_SPLIT'
+  | 'LABEL_WEIGHTED'
+  | 'HYBRID';
+
+export interface HybridWeights {
+  prCount: number;
+  linesChanged: number;
+  filesChanged: number;
+}
 
 export interface DistributionConfig {
-  mode: 'PR_COUNT_PROPORTIONAL';
+  mode: DistributionMode | string; // Any registered strategy mode
   totalBudgetUsd: number;
   minPrCountThreshold: number; // Minimum PRs to qualify for payout
   maxShareCap?: number; // Maximum share percentage (0-1)
   excludeContributors?: string[]; // GitHub logins to exclude
+  labelWeights?: Record<string, number>; // Label name -> points per PR (LABEL_WEIGHTED)
+  defaultLabelWeight?: number; // Points for PRs without a weighted label (default 1)
+  hybridWeights?: HybridWeights; // Blend of normalized metrics (HYBRID)
+  activityPoints?: Partial<Record<ActivityKind, number>>; // Points per review or triage activity, when credited
+  repositoryBudgets?: RepositoryBudget[]; // Per-repository budget shares, for multi-repository runs
+}
+
+/**
+ * A repository's share of a multi-repository run's budget: a fixed USD
+ * amount or a percentage of the total. Repositories with neither split what
+ * is left equally.
+ */
+export interface RepositoryBudget {
+  repo: string; // "owner/name"
+  fixedUsd?: number;
+  percent?: number; // 0-100
+}
+
+/**
+ * A contributor's work and allocation in one repository of a multi-repository run
+ */
+export interface RepositoryBreakdown {
+  repo: string; // "owner/name"
+  prCount: number;
+  weightedPoints: number;
+  usdAmount: number; // Allocated from the repository's budget, after the share cap
+}
+
+export interface RepositorySubtotal {
+  repo: string; // "owner/name"
+  budgetUsd: number;
+  usdAmount: number; // Allocated to eligible contributors
+  prCount: number;
+  contributors: number;
+}
+
+/**
+ * A distribution strategy turns eligible contributor stats into scores.
+ * Each contributor's share is their score divided by the sum of all scores.
+ */
+export interface DistributionStrategy {
+  mode: string;
+  name: string;
+  description: string;
+  calculateScores(
+    eligibleStats: Map<string, ContributorStats>,
+    config: DistributionConfig
+  ): Map<string, number>;
+}
+
+export interface PRWeightBreakdown {
+  repo: string; // "owner/name"
+  prNumber: number;
+  title: string;
+  weight: number;
+  weightRule: string; // Rule(s) that set the weight
 }
 
 export interface ContributorDistribution {
@@ -19,11 +91,45 @@ export interface ContributorDistribution {
   githubId: number;
   contributorId?: string; // Database contributor ID if verified
   prCount: number;
+  weightedPoints: number; // Sum of per-PR weights
+  prs: PRWeightBreakdown[];
+  activityPoints?: number; // Review and triage points, when credited
+  repoBreakdown?: RepositoryBreakdown[]; // Per-repository allocations, with repository budgets
+  score: number; // Strategy score the share was derived from (USD before caps with repository budgets)
   shareRatio: number; // Proportion of total distribution (0-1)
   usdAmount: number;
   nativeAmount: string; // Amount in smallest unit
   eligible: boolean;
   ineligibilityReason?: string;
+  assetPercent?: number; // Share of usdAmount paid in the run asset when split (default 100)
+  legs?: PayoutLegPlan[]; // Parts of usdAmount paid in other assets
+  allocatedUsd?: number; // Strategy allocation before payout limits
+  redistributedUsd?: number; // Moved in (+) or out (-) by payout caps
+  carriedInUsd?: number; // Balance carried from earlier runs paid in this one
+  accruedUsd?: number; // Held back below the payout threshold and carried forward
+}
+
+/**
+ * A contributor's own payout limits and the unpaid balance they carry
+ */
+export interface ContributorLimits {
+  minPayoutThreshold?: number | null;
+  maxPayoutCap?: number | null;
+  carriedUsd: number;
+}
+
+/**
+ * Part of a contributor's payout paid in another asset, per their payout splits
+ */
+export interface PayoutLegPlan {
+  symbol: string;
+  asset: string; // "HBAR" or token ID
+  assetId: string;
+  percent: number; // Share of the contributor's usdAmount
+  usdAmount: number;
+  nativeAmount: string;
+  decimals: number;
+  priceSnapshot: PriceSnapshot;
 }
 
 export interface DistributionPreview {
@@ -34,6 +140,13 @@ export interface DistributionPreview {
   totalDistribution: number; // Total USD distributed
   distributions: ContributorDistribution[];
   warnings: string[];
+  repoSubtotals?: RepositorySubtotal[]; // With repository budgets
+  limits?: {
+    accruedUsd: number;
+    carriedInUsd: number;
+    redistributedUsd: number;
+    unallocatedUsd: number; // Above caps with nobody under theirs to take it
+  };
   metadata: {
     calculatedAt: Date;
     asset: string;
@@ -48,12 +161,298 @@ export interface DistributionValidation {
   warnings: string[];
 }
 
+/**
+ * Serialize a value as JSON with object keys sorted at every level,
+ * so equal values always produce identical strings
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+}
+
+/**
+ * Points per review or triage activity, in weighted PR points
+ */
+export const DEFAULT_ACTIVITY_POINTS: Record<ActivityKind, number> = {
+  REVIEW_APPROVAL: 0.5,
+  REVIEW: 0.5,
+  REVIEW_COMMENT: 0.1,
+  ISSUE_LABELED: 0.1,
+  ISSUE_DUPLICATE: 0.25
+};
+
+/**
+ * A contributor's review and triage points under a config; zero unless the
+ * config credits activity
+ */
+export function activityPointsOf(stats: ContributorStats, config: DistributionConfig): number {
+  if (!config.activityPoints) {
+    return 0;
+  }
+  return (stats.activities || []).reduce(
+    (sum, activity) => sum + (config.activityPoints![activity.kind] ?? 0),
+    0
+  );
+}
+
+const DEFAULT_HYBRID_WEIGHTS: HybridWeights = {
+  prCount: 0.5,
+  linesChanged: 0.3,
+  filesChanged: 0.2
+};
+
+/**
+ * Score each contributor with a single per-contributor metric
+ */
+function scoreBy(
+  eligibleStats: Map<string, ContributorStats>,
+  metric: (stats: ContributorStats) => number
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const [githubLogin, stats] of eligibleStats) {
+    scores.set(githubLogin, Math.max(0, metric(stats)));
+  }
+  return scores;
+}
+
+/**
+ * Scale scores so they sum to 1 (all zeros stay zero)
+ */
+function normalizeScores(scores: Map<string, number>): Map<string, number> {
+  const total = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+  const normalized = new Map<string, number>();
+  for (const [githubLogin, score] of scores) {
+    normalized.set(githubLogin, total > 0 ? score / total : 0);
+  }
+  return normalized;
+}
+
+const prCountStrategy: DistributionStrategy = {
+  mode: 'PR_COUNT_PROPORTIONAL',
+  name: 'Proportional by PR Count',
+  description: 'Each merged PR earns its weight (1 unless repository weighting rules apply)',
+  calculateScores: (eligibleStats) => scoreBy(eligibleStats, stats => stats.weightedPoints)
+};
+
+const linesChangedStrategy: DistributionStrategy = {
+  mode: 'LINES_CHANGED_WEIGHTED',
+  name: 'Weighted by Lines Changed',
+  description: 'Points equal to lines added plus lines deleted',
+  calculateScores: (eligibleStats) =>
+    scoreBy(eligibleStats, stats => stats.totalAdditions + stats.totalDeletions)
+};
+
+const filesChangedStrategy: DistributionStrategy = {
+  mode: 'FILES_CHANGED_WEIGHTED',
+  name: 'Weighted by Files Changed',
+  description: 'Points equal to the number of files changed',
+  calculateScores: (eligibleStats) => scoreBy(eligibleStats, stats => stats.totalChangedFiles)
+};
+
+const equalSplitStrategy: DistributionStrategy = {
+  mode: 'EQUAL_SPLIT',
+  name: 'Equal Split',
+  description: 'Every eligible contributor receives the same share',
+  calculateScores: (eligibleStats) => scoreBy(eligibleStats, () => 1)
+};
+
+const labelWeightedStrategy: DistributionStrategy = {
+  mode: 'LABEL_WEIGHTED',
+  name: 'Weighted by PR Labels',
+  description: 'Each PR earns the highest weight among its labels',
+  calculateScores: (eligibleStats, config) => {
+    const labelWeights = new Map(
+      Object.entries(config.labelWeights || {}).map(([label, weight]) => [label.toLowerCase(), weight])
+    );
+    const defaultWeight = config.defaultLabelWeight ?? 1;
+
+    return scoreBy(eligibleStats, stats => {
+      // Fall back to weighted points when per-PR details are not available
+      if (stats.prs.length === 0) {
+        return stats.weightedPoints * defaultWeight;
+      }
+
+      return stats.prs.reduce((sum, pr) => {
+        const weights = pr.labels
+          .map(label => labelWeights.get(label.name.toLowerCase()))
+          .filter((weight): weight is number => weight !== undefined);
+        const labelWeight = weights.length > 0 ? Math.max(...weights) : defaultWeight;
+        return sum + labelWeight * (pr.weight ?? 1) * (pr.credit ?? 1);
+      }, 0);
+    });
+  }
+};
+
+const hybridStrategy: DistributionStrategy = {
+  mode: 'HYBRID',
+  name: 'Hybrid Formula',
+  description: 'Weighted blend of PR count, lines changed and files changed shares',
+  calculateScores: (eligibleStats, config) => {
+    const weights = config.hybridWeights || DEFAULT_HYBRID_WEIGHTS;
+    const prShares = normalizeScores(prCountStrategy.calculateScores(eligibleStats, config));
+    const lineShares = normalizeScores(linesChangedStrategy.calculateScores(eligibleStats, config));
+    const fileShares = normalizeScores(filesChangedStrategy.calculateScores(eligibleStats, config));
+
+    return scoreBy(eligibleStats, stats =>
+      weights.prCount * (prShares.get(stats.login) || 0) +
+      weights.linesChanged * (lineShares.get(stats.login) || 0) +
+      weights.filesChanged * (fileShares.get(stats.login) || 0)
+    );
+  }
+};
+
+const strategyRegistry = new Map<string, DistributionStrategy>();
+
+/**
+ * Register a distribution strategy (replaces any strategy with the same mode)
+ */
+export function registerDistributionStrategy(strategy: DistributionStrategy): void {
+  strategyRegistry.set(strategy.mode, strategy);
+}
+
+/**
+ * Look up a registered distribution strategy by mode
+ */
+export function getDistributionStrategy(mode: string): DistributionStrategy | undefined {
+  return strategyRegistry.get(mode);
+}
+
+/**
+ * List all registered distribution strategies
+ */
+export function getDistributionStrategies(): DistributionStrategy[] {
+  return Array.from(strategyRegistry.values());
+}
+
+[
+  prCountStrategy,
+  linesChangedStrategy,
+  filesChangedStrategy,
+  equalSplitStrategy,
+  labelWeightedStrategy,
+  hybridStrategy
+].forEach(registerDistributionStrategy);
+
+/**
+ * USD budget of each repository. Fixed amounts and percentages are taken
+ * first; repositories with neither split the remainder equally.
+ */
+export function resolveRepositoryBudgets(
+  budgets: RepositoryBudget[],
+  totalBudgetUsd: number
+): Map<string, number> {
+  const resolved = new Map<string, number>();
+  const open: string[] = [];
+
+  for (const budget of budgets) {
+    if (budget.fixedUsd !== undefined) {
+      resolved.set(budget.repo, budget.fixedUsd);
+    } else if (budget.percent !== undefined) {
+      resolved.set(budget.repo, totalBudgetUsd * budget.percent / 100);
+    } else {
+      open.push(budget.repo);
+    }
+  }
+
+  const assigned = Array.from(resolved.values()).reduce((sum, usd) => sum + usd, 0);
+  const remainder = Math.max(0, totalBudgetUsd - assigned);
+  open.forEach(repo => resolved.set(repo, open.length > 0 ? remainder / open.length : 0));
+
+  return resolved;
+}
+
+/**
+ * Per-repository subtotals of a run from its payouts' repository breakdowns
+ */
+export function summarizeRepositories(
+  budgets: RepositoryBudget[],
+  totalBudgetUsd: number,
+  payoutBreakdowns: RepositoryBreakdown[][]
+): RepositorySubtotal[] {
+  return Array.from(resolveRepositoryBudgets(budgets, totalBudgetUsd), ([repo, budgetUsd]) => {
+    const breakdowns = payoutBreakdowns.flatMap(payout => payout.filter(breakdown => breakdown.repo === repo));
+    return {
+      repo,
+      budgetUsd,
+      usdAmount: breakdowns.reduce((sum, breakdown) => sum + breakdown.usdAmount, 0),
+      prCount: breakdowns.reduce((sum, breakdown) => sum + breakdown.prCount, 0),
+      contributors: breakdowns.filter(breakdown => breakdown.usdAmount > 0).length
+    };
+  });
+}
+
+/**
+ * A contributor's stats restricted to one repository's PRs and activity
+ */
+function repositoryStats(stats: ContributorStats, repo: string): ContributorStats {
+  const prs = stats.prs.filter(pr => pr.repository === repo);
+  const sumOf = (pick: (pr: GitHubPR) => number) =>
+    prs.reduce((sum, pr) => sum + pick(pr) * (pr.credit ?? 1), 0);
+
+  return {
+    ...stats,
+    prCount: prs.length,
+    weightedPoints: sumOf(pr => pr.weight ?? 1),
+    totalAdditions: sumOf(pr => pr.additions || 0),
+    totalDeletions: sumOf(pr => pr.deletions || 0),
+    totalChangedFiles: sumOf(pr => pr.changed_files || 0),
+    prs,
+    activities: stats.activities?.filter(activity => activity.repository === repo)
+  };
+}
+
+/**
+ * Cap allocations and water-fill the excess across uncapped items by score
+ * until nothing is over its cap. Updates allocations in place and returns
+ * the surplus left when every item with a score is capped.
+ */
+function waterFill<T>(
+  items: T[],
+  allocations: Map<T, number>,
+  capOf: (item: T) => number,
+  scoreOf: (item: T) => number
+): number {
+  const capped = new Set<T>();
+
+  // Each pass caps at least one more item, so this ends
+  for (;;) {
+    const over = items.filter(item => !capped.has(item) && allocations.get(item)! > capOf(item) + 1e-9);
+    if (over.length === 0) {
+      return 0;
+    }
+
+    let excess = 0;
+    for (const item of over) {
+      excess += allocations.get(item)! - capOf(item);
+      allocations.set(item, capOf(item));
+      capped.add(item);
+    }
+
+    const receivers = items.filter(item => !capped.has(item) && scoreOf(item) > 0);
+    const totalScore = receivers.reduce((sum, item) => sum + scoreOf(item), 0);
+    if (totalScore === 0) {
+      return excess;
+    }
+    receivers.forEach(item => allocations.set(item, allocations.get(item)! + excess * scoreOf(item) / totalScore));
+  }
+}
+
 export class DistributionService {
 
   /**
-   * Calculate PR-count proportional distribution
+   * Calculate distribution using the strategy registered for config.mode
    */
-  calculatePRCountDistribution(
+  calculateDistribution(
     contributorStats: Map<string, ContributorStats>,
     config: DistributionConfig,
     priceSnapshot: PriceSnapshot,
@@ -61,47 +460,86 @@ export class DistributionService {
     assetDecimals: number,
     verifiedContributors?: Map<string, string> // GitHub login -> contributor ID
   ): DistributionPreview {
+    const strategy = getDistributionStrategy(config.mode);
+    if (!strategy) {
+      throw new Error(`Unsupported distribution mode: ${config.mode}`);
+    }
+
     const distributions: ContributorDistribution[] = [];
     const warnings: string[] = [];
-    
+
     // Filter eligible contributors
     const eligibleStats = this.filterEligibleContributors(contributorStats, config, warnings);
-    
+
     // Calculate total PR count for eligible contributors
     const totalPrCount = Array.from(eligibleStats.values())
       .reduce((sum, stats) => sum + stats.prCount, 0);
 
-    if (totalPrCount === 0) {
+    // Score contributors with the selected strategy, plus any review and triage credit.
+    // With repository budgets, each repository's budget is split and capped by its
+    // own scores and a contributor's score is what they were allocated across repositories.
+    const repoAllocations = config.repositoryBudgets?.length
+      ? this.allocateRepositoryBudgets(eligibleStats, config, strategy, warnings)
+      : undefined;
+    const scores = repoAllocations
+      ? new Map(Array.from(eligibleStats.keys(), login => [
+          login,
+          Array.from(repoAllocations.values()).reduce((sum, repo) => sum + (repo.get(login) || 0), 0)
+        ]))
+      : this.addActivityScores(strategy.calculateScores(eligibleStats, config), eligibleStats, config);
+    const totalScore = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+
+    if (totalScore === 0) {
       warnings.push('No eligible contributors found - all distributions will be zero');
     }
 
+    // Split the budget by score, water-filling whatever the share cap clips;
+    // repository allocations were capped within each repository already
+    const logins = Array.from(eligibleStats.keys());
+    const allocations = new Map(logins.map(login => [
+      login,
+      repoAllocations
+        ? scores.get(login) || 0
+        : totalScore > 0 ? config.totalBudgetUsd * (scores.get(login) || 0) / totalScore : 0
+    ]));
+    const unallocatedUsd = config.maxShareCap && !repoAllocations
+      ? waterFill(logins, allocations, () => config.maxShareCap! * config.totalBudgetUsd, login => scores.get(login) || 0)
+      : 0;
+    const nativeAmounts = allocateNativeUnits(
+      logins.map(login => ({ key: login, usdAmount: allocations.get(login)! })),
+      priceSnapshot.price,
+      assetDecimals
+    );
+
     // Calculate individual distributions
     for (const [githubLogin, stats] of eligibleStats) {
-      const shareRatio = totalPrCount > 0 ? stats.prCount / totalPrCount : 0;
-      
-      // Apply maximum share cap if configured
-      const cappedShareRatio = config.maxShareCap 
-        ? Math.min(shareRatio, config.maxShareCap)
-        : shareRatio;
-
-      const usdAmount = config.totalBudgetUsd * cappedShareRatio;
-      const nativeAmount = this.convertUsdToNative(usdAmount, priceSnapshot, assetDecimals);
+      const score = scores.get(githubLogin) || 0;
+      // Share before the cap
+      const shareRatio = totalScore > 0 ? score / totalScore : 0;
+      const usdAmount = allocations.get(githubLogin)!;
 
       const distribution: ContributorDistribution = {
         githubLogin,
         githubId: stats.id,
         contributorId: verifiedContributors?.get(githubLogin),
         prCount: stats.prCount,
-        shareRatio: cappedShareRatio,
+        weightedPoints: stats.weightedPoints,
+        prs: this.buildPRWeightBreakdown(stats),
+        activityPoints: activityPointsOf(stats, config) || undefined,
+        repoBreakdown: repoAllocations
+          ? this.buildRepositoryBreakdown(stats, repoAllocations)
+          : undefined,
+        score,
+        shareRatio: config.totalBudgetUsd > 0 ? usdAmount / config.totalBudgetUsd : 0,
         usdAmount,
-        nativeAmount,
+        nativeAmount: nativeAmounts.get(githubLogin)!,
         eligible: true
       };
 
       distributions.push(distribution);
 
       // Add warning if share was capped
-      if (config.maxShareCap && shareRatio > config.maxShareCap) {
+      if (config.maxShareCap && !repoAllocations && shareRatio > config.maxShareCap) {
         warnings.push(
           `${githubLogin}'s share was capped at ${(config.maxShareCap * 100).toFixed(1)}% ` +
           `(was ${(shareRatio * 100).toFixed(1)}%)`
@@ -109,6 +547,13 @@ export class DistributionService {
       }
     }
 
+    if (config.maxShareCap && unallocatedUsd > 0.005) {
+      warnings.push(
+        `$${unallocatedUsd.toFixed(2)} above the ${(config.maxShareCap * 100).toFixed(1)}% share cap ` +
+        'could not be redistributed: every contributor is capped'
+      );
+    }
+
     // Add ineligible contributors for transparency
     for (const [githubLogin, stats] of contributorStats) {
       if (!eligibleStats.has(githubLogin)) {
@@ -118,6 +563,9 @@ export class DistributionService {
           githubId: stats.id,
           contributorId: verifiedContributors?.get(githubLogin),
           prCount: stats.prCount,
+          weightedPoints: stats.weightedPoints,
+          prs: this.buildPRWeightBreakdown(stats),
+          score: 0,
           shareRatio: 0,
           usdAmount: 0,
           nativeAmount: '0',
@@ -131,7 +579,21 @@ export class DistributionService {
       .filter(d => d.eligible)
       .reduce((sum, d) => sum + d.usdAmount, 0);
 
-    const previewHash = this.calculatePreviewHash(distributions, config, priceSnapshot);
+    const repoSubtotals = config.repositoryBudgets?.length
+      ? summarizeRepositories(
+          config.repositoryBudgets,
+          config.totalBudgetUsd,
+          distributions.filter(d => d.eligible).map(d => d.repoBreakdown || [])
+        )
+      : undefined;
+
+    const previewHash = this.calculatePreviewHash(
+      distributions,
+      config,
+      priceSnapshot,
+      asset,
+      assetDecimals
+    );
 
     return {
       config,
@@ -141,6 +603,7 @@ export class DistributionService {
       totalDistribution,
       distributions,
       warnings,
+      repoSubtotals,
       metadata: {
         calculatedAt: new Date(),
         asset,
@@ -150,6 +613,116 @@ export class DistributionService {
     };
   }
 
+  /**
+   * Apply contributors' payout limits to a preview. Allocations above a cap
+   * (the contributor's own or the run's share cap) are redistributed by
+   * strategy score to contributors still under theirs. Carried balances are
+   * then added, up to the cap, and totals below a contributor's threshold
+   * are held back to be carried forward.
+   */
+  applyContributorLimits(
+    preview: DistributionPreview,
+    limits: Map<string, ContributorLimits> // By contributor ID
+  ): DistributionPreview {
+    if (limits.size === 0) {
+      return preview;
+    }
+
+    const budget = preview.config.totalBudgetUsd;
+    const shareCapUsd = preview.config.maxShareCap ? preview.config.maxShareCap * budget : Infinity;
+    const capOf = (distribution: ContributorDistribution): number => {
+      const cap = distribution.contributorId ? limits.get(distribution.contributorId)?.maxPayoutCap : undefined;
+      return Math.min(cap && cap > 0 ? cap : Infinity, shareCapUsd);
+    };
+
+    const eligible = preview.distributions.filter(d => d.eligible);
+    const allocations = new Map(eligible.map(d => [d, d.usdAmount]));
+    const unallocatedUsd = waterFill(eligible, allocations, capOf, d => d.score);
+
+    const warnings = [...preview.warnings];
+    if (unallocatedUsd > 0.005) {
+      warnings.push(`$${unallocatedUsd.toFixed(2)} above payout caps could not be redistributed`);
+    }
+
+    const limited = preview.distributions.map(distribution => {
+      if (!distribution.eligible) {
+        return distribution;
+      }
+
+      const usdAmount = allocations.get(distribution)!;
+      const adjusted = {
+        ...distribution,
+        allocatedUsd: distribution.usdAmount,
+        redistributedUsd: usdAmount - distribution.usdAmount,
+        carriedInUsd: 0,
+        accruedUsd: 0
+      };
+
+      const limit = distribution.contributorId ? limits.get(distribution.contributorId) : undefined;
+      const carriedInUsd = limit ? Math.max(0, Math.min(limit.carriedUsd, capOf(distribution) - usdAmount)) : 0;
+      const total = usdAmount + carriedInUsd;
+
+      if (limit?.minPayoutThreshold && total < limit.minPayoutThreshold) {
+        warnings.push(
+          `${distribution.githubLogin} is below their $${limit.minPayoutThreshold} minimum payout; ` +
+          `$${usdAmount.toFixed(2)} is carried forward`
+        );
+        return {
+          ...adjusted,
+          accruedUsd: usdAmount,
+          usdAmount: 0,
+          nativeAmount: '0',
+          eligible: false,
+          ineligibilityReason: `Below $${limit.minPayoutThreshold} minimum payout (carried forward)`
+        };
+      }
+
+      return {
+        ...adjusted,
+        carriedInUsd,
+        usdAmount: total
+      };
+    });
+
+    // Convert the payable totals together so rounding remainders are assigned deterministically
+    const nativeAmounts = allocateNativeUnits(
+      limited.filter(d => d.eligible).map(d => ({ key: d.githubLogin, usdAmount: d.usdAmount })),
+      preview.priceSnapshot.price,
+      preview.metadata.assetDecimals
+    );
+    const distributions = limited.map(distribution => distribution.eligible
+      ? { ...distribution, nativeAmount: nativeAmounts.get(distribution.githubLogin)! }
+      : distribution
+    );
+
+    const sumOf = (pick: (d: ContributorDistribution) => number | undefined) =>
+      distributions.reduce((sum, d) => sum + (pick(d) || 0), 0);
+
+    return {
+      ...preview,
+      distributions,
+      warnings,
+      eligibleContributors: distributions.filter(d => d.eligible).length,
+      totalDistribution: sumOf(d => (d.eligible ? d.usdAmount : 0)),
+      limits: {
+        accruedUsd: sumOf(d => d.accruedUsd),
+        carriedInUsd: sumOf(d => d.carriedInUsd),
+        redistributedUsd: sumOf(d => Math.max(0, d.redistributedUsd || 0)),
+        unallocatedUsd
+      },
+      metadata: {
+        ...preview.metadata,
+        previewHash: this.calculatePreviewHash(
+          distributions,
+          preview.config,
+          preview.priceSnapshot,
+          preview.metadata.asset,
+          preview.metadata.assetDecimals
+        )
+      }
+    };
+  }
+
   /**
    * Validate distribution configuration
    */
@@ -157,6 +730,42 @@ export class DistributionService {
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    // Validate distribution mode
+    if (!getDistributionStrategy(config.mode)) {
+      errors.push(
+        `Unsupported distribution mode: ${config.mode} ` +
+        `(supported: ${getDistributionStrategies().map(s => s.mode).join(', ')})`
+      );
+    }
+
+    if (config.hybridWeights) {
+      const { prCount, linesChanged, filesChanged } = config.hybridWeights;
+      if ([prCount, linesChanged, filesChanged].some(weight => weight < 0)) {
+        errors.push('Hybrid weights cannot be negative');
+      } else if (prCount + linesChanged + filesChanged === 0) {
+        errors.push('At least one hybrid weight must be greater than 0');
+      }
+    }
+
+    if (config.labelWeights && Object.values(config.labelWeights).some(weight => weight < 0)) {
+      errors.push('Label weights cannot be negative');
+    }
+
+    if (config.activityPoints) {
+      const kinds = Object.keys(DEFAULT_ACTIVITY_POINTS);
+      for (const [kind, points] of Object.entries(config.activityPoints)) {
+        if (!kinds.includes(kind)) {
+          errors.push(`Unknown activity kind: ${kind}`);
+        } else if (typeof points !== 'number' || !Number.isFinite(points) || points < 0) {
+          errors.push(`${kind} points must be a non-negative number`);
+        }
+      }
+    }
+
+    if (config.repositoryBudgets) {
+      errors.push(...this.validateRepositoryBudgets(config.repositoryBudgets, config.totalBudgetUsd));
+    }
+
     // Validate budget
     if (config.totalBudgetUsd <= 0) {
       errors.push('Total budget must be greater than 0');
@@ -203,11 +812,12 @@ export class DistributionService {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Check price freshness
+    // Check price freshness; historical pricing is meant to be in the past
     const priceAge = (Date.now() - preview.priceSnapshot.timestamp.getTime()) / 1000;
     const maxStaleness = parseInt(process.env.MAX_PRICE_STALENESS_SECONDS || '300');
+    const spotPriced = !preview.priceSnapshot.pricing || preview.priceSnapshot.pricing.method === 'SPOT';
     
-    if (priceAge > maxStaleness) {
+    if (spotPriced && priceAge > maxStaleness) {
       errors.push(`Price data is stale: ${priceAge}s old (max: ${maxStaleness}s)`);
     }
 
@@ -257,8 +867,8 @@ export class DistributionService {
     const eligible = new Map<string, ContributorStats>();
 
     for (const [githubLogin, stats] of contributorStats) {
-      // Check minimum PR threshold
-      if (stats.prCount < config.minPrCountThreshold) {
+      // Check minimum PR threshold; review and triage credit qualifies on its own
+      if (stats.prCount < config.minPrCountThreshold && activityPointsOf(stats, config) === 0) {
         continue;
       }
 
@@ -278,11 +888,151 @@ export class DistributionService {
     return eligible;
   }
 
+  /**
+   * Add review and triage points to strategy scores. A point is worth what
+   * one weighted PR point scored under the strategy, or 1 when nobody has PRs.
+   */
+  private addActivityScores(
+    scores: Map<string, number>,
+    eligibleStats: Map<string, ContributorStats>,
+    config: DistributionConfig
+  ): Map<string, number> {
+    if (!config.activityPoints) {
+      return scores;
+    }
+
+    const stats = Array.from(eligibleStats.values());
+    const totalPoints = stats.reduce((sum, s) => sum + s.weightedPoints, 0);
+    const totalScore = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+    const pointValue = totalPoints > 0 && totalScore > 0 ? totalScore / totalPoints : 1;
+
+    return new Map(Array.from(scores, ([githubLogin, score]) => [
+      githubLogin,
+      score + activityPointsOf(eligibleStats.get(githubLogin)!, config) * pointValue
+    ]));
+  }
+
+  /**
+   * Split each repository's budget among the eligible contributors by their
+   * scores in that repository. The share cap applies to each repository's
+   * budget, and what it clips is water-filled within that repository.
+   * Returns allocations by repository, then login.
+   */
+  private allocateRepositoryBudgets(
+    eligibleStats: Map<string, ContributorStats>,
+    config: DistributionConfig,
+    strategy: DistributionStrategy,
+    warnings: string[]
+  ): Map<string, Map<string, number>> {
+    const budgets = resolveRepositoryBudgets(config.repositoryBudgets!, config.totalBudgetUsd);
+    const allocations = new Map<string, Map<string, number>>();
+
+    for (const [repo, budgetUsd] of budgets) {
+      const repoStats = new Map(
+        Array.from(eligibleStats, ([login, stats]) => [login, repositoryStats(stats, repo)] as const)
+          .filter(([, stats]) => stats.prCount > 0 || activityPointsOf(stats, config) > 0)
+      );
+      const scores = this.addActivityScores(strategy.calculateScores(repoStats, config), repoStats, config);
+      const totalScore = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+
+      if (totalScore === 0 && budgetUsd > 0) {
+        warnings.push(`${repo} has no eligible contributors; its $${budgetUsd.toFixed(2)} budget is unallocated`);
+      }
+
+      const repoAllocations = new Map(Array.from(scores, ([login, score]) => [
+        login,
+        totalScore > 0 ? budgetUsd * score / totalScore : 0
+      ]));
+
+      if (config.maxShareCap && totalScore > 0) {
+        const capUsd = config.maxShareCap * budgetUsd;
+        const capPercent = (config.maxShareCap * 100).toFixed(1);
+
+        for (const [login, usdAmount] of repoAllocations) {
+          if (usdAmount > capUsd + 1e-9) {
+            warnings.push(
+              `${login}'s share of ${repo} was capped at ${capPercent}% ` +
+              `(was ${(usdAmount / budgetUsd * 100).toFixed(1)}%)`
+            );
+          }
+        }
+
+        const unallocatedUsd = waterFill(
+          Array.from(repoAllocations.keys()),
+          repoAllocations,
+          () => capUsd,
+          login => scores.get(login) || 0
+        );
+        if (unallocatedUsd > 0.005) {
+          warnings.push(
+            `$${unallocatedUsd.toFixed(2)} of ${repo}'s budget above the ${capPercent}% share cap ` +
+            'could not be redistributed: every contributor is capped'
+          );
+        }
+      }
+
+      allocations.set(repo, repoAllocations);
+    }
+
+    return allocations;
+  }
+
+  /**
+   * A contributor's allocation from each repository
+   */
+  private buildRepositoryBreakdown(
+    stats: ContributorStats,
+    repoAllocations: Map<string, Map<string, number>>
+  ): RepositoryBreakdown[] {
+    return Array.from(repoAllocations)
+      .map(([repo, allocations]) => {
+        const repoStats = repositoryStats(stats, repo);
+        return {
+          repo,
+          prCount: repoStats.prCount,
+          weightedPoints: repoStats.weightedPoints,
+          usdAmount: allocations.get(stats.login) || 0
+        };
+      })
+      .filter(breakdown => breakdown.prCount > 0 || breakdown.usdAmount > 0);
+  }
+
+  /**
+   * Validate repository budget shares, returning a list of problems
+   */
+  private validateRepositoryBudgets(budgets: RepositoryBudget[], totalBudgetUsd: number): string[] {
+    const errors: string[] = [];
+    const repos = new Set<string>();
+
+    for (const budget of budgets) {
+      if (repos.has(budget.repo)) {
+        errors.push(`${budget.repo} has more than one budget share`);
+      }
+      repos.add(budget.repo);
+
+      if (budget.fixedUsd !== undefined && budget.percent !== undefined) {
+        errors.push(`${budget.repo} budget must be a fixed amount or a percentage, not both`);
+      } else if (budget.fixedUsd !== undefined && !(budget.fixedUsd >= 0)) {
+        errors.push(`${budget.repo} fixed budget cannot be negative`);
+      } else if (budget.percent !== undefined && !(budget.percent >= 0 && budget.percent <= 100)) {
+        errors.push(`${budget.repo} budget percentage must be between 0 and 100`);
+      }
+    }
+
+    const assigned = budgets.reduce((sum, budget) =>
+      sum + (budget.fixedUsd ?? 0) + totalBudgetUsd * (budget.percent ?? 0) / 100, 0);
+    if (assigned > totalBudgetUsd + 0.005) {
+      errors.push(`Repository budgets ($${assigned.toFixed(2)}) exceed the total budget ($${totalBudgetUsd.toFixed(2)})`);
+    }
+
+    return errors;
+  }
+
   /**
    * Get reason why contributor is ineligible
    */
   private getIneligibilityReason(stats: ContributorStats, config: DistributionConfig): string {
-    if (stats.prCount < config.minPrCountThreshold) {
+    if (stats.prCount < config.minPrCountThreshold && activityPointsOf(stats, config) === 0) {
       return `Below minimum PR threshold (${stats.prCount} < ${config.minPrCountThreshold})`;
     }
 
@@ -294,48 +1044,67 @@ export class DistributionService {
   }
 
   /**
-   * Convert USD amount to native asset amount
+   * List each PR with the weight and rule applied to it
    */
-  private convertUsdToNative(
-    usdAmount: number,
-    priceSnapshot: PriceSnapshot,
-    assetDecimals: number
-  ): string {
-    const nativeAmount = usdAmount / priceSnapshot.price;
-    const scaledAmount = Math.floor(nativeAmount * Math.pow(10, assetDecimals));
-    return scaledAmount.toString();
+  private buildPRWeightBreakdown(stats: ContributorStats): PRWeightBreakdown[] {
+    return stats.prs.map(pr => ({
+      repo: pr.repository || '',
+      prNumber: pr.number,
+      title: pr.title,
+      weight: pr.weight ?? 1,
+      weightRule: pr.weightRule || DEFAULT_WEIGHT_RULE
+    }));
   }
 
   /**
-   * Calculate deterministic hash for preview reproducibility
+   * Calculate SHA-256 hash over the canonical form of the payable preview.
+   * Only eligible distributions linked to a contributor are covered, keyed by
+   * contributor ID, so the hash can be recomputed from stored payouts.
    */
-  private calculatePreviewHash(
+  calculatePreviewHash(
     distributions: ContributorDistribution[],
     config: DistributionConfig,
-    priceSnapshot: PriceSnapshot
+    priceSnapshot: PriceSnapshot,
+    asset: string,
+    assetDecimals: number
   ): string {
+    const timestamp = priceSnapshot.timestamp instanceof Date
+      ? priceSnapshot.timestamp
+      : new Date(priceSnapshot.timestamp);
+
     const hashInput = {
-      distributions: distributions.map(d => ({
-        githubLogin: d.githubLogin,
-        prCount: d.prCount,
-        shareRatio: d.shareRatio,
-        usdAmount: d.usdAmount,
-        nativeAmount: d.nativeAmount
-      })),
+      payouts: distributions
+        .filter(d => d.eligible && d.contributorId)
+        .map(d => ({
+          contributorId: d.contributorId,
+          shareRatio: d.shareRatio,
+          usdAmount: d.usdAmount,
+          nativeAmount: d.nativeAmount,
+          // Only split payouts carry these, so unsplit runs hash as before
+          assetPercent: d.legs?.length ? d.assetPercent : undefined,
+          legs: d.legs?.length
+            ? d.legs
+                .map(leg => ({
+                  symbol: leg.symbol,
+                  asset: leg.asset,
+                  percent: leg.percent,
+                  usdAmount: leg.usdAmount,
+                  nativeAmount: leg.nativeAmount,
+                  decimals: leg.decimals,
+                  price: leg.priceSnapshot.price
+                }))
+                .sort((a, b) => a.symbol.localeCompare(b.symbol))
+            : undefined
+        }))
+        .sort((a, b) => a.contributorId!.localeCompare(b.contributorId!)),
       config,
+      asset,
+      assetDecimals,
       price: priceSnapshot.price,
-      timestamp: priceSnapshot.timestamp.toISOString()
+      timestamp: timestamp.toISOString()
     };
 
-    // Simple hash implementation - in production, use crypto.createHash
-    const hashString = JSON.stringify(hashInput);
-    let hash = 0;
-    for (let i = 0; i < hashString.length; i++) {
-      const char = hashString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16);
+    return createHash('sha256').update(canonicalJson(hashInput)).digest('hex');
   }
 
   /**
@@ -346,34 +1115,54 @@ export class DistributionService {
   }
 
   /**
-   * Recalculate distribution with updated parameters
+   * Recalculate distribution with updated parameters.
+   * Pass the original contributor stats for strategies that need per-PR detail;
+   * otherwise stats are rebuilt from the preview using PR counts only.
+   * Verified contributor links default to those in the original preview.
    */
   recalculateDistribution(
     originalPreview: DistributionPreview,
-    updates: Partial<DistributionConfig>
+    updates: Partial<DistributionConfig>,
+    originalStats?: Map<string, ContributorStats>,
+    verifiedContributors?: Map<string, string>
   ): DistributionPreview {
     const updatedConfig = { ...originalPreview.config, ...updates };
-    
-    // Rebuild contributor stats from preview
-    const contributorStats = new Map<string, ContributorStats>();
-    originalPreview.distributions.forEach(d => {
-      contributorStats.set(d.githubLogin, {
-        login: d.githubLogin,
-        id: d.githubId,
-        prCount: d.prCount,
-        totalAdditions: 0, // Not used in distribution
-        totalDeletions: 0, // Not used in distribution
-        totalChangedFiles: 0, // Not used in distribution
-        prs: [] // Not used in distribution
+
+    // Rebuild contributor stats from preview when none are supplied
+    let contributorStats = originalStats;
+    if (!contributorStats) {
+      contributorStats = new Map<string, ContributorStats>();
+      originalPreview.distributions.forEach(d => {
+        contributorStats!.set(d.githubLogin, {
+          login: d.githubLogin,
+          id: d.githubId,
+          prCount: d.prCount,
+          weightedPoints: d.weightedPoints,
+          totalAdditions: 0, // Not available in preview
+          totalDeletions: 0, // Not available in preview
+          totalChangedFiles: 0, // Not available in preview
+          prs: [] // Not available in preview
+        });
       });
-    });
+    }
+
+    // Keep verified contributor links from the original preview
+    if (!verifiedContributors) {
+      verifiedContributors = new Map<string, string>();
+      originalPreview.distributions.forEach(d => {
+        if (d.contributorId) {
+          verifiedContributors!.set(d.githubLogin, d.contributorId);
+        }
+      });
+    }
 
-    return this.calculatePRCountDistribution(
+    return this.calculateDistribution(
       contributorStats,
       updatedConfig,
       originalPreview.priceSnapshot,
       originalPreview.metadata.asset,
-      originalPreview.metadata.assetDecimals
+      originalPreview.metadata.assetDecimals,
+      verifiedContributors
     );
   }
 }
@@ -0,0 +1,218 @@
+/**
+ * Payroll Execution Journal
+ * Append-only record of each payout's intent, submission and confirmation,
+ * persisted so an interrupted run can be reconciled and resumed
+ */
+
+import { prisma } from './db';
+import { HederaService, MirrorNodeTransaction, getTransactionValidStart, TRANSACTION_VALID_DURATION_SECONDS } from './hedera';
+
+export type JournalState = 'INTENT' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED' | 'RESET';
+
+export interface JournalEntryInput {
+  runId: string;
+  payoutId: string;
+  idempotencyKey: string;
+  state: JournalState;
+  txId?: string;
+  detail?: string;
+}
+
+export interface JournaledPayout {
+  id: string;
+  runId: string;
+  status: string;
+  txId: string | null;
+  idempotencyKey: string;
+}
+
+export interface ReconciliationResult {
+  payoutId: string;
+  txId: string;
+  outcome: 'CONFIRMED' | 'RESET' | 'IN_FLIGHT';
+  detail?: string;
+}
+
+// Hedera transactions cannot reach consensus after their valid window closes;
+// allow another minute for the mirror node to catch up
+const TRANSACTION_VALID_DURATION_MS = TRANSACTION_VALID_DURATION_SECONDS * 1000;
+const MIRROR_NODE_LAG_MS = 60 * 1000;
+
+// A resent transaction ID needs time left to reach the network
+const RESUBMIT_MARGIN_MS = 30 * 1000;
+
+export class ExecutionJournal {
+
+  /**
+   * Append an entry to a payout's journal
+   */
+  async record(entry: JournalEntryInput): Promise<void> {
+    await prisma.payoutJournalEntry.create({
+      data: {
+        runId: entry.runId,
+        payoutId: entry.payoutId,
+        idempotencyKey: entry.idempotencyKey,
+        state: entry.state,
+        txId: entry.txId,
+        detail: entry.detail
+      }
+    });
+  }
+
+  /**
+   * Latest journal entry per payout of a run
+   */
+  async getLatestEntries(runId: string) {
+    const entries = await prisma.payoutJournalEntry.findMany({
+      where: { runId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const latest = new Map<string, typeof entries[number]>();
+    for (const entry of entries) {
+      latest.set(entry.payoutId, entry);
+    }
+    return latest;
+  }
+
+  /**
+   * Latest journal entry of a single payout
+   */
+  async getLatestEntry(payoutId: string) {
+    return prisma.payoutJournalEntry.findFirst({
+      where: { payoutId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Whether a transaction ID is still inside its valid window, so sending it
+   * again cannot pay twice: the network drops the duplicate
+   */
+  canResubmit(txId: string): boolean {
+    const validStart = getTransactionValidStart(txId);
+    return !!validStart &&
+      validStart.getTime() + TRANSACTION_VALID_DURATION_MS - RESUBMIT_MARGIN_MS > Date.now();
+  }
+
+  /**
+   * Time of the most recent journal activity on a run
+   */
+  async getLastActivity(runId: string): Promise<Date | null> {
+    const entry = await prisma.payoutJournalEntry.findFirst({
+      where: { runId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return entry?.createdAt || null;
+  }
+
+  /**
+   * Reconcile payouts whose transfer may have reached the network but whose
+   * outcome was never recorded. Confirmed transfers are marked CONFIRMED;
+   * transfers the mirror node reports as failed, or has no record of once
+   * they can no longer reach consensus, are reset to PENDING so they can be
+   * sent again; anything else, including a failed lookup, stays SUBMITTED
+   * and is never re-sent. Payouts claimed for sending but never journaled
+   * are released back to PENDING.
+   */
+  async reconcileInFlightPayouts(
+    runId: string,
+    hederaService: HederaService
+  ): Promise<ReconciliationResult[]> {
+    const payouts = await prisma.payout.findMany({ where: { runId } });
+    const latestEntries = await this.getLatestEntries(runId);
+    const mirrorResults = new Map<string, { found?: MirrorNodeTransaction | null; error?: string }>();
+    const results: ReconciliationResult[] = [];
+
+    for (const payout of payouts) {
+      const latest = latestEntries.get(payout.id);
+      const inFlight = payout.status === 'SUBMITTED' ||
+        ((payout.status === 'PENDING' || payout.status === 'SUBMITTING') && latest?.state === 'INTENT');
+      const txId = payout.txId || latest?.txId;
+
+      // The sender stopped before journaling a transfer, so nothing was sent
+      if (payout.status === 'SUBMITTING' && (!inFlight || !txId)) {
+        await prisma.payout.update({
+          where: { id: payout.id },
+          data: { status: 'PENDING' }
+        });
+        continue;
+      }
+
+      if (!inFlight || !txId) {
+        continue;
+      }
+
+      // Batched payouts share a transaction, so look each one up once
+      if (!mirrorResults.has(txId)) {
+        try {
+          mirrorResults.set(txId, { found: await hederaService.verifyTransactionFromMirror(txId) });
+        } catch (error) {
+          mirrorResults.set(txId, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+      const lookup = mirrorResults.get(txId)!;
+      const mirrorTx = lookup.found;
+
+      if (lookup.error !== undefined) {
+        // Only a definite answer from the mirror node may settle a payout
+        await this.keepInFlight(payout, txId);
+        results.push({ payoutId: payout.id, txId, outcome: 'IN_FLIGHT', detail: `Mirror node lookup failed: ${lookup.error}` });
+      } else if (mirrorTx?.result === 'SUCCESS') {
+        await this.markPayout(payout, 'CONFIRMED', txId, 'Confirmed by mirror node during resume');
+        results.push({ payoutId: payout.id, txId, outcome: 'CONFIRMED' });
+      } else if (mirrorTx || this.hasExpired(txId)) {
+        const detail = mirrorTx
+          ? `Mirror node reports ${mirrorTx.result}`
+          : 'Transaction never reached consensus';
+        await this.markPayout(payout, 'RESET', txId, detail);
+        results.push({ payoutId: payout.id, txId, outcome: 'RESET', detail });
+      } else {
+        await this.keepInFlight(payout, txId);
+        results.push({ payoutId: payout.id, txId, outcome: 'IN_FLIGHT' });
+      }
+    }
+
+    return results;
+  }
+
+  private async keepInFlight(payout: JournaledPayout, txId: string): Promise<void> {
+    if (payout.status !== 'SUBMITTED') {
+      await prisma.payout.update({
+        where: { id: payout.id },
+        data: { status: 'SUBMITTED', txId, submittedAt: new Date() }
+      });
+    }
+  }
+
+  private hasExpired(txId: string): boolean {
+    const validStart = getTransactionValidStart(txId);
+    return !!validStart &&
+      validStart.getTime() + TRANSACTION_VALID_DURATION_MS + MIRROR_NODE_LAG_MS < Date.now();
+  }
+
+  private async markPayout(
+    payout: JournaledPayout,
+    state: 'CONFIRMED' | 'RESET',
+    txId: string,
+    detail: string
+  ): Promise<void> {
+    await prisma.payout.update({
+      where: { id: payout.id },
+      data: state === 'CONFIRMED'
+        ? { status: 'CONFIRMED', txId, confirmedAt: new Date(), error: null }
+        : { status: 'PENDING', txId: null, submittedAt: null, error: detail }
+    });
+
+    await this.record({
+      runId: payout.runId,
+      payoutId: payout.id,
+      idempotencyKey: payout.idempotencyKey,
+      state,
+      txId,
+      detail
+    });
+  }
+}
+
+export const executionJournal = new ExecutionJournal();
@@ -3,10 +3,27 @@
  * Handles background job execution, status tracking, and error handling
  */
 
+import type { Contributor, Payout, PayoutLeg, PayrollRun } from '@prisma/client';
 import { prisma } from './db';
-import { HederaService, TransferParams, TransactionResult } from './hedera';
-import { LighthouseService, PayrollSlipData } from './lighthouse';
-import { DistributionPreview } from './distribution';
+import {
+  HederaService,
+  TransferParams,
+  TransactionResult,
+  MAX_BATCH_TRANSFER_RECIPIENTS,
+  createHederaService,
+  isDefiniteFailure
+} from './hedera';
+import { LighthouseService, PayrollSlipData, lighthouseService } from './lighthouse';
+import { DistributionPreview, ContributorDistribution } from './distribution';
+import { runApprovalService } from './run-approval';
+import { executionJournal, JournalState, ReconciliationResult } from './execution-journal';
+import { createScheduledPayoutService, parseScheduleConfig, ScheduleSyncResult } from './scheduled-payouts';
+import { createTreasuryService } from './treasury';
+import { priceRequoteService, describeRequoteHalt } from './price-requote';
+import { payoutSplitService, toLegPlan } from './payout-splits';
+
+// An EXECUTING run idle this long is taken to have been interrupted
+const RESUME_IDLE_MS = 10 * 60 * 1000;
 
 export interface ExecutionContext {
   runId: string;
@@ -20,7 +37,7 @@ export interface ExecutionContext {
 export interface PayoutExecution {
   payoutId: string;
   contributorId: string;
-  status: 'PENDING' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED';
+  status: 'PENDING' | 'SUBMITTING' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED';
   attempts: number;
   lastError?: string;
   transactionId?: string;
@@ -29,7 +46,7 @@ export interface PayoutExecution {
 
 export interface RunExecution {
   runId: string;
-  status: 'PENDING' | 'EXECUTING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'EXECUTING' | 'COMPLETED' | 'FAILED' | 'REFUSED';
   totalPayouts: number;
   successfulPayouts: number;
   failedPayouts: number;
@@ -65,64 +82,132 @@ export class PayrollExecutionService {
    * Execute complete payroll run
    */
   async executePayrollRun(preview: DistributionPreview): Promise<RunExecution> {
+    // Refuse to start unless the payouts match the signed, approved preview
+    const integrity = await runApprovalService.verifyExecutionIntegrity(
+      this.executionContext.runId,
+      preview.distributions
+    );
+
+    if (!integrity.valid) {
+      this.runExecution.status = 'REFUSED';
+      this.runExecution.error = integrity.reason;
+      this.runExecution.finishedAt = new Date();
+      return this.runExecution;
+    }
+
+    // Re-quote the price; a move beyond the run's tolerance sends it back for approval
+    let requote;
+    try {
+      requote = await priceRequoteService.requoteRun(this.executionContext.runId);
+    } catch (error) {
+      this.runExecution.status = 'REFUSED';
+      this.runExecution.error = `Price re-quote failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      this.runExecution.finishedAt = new Date();
+      return this.runExecution;
+    }
+
+    if (requote.outcome === 'HALTED') {
+      this.runExecution.status = 'REFUSED';
+      this.runExecution.error = describeRequoteHalt(requote);
+      this.runExecution.finishedAt = new Date();
+      return this.runExecution;
+    }
+
+    if (requote.outcome === 'RECOMPUTED') {
+      const payouts = await prisma.payout.findMany({
+        where: { runId: this.executionContext.runId },
+        select: { contributorId: true, nativeAmount: true }
+      });
+      const nativeAmounts = new Map(payouts.map(payout => [payout.contributorId, payout.nativeAmount]));
+      preview = {
+        ...preview,
+        distributions: preview.distributions.map(distribution => ({
+          ...distribution,
+          nativeAmount: nativeAmounts.get(distribution.contributorId!) ?? distribution.nativeAmount
+        }))
+      };
+    }
+
+    // Re-check the live treasury balance and hold the run's reservation
+    const preflight = await createTreasuryService(this.executionContext.hederaService)
+      .reserveFunds(this.executionContext.runId);
+
+    if (!preflight.passed) {
+      this.runExecution.status = 'REFUSED';
+      this.runExecution.error = `Treasury pre-flight failed: ${preflight.shortfalls.join('; ')}`;
+      this.runExecution.finishedAt = new Date();
+      return this.runExecution;
+    }
+
+    // Claim the run, so a concurrent request cannot execute it a second time
+    const claimed = await prisma.payrollRun.updateMany({
+      where: { id: this.executionContext.runId, status: 'APPROVED' },
+      data: { status: 'EXECUTING', startedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      this.runExecution.status = 'REFUSED';
+      this.runExecution.error = 'Run is already being executed';
+      this.runExecution.finishedAt = new Date();
+      return this.runExecution;
+    }
+
     try {
-      // Update run status to executing
-      await this.updateRunStatus('EXECUTING');
       this.runExecution.status = 'EXECUTING';
 
       // Get eligible distributions
       const eligibleDistributions = preview.distributions.filter(d => d.eligible);
       this.runExecution.totalPayouts = eligibleDistributions.length;
 
+      // Payouts split entirely into other assets have nothing to send in the run asset
+      this.runExecution.successfulPayouts += await payoutSplitService.settleFullySplitPayouts(this.executionContext.runId);
+
       // Validate contributors have Hedera accounts
-      const validatedDistributions = await this.validateHederaAccounts(eligibleDistributions);
+      const validatedDistributions = await this.validateHederaAccounts(
+        eligibleDistributions.filter(d => d.assetPercent !== 0)
+      );
 
-      // Execute payouts in batches to avoid overwhelming the network
-      const batchSize = 10; // Process 10 payouts at a time
-      const batches = this.createBatches(validatedDistributions, batchSize);
+      const run = await prisma.payrollRun.findUnique({
+        where: { id: this.executionContext.runId },
+        select: { executionMode: true, scheduleConfig: true, allowIndividualFallback: true }
+      });
 
-      for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i];
-        console.log(`Processing batch ${i + 1}/${batches.length} (${batch.length} payouts)`);
+      // Scheduled runs stay EXECUTING until their schedules collect signatures and execute
+      if (run?.executionMode === 'SCHEDULED') {
+        await createScheduledPayoutService(this.executionContext.hederaService).createSchedules(
+          this.executionContext.runId,
+          validatedDistributions,
+          preview.metadata.asset,
+          parseScheduleConfig(run.scheduleConfig)
+        );
+        return await this.loadPersistedExecution();
+      }
 
-        // Execute batch in parallel
-        const batchPromises = batch.map(distribution => 
-          this.executePayoutWithRetry(distribution, preview.metadata.asset, preview.metadata.assetDecimals)
+      if (run?.executionMode === 'BATCH') {
+        await this.executeBatchedPayouts(
+          validatedDistributions,
+          preview.metadata.asset,
+          preview.metadata.assetDecimals,
+          run.allowIndividualFallback
+        );
+      } else {
+        await this.executeIndividualPayouts(
+          validatedDistributions,
+          preview.metadata.asset,
+          preview.metadata.assetDecimals
         );
+      }
 
-        const batchResults = await Promise.allSettled(batchPromises);
-        
-        // Process batch results
-        batchResults.forEach((result, index) => {
-          const distribution = batch[index];
-          if (result.status === 'fulfilled') {
-            this.runExecution.payouts.push(result.value);
-            if (result.value.status === 'CONFIRMED') {
-              this.runExecution.successfulPayouts++;
-            } else if (result.value.status === 'FAILED') {
-              this.runExecution.failedPayouts++;
-            }
-          } else {
-            // Handle promise rejection
-            this.runExecution.payouts.push({
-              payoutId: `payout_${this.executionContext.runId}_${distribution.contributorId}`,
-              contributorId: distribution.contributorId!,
-              status: 'FAILED',
-              attempts: 0,
-              lastError: result.reason?.message || 'Unknown error'
-            });
-            this.runExecution.failedPayouts++;
-          }
-        });
+      // Then the legs contributors asked to be paid in other assets
+      const legs = await payoutSplitService.executeLegs(this.executionContext.runId, this.executionContext.hederaService);
 
-        // Add delay between batches to respect rate limits
-        if (i < batches.length - 1) {
-          await this.delay(2000); // 2 second delay between batches
-        }
+      // Transfers whose outcome is unknown keep the run EXECUTING until a resume reconciles them
+      if (legs.submitted > 0 || this.runExecution.payouts.some(payout => payout.status === 'SUBMITTING' || payout.status === 'SUBMITTED')) {
+        return this.runExecution;
       }
 
       // Generate and upload artifacts
-      const artifacts = await this.generateArtifacts(preview);
+      const artifacts = await this.generateArtifacts();
       this.runExecution.artifacts = artifacts;
 
       // Determine final status
@@ -143,6 +228,138 @@ export class PayrollExecutionService {
     }
   }
 
+  /**
+   * Resume an interrupted run. In-flight payouts are first reconciled against
+   * the mirror node; only payouts that are still unpaid are sent again.
+   * Payouts whose outcome cannot be determined yet stay SUBMITTED and keep
+   * the run EXECUTING until a later resume settles them. An EXECUTING run is
+   * only resumed once it has been idle for the given time, so a run that is
+   * still being executed is never resumed alongside it.
+   */
+  async resumePayrollRun(
+    idleMs: number = RESUME_IDLE_MS
+  ): Promise<RunExecution & { reconciliation: ReconciliationResult[] }> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: this.executionContext.runId },
+      include: { payouts: { include: { legs: true } }, artifacts: true }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    const refuse = (error?: string) => ({
+      ...this.runExecution,
+      status: 'REFUSED' as const,
+      error,
+      finishedAt: new Date(),
+      reconciliation: []
+    });
+
+    if (run.status !== 'EXECUTING' && run.status !== 'FAILED') {
+      return refuse(`Only EXECUTING or FAILED runs can be resumed (current: ${run.status})`);
+    }
+
+    // The payouts must still match what was approved
+    const integrity = await runApprovalService.verifyExecutionIntegrity(
+      run.id,
+      runApprovalService.payoutsToDistributions(run.payouts),
+      ['EXECUTING', 'FAILED']
+    );
+
+    if (!integrity.valid) {
+      return refuse(integrity.reason);
+    }
+
+    if (run.status === 'EXECUTING') {
+      const lastActivity = await lastExecutionActivity(run);
+      if (Date.now() - lastActivity.getTime() < idleMs) {
+        return refuse(`Run is still executing (last activity ${lastActivity.toISOString()})`);
+      }
+    }
+
+    // Claim the run by its last update, so two resumes cannot both proceed
+    const claimed = await prisma.payrollRun.updateMany({
+      where: { id: run.id, status: run.status, updatedAt: run.updatedAt },
+      data: {
+        status: 'EXECUTING',
+        updatedAt: new Date(),
+        ...(run.status === 'FAILED' && { startedAt: new Date() })
+      }
+    });
+
+    if (claimed.count === 0) {
+      return refuse('Run is already being resumed');
+    }
+
+    const reconciliation = await executionJournal.reconcileInFlightPayouts(
+      run.id,
+      this.executionContext.hederaService
+    );
+
+    await payoutSplitService.settleFullySplitPayouts(run.id);
+    const unpaid = await prisma.payout.findMany({
+      where: { runId: run.id, status: 'PENDING' }
+    });
+    const distributions = await this.validateHederaAccounts(
+      runApprovalService.payoutsToDistributions(unpaid)
+    );
+    const decimals = run.payouts[0]?.decimals ?? run.assetDecimals;
+
+    if (run.executionMode === 'SCHEDULED') {
+      await createScheduledPayoutService(this.executionContext.hederaService).createSchedules(
+        run.id,
+        distributions,
+        run.asset,
+        parseScheduleConfig(run.scheduleConfig)
+      );
+      const { execution } = await this.syncScheduledPayouts();
+      return { ...execution, reconciliation };
+    }
+
+    if (run.executionMode === 'BATCH') {
+      await this.executeBatchedPayouts(distributions, run.asset, decimals, run.allowIndividualFallback);
+    } else {
+      await this.executeIndividualPayouts(distributions, run.asset, decimals);
+    }
+    const legs = await payoutSplitService.executeLegs(run.id, this.executionContext.hederaService);
+
+    const execution = await this.loadPersistedExecution();
+    const inFlight = legs.submitted > 0 ||
+      execution.payouts.some(payout => ['PENDING', 'SUBMITTING', 'SUBMITTED'].includes(payout.status));
+
+    if (!inFlight) {
+      if (run.artifacts.length === 0) {
+        execution.artifacts = await this.generateArtifacts();
+      }
+      await this.updateRunStatus('COMPLETED');
+      execution.status = 'COMPLETED';
+      execution.finishedAt = new Date();
+    }
+
+    return { ...execution, reconciliation };
+  }
+
+  /**
+   * Refresh a scheduled run's schedules and complete the run once all of them
+   * have executed, expired or failed
+   */
+  async syncScheduledPayouts(): Promise<{ execution: RunExecution; sync: ScheduleSyncResult }> {
+    const sync = await createScheduledPayoutService(this.executionContext.hederaService)
+      .syncRunSchedules(this.executionContext.runId);
+
+    const execution = await this.loadPersistedExecution();
+
+    if (sync.settled && execution.status === 'EXECUTING') {
+      execution.artifacts = await this.generateArtifacts();
+      await this.updateRunStatus('COMPLETED');
+      execution.status = 'COMPLETED';
+      execution.finishedAt = new Date();
+    }
+
+    return { execution, sync };
+  }
+
   /**
    * Retry failed payouts
    */
@@ -223,6 +440,251 @@ export class PayrollExecutionService {
     }
   }
 
+  /**
+   * Send one transfer per contributor, a few in parallel at a time
+   */
+  private async executeIndividualPayouts(
+    distributions: ContributorDistribution[],
+    asset: string,
+    assetDecimals: number
+  ): Promise<void> {
+    // Execute payouts in batches to avoid overwhelming the network
+    const batchSize = 10; // Process 10 payouts at a time
+    const batches = this.createBatches(distributions, batchSize);
+
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+      console.log(`Processing batch ${i + 1}/${batches.length} (${batch.length} payouts)`);
+
+      // Execute batch in parallel
+      const batchPromises = batch.map(distribution => 
+        this.executePayoutWithRetry(distribution, asset, assetDecimals)
+      );
+
+      const batchResults = await Promise.allSettled(batchPromises);
+      
+      // Process batch results
+      batchResults.forEach((result, index) => {
+        const distribution = batch[index];
+        if (result.status === 'fulfilled') {
+          this.recordPayoutResult(result.value);
+        } else {
+          // Handle promise rejection
+          this.runExecution.payouts.push({
+            payoutId: `payout_${this.executionContext.runId}_${distribution.contributorId}`,
+            contributorId: distribution.contributorId!,
+            status: 'FAILED',
+            attempts: 0,
+            lastError: result.reason?.message || 'Unknown error'
+          });
+          this.runExecution.failedPayouts++;
+        }
+      });
+
+      // Add delay between batches to respect rate limits
+      if (i < batches.length - 1) {
+        await this.delay(2000); // 2 second delay between batches
+      }
+    }
+  }
+
+  /**
+   * Pay contributors in deterministic chunks, each chunk one atomic
+   * multi-recipient transfer. A chunk that definitely failed is retried as
+   * individual transfers only when the run allows it; otherwise its payouts
+   * fail together. A chunk whose outcome is unknown is never sent again.
+   */
+  private async executeBatchedPayouts(
+    distributions: ContributorDistribution[],
+    asset: string,
+    assetDecimals: number,
+    allowIndividualFallback: boolean
+  ): Promise<void> {
+    const payoutRecords = await prisma.payout.findMany({
+      where: { runId: this.executionContext.runId },
+      include: { contributor: true }
+    });
+    const payoutsByContributor = new Map(payoutRecords.map(payout => [payout.contributorId, payout]));
+
+    // Idempotency: payouts that are being or have been sent are never batched again
+    const chunks = planPayoutBatches(distributions.filter(distribution => {
+      const status = payoutsByContributor.get(distribution.contributorId!)?.status;
+      return status !== 'SUBMITTING' && status !== 'SUBMITTED' && status !== 'CONFIRMED';
+    }));
+
+    // Resumed runs continue numbering after the batches already recorded
+    const previousBatches = await prisma.payoutBatch.count({
+      where: { runId: this.executionContext.runId }
+    });
+
+    let batchNumber = previousBatches;
+    for (let i = 0; i < chunks.length; i++) {
+      // Claim each payout from the status it was read in; another sender keeps the rest
+      const chunk: ContributorDistribution[] = [];
+      for (const distribution of chunks[i]) {
+        const record = payoutsByContributor.get(distribution.contributorId!)!;
+        const claimed = await prisma.payout.updateMany({
+          where: { id: record.id, status: record.status },
+          data: { status: 'SUBMITTING' }
+        });
+        if (claimed.count > 0) {
+          chunk.push(distribution);
+        }
+      }
+      if (chunk.length === 0) {
+        continue;
+      }
+
+      const records = chunk.map(distribution => payoutsByContributor.get(distribution.contributorId!)!);
+      batchNumber++;
+      console.log(`Processing atomic batch ${i + 1}/${chunks.length} (${chunk.length} payouts)`);
+
+      const batch = await prisma.payoutBatch.create({
+        data: {
+          runId: this.executionContext.runId,
+          batchNumber,
+          payoutIds: JSON.stringify(records.map(record => record.id)),
+          totalAmount: chunk.reduce((sum, d) => sum + BigInt(d.nativeAmount), BigInt(0)).toString()
+        }
+      });
+
+      // Journal the shared transaction ID for every payout before sending
+      const transactionId = this.executionContext.hederaService.generateTransactionId();
+      await this.journalBatch(records, 'INTENT', transactionId);
+
+      const result = await this.executionContext.hederaService.executeBatchTransfer({
+        transfers: records.map(record => ({
+          recipientAccountId: record.contributor.hederaAccountId,
+          amount: record.nativeAmount
+        })),
+        asset,
+        memo: `Foss It - Run ${this.executionContext.runId} batch ${batchNumber}`,
+        transactionId
+      });
+
+      // A submitted batch whose receipt never arrived may still have reached consensus
+      let succeeded = result.success;
+      if (!succeeded && !isDefiniteFailure(result)) {
+        succeeded = await this.verifyTransactionConfirmation(result.transactionId!);
+      }
+
+      if (!succeeded && !isDefiniteFailure(result)) {
+        // Outcome unknown: sending the chunk again could pay everyone twice,
+        // so it stays in flight until resume reconciles the transaction
+        await prisma.payoutBatch.update({
+          where: { id: batch.id },
+          data: { status: 'SUBMITTED', txId: result.transactionId, submittedAt: new Date(), error: result.error || result.status }
+        });
+        for (const record of records) {
+          await this.updatePayoutStatus(record.contributorId, 'SUBMITTED', result.transactionId);
+          this.recordPayoutResult({
+            payoutId: record.id,
+            contributorId: record.contributorId,
+            status: 'SUBMITTED',
+            attempts: 1,
+            transactionId: result.transactionId,
+            lastError: result.error || result.status
+          });
+        }
+        await this.journalBatch(records, 'SUBMITTED', result.transactionId!, 'Outcome unknown; left for reconciliation');
+      } else if (succeeded && result.transactionId) {
+        await prisma.payoutBatch.update({
+          where: { id: batch.id },
+          data: { status: 'SUBMITTED', txId: result.transactionId, submittedAt: new Date() }
+        });
+        for (const distribution of chunk) {
+          await this.updatePayoutStatus(distribution.contributorId!, 'SUBMITTED', result.transactionId);
+        }
+        await this.journalBatch(records, 'SUBMITTED', result.transactionId);
+
+        const confirmed = await this.verifyTransactionConfirmation(result.transactionId);
+        const status = confirmed ? 'CONFIRMED' : 'SUBMITTED';
+        const confirmedAt = confirmed ? new Date() : undefined;
+
+        await prisma.payoutBatch.update({
+          where: { id: batch.id },
+          data: { status, ...(confirmedAt && { confirmedAt }) }
+        });
+        if (confirmed) {
+          await this.journalBatch(records, 'CONFIRMED', result.transactionId);
+        }
+
+        for (const record of records) {
+          await this.updatePayoutStatus(record.contributorId, status, result.transactionId, confirmedAt);
+          this.recordPayoutResult({
+            payoutId: record.id,
+            contributorId: record.contributorId,
+            status,
+            attempts: 1,
+            transactionId: result.transactionId,
+            confirmedAt
+          });
+        }
+      } else if (allowIndividualFallback) {
+        await this.journalBatch(records, 'FAILED', transactionId, result.error || result.status);
+        await prisma.payoutBatch.update({
+          where: { id: batch.id },
+          data: { status: 'FALLBACK', error: result.error || result.status }
+        });
+        // Release the claims so each payout can be claimed and sent on its own
+        await prisma.payout.updateMany({
+          where: { id: { in: records.map(record => record.id) }, status: 'SUBMITTING' },
+          data: { status: 'PENDING' }
+        });
+        await this.executeIndividualPayouts(chunk, asset, assetDecimals);
+      } else {
+        const error = `Atomic batch ${batchNumber} failed: ${result.error || result.status}`;
+        await this.journalBatch(records, 'FAILED', transactionId, error);
+        await prisma.payoutBatch.update({
+          where: { id: batch.id },
+          data: { status: 'FAILED', error }
+        });
+
+        for (const record of records) {
+          await this.updatePayoutStatus(record.contributorId, 'FAILED', undefined, undefined, error);
+          this.recordPayoutResult({
+            payoutId: record.id,
+            contributorId: record.contributorId,
+            status: 'FAILED',
+            attempts: 1,
+            lastError: error
+          });
+        }
+      }
+
+      if (i < chunks.length - 1) {
+        await this.delay(2000);
+      }
+    }
+  }
+
+  private async journalBatch(
+    records: Array<{ id: string; idempotencyKey: string }>,
+    state: JournalState,
+    txId: string,
+    detail?: string
+  ): Promise<void> {
+    for (const record of records) {
+      await executionJournal.record({
+        runId: this.executionContext.runId,
+        payoutId: record.id,
+        idempotencyKey: record.idempotencyKey,
+        state,
+        txId,
+        detail
+      });
+    }
+  }
+
+  private recordPayoutResult(payout: PayoutExecution): void {
+    this.runExecution.payouts.push(payout);
+    if (payout.status === 'CONFIRMED') {
+      this.runExecution.successfulPayouts++;
+    } else if (payout.status === 'FAILED') {
+      this.runExecution.failedPayouts++;
+    }
+  }
+
   /**
    * Execute individual payout with retry logic
    */
@@ -234,7 +696,61 @@ export class PayrollExecutionService {
     const payoutId = `payout_${this.executionContext.runId}_${distribution.contributorId}`;
     let lastError: string | undefined;
 
+    const payoutRecord = await prisma.payout.findFirst({
+      where: {
+        runId: this.executionContext.runId,
+        contributorId: distribution.contributorId
+      }
+    });
+
+    if (!payoutRecord) {
+      return {
+        payoutId,
+        contributorId: distribution.contributorId,
+        status: 'FAILED',
+        attempts: 0,
+        lastError: 'Payout record not found'
+      };
+    }
+
+    const alreadySent = {
+      payoutId: payoutRecord.id,
+      contributorId: distribution.contributorId,
+      status: payoutRecord.status as PayoutExecution['status'],
+      attempts: 0,
+      transactionId: payoutRecord.txId || undefined,
+      confirmedAt: payoutRecord.confirmedAt || undefined
+    };
+
+    // Idempotency: a payout that is being or has been sent is never sent again
+    if (['SUBMITTING', 'SUBMITTED', 'CONFIRMED'].includes(payoutRecord.status)) {
+      return alreadySent;
+    }
+
+    // Claim the payout from the status it was read in, so only one sender pays it
+    const claimed = await prisma.payout.updateMany({
+      where: { id: payoutRecord.id, status: payoutRecord.status },
+      data: { status: 'SUBMITTING' }
+    });
+
+    if (claimed.count === 0) {
+      return { ...alreadySent, status: 'SUBMITTING' };
+    }
+
+    const journalEntry = {
+      runId: this.executionContext.runId,
+      payoutId: payoutRecord.id,
+      idempotencyKey: payoutRecord.idempotencyKey
+    };
+
+    // A transfer journaled but never recorded as sent may already be on the
+    // network, so it is resent under the same ID rather than a new one
+    const latestEntry = await executionJournal.getLatestEntry(payoutRecord.id);
+    let transactionId = latestEntry?.state === 'INTENT' ? latestEntry.txId || undefined : undefined;
+
     for (let attempt = 1; attempt <= this.executionContext.maxRetries; attempt++) {
+      let sent = false;
+
       try {
         // Get contributor details from database
         const contributor = await prisma.contributor.findUnique({
@@ -245,25 +761,43 @@ export class PayrollExecutionService {
           throw new Error('Contributor not found in database');
         }
 
+        if (!transactionId) {
+          // Journal the transaction ID before sending so a restart can reconcile it
+          transactionId = this.executionContext.hederaService.generateTransactionId();
+          await executionJournal.record({ ...journalEntry, state: 'INTENT', txId: transactionId });
+        } else if (!executionJournal.canResubmit(transactionId)) {
+          // Too late to resend the same ID, and a new one could pay twice
+          return await this.leavePayoutInFlight(distribution.contributorId, journalEntry, transactionId, attempt - 1, lastError);
+        }
+
         // Create transfer parameters
         const transferParams: TransferParams = {
           recipientAccountId: contributor.hederaAccountId,
           amount: distribution.nativeAmount,
           asset: asset,
           memo: `Foss It - Run ${this.executionContext.runId}`,
-          idempotencyKey: this.createIdempotencyKey(distribution.contributorId)
+          idempotencyKey: payoutRecord.idempotencyKey,
+          transactionId
         };
 
         // Execute transfer
         const result = await this.executionContext.hederaService.executeTransfer(transferParams);
+        sent = !!result.transactionId;
+
+        // A submitted transfer whose receipt never arrived may still have reached consensus
+        let succeeded = result.success;
+        if (!succeeded && !isDefiniteFailure(result)) {
+          succeeded = await this.verifyTransactionConfirmation(result.transactionId!);
+        }
 
-        if (result.success) {
+        if (succeeded) {
           // Update database
           await this.updatePayoutStatus(
             distribution.contributorId,
             'SUBMITTED',
             result.transactionId
           );
+          await executionJournal.record({ ...journalEntry, state: 'SUBMITTED', txId: result.transactionId });
 
           // Verify transaction with mirror node
           let confirmed = false;
@@ -272,6 +806,9 @@ export class PayrollExecutionService {
           }
 
           const finalStatus = confirmed ? 'CONFIRMED' : 'SUBMITTED';
+          if (confirmed) {
+            await executionJournal.record({ ...journalEntry, state: 'CONFIRMED', txId: result.transactionId });
+          }
           await this.updatePayoutStatus(
             distribution.contributorId,
             finalStatus,
@@ -287,35 +824,48 @@ export class PayrollExecutionService {
             transactionId: result.transactionId,
             confirmedAt: confirmed ? new Date() : undefined
           };
-        } else {
-          lastError = result.error || 'Transaction failed';
-          
-          if (attempt === this.executionContext.maxRetries) {
-            // Final attempt failed
-            await this.updatePayoutStatus(
-              distribution.contributorId,
-              'FAILED',
-              undefined,
-              undefined,
-              lastError
-            );
-
-            return {
-              payoutId,
-              contributorId: distribution.contributorId,
-              status: 'FAILED',
-              attempts: attempt,
-              lastError
-            };
-          }
+        }
+
+        lastError = result.error || 'Transaction failed';
 
-          // Wait before retry
-          await this.delay(this.executionContext.retryDelay * attempt);
+        if (isDefiniteFailure(result)) {
+          // Nothing moved, so the next attempt may use a new transaction ID
+          await executionJournal.record({ ...journalEntry, state: 'FAILED', txId: transactionId, detail: lastError });
+          transactionId = undefined;
+        } else if (attempt === this.executionContext.maxRetries || !executionJournal.canResubmit(transactionId)) {
+          return await this.leavePayoutInFlight(distribution.contributorId, journalEntry, transactionId, attempt, lastError);
         }
 
+        if (attempt === this.executionContext.maxRetries) {
+          // Final attempt failed
+          await this.updatePayoutStatus(
+            distribution.contributorId,
+            'FAILED',
+            undefined,
+            undefined,
+            lastError
+          );
+
+          return {
+            payoutId,
+            contributorId: distribution.contributorId,
+            status: 'FAILED',
+            attempts: attempt,
+            lastError
+          };
+        }
+
+        // Wait before retry
+        await this.delay(this.executionContext.retryDelay * attempt);
+
       } catch (error) {
         lastError = error instanceof Error ? error.message : 'Unknown error';
-        
+
+        // Recording the outcome failed after the transfer was sent
+        if (sent && transactionId) {
+          return await this.leavePayoutInFlight(distribution.contributorId, journalEntry, transactionId, attempt, lastError);
+        }
+
         if (attempt === this.executionContext.maxRetries) {
           await this.updatePayoutStatus(
             distribution.contributorId,
@@ -348,6 +898,76 @@ export class PayrollExecutionService {
     };
   }
 
+  /**
+   * Keep a payout whose transfer may still land SUBMITTED under its
+   * transaction ID, so it is never resent before resume reconciles it
+   */
+  private async leavePayoutInFlight(
+    contributorId: string,
+    journalEntry: { runId: string; payoutId: string; idempotencyKey: string },
+    transactionId: string,
+    attempts: number,
+    lastError?: string
+  ): Promise<PayoutExecution> {
+    await this.updatePayoutStatus(contributorId, 'SUBMITTED', transactionId, undefined, lastError);
+    await executionJournal.record({
+      ...journalEntry,
+      state: 'SUBMITTED',
+      txId: transactionId,
+      detail: 'Outcome unknown; left for reconciliation'
+    });
+
+    return {
+      payoutId: journalEntry.payoutId,
+      contributorId,
+      status: 'SUBMITTED',
+      attempts,
+      transactionId,
+      lastError
+    };
+  }
+
+  /**
+   * Rebuild the execution summary of a run from its stored payouts
+   */
+  private async loadPersistedExecution(): Promise<RunExecution> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: this.executionContext.runId },
+      include: { payouts: true }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    const successfulPayouts = run.payouts.filter(p => p.status === 'CONFIRMED').length;
+    const failedPayouts = run.payouts.filter(p => p.status === 'FAILED').length;
+
+    await prisma.payrollRun.update({
+      where: { id: run.id },
+      data: { successfulPayouts, failedPayouts }
+    });
+
+    this.runExecution = {
+      ...this.runExecution,
+      status: run.status === 'COMPLETED' ? 'COMPLETED' : 'EXECUTING',
+      totalPayouts: run.payouts.length,
+      successfulPayouts,
+      failedPayouts,
+      payouts: run.payouts.map(payout => ({
+        payoutId: payout.id,
+        contributorId: payout.contributorId,
+        status: payout.status as PayoutExecution['status'],
+        attempts: payout.scheduleId ? 1 : 0,
+        lastError: payout.error || undefined,
+        transactionId: payout.txId || undefined,
+        confirmedAt: payout.confirmedAt || undefined
+      }))
+    };
+
+    return this.runExecution;
+  }
+
   /**
    * Validate that contributors have valid Hedera accounts
    */
@@ -388,7 +1008,7 @@ export class PayrollExecutionService {
   /**
    * Generate and upload artifacts to Lighthouse
    */
-  private async generateArtifacts(preview: DistributionPreview): Promise<{
+  private async generateArtifacts(): Promise<{
     csvCid?: string;
     jsonCid?: string;
     manifestCid?: string;
@@ -400,7 +1020,7 @@ export class PayrollExecutionService {
         include: {
           repositories: true,
           payouts: {
-            include: { contributor: true }
+            include: { contributor: true, legs: true }
           }
         }
       });
@@ -434,7 +1054,18 @@ export class PayrollExecutionService {
           nativeAmount: payout.nativeAmount,
           status: payout.status,
           transactionId: payout.txId || undefined,
-          confirmedAt: payout.confirmedAt?.toISOString()
+          confirmedAt: payout.confirmedAt?.toISOString(),
+          legs: payout.legs.map(leg => ({
+            symbol: leg.symbol,
+            asset: leg.asset,
+            percent: leg.percent,
+            usdAmount: leg.usdAmount,
+            nativeAmount: leg.nativeAmount,
+            decimals: leg.decimals,
+            price: JSON.parse(leg.priceSnapshot).price,
+            status: leg.status,
+            transactionId: leg.txId || undefined
+          }))
         })),
         summary: {
           totalPayouts: this.runExecution.totalPayouts,
@@ -530,10 +1161,6 @@ export class PayrollExecutionService {
     return batches;
   }
 
-  private createIdempotencyKey(contributorId: string): string {
-    return `payout_${this.executionContext.runId}_${contributorId}`;
-  }
-
   private isValidHederaAccountId(accountId: string): boolean {
     // Basic validation for Hedera account ID format (0.0.xxxxx)
     return /^0\.0\.\d+$/.test(accountId);
@@ -553,6 +1180,12 @@ export class PayrollExecutionService {
         ...(status !== 'EXECUTING' && status !== 'PENDING' && { finishedAt: new Date() })
       }
     });
+
+    // A failed run keeps its reservation so a resume can still pay from it
+    if (status === 'COMPLETED') {
+      await createTreasuryService(this.executionContext.hederaService)
+        .releaseReservation(this.executionContext.runId, 'CONSUMED');
+    }
   }
 
   private async updatePayoutStatus(
@@ -579,6 +1212,106 @@ export class PayrollExecutionService {
   }
 }
 
+/**
+ * Execution preview of a run's stored payouts, so a run pays exactly what
+ * was approved rather than a fresh calculation
+ */
+export function storedPayoutPreview(
+  run: PayrollRun & { payouts: Array<Payout & { contributor: Contributor; legs: PayoutLeg[] }> }
+): DistributionPreview {
+  return {
+    distributions: run.payouts.map(payout => ({
+      githubLogin: payout.contributor.githubHandle || 'unknown',
+      githubId: 0,
+      contributorId: payout.contributorId,
+      prCount: payout.prCount,
+      shareRatio: payout.shareRatio,
+      usdAmount: payout.usdAmount,
+      nativeAmount: payout.nativeAmount,
+      eligible: true,
+      assetPercent: payout.assetPercent,
+      legs: payout.legs.map(toLegPlan)
+    })),
+    metadata: {
+      asset: run.asset,
+      assetDecimals: run.assetDecimals
+    }
+  } as unknown as DistributionPreview; // Execution only reads the distributions and asset
+}
+
+/**
+ * Split payouts into atomic transfer chunks. Ordering by contributor ID keeps
+ * the split identical across retries of the same run.
+ */
+export function planPayoutBatches<T extends { contributorId?: string }>(
+  distributions: T[],
+  maxRecipients: number = MAX_BATCH_TRANSFER_RECIPIENTS
+): T[][] {
+  const ordered = [...distributions].sort((a, b) =>
+    (a.contributorId || '').localeCompare(b.contributorId || '')
+  );
+
+  const batches: T[][] = [];
+  for (let i = 0; i < ordered.length; i += maxRecipients) {
+    batches.push(ordered.slice(i, i + maxRecipients));
+  }
+  return batches;
+}
+
+/**
+ * When a run's execution last made progress: its latest journal entry or
+ * its latest update, whichever came later
+ */
+async function lastExecutionActivity(run: { id: string; updatedAt: Date }): Promise<Date> {
+  const journaled = await executionJournal.getLastActivity(run.id);
+  return journaled && journaled > run.updatedAt ? journaled : run.updatedAt;
+}
+
+/**
+ * Resume every EXECUTING run whose journal has been idle for longer than
+ * the given time, e.g. after the process restarted mid-run
+ */
+export async function resumeStuckPayrollRuns(idleMs: number = RESUME_IDLE_MS): Promise<Array<{
+  runId: string;
+  status: RunExecution['status'];
+  error?: string;
+}>> {
+  const runs = await prisma.payrollRun.findMany({
+    where: { status: 'EXECUTING' }
+  });
+
+  const results = [];
+  for (const run of runs) {
+    const lastActivity = await lastExecutionActivity(run);
+    if (Date.now() - lastActivity.getTime() < idleMs) {
+      continue;
+    }
+
+    console.log(`Resuming stuck payroll run ${run.id}`);
+    try {
+      const execution = await createPayrollExecutionService({
+        runId: run.id,
+        environment: run.environment as 'testnet' | 'mainnet',
+        hederaService: createHederaService({ network: run.environment as 'testnet' | 'mainnet' }),
+        lighthouseService,
+        maxRetries: 3,
+        retryDelay: 2000
+      }).resumePayrollRun(idleMs);
+
+      results.push({ runId: run.id, status: execution.status, error: execution.error });
+    } catch (error) {
+      console.error(`Failed to resume payroll run ${run.id}:`, error);
+      results.push({
+        runId: run.id,
+        status: 'FAILED' as const,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return results;
+}
+
 export function createPayrollExecutionService(context: ExecutionContext): PayrollExecutionService {
   return new PayrollExecutionService(context);
 }
\ No newline at end of file
@@ -0,0 +1,312 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { join } from 'path';
+import {
+  GitHubGraphQLHarvester,
+  GraphQLTransport,
+  createFixtureTransport,
+  loadFixtureTransport
+} from './github-graphql';
+import { PRSearchParams } from './github';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+const FIXTURES = join(__dirname, 'fixtures', 'github-graphql.json');
+
+const params = (overrides: Partial<PRSearchParams> = {}): PRSearchParams => ({
+  repos: ['acme/widgets'],
+  startDate: new Date('2026-01-01T00:00:00Z'),
+  endDate: new Date('2026-01-31T23:59:59Z'),
+  ...overrides
+});
+
+const rateLimit = (remaining = 5000, resetAt = '2026-01-31T13:00:00Z') => ({ cost: 1, remaining, resetAt, limit: 5000 });
+
+const lastPage = { hasNextPage: false, endCursor: null };
+
+const prNode = (number: number, login: string, labels: string[] = []) => ({
+  id: `PR_${number}`,
+  databaseId: 1000 + number,
+  number,
+  title: `PR ${number}`,
+  createdAt: '2026-01-05T09:00:00Z',
+  updatedAt: '2026-01-06T09:00:00Z',
+  mergedAt: '2026-01-06T09:00:00Z',
+  additions: 10,
+  deletions: 2,
+  changedFiles: 1,
+  author: { __typename: 'User', login, databaseId: number },
+  labels: { pageInfo: lastPage, nodes: labels.map(name => ({ name, color: 'ffffff' })) },
+  commitCount: { totalCount: 1 },
+  commits: { pageInfo: lastPage, nodes: [{ commit: { message: `Change ${number}` } }] }
+});
+
+const connectionPage = (nodes: unknown[]) => ({
+  rateLimit: rateLimit(),
+  node: { connection: { pageInfo: lastPage, nodes } }
+});
+
+const reviewComment = (n: number, login: string) => ({
+  body: `Comment ${n}: this branch never releases the lock when the request times out.`,
+  createdAt: '2026-01-10T09:59:00Z',
+  url: `https://github.com/acme/widgets/pull/1#discussion_r${n}`,
+  author: { __typename: 'User', login }
+});
+
+const review = (id: string, login: string, comments: unknown[] = [], more = false) => ({
+  id,
+  state: 'COMMENTED',
+  body: 'Looks reasonable overall, though the retry loop deserves a second look before this ships.',
+  submittedAt: '2026-01-10T10:00:00Z',
+  url: `https://github.com/acme/widgets/pull/1#${id}`,
+  author: { __typename: 'User', login },
+  comments: {
+    pageInfo: more ? { hasNextPage: true, endCursor: '1' } : lastPage,
+    nodes: comments
+  }
+});
+
+const page = (nodes: unknown[], issueCount = nodes.length, endCursor: string | null = null, remaining = 5000) => ({
+  rateLimit: rateLimit(remaining),
+  search: { issueCount, pageInfo: { hasNextPage: !!endCursor, endCursor }, nodes }
+});
+
+/**
+ * Wraps a transport, recording the variables of every call
+ */
+function recording(transport: GraphQLTransport) {
+  const calls: Array<Record<string, unknown>> = [];
+  const wrapped: GraphQLTransport = async <T>(query: string, variables: Record<string, unknown>) => {
+    calls.push(variables);
+    return transport<T>(query, variables);
+  };
+  return { calls, transport: wrapped };
+}
+
+describe('GitHubGraphQLHarvester', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows pages and credits authors and co-authors, skipping bots', async () => {
+    const { calls, transport } = recording(loadFixtureTransport(FIXTURES));
+    const stats = await new GitHubGraphQLHarvester(transport).harvest(params());
+
+    expect(calls.map(call => call.after)).toEqual([null, '1']);
+    expect(Array.from(stats.keys()).sort()).toEqual(['alice', 'bob', 'carol']);
+    expect(stats.get('alice')!.prs.map(pr => pr.number)).toEqual([41]);
+    expect(stats.get('bob')!.prs.map(pr => pr.number)).toEqual([43]);
+    expect(stats.get('carol')!.prs.map(pr => pr.number)).toEqual([43]);
+    expect(stats.has('dependabot')).toBe(false);
+  });
+
+  it('credits reviews by others than the author and bots', async () => {
+    const activities = await new GitHubGraphQLHarvester(loadFixtureTransport(FIXTURES))
+      .getReviewActivity('acme/widgets', params());
+
+    expect(activities.map(activity => [activity.kind, activity.login, activity.number])).toContainEqual(
+      ['REVIEW_APPROVAL', 'bob', 41]
+    );
+    expect(activities.some(activity => activity.login === 'codecov')).toBe(false);
+  });
+
+  it('follows labels and commits past the first page', async () => {
+    const first = prNode(1, 'alice', ['feature']);
+    const more = { hasNextPage: true, endCursor: '1' };
+    const node = {
+      ...first,
+      labels: { ...first.labels, pageInfo: more },
+      commits: { ...first.commits, pageInfo: more }
+    };
+
+    const stats = await new GitHubGraphQLHarvester(createFixtureTransport({
+      'acme/widgets': {
+        merged: [page([node])],
+        connections: {
+          'PR_1.labels': [connectionPage([{ name: 'docs', color: 'ffffff' }])],
+          'PR_1.commits': [connectionPage([
+            { commit: { message: 'Fix typo\n\nCo-authored-by: Carol <1503+carol@users.noreply.github.com>' } }
+          ])]
+        }
+      }
+    })).harvest(params());
+
+    expect(stats.get('alice')!.prs[0].labels.map(label => label.name)).toEqual(['feature', 'docs']);
+    expect(stats.get('carol')!.prs.map(pr => pr.number)).toEqual([1]);
+  });
+
+  it('follows reviews and review comments past the first page', async () => {
+    const activities = await new GitHubGraphQLHarvester(createFixtureTransport({
+      'acme/widgets': {
+        reviewed: [page([{
+          id: 'PR_1',
+          number: 1,
+          title: 'PR 1',
+          author: { __typename: 'User', login: 'alice' },
+          reviews: { pageInfo: { hasNextPage: true, endCursor: '1' }, nodes: [review('PRR_1', 'bob', [reviewComment(1, 'bob')], true)] }
+        }])],
+        connections: {
+          'PR_1.reviews': [connectionPage([review('PRR_2', 'carol')])],
+          'PRR_1.comments': [connectionPage([reviewComment(2, 'bob')])]
+        }
+      }
+    })).getReviewActivity('acme/widgets', params());
+
+    expect(activities.map(activity => [activity.kind, activity.login, activity.url])).toEqual([
+      ['REVIEW', 'bob', 'https://github.com/acme/widgets/pull/1#PRR_1'],
+      ['REVIEW_COMMENT', 'bob', reviewComment(1, 'bob').url],
+      ['REVIEW_COMMENT', 'bob', reviewComment(2, 'bob').url],
+      ['REVIEW', 'carol', 'https://github.com/acme/widgets/pull/1#PRR_2']
+    ]);
+  });
+
+  it('searches reviews of PRs updated after the window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    const { calls, transport } = recording(loadFixtureTransport(FIXTURES));
+
+    await new GitHubGraphQLHarvester(transport).getReviewActivity('acme/widgets', params());
+
+    expect(calls[0].q).toBe('repo:acme/widgets is:pr updated:2026-01-01T00:00:00Z..2026-03-01T00:00:00Z');
+  });
+
+  it('splits a window matching more results than search returns', async () => {
+    const windows: string[] = [];
+    const transport: GraphQLTransport = async <T>(_query: string, variables: Record<string, unknown>) => {
+      const range = /merged:(\S+)\.\.(\S+)/.exec(String(variables.q))!;
+      windows.push(`${range[1]}..${range[2]}`);
+      const start = new Date(range[1]).getTime();
+      const end = new Date(range[2]).getTime();
+
+      // The whole month matches too many PRs, each half few enough
+      if (end - start > 20 * 24 * 60 * 60 * 1000) {
+        return page([prNode(1, 'alice')], 1500, '1') as T;
+      }
+      return page([prNode(start < new Date('2026-01-16T00:00:00Z').getTime() ? 2 : 3, 'bob')], 600) as T;
+    };
+
+    const stats = await new GitHubGraphQLHarvester(transport).harvest(params());
+
+    expect(windows).toEqual([
+      '2026-01-01T00:00:00Z..2026-01-31T23:59:59Z',
+      '2026-01-01T00:00:00Z..2026-01-16T11:59:59Z',
+      '2026-01-16T12:00:00Z..2026-01-31T23:59:59Z'
+    ]);
+    // Nothing from the oversized window is kept, only the halves' results
+    expect(stats.has('alice')).toBe(false);
+    expect(stats.get('bob')!.prs.map(pr => pr.number)).toEqual([2, 3]);
+  });
+
+  it('waits for the rate limit to reset before running low', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-01T12:00:00Z'));
+    const resetAt = '2026-02-01T12:01:00Z';
+
+    const { calls, transport } = recording(createFixtureTransport({
+      'acme/widgets': {
+        merged: [
+          { ...page([prNode(1, 'alice')], 2, '1'), rateLimit: rateLimit(10, resetAt) },
+          page([prNode(2, 'bob')], 2)
+        ]
+      }
+    }));
+
+    const harvest = new GitHubGraphQLHarvester(transport).harvest(params());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toHaveLength(1);
+
+    // Reset is 60s away, plus a second of buffer
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    const stats = await harvest;
+    expect(calls).toHaveLength(2);
+    expect(Array.from(stats.keys()).sort()).toEqual(['alice', 'bob']);
+  });
+
+  it('does not wait while enough points remain', async () => {
+    const transport = createFixtureTransport({
+      'acme/widgets': { merged: [page([prNode(1, 'alice')], 2, '1', 4000), page([prNode(2, 'bob')], 2)] }
+    });
+    const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+
+    await new GitHubGraphQLHarvester(transport).harvest(params());
+
+    expect(setTimeoutSpy).not.toHaveBeenCalled();
+    setTimeoutSpy.mockRestore();
+  });
+
+  describe('label filters', () => {
+    const nodes = [
+      prNode(1, 'alice', ['feature']),
+      prNode(2, 'bob', ['Feature', 'WIP']),
+      prNode(3, 'carol', ['bug']),
+      prNode(4, 'dave', ['feature', 'docs'])
+    ];
+
+    /**
+     * Answers the merged query as GitHub search does, matching the query's
+     * label qualifiers case-insensitively
+     */
+    const searchTransport: GraphQLTransport = async <T>(_query: string, variables: Record<string, unknown>) => {
+      const q = String(variables.q);
+      const required = Array.from(q.matchAll(/(?:^|\s)label:"([^"]+)"/g), match => match[1].toLowerCase());
+      const excluded = Array.from(q.matchAll(/-label:"([^"]+)"/g), match => match[1].toLowerCase());
+      const matching = nodes.filter(node => {
+        const labels = node.labels.nodes.map(label => label.name.toLowerCase());
+        return required.every(label => labels.includes(label)) && !excluded.some(label => labels.includes(label));
+      });
+      return page(matching) as T;
+    };
+
+    /**
+     * PRs the REST harvester keeps: the search requires every include label
+     * and excluded labels are dropped afterwards, ignoring case
+     */
+    const restSelection = (includeLabels: string[], excludeLabels: string[]) =>
+      nodes
+        .filter(node => {
+          const labels = node.labels.nodes.map(label => label.name.toLowerCase());
+          return includeLabels.every(label => labels.includes(label.toLowerCase())) &&
+            !excludeLabels.some(label => labels.includes(label.toLowerCase()));
+        })
+        .map(node => node.number);
+
+    const harvestedNumbers = async (search: PRSearchParams) => {
+      const stats = await new GitHubGraphQLHarvester(searchTransport).harvest(search);
+      return Array.from(stats.values()).flatMap(contributor => contributor.prs.map(pr => pr.number)).sort();
+    };
+
+    it('keeps the same PRs as the REST path', async () => {
+      const includeLabels = ['feature'];
+      const excludeLabels = ['wip'];
+
+      expect(await harvestedNumbers(params({ includeLabels, excludeLabels }))).toEqual(
+        restSelection(includeLabels, excludeLabels)
+      );
+      expect(restSelection(includeLabels, excludeLabels)).toEqual([1, 4]);
+    });
+
+    it('puts include and exclude labels in the search query', async () => {
+      const { calls, transport } = recording(searchTransport);
+      await new GitHubGraphQLHarvester(transport).harvest(params({
+        includeLabels: ['feature'],
+        excludeLabels: ['wip', 'docs']
+      }));
+
+      expect(calls[0].q).toBe(
+        'repo:acme/widgets is:pr is:merged merged:2026-01-01T00:00:00Z..2026-01-31T23:59:59Z ' +
+        'label:"feature" -label:"wip" -label:"docs"'
+      );
+    });
+
+    it('uses repository filters instead of the global ones', async () => {
+      const search = params({
+        includeLabels: ['bug'],
+        repoLabels: { 'acme/widgets': { includeLabels: [], excludeLabels: ['docs'] } }
+      });
+
+      expect(await harvestedNumbers(search)).toEqual(restSelection([], ['docs']));
+    });
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * GitHub GraphQL Harvester
+ * Collects a run window's merged PRs, with their size, labels, commits and
+ * reviews, in paged bulk queries instead of one REST call per PR
+ */
+
+import { readFileSync } from 'fs';
+import {
+  ActivityKind,
+  ContributorActivity,
+  ContributorStats,
+  GitHubPR,
+  PRSearchParams,
+  MAX_CREDITED_COMMENTS_PER_PR,
+  SUBSTANTIVE_COMMENT_LENGTH,
+  addPRCredit,
+  creditActivities,
+  labelFiltersFor,
+  reviewActivityKind
+} from './github';
+import { evaluatePRWeight, requiresFileList } from './weighting';
+import { createIdentityResolver, resolvePRCredits, DEFAULT_IDENTITY_SETTINGS } from './identity';
+
+/**
+ * Sends a GraphQL query and resolves its data, throwing on errors
+ */
+export type GraphQLTransport = <T>(query: string, variables: Record<string, unknown>) => Promise<T>;
+
+/**
+ * Canned responses by repository and query, one entry per page. Connection
+ * pages after the first are keyed by node ID and field, e.g. "PR_1.labels".
+ */
+export type GraphQLFixtures = Record<string, {
+  merged?: unknown[];
+  reviewed?: unknown[];
+  connections?: Record<string, unknown[]>;
+}>;
+
+export interface GraphQLRateLimit {
+  cost: number;
+  remaining: number;
+  resetAt: string;
+  limit: number;
+}
+
+export interface HarvesterOptions {
+  // Full file list of a PR with more files than a query returns, for path rules
+  fetchFiles?: (owner: string, repo: string, prNumber: number) => Promise<string[]>;
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<Node> {
+  pageInfo: PageInfo;
+  nodes: Node[];
+}
+
+interface SearchPage<Node> {
+  rateLimit: GraphQLRateLimit;
+  search: {
+    issueCount: number;
+    pageInfo: PageInfo;
+    nodes: Node[];
+  };
+}
+
+interface ConnectionPage<Node> {
+  rateLimit: GraphQLRateLimit;
+  node: { connection: Connection<Node> };
+}
+
+interface Actor {
+  __typename: string;
+  login: string;
+  databaseId?: number;
+}
+
+interface MergedPRNode {
+  id: string;
+  databaseId: number;
+  number: number;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  author: Actor | null;
+  labels: Connection<{ name: string; color: string }>;
+  commitCount: { totalCount: number };
+  commits?: Connection<{ commit: { message: string } }>;
+  files?: { totalCount: number; nodes: Array<{ path: string }> };
+}
+
+interface ReviewNode {
+  id: string;
+  state: string;
+  body: string;
+  submittedAt: string | null;
+  url: string;
+  author: Actor | null;
+  comments: Connection<{ body: string; createdAt: string; url: string; author: Actor | null }>;
+}
+
+interface ReviewedPRNode {
+  id: string;
+  number: number;
+  title: string;
+  author: Actor | null;
+  reviews: Connection<ReviewNode>;
+}
+
+const RATE_LIMIT_FIELDS = 'rateLimit { cost remaining resetAt limit }';
+const PAGE_INFO_FIELDS = 'pageInfo { hasNextPage endCursor }';
+const LABEL_FIELDS = 'name color';
+const COMMIT_FIELDS = 'commit { message }';
+const REVIEW_COMMENT_FIELDS = 'body createdAt url author { __typename login }';
+const REVIEW_FIELDS = `
+  id
+  state
+  body
+  submittedAt
+  url
+  author { __typename login }
+  comments(first: 30) { ${PAGE_INFO_FIELDS} nodes { ${REVIEW_COMMENT_FIELDS} } }
+`;
+
+const MERGED_PRS_QUERY = `
+  query MergedPRs($q: String!, $after: String, $withCommits: Boolean!, $withFiles: Boolean!) {
+    ${RATE_LIMIT_FIELDS}
+    search(query: $q, type: ISSUE, first: 50, after: $after) {
+      issueCount
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ... on PullRequest {
+          id
+          databaseId
+          number
+          title
+          createdAt
+          updatedAt
+          mergedAt
+          additions
+          deletions
+          changedFiles
+          author { __typename login ... on User { databaseId } ... on Bot { databaseId } }
+          labels(first: 20) { ${PAGE_INFO_FIELDS} nodes { ${LABEL_FIELDS} } }
+          commitCount: commits { totalCount }
+          commits(first: 100) @include(if: $withCommits) { ${PAGE_INFO_FIELDS} nodes { ${COMMIT_FIELDS} } }
+          files(first: 100) @include(if: $withFiles) { totalCount nodes { path } }
+        }
+      }
+    }
+  }
+`;
+
+const REVIEWED_PRS_QUERY = `
+  query ReviewedPRs($q: String!, $after: String) {
+    ${RATE_LIMIT_FIELDS}
+    search(query: $q, type: ISSUE, first: 25, after: $after) {
+      issueCount
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ... on PullRequest {
+          id
+          number
+          title
+          author { __typename login }
+          reviews(first: 50) { ${PAGE_INFO_FIELDS} nodes { ${REVIEW_FIELDS} } }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Query for the pages of a node's connection after the first, which the
+ * bulk queries above only return the start of
+ */
+function connectionQuery(typename: string, field: string, fields: string): string {
+  return `
+  query Connection($id: ID!, $after: String) {
+    ${RATE_LIMIT_FIELDS}
+    node(id: $id) {
+      ... on ${typename} {
+        connection: ${field}(first: 100, after: $after) { ${PAGE_INFO_FIELDS} nodes { ${fields} } }
+      }
+    }
+  }
+`;
+}
+
+// GitHub search returns at most this many results per query
+const SEARCH_RESULT_LIMIT = 1000;
+// Windows are not split below this, even if they still match too many PRs
+const MIN_WINDOW_MS = 60 * 60 * 1000;
+// Points kept in reserve before waiting for the rate limit to reset
+const MIN_REMAINING_POINTS = 50;
+
+/**
+ * Search qualifier for a date range, to the second
+ */
+function dateRange(start: Date, end: Date): string {
+  const format = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `${format(start)}..${format(end)}`;
+}
+
+export class GitHubGraphQLHarvester {
+  private transport: GraphQLTransport;
+  private options: HarvesterOptions;
+  private rateLimit?: GraphQLRateLimit;
+
+  constructor(transport: GraphQLTransport, options: HarvesterOptions = {}) {
+    this.transport = transport;
+    this.options = options;
+  }
+
+  /**
+   * Merged PRs of the search's repositories, credited to their authors and
+   * co-authors, plus review activity when requested. Returns the same stats
+   * the REST harvester does; issue triage is left to the caller.
+   */
+  async harvest(params: PRSearchParams): Promise<Map<string, ContributorStats>> {
+    const contributorStats = new Map<string, ContributorStats>();
+    const identity = params.identity || createIdentityResolver(DEFAULT_IDENTITY_SETTINGS);
+
+    for (const repoFullName of params.repos) {
+      const [owner, repo] = repoFullName.split('/');
+      const rules = params.weightingRules?.[repoFullName];
+      const withFiles = !!rules && requiresFileList(rules);
+
+      try {
+        const nodes = await this.searchNodes<MergedPRNode>(
+          MERGED_PRS_QUERY,
+          (start, end) => this.buildMergedQuery(repoFullName, start, end, params),
+          params.startDate,
+          params.endDate,
+          { withCommits: identity.settings.splitCoAuthorCredit, withFiles }
+        );
+
+        for (const node of nodes) {
+          // Deleted accounts have no author to credit
+          if (!node.author) {
+            continue;
+          }
+
+          const pr = this.toGitHubPR(node, repoFullName);
+          if (identity.isBot(pr.user)) {
+            continue;
+          }
+          pr.labels = await this.allNodes(node.id, 'PullRequest', 'labels', LABEL_FIELDS, node.labels);
+
+          let changedFiles = node.files?.nodes.map(file => file.path) || [];
+          if (withFiles && node.files && node.files.totalCount > changedFiles.length) {
+            if (this.options.fetchFiles) {
+              try {
+                changedFiles = await this.options.fetchFiles(owner, repo, node.number);
+              } catch (error) {
+                console.error(`Error fetching files for ${repoFullName}#${node.number}, using the first ${changedFiles.length}:`, error);
+              }
+            } else {
+              console.warn(`${repoFullName}#${node.number} changes ${node.files.totalCount} files; path rules only see the first ${changedFiles.length}`);
+            }
+          }
+
+          const { weight, rule } = evaluatePRWeight(pr, rules || {}, changedFiles);
+          pr.weight = weight;
+          pr.weightRule = rule;
+
+          const commits = node.commits
+            ? await this.allNodes(node.id, 'PullRequest', 'commits', COMMIT_FIELDS, node.commits)
+            : [];
+          const commitMessages = commits.map(commit => commit.commit.message);
+          for (const credit of resolvePRCredits(pr, commitMessages, identity)) {
+            addPRCredit(contributorStats, pr, credit);
+          }
+        }
+
+        if (params.includeActivity) {
+          creditActivities(contributorStats, await this.getReviewActivity(repoFullName, params), identity);
+        }
+      } catch (error) {
+        console.error(`Error harvesting repository ${repoFullName} over GraphQL:`, error);
+        // Continue with other repositories
+      }
+    }
+
+    return contributorStats;
+  }
+
+  /**
+   * Reviews submitted within the window on the repository's PRs, credited
+   * as the REST harvester does
+   */
+  async getReviewActivity(repoFullName: string, params: PRSearchParams): Promise<ContributorActivity[]> {
+    const activities: ContributorActivity[] = [];
+    const inWindow = (date?: string | null) =>
+      !!date && new Date(date) >= params.startDate && new Date(date) <= params.endDate;
+
+    // A PR reviewed in the window may have been updated since, so the search
+    // runs up to now; reviews themselves are filtered by submission
+    const nodes = await this.searchNodes<ReviewedPRNode>(
+      REVIEWED_PRS_QUERY,
+      (start, end) => `repo:${repoFullName} is:pr updated:${dateRange(start, end)}`,
+      params.startDate,
+      new Date(Math.max(Date.now(), params.endDate.getTime())),
+      {}
+    );
+
+    for (const node of nodes) {
+      const author = node.author?.login;
+      const credited = new Set<string>();
+      const commentCounts = new Map<string, number>();
+      const activity = (kind: ActivityKind, login: string, occurredAt: string, url: string) => ({
+        kind, login, repository: repoFullName, number: node.number, title: node.title, occurredAt, url
+      });
+
+      const reviews = await this.allNodes(node.id, 'PullRequest', 'reviews', REVIEW_FIELDS, node.reviews);
+      for (const review of reviews) {
+        const login = review.author?.login;
+        if (!login || login === author || review.author?.__typename === 'Bot') {
+          continue;
+        }
+
+        const kind = reviewActivityKind(review.state, review.body);
+        if (kind && inWindow(review.submittedAt) && !credited.has(`${kind}:${login}`)) {
+          credited.add(`${kind}:${login}`);
+          activities.push(activity(kind, login, review.submittedAt!, review.url));
+        }
+
+        const comments = await this.allNodes(review.id, 'PullRequestReview', 'comments', REVIEW_COMMENT_FIELDS, review.comments);
+        for (const comment of comments) {
+          if (
+            comment.author?.login !== login ||
+            !inWindow(comment.createdAt) ||
+            comment.body.trim().length < SUBSTANTIVE_COMMENT_LENGTH ||
+            (commentCounts.get(login) || 0) >= MAX_CREDITED_COMMENTS_PER_PR
+          ) {
+            continue;
+          }
+
+          commentCounts.set(login, (commentCounts.get(login) || 0) + 1);
+          activities.push(activity('REVIEW_COMMENT', login, comment.createdAt, comment.url));
+        }
+      }
+    }
+
+    return activities;
+  }
+
+  /**
+   * Run a search query page by page. Windows matching more results than
+   * search returns are split in half and searched separately.
+   */
+  private async searchNodes<Node>(
+    document: string,
+    buildQuery: (start: Date, end: Date) => string,
+    start: Date,
+    end: Date,
+    variables: Record<string, unknown>
+  ): Promise<Node[]> {
+    const nodes: Node[] = [];
+    let after: string | null = null;
+
+    do {
+      await this.respectRateLimit();
+
+      const page: SearchPage<Node> = await this.transport<SearchPage<Node>>(document, {
+        ...variables,
+        q: buildQuery(start, end),
+        after
+      });
+      this.rateLimit = page.rateLimit;
+
+      if (!after && page.search.issueCount > SEARCH_RESULT_LIMIT && end.getTime() - start.getTime() > MIN_WINDOW_MS) {
+        const middle = new Date(Math.floor((start.getTime() + end.getTime()) / 2000) * 1000);
+        return [
+          ...await this.searchNodes<Node>(document, buildQuery, start, middle, variables),
+          ...await this.searchNodes<Node>(document, buildQuery, new Date(middle.getTime() + 1000), end, variables)
+        ];
+      }
+
+      // Non-PR results come back as empty objects
+      nodes.push(...page.search.nodes.filter(node => node && Object.keys(node).length > 0));
+      after = page.search.pageInfo.hasNextPage ? page.search.pageInfo.endCursor : null;
+    } while (after);
+
+    return nodes;
+  }
+
+  /**
+   * Every node of a connection, fetching the pages after the first one a
+   * bulk query returned
+   */
+  private async allNodes<Node>(
+    id: string,
+    typename: string,
+    field: string,
+    fields: string,
+    connection: Connection<Node>
+  ): Promise<Node[]> {
+    const nodes = [...connection.nodes];
+    let after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+
+    while (after) {
+      await this.respectRateLimit();
+
+      const page: ConnectionPage<Node> = await this.transport<ConnectionPage<Node>>(
+        connectionQuery(typename, field, fields),
+        { id, after }
+      );
+      this.rateLimit = page.rateLimit;
+
+      nodes.push(...page.node.connection.nodes);
+      after = page.node.connection.pageInfo.hasNextPage ? page.node.connection.pageInfo.endCursor : null;
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Wait for the rate limit to reset when the points left would not cover
+   * another query costing about as much as the last one
+   */
+  private async respectRateLimit(): Promise<void> {
+    const rateLimit = this.rateLimit;
+    if (!rateLimit || rateLimit.remaining >= Math.max(rateLimit.cost * 2, MIN_REMAINING_POINTS)) {
+      return;
+    }
+
+    const waitTime = new Date(rateLimit.resetAt).getTime() - Date.now() + 1000; // Add 1 second buffer
+    if (waitTime > 0) {
+      console.log(`GraphQL rate limit approaching (${rateLimit.remaining} points left), waiting ${waitTime}ms`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+  }
+
+  private buildMergedQuery(repoFullName: string, start: Date, end: Date, params: PRSearchParams): string {
+    let query = `repo:${repoFullName} is:pr is:merged merged:${dateRange(start, end)}`;
+
+    const { includeLabels, excludeLabels } = labelFiltersFor(params, repoFullName);
+    if (includeLabels.length > 0) {
+      query += ` ${includeLabels.map(label => `label:"${label}"`).join(' ')}`;
+    }
+    if (excludeLabels.length > 0) {
+      query += ` ${excludeLabels.map(label => `-label:"${label}"`).join(' ')}`;
+    }
+
+    return query;
+  }
+
+  private toGitHubPR(node: MergedPRNode, repoFullName: string): GitHubPR {
+    return {
+      id: node.databaseId,
+      number: node.number,
+      title: node.title,
+      user: {
+        login: node.author!.login,
+        id: node.author!.databaseId || 0,
+        type: node.author!.__typename === 'Bot' ? 'Bot' : 'User'
+      },
+      state: 'closed',
+      merged_at: node.mergedAt,
+      created_at: node.createdAt,
+      updated_at: node.updatedAt,
+      labels: node.labels.nodes,
+      additions: node.additions,
+      deletions: node.deletions,
+      changed_files: node.changedFiles,
+      commits: node.commitCount.totalCount,
+      repository: repoFullName
+    };
+  }
+}
+
+/**
+ * Transport answering from fixtures instead of GitHub. Responses are picked
+ * by the repository in the query, the query kind (merged or reviewed PRs)
+ * and the page cursor, so fixture pages set endCursor to the next page's
+ * index. Connection pages are picked by node ID, field and cursor; as the
+ * bulk query returned page 0, cursor 1 is their first entry. Window
+ * splitting is not simulated.
+ */
+export function createFixtureTransport(fixtures: GraphQLFixtures): GraphQLTransport {
+  return async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    const rateLimit = { cost: 1, remaining: 5000, resetAt: new Date().toISOString(), limit: 5000 };
+    const emptyPage = { hasNextPage: false, endCursor: null };
+
+    if (query.includes('query Connection')) {
+      const key = `${variables.id}.${/connection: (\w+)/.exec(query)?.[1]}`;
+      const pages = Object.values(fixtures).find(repoFixtures => repoFixtures.connections?.[key])?.connections?.[key] || [];
+      return (pages[Number(variables.after) - 1] || {
+        rateLimit,
+        node: { connection: { pageInfo: emptyPage, nodes: [] } }
+      }) as T;
+    }
+
+    const q = String(variables.q || '');
+    const repo = /repo:(\S+)/.exec(q)?.[1] || '';
+    const pages = (query.includes('query MergedPRs') ? fixtures[repo]?.merged : fixtures[repo]?.reviewed) || [];
+    const page = pages[variables.after ? Number(variables.after) : 0];
+
+    return (page || {
+      rateLimit,
+      search: { issueCount: 0, pageInfo: emptyPage, nodes: [] }
+    }) as T;
+  };
+}
+
+/**
+ * Fixture transport loaded from a JSON file such as fixtures/github-graphql.json
+ */
+export function loadFixtureTransport(path: string): GraphQLTransport {
+  return createFixtureTransport(JSON.parse(readFileSync(path, 'utf8')));
+}
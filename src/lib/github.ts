@@ -4,6 +4,9 @@
  */
 
 import { Octokit } from '@octokit/rest';
+import { PRWeightingRules, evaluatePRWeight, requiresFileList } from './weighting';
+import { IdentityResolver, PRCredit, createIdentityResolver, resolvePRCredits, DEFAULT_IDENTITY_SETTINGS } from './identity';
+import { GitHubGraphQLHarvester, GraphQLTransport } from './github-graphql';
 
 export interface GitHubRepo {
   id: number;
@@ -38,6 +41,7 @@ export interface GitHubPR {
   user: {
     login: string;
     id: number;
+    type?: string; // "User" or "Bot"
   };
   state: 'open' | 'closed';
   merged_at: string | null;
@@ -51,6 +55,38 @@ export interface GitHubPR {
   deletions: number;
   changed_files: number;
   commits: number;
+  repository?: string; // "owner/name", set when harvested for a payroll run
+  weight?: number; // Multiplier from repository weighting rules (default 1)
+  weightRule?: string; // Description of the rules that set the weight
+  credit?: number; // Share of the PR credited to this contributor when co-authored (default 1)
+}
+
+/**
+ * Non-authoring work credited alongside merged PRs
+ */
+export type ActivityKind =
+  | 'REVIEW_APPROVAL' // Approved someone else's PR
+  | 'REVIEW' // Requested changes, or commented with a substantive review body
+  | 'REVIEW_COMMENT' // Substantive inline review comment
+  | 'ISSUE_LABELED' // Labeled an issue
+  | 'ISSUE_DUPLICATE'; // Closed or marked an issue as a duplicate
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  REVIEW_APPROVAL: 'Approved PR',
+  REVIEW: 'Reviewed PR',
+  REVIEW_COMMENT: 'Review comment',
+  ISSUE_LABELED: 'Labeled issue',
+  ISSUE_DUPLICATE: 'Closed duplicate'
+};
+
+export interface ContributorActivity {
+  kind: ActivityKind;
+  login: string;
+  repository: string; // "owner/name"
+  number: number; // PR or issue number
+  title: string;
+  occurredAt: string;
+  url: string;
 }
 
 export interface PRSearchParams {
@@ -59,28 +95,177 @@ export interface PRSearchParams {
   endDate: Date;
   includeLabels?: string[];
   excludeLabels?: string[];
+  repoLabels?: Record<string, RepoLabelFilters>; // Keyed by "owner/name", replacing includeLabels/excludeLabels there
   requireVerifiedCommits?: boolean;
+  weightingRules?: Record<string, PRWeightingRules>; // Keyed by "owner/name"
+  identity?: IdentityResolver; // Bot filtering, co-author credit and aliases (defaults without aliases)
+  includeActivity?: boolean; // Also credit reviews and issue triage within the window
+}
+
+export interface RepoLabelFilters {
+  includeLabels: string[]; // PRs must carry all of these
+  excludeLabels: string[]; // PRs carrying any of these are skipped
 }
 
 export interface ContributorStats {
   login: string;
   id: number;
   prCount: number;
+  weightedPoints: number; // Sum of per-PR weights
   totalAdditions: number;
   totalDeletions: number;
   totalChangedFiles: number;
   prs: GitHubPR[];
+  activities?: ContributorActivity[]; // Reviews and triage, when collected
+}
+
+// A closed PR as listed by update time, before its details are fetched
+export interface UpdatedPR {
+  number: number;
+  updated_at: string;
+  merged_at: string | null;
+}
+
+// Fields of an issue event's issue used for triage credit
+interface TriagedIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  state_reason?: string | null;
+  pull_request?: unknown;
+  user?: { login: string } | null;
+}
+
+// Shortest review body or comment credited as substantive
+export const SUBSTANTIVE_COMMENT_LENGTH = 40;
+// Inline comments credited per reviewer and PR
+export const MAX_CREDITED_COMMENTS_PER_PR = 5;
+
+/**
+ * Activity kind a submitted review earns, if any
+ */
+export function reviewActivityKind(state: string, body?: string | null): ActivityKind | undefined {
+  if (state === 'APPROVED') {
+    return 'REVIEW_APPROVAL';
+  }
+  if (state === 'CHANGES_REQUESTED' || (state === 'COMMENTED' && (body || '').trim().length >= SUBSTANTIVE_COMMENT_LENGTH)) {
+    return 'REVIEW';
+  }
+  return undefined;
+}
+
+/**
+ * Label filters a search applies to one repository
+ */
+export function labelFiltersFor(params: PRSearchParams, repoFullName: string): RepoLabelFilters {
+  return params.repoLabels?.[repoFullName] || {
+    includeLabels: params.includeLabels || [],
+    excludeLabels: params.excludeLabels || []
+  };
+}
+
+/**
+ * Update contributor statistics with a contributor's share of a PR. A
+ * co-authored PR counts towards each co-author's PR count, while its weight
+ * and size are split by share.
+ */
+export function addPRCredit(
+  contributorStats: Map<string, ContributorStats>,
+  pr: GitHubPR,
+  credit: PRCredit
+): void {
+  const login = credit.login;
+  
+  if (!contributorStats.has(login)) {
+    contributorStats.set(login, {
+      login,
+      id: login === pr.user.login ? pr.user.id : 0,
+      prCount: 0,
+      weightedPoints: 0,
+      totalAdditions: 0,
+      totalDeletions: 0,
+      totalChangedFiles: 0,
+      prs: [],
+    });
+  }
+
+  const stats = contributorStats.get(login)!;
+  if (!stats.id && login === pr.user.login) {
+    stats.id = pr.user.id;
+  }
+  stats.prCount++;
+  stats.weightedPoints += (pr.weight ?? 1) * credit.share;
+  stats.totalAdditions += (pr.additions || 0) * credit.share;
+  stats.totalDeletions += (pr.deletions || 0) * credit.share;
+  stats.totalChangedFiles += (pr.changed_files || 0) * credit.share;
+  stats.prs.push(credit.share === 1 ? pr : { ...pr, credit: credit.share });
+}
+
+/**
+ * Record the activities of everyone but bots under their canonical logins
+ */
+export function creditActivities(
+  contributorStats: Map<string, ContributorStats>,
+  activities: ContributorActivity[],
+  identity: IdentityResolver
+): void {
+  for (const activity of activities) {
+    if (!identity.isBot({ login: activity.login })) {
+      addContributorActivity(contributorStats, {
+        ...activity,
+        login: identity.canonicalLogin(activity.login)
+      });
+    }
+  }
+}
+
+/**
+ * Record a review or triage activity, adding a contributor with no PRs if needed
+ */
+export function addContributorActivity(
+  contributorStats: Map<string, ContributorStats>,
+  activity: ContributorActivity
+): void {
+  if (!contributorStats.has(activity.login)) {
+    contributorStats.set(activity.login, {
+      login: activity.login,
+      id: 0,
+      prCount: 0,
+      weightedPoints: 0,
+      totalAdditions: 0,
+      totalDeletions: 0,
+      totalChangedFiles: 0,
+      prs: [],
+    });
+  }
+
+  const stats = contributorStats.get(activity.login)!;
+  stats.activities = [...(stats.activities || []), activity];
 }
 
 export class GitHubService {
   private octokit: Octokit;
+  private harvester?: GitHubGraphQLHarvester;
   private rateLimitDelay = 1000; // 1 second between requests
 
-  constructor(accessToken?: string) {
+  /**
+   * GraphQL harvesting needs a token or a transport, which tests pass to
+   * answer from fixtures; GITHUB_HARVESTER=rest turns it off
+   */
+  constructor(accessToken?: string, transport?: GraphQLTransport) {
     this.octokit = new Octokit({
       auth: accessToken,
       userAgent: 'AI-Payroll-System/1.0.0',
     });
+
+    const graphqlTransport: GraphQLTransport | undefined = transport ||
+      (accessToken ? (query, variables) => this.octokit.graphql(query, variables) : undefined);
+
+    if (graphqlTransport && process.env.GITHUB_HARVESTER !== 'rest') {
+      this.harvester = new GitHubGraphQLHarvester(graphqlTransport, {
+        fetchFiles: (owner, repo, prNumber) => this.getPRFiles(owner, repo, prNumber)
+      });
+    }
   }
 
   /**
@@ -154,9 +339,11 @@ export class GitHubService {
   }
 
   /**
-   * Get organization repositories where user has admin/maintain permissions
+   * Get organization repositories where user has admin/maintain permissions,
+   * optionally only those of one organization
    */
   async getOrganizationRepos(options: {
+    org?: string;
     page?: number;
     per_page?: number;
     sort?: 'created' | 'updated' | 'pushed' | 'full_name';
@@ -165,9 +352,12 @@ export class GitHubService {
       await this.respectRateLimit();
       
       // Get user's organizations
-      const { data: orgs } = await this.octokit.rest.orgs.listForAuthenticatedUser({
+      const { data: memberOrgs } = await this.octokit.rest.orgs.listForAuthenticatedUser({
         per_page: 100
       });
+      const orgs = options.org
+        ? memberOrgs.filter(org => org.login.toLowerCase() === options.org!.toLowerCase())
+        : memberOrgs;
 
       const orgRepos: GitHubRepo[] = [];
 
@@ -280,10 +470,60 @@ export class GitHubService {
   }
 
   /**
-   * Search for merged PRs in specified repositories within date range
+   * Search for merged PRs in specified repositories within date range. Uses
+   * bulk GraphQL queries when available, with issue triage still read over REST.
    */
   async searchMergedPRs(params: PRSearchParams): Promise<Map<string, ContributorStats>> {
+    if (!this.harvester) {
+      return this.searchMergedPRsRest(params);
+    }
+
+    const contributorStats = await this.harvester.harvest(params);
+
+    if (params.includeActivity) {
+      const identity = params.identity || createIdentityResolver(DEFAULT_IDENTITY_SETTINGS);
+      for (const repoFullName of params.repos) {
+        const [owner, repo] = repoFullName.split('/');
+        creditActivities(contributorStats, await this.getTriageActivity(owner, repo, params), identity);
+      }
+    }
+
+    return contributorStats;
+  }
+
+  /**
+   * Reviews and issue triage within the window, for harvests whose PRs came
+   * from elsewhere. Activity is returned as found, before bot filtering.
+   */
+  async searchActivity(params: PRSearchParams): Promise<ContributorActivity[]> {
+    const activities: ContributorActivity[] = [];
+
+    for (const repoFullName of params.repos) {
+      const [owner, repo] = repoFullName.split('/');
+
+      try {
+        activities.push(
+          ...await (this.harvester
+            ? this.harvester.getReviewActivity(repoFullName, params)
+            : this.getReviewActivity(owner, repo, params)),
+          ...await this.getTriageActivity(owner, repo, params)
+        );
+      } catch (error) {
+        console.error(`Error collecting activity for ${repoFullName}:`, error);
+        // Continue with other repositories
+      }
+    }
+
+    return activities;
+  }
+
+  /**
+   * Search for merged PRs with the Search API, fetching each PR's details
+   * and commits separately
+   */
+  private async searchMergedPRsRest(params: PRSearchParams): Promise<Map<string, ContributorStats>> {
     const contributorStats = new Map<string, ContributorStats>();
+    const identity = params.identity || createIdentityResolver(DEFAULT_IDENTITY_SETTINGS);
 
     for (const repoFullName of params.repos) {
       const [owner, repo] = repoFullName.split('/');
@@ -301,13 +541,31 @@ export class GitHubService {
         for (const pr of searchResults) {
           const prDetails = await this.getPRDetails(owner, repo, pr.number);
           
-          if (this.shouldIncludePR(prDetails, params)) {
-            this.updateContributorStats(contributorStats, prDetails);
+          if (this.shouldIncludePR(prDetails, labelFiltersFor(params, repoFullName)) && !identity.isBot(prDetails.user)) {
+            await this.applyWeightingRules(
+              prDetails,
+              repoFullName,
+              params.weightingRules?.[repoFullName]
+            );
+
+            const commitMessages = identity.settings.splitCoAuthorCredit
+              ? await this.getPRCommitMessages(owner, repo, pr.number)
+              : [];
+            for (const credit of resolvePRCredits(prDetails, commitMessages, identity)) {
+              addPRCredit(contributorStats, prDetails, credit);
+            }
           }
           
           // Small delay to respect rate limits
           await this.delay(100);
         }
+
+        if (params.includeActivity) {
+          creditActivities(contributorStats, [
+            ...await this.getReviewActivity(owner, repo, params),
+            ...await this.getTriageActivity(owner, repo, params)
+          ], identity);
+        }
         
       } catch (error) {
         console.error(`Error processing repository ${repoFullName}:`, error);
@@ -337,6 +595,283 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Get the paths of files changed in a PR
+   */
+  async getPRFiles(owner: string, repo: string, prNumber: number): Promise<string[]> {
+    try {
+      const files: string[] = [];
+      let page = 1;
+      const perPage = 100;
+
+      while (true) {
+        await this.respectRateLimit();
+
+        const { data } = await this.octokit.rest.pulls.listFiles({
+          owner,
+          repo,
+          pull_number: prNumber,
+          per_page: perPage,
+          page,
+        });
+
+        files.push(...data.map(file => file.filename));
+
+        // GitHub returns at most 3000 files per PR
+        if (data.length < perPage || files.length >= 3000) {
+          break;
+        }
+
+        page++;
+      }
+
+      return files;
+    } catch (error) {
+      throw new Error(`Failed to get PR files for ${owner}/${repo}#${prNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the messages of a PR's commits, for their Co-authored-by trailers
+   */
+  async getPRCommitMessages(owner: string, repo: string, prNumber: number): Promise<string[]> {
+    try {
+      const messages: string[] = [];
+      let page = 1;
+      const perPage = 100;
+
+      while (true) {
+        await this.respectRateLimit();
+
+        const { data } = await this.octokit.rest.pulls.listCommits({
+          owner,
+          repo,
+          pull_number: prNumber,
+          per_page: perPage,
+          page,
+        });
+
+        messages.push(...data.map(commit => commit.commit.message));
+
+        // GitHub lists at most 250 commits per PR
+        if (data.length < perPage || messages.length >= 250) {
+          break;
+        }
+
+        page++;
+      }
+
+      return messages;
+    } catch (error) {
+      console.error(`Error fetching commits for ${owner}/${repo}#${prNumber}, crediting the author only:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Closed PRs of a repository, most recently updated first, down to the
+   * first one last updated before `since`. With the ETag of the previous
+   * listing, GitHub answers 304 when no PR has changed since.
+   */
+  async listUpdatedPRs(
+    owner: string,
+    repo: string,
+    options: { since?: Date; etag?: string | null } = {}
+  ): Promise<{ notModified: boolean; etag?: string; pulls: UpdatedPR[] }> {
+    const pulls: UpdatedPR[] = [];
+    let etag: string | undefined;
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      await this.respectRateLimit();
+
+      let response;
+      try {
+        response = await this.octokit.rest.pulls.list({
+          owner,
+          repo,
+          state: 'closed',
+          sort: 'updated',
+          direction: 'desc',
+          per_page: perPage,
+          page,
+          headers: page === 1 && options.etag ? { 'if-none-match': options.etag } : undefined,
+        });
+      } catch (error) {
+        if (page === 1 && (error as { status?: number }).status === 304) {
+          return { notModified: true, etag: options.etag || undefined, pulls: [] };
+        }
+        throw new Error(`Failed to list PRs for ${owner}/${repo}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      if (page === 1) {
+        etag = response.headers.etag;
+      }
+
+      for (const pr of response.data) {
+        if (options.since && new Date(pr.updated_at) < options.since) {
+          return { notModified: false, etag, pulls };
+        }
+        pulls.push({ number: pr.number, updated_at: pr.updated_at, merged_at: pr.merged_at });
+      }
+
+      if (response.data.length < perPage) {
+        return { notModified: false, etag, pulls };
+      }
+
+      page++;
+    }
+  }
+
+  /**
+   * Reviews of the repository's PRs submitted within the window. Authors
+   * reviewing their own PRs earn nothing; each reviewer is credited once per
+   * PR and review kind, and for at most a few inline comments per PR.
+   */
+  async getReviewActivity(owner: string, repo: string, params: PRSearchParams): Promise<ContributorActivity[]> {
+    const activities: ContributorActivity[] = [];
+    const repoFullName = `${owner}/${repo}`;
+    const inWindow = (date?: string | null) =>
+      !!date && new Date(date) >= params.startDate && new Date(date) <= params.endDate;
+
+    try {
+      // A PR reviewed in the window may have been updated since, so only the
+      // start bounds the search; reviews themselves are filtered by submission
+      const startDate = params.startDate.toISOString().split('T')[0];
+      const prs = await this.searchPRsWithPagination(`repo:${repoFullName} is:pr updated:>=${startDate}`);
+
+      for (const pr of prs) {
+        const author = pr.user?.login;
+        const credited = new Set<string>();
+        const commentCounts = new Map<string, number>();
+        const activity = (kind: ActivityKind, login: string, occurredAt: string, url: string) => ({
+          kind, login, repository: repoFullName, number: pr.number, title: pr.title, occurredAt, url
+        });
+
+        await this.respectRateLimit();
+        const reviews = await this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+          owner,
+          repo,
+          pull_number: pr.number,
+          per_page: 100,
+        });
+
+        for (const review of reviews) {
+          const login = review.user?.login;
+          if (!login || login === author || !inWindow(review.submitted_at)) {
+            continue;
+          }
+
+          const kind = reviewActivityKind(review.state, review.body);
+          if (kind && !credited.has(`${kind}:${login}`)) {
+            credited.add(`${kind}:${login}`);
+            activities.push(activity(kind, login, review.submitted_at!, review.html_url));
+          }
+        }
+
+        await this.respectRateLimit();
+        const comments = await this.octokit.paginate(this.octokit.rest.pulls.listReviewComments, {
+          owner,
+          repo,
+          pull_number: pr.number,
+          per_page: 100,
+        });
+
+        for (const comment of comments) {
+          const login = comment.user?.login;
+          if (
+            !login ||
+            login === author ||
+            !inWindow(comment.created_at) ||
+            comment.body.trim().length < SUBSTANTIVE_COMMENT_LENGTH ||
+            (commentCounts.get(login) || 0) >= MAX_CREDITED_COMMENTS_PER_PR
+          ) {
+            continue;
+          }
+
+          commentCounts.set(login, (commentCounts.get(login) || 0) + 1);
+          activities.push(activity('REVIEW_COMMENT', login, comment.created_at, comment.html_url));
+        }
+
+        await this.delay(100);
+      }
+    } catch (error) {
+      console.error(`Error collecting review activity for ${repoFullName}:`, error);
+    }
+
+    return activities;
+  }
+
+  /**
+   * Issue triage within the window: labeling issues and closing or marking
+   * them as duplicates. Each actor is credited once per issue and kind, and
+   * never for triaging their own issues.
+   */
+  async getTriageActivity(owner: string, repo: string, params: PRSearchParams): Promise<ContributorActivity[]> {
+    const activities: ContributorActivity[] = [];
+    const repoFullName = `${owner}/${repo}`;
+    const credited = new Set<string>();
+    let page = 1;
+    const perPage = 100;
+
+    try {
+      while (true) {
+        await this.respectRateLimit();
+
+        // Newest first, so paging stops at the start of the window
+        const { data } = await this.octokit.rest.issues.listEventsForRepo({
+          owner,
+          repo,
+          per_page: perPage,
+          page,
+        });
+
+        for (const event of data) {
+          const createdAt = new Date(event.created_at);
+          const issue = event.issue as TriagedIssue | null | undefined;
+          const login = event.actor?.login;
+          if (!issue || issue.pull_request || !login || login === issue.user?.login) {
+            continue;
+          }
+          if (createdAt < params.startDate || createdAt > params.endDate) {
+            continue;
+          }
+
+          const kind: ActivityKind | undefined =
+            event.event === 'labeled' ? 'ISSUE_LABELED'
+              : event.event === 'marked_as_duplicate' ||
+                (event.event === 'closed' && issue.state_reason === 'duplicate')
+                ? 'ISSUE_DUPLICATE'
+                : undefined;
+          if (kind && !credited.has(`${kind}:${login}:${issue.number}`)) {
+            credited.add(`${kind}:${login}:${issue.number}`);
+            activities.push({
+              kind,
+              login,
+              repository: repoFullName,
+              number: issue.number,
+              title: issue.title,
+              occurredAt: event.created_at,
+              url: issue.html_url
+            });
+          }
+        }
+
+        const oldest = data[data.length - 1];
+        if (data.length < perPage || (oldest && new Date(oldest.created_at) < params.startDate)) {
+          break;
+        }
+
+        page++;
+      }
+    } catch (error) {
+      console.error(`Error collecting triage activity for ${repoFullName}:`, error);
+    }
+
+    return activities;
+  }
+
   /**
    * Check if commits in a PR are verified
    */
@@ -373,8 +908,9 @@ export class GitHubService {
     
     let query = `repo:${owner}/${repo} is:pr is:merged merged:${startDate}..${endDate}`;
     
-    if (params.includeLabels && params.includeLabels.length > 0) {
-      query += ` ${params.includeLabels.map(label => `label:"${label}"`).join(' ')}`;
+    const { includeLabels } = labelFiltersFor(params, `${owner}/${repo}`);
+    if (includeLabels.length > 0) {
+      query += ` ${includeLabels.map(label => `label:"${label}"`).join(' ')}`;
     }
     
     return query;
@@ -419,11 +955,11 @@ export class GitHubService {
   /**
    * Check if PR should be included based on filters
    */
-  private shouldIncludePR(pr: GitHubPR, params: PRSearchParams): boolean {
+  private shouldIncludePR(pr: GitHubPR, filters: RepoLabelFilters): boolean {
     // Check exclude labels
-    if (params.excludeLabels && params.excludeLabels.length > 0) {
+    if (filters.excludeLabels.length > 0) {
       const prLabels = pr.labels.map(label => label.name.toLowerCase());
-      const hasExcludeLabel = params.excludeLabels.some(
+      const hasExcludeLabel = filters.excludeLabels.some(
         excludeLabel => prLabels.includes(excludeLabel.toLowerCase())
       );
       if (hasExcludeLabel) {
@@ -436,32 +972,28 @@ export class GitHubService {
   }
 
   /**
-   * Update contributor statistics
+   * Evaluate repository weighting rules and record the weight on the PR
    */
-  private updateContributorStats(
-    contributorStats: Map<string, ContributorStats>,
-    pr: GitHubPR
-  ): void {
-    const login = pr.user.login;
-    
-    if (!contributorStats.has(login)) {
-      contributorStats.set(login, {
-        login,
-        id: pr.user.id,
-        prCount: 0,
-        totalAdditions: 0,
-        totalDeletions: 0,
-        totalChangedFiles: 0,
-        prs: [],
-      });
+  private async applyWeightingRules(
+    pr: GitHubPR,
+    repoFullName: string,
+    rules?: PRWeightingRules
+  ): Promise<void> {
+    pr.repository = repoFullName;
+
+    let changedFiles: string[] = [];
+    if (rules && requiresFileList(rules)) {
+      const [owner, repo] = repoFullName.split('/');
+      try {
+        changedFiles = await this.getPRFiles(owner, repo, pr.number);
+      } catch (error) {
+        console.error(`Error fetching files for ${repoFullName}#${pr.number}, skipping path rules:`, error);
+      }
     }
 
-    const stats = contributorStats.get(login)!;
-    stats.prCount++;
-    stats.totalAdditions += pr.additions || 0;
-    stats.totalDeletions += pr.deletions || 0;
-    stats.totalChangedFiles += pr.changed_files || 0;
-    stats.prs.push(pr);
+    const { weight, rule } = evaluatePRWeight(pr, rules || {}, changedFiles);
+    pr.weight = weight;
+    pr.weightRule = rule;
   }
 
   /**
@@ -571,6 +1103,6 @@ export class GitHubService {
   }
 }
 
-export function createGitHubService(accessToken?: string): GitHubService {
-  return new GitHubService(accessToken);
+export function createGitHubService(accessToken?: string, transport?: GraphQLTransport): GitHubService {
+  return new GitHubService(accessToken, transport);
 }
\ No newline at end of file
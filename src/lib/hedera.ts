@@ -19,7 +19,9 @@ import {
   AccountBalanceQuery,
   ScheduleInfoQuery,
   Status,
-  Timestamp
+  Timestamp,
+  ReceiptStatusError,
+  PrecheckStatusError
 } from "@hashgraph/sdk";
 
 export interface HederaConfig {
@@ -35,6 +37,7 @@ export interface TransferParams {
   asset: string; // 'HBAR' or token ID
   memo?: string;
   idempotencyKey: string;
+  transactionId?: string; // Pre-generated ID journaled before submission
 }
 
 export interface ScheduledTransferParams extends TransferParams {
@@ -43,6 +46,22 @@ export interface ScheduledTransferParams extends TransferParams {
   adminKey?: string; // Private key for schedule admin
 }
 
+export interface BatchTransferParams {
+  transfers: Array<{
+    recipientAccountId: string;
+    amount: string; // Amount in smallest unit
+  }>;
+  asset: string; // 'HBAR' or token ID
+  memo?: string;
+  transactionId?: string; // Pre-generated ID journaled before submission
+}
+
+export interface ScheduledBatchTransferParams extends BatchTransferParams {
+  requiredSigners: string[]; // Public keys expected to sign
+  expirationTime?: Date;
+  adminKey?: string; // Private key for schedule admin
+}
+
 export interface TransactionResult {
   success: boolean;
   transactionId?: string;
@@ -58,6 +77,10 @@ export interface MirrorNodeTransaction {
   consensus_timestamp: string;
   transaction_id: string;
   result: string;
+  name?: string; // Transaction type, e.g. CRYPTOTRANSFER
+  node?: string;
+  charged_tx_fee?: number;
+  scheduled?: boolean;
   transfers: Array<{
     account: string;
     amount: number;
@@ -69,6 +92,13 @@ export interface MirrorNodeTransaction {
   }>;
 }
 
+// A transfer list holds at most 10 account amounts; one is the operator debit
+export const MAX_BATCH_TRANSFER_RECIPIENTS = 9;
+
+// Transfers use the longest valid window the network allows, so a transaction
+// ID whose outcome is unknown can be resent for as long as possible
+export const TRANSACTION_VALID_DURATION_SECONDS = 180;
+
 export class HederaService {
   private client: Client;
   private config: HederaConfig;
@@ -94,6 +124,8 @@ export class HederaService {
    * Execute direct HBAR or token transfer
    */
   async executeTransfer(params: TransferParams): Promise<TransactionResult> {
+    let submittedTransactionId: string | undefined;
+
     try {
       const recipientAccount = AccountId.fromString(params.recipientAccountId);
       
@@ -118,29 +150,29 @@ export class HederaService {
         transaction.setTransactionMemo(params.memo);
       }
 
-      // Set transaction ID for idempotency
-      const transactionId = TransactionId.generate(this.operatorAccountId);
+      // Set transaction ID for idempotency; the network rejects a second
+      // submission of the same ID
+      const transactionId = params.transactionId
+        ? TransactionId.fromString(params.transactionId)
+        : TransactionId.generate(this.operatorAccountId);
       transaction.setTransactionId(transactionId);
+      transaction.setTransactionValidDuration(TRANSACTION_VALID_DURATION_SECONDS);
 
       // Execute transaction
+      submittedTransactionId = transactionId.toString();
       const response = await transaction.execute(this.client);
       const receipt = await response.getReceipt(this.client);
 
       return {
         success: receipt.status === Status.Success,
-        transactionId: transactionId.toString(),
+        transactionId: submittedTransactionId,
         status: receipt.status.toString(),
         receiptStatus: receipt.status,
         timestamp: new Date()
       };
 
     } catch (error) {
-      return {
-        success: false,
-        status: 'FAILED',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date()
-      };
+      return failedTransferResult(error, submittedTransactionId);
     }
   }
 
@@ -209,6 +241,130 @@ export class HederaService {
     }
   }
 
+  /**
+   * Pay several recipients from the operator account in one atomic transfer.
+   * Either every transfer in the batch succeeds or none does.
+   */
+  async executeBatchTransfer(params: BatchTransferParams): Promise<TransactionResult> {
+    // Set once the transaction is handed to the network, so callers can tell
+    // an unsent batch from one whose outcome is unknown
+    let submittedTransactionId: string | undefined;
+
+    try {
+      if (params.transfers.length > MAX_BATCH_TRANSFER_RECIPIENTS) {
+        throw new Error(`A batch transfer supports at most ${MAX_BATCH_TRANSFER_RECIPIENTS} recipients`);
+      }
+
+      const transaction = this.buildBatchTransferTransaction(params);
+
+      const transactionId = params.transactionId
+        ? TransactionId.fromString(params.transactionId)
+        : TransactionId.generate(this.operatorAccountId);
+      transaction.setTransactionId(transactionId);
+      transaction.setTransactionValidDuration(TRANSACTION_VALID_DURATION_SECONDS);
+
+      submittedTransactionId = transactionId.toString();
+      const response = await transaction.execute(this.client);
+      const receipt = await response.getReceipt(this.client);
+
+      return {
+        success: receipt.status === Status.Success,
+        transactionId: submittedTransactionId,
+        status: receipt.status.toString(),
+        receiptStatus: receipt.status,
+        timestamp: new Date()
+      };
+
+    } catch (error) {
+      return failedTransferResult(error, submittedTransactionId);
+    }
+  }
+
+  /**
+   * Generate a transaction ID for the operator account, so it can be
+   * recorded before the transaction is submitted
+   */
+  generateTransactionId(): string {
+    return TransactionId.generate(this.operatorAccountId).toString();
+  }
+
+  /**
+   * Create one scheduled transaction paying several recipients from the operator account
+   */
+  async createScheduledBatchTransfer(params: ScheduledBatchTransferParams): Promise<TransactionResult> {
+    try {
+      const innerTransaction = this.buildBatchTransferTransaction(params);
+
+      const scheduleTransaction = new ScheduleCreateTransaction()
+        .setScheduledTransaction(innerTransaction);
+
+      if (params.memo) {
+        scheduleTransaction.setScheduleMemo(params.memo);
+      }
+
+      if (params.expirationTime) {
+        scheduleTransaction.setExpirationTime(Timestamp.fromDate(params.expirationTime));
+      }
+
+      if (params.adminKey) {
+        const adminKey = PrivateKey.fromString(params.adminKey);
+        scheduleTransaction.setAdminKey(adminKey.publicKey);
+      }
+
+      const response = await scheduleTransaction.execute(this.client);
+      const receipt = await response.getReceipt(this.client);
+
+      return {
+        success: receipt.status === Status.Success,
+        scheduleId: receipt.scheduleId?.toString(),
+        transactionId: receipt.scheduledTransactionId?.toString(),
+        status: receipt.status.toString(),
+        receiptStatus: receipt.status,
+        timestamp: new Date()
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Build a transfer debiting the operator once for the total and crediting each recipient
+   */
+  private buildBatchTransferTransaction(params: BatchTransferParams): TransferTransaction {
+    const transaction = new TransferTransaction();
+    let total = 0;
+
+    for (const transfer of params.transfers) {
+      const recipientAccount = AccountId.fromString(transfer.recipientAccountId);
+      const amount = parseInt(transfer.amount);
+      total += amount;
+
+      if (params.asset === 'HBAR') {
+        transaction.addHbarTransfer(recipientAccount, Hbar.fromTinybars(amount));
+      } else {
+        transaction.addTokenTransfer(TokenId.fromString(params.asset), recipientAccount, amount);
+      }
+    }
+
+    if (params.asset === 'HBAR') {
+      transaction.addHbarTransfer(this.operatorAccountId, Hbar.fromTinybars(total).negated());
+    } else {
+      transaction.addTokenTransfer(TokenId.fromString(params.asset), this.operatorAccountId, -total);
+    }
+
+    if (params.memo) {
+      transaction.setTransactionMemo(params.memo);
+    }
+
+    return transaction;
+  }
+
   /**
    * Sign a scheduled transaction
    */
@@ -343,9 +499,11 @@ export class HederaService {
         adminKey: schedule.adminKey?.toString(),
         executed: schedule.executed !== null,
         executedAt: schedule.executed,
+        deleted: schedule.deleted !== null,
         expirationTime: schedule.expirationTime,
         memo: schedule.scheduleMemo,
-        signatories: schedule.signers?.map((key: any) => key.toString()) || []
+        scheduledTransactionId: schedule.scheduledTransactionId?.toString(),
+        signatories: schedule.signers?.toArray().map(key => key.toString()) || []
       };
     } catch (error) {
       throw new Error(`Failed to get schedule info: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -353,53 +511,72 @@ export class HederaService {
   }
 
   /**
-   * Verify transaction using mirror node
+   * Verify transaction using mirror node. Returns null only when the mirror
+   * node has no record of the transaction; any other failure (timeouts, 5xx,
+   * rate limiting) throws, so callers never mistake an outage for a
+   * transaction that did not happen.
    */
-  async verifyTransactionFromMirror(transactionId: string): Promise<MirrorNodeTransaction | null> {
-    try {
-      const url = `${this.config.mirrorNodeUrl}/api/v1/transactions/${transactionId}`;
-      
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null; // Transaction not found yet
-        }
-        throw new Error(`Mirror node API error: ${response.status}`);
+  async verifyTransactionFromMirror(
+    transactionId: string,
+    scheduled: boolean = false
+  ): Promise<MirrorNodeTransaction | null> {
+    // A schedule's inner transfer shares the ScheduleCreate transaction ID
+    const url = `${this.config.mirrorNodeUrl}/api/v1/transactions/${toMirrorTransactionId(transactionId)}` +
+      (scheduled ? '?scheduled=true' : '');
+
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json'
       }
+    });
 
-      const data = await response.json();
-      
-      if (data.transactions && data.transactions.length > 0) {
-        return data.transactions[0] as MirrorNodeTransaction;
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null; // Transaction not found yet
       }
+      throw new Error(`Mirror node API error: ${response.status}`);
+    }
 
-      return null;
-    } catch (error) {
-      console.error(`Error verifying transaction ${transactionId}:`, error);
-      return null;
+    const data = await response.json();
+
+    if (data.transactions && data.transactions.length > 0) {
+      return data.transactions[0] as MirrorNodeTransaction;
     }
+
+    return null;
   }
 
   /**
-   * Check if transaction was successful from mirror node
+   * Check if transaction was successful from mirror node. A failed lookup
+   * counts as not (yet) successful.
    */
   async isTransactionSuccessful(transactionId: string): Promise<boolean> {
-    const mirrorTx = await this.verifyTransactionFromMirror(transactionId);
-    return mirrorTx?.result === 'SUCCESS';
+    try {
+      const mirrorTx = await this.verifyTransactionFromMirror(transactionId);
+      return mirrorTx?.result === 'SUCCESS';
+    } catch (error) {
+      console.error(`Error verifying transaction ${transactionId}:`, error);
+      return false;
+    }
   }
 
   /**
    * Get transaction fee from mirror node
    */
-  async getTransactionFee(transactionId: string): Promise<string | null> {
-    const mirrorTx = await this.verifyTransactionFromMirror(transactionId);
+  async getTransactionFee(transactionId: string, scheduled: boolean = false): Promise<string | null> {
+    let mirrorTx: MirrorNodeTransaction | null;
+    try {
+      mirrorTx = await this.verifyTransactionFromMirror(transactionId, scheduled);
+    } catch (error) {
+      console.error(`Error fetching fee for transaction ${transactionId}:`, error);
+      return null;
+    }
     if (!mirrorTx) return null;
 
+    if (mirrorTx.charged_tx_fee !== undefined) {
+      return mirrorTx.charged_tx_fee.toString();
+    }
+
     // Calculate fee from transfers (operator account should have negative transfer for fee)
     const operatorTransfer = mirrorTx.transfers.find(
       transfer => transfer.account === this.operatorAccountId.toString()
@@ -408,6 +585,50 @@ export class HederaService {
     return operatorTransfer ? Math.abs(operatorTransfer.amount).toString() : null;
   }
 
+  /**
+   * List an account's transactions between two times from the mirror node
+   */
+  async getAccountTransactions(
+    accountId: string,
+    from: Date,
+    to: Date,
+    maxPages: number = 20
+  ): Promise<MirrorNodeTransaction[]> {
+    const transactions: MirrorNodeTransaction[] = [];
+    let path: string | null = `/api/v1/transactions?account.id=${accountId}` +
+      `&timestamp=gte:${toMirrorTimestamp(from)}&timestamp=lte:${toMirrorTimestamp(to)}` +
+      '&order=asc&limit=100';
+
+    for (let page = 0; path && page < maxPages; page++) {
+      const response: Response = await fetch(`${this.config.mirrorNodeUrl}${path}`, {
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mirror node API error: ${response.status}`);
+      }
+
+      const data: { transactions?: MirrorNodeTransaction[]; links?: { next?: string | null } } = await response.json();
+      transactions.push(...(data.transactions || []));
+      path = data.links?.next || null;
+    }
+
+    if (path) {
+      throw new Error(`More than ${maxPages} pages of transactions for ${accountId}`);
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Treasury account that pays out runs
+   */
+  getOperatorAccountId(): string {
+    return this.operatorAccountId.toString();
+  }
+
   /**
    * Close the client connection
    */
@@ -440,6 +661,72 @@ export class HederaService {
   }
 }
 
+/**
+ * Result of a transfer that threw. A failure receipt, or a precheck the
+ * node rejected, is final; any other error once the transaction was sent
+ * leaves its outcome unknown, so the transaction ID is kept for reconciling.
+ */
+function failedTransferResult(error: unknown, sentTransactionId: string | undefined): TransactionResult {
+  const result: TransactionResult = {
+    success: false,
+    transactionId: sentTransactionId,
+    status: 'FAILED',
+    error: error instanceof Error ? error.message : 'Unknown error',
+    timestamp: new Date()
+  };
+
+  if (error instanceof ReceiptStatusError) {
+    return { ...result, status: error.status.toString(), receiptStatus: error.status };
+  }
+  // A duplicate means an earlier submission of this ID reached the network
+  if (error instanceof PrecheckStatusError && error.status !== Status.DuplicateTransaction) {
+    return { ...result, transactionId: undefined, status: error.status.toString() };
+  }
+
+  return result;
+}
+
+/**
+ * Whether a failed transfer certainly moved no funds: it never reached the
+ * network or its receipt reports a failure. Only then may it be sent again
+ * under a new transaction ID.
+ */
+export function isDefiniteFailure(result: TransactionResult): boolean {
+  return !result.success && (
+    !result.transactionId ||
+    (result.receiptStatus !== undefined && result.receiptStatus !== Status.Success)
+  );
+}
+
+/**
+ * Convert an SDK transaction ID ("0.0.123@1700000000.000000001") to the
+ * mirror node format ("0.0.123-1700000000-000000001")
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  const [account, validStart] = transactionId.split('@');
+  if (!validStart) {
+    return transactionId;
+  }
+  return `${account}-${validStart.replace('.', '-')}`;
+}
+
+/**
+ * Mirror node timestamp ("seconds.nanoseconds") for a date
+ */
+export function toMirrorTimestamp(date: Date): string {
+  const millis = date.getTime();
+  return `${Math.floor(millis / 1000)}.${String((millis % 1000) * 1000000).padStart(9, '0')}`;
+}
+
+/**
+ * Valid start time encoded in an SDK transaction ID
+ */
+export function getTransactionValidStart(transactionId: string): Date | null {
+  const validStart = transactionId.split('@')[1];
+  const seconds = validStart ? parseInt(validStart.split('.')[0]) : NaN;
+  return Number.isFinite(seconds) ? new Date(seconds * 1000) : null;
+}
+
 export function createHederaService(config?: Partial<HederaConfig>): HederaService {
   const fullConfig: HederaConfig = {
     network: (process.env.HEDERA_NETWORK as 'testnet' | 'mainnet') || 'testnet',
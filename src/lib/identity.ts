@@ -0,0 +1,337 @@
+/**
+ * Contributor Identity Service
+ * Decides who a merged PR is credited to: bot accounts are skipped, credit is
+ * split with Co-authored-by trailers, and alias logins and emails are merged
+ * into the login their contributor is paid under
+ */
+
+import { prisma } from './db';
+import type { GitHubPR } from './github';
+
+export type AliasKind = 'LOGIN' | 'EMAIL';
+
+export const ALIAS_KINDS: AliasKind[] = ['LOGIN', 'EMAIL'];
+
+export interface IdentitySettings {
+  botLogins: string[]; // Denylisted logins, on top of accounts detected as bots
+  splitCoAuthorCredit: boolean; // Share PRs with their Co-authored-by trailers
+}
+
+export interface CoAuthor {
+  name: string;
+  email: string;
+}
+
+export interface PRCredit {
+  login: string;
+  share: number; // Share of the PR, all credits of a PR summing to 1
+}
+
+/**
+ * Resolves GitHub accounts and commit emails to the login a contributor is paid under
+ */
+export interface IdentityResolver {
+  settings: IdentitySettings;
+  isBot(user: { login: string; type?: string }): boolean;
+  canonicalLogin(login: string): string;
+  loginForEmail(email: string): string | undefined;
+}
+
+export const DEFAULT_BOT_LOGINS = [
+  'dependabot',
+  'dependabot-preview',
+  'renovate',
+  'renovate-bot',
+  'github-actions',
+  'greenkeeper',
+  'snyk-bot',
+  'imgbot',
+  'allcontributors',
+  'codecov',
+  'pre-commit-ci',
+  'mergify'
+];
+
+export const DEFAULT_IDENTITY_SETTINGS: IdentitySettings = {
+  botLogins: DEFAULT_BOT_LOGINS,
+  splitCoAuthorCredit: true
+};
+
+const IDENTITY_SETTINGS_KEY = 'identity_settings';
+const BOT_SUFFIX = /\[bot\]$/i;
+const CO_AUTHOR_TRAILER = /^co-authored-by:[ \t]*(.*?)[ \t]*<([^<>\s]+@[^<>\s]+)>[ \t]*$/gim;
+const NOREPLY_EMAIL = /^(?:\d+\+)?([a-z0-9](?:[a-z0-9-]*[a-z0-9])?)@users\.noreply\.github\.com$/i;
+const LOGIN_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,37}[a-z0-9])?(?:\[bot\])?$/i;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Whether a GitHub account is a bot: GitHub App accounts ("name[bot]",
+ * type "Bot") and denylisted logins
+ */
+export function isBotAccount(user: { login: string; type?: string }, botLogins: Iterable<string>): boolean {
+  if (user.type === 'Bot' || BOT_SUFFIX.test(user.login)) {
+    return true;
+  }
+
+  const login = user.login.toLowerCase();
+  for (const botLogin of botLogins) {
+    if (botLogin.toLowerCase().replace(BOT_SUFFIX, '') === login) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Parse the Co-authored-by trailers of a commit message, once per email
+ */
+export function parseCoAuthors(message: string): CoAuthor[] {
+  const coAuthors = new Map<string, CoAuthor>();
+
+  for (const match of message.matchAll(CO_AUTHOR_TRAILER)) {
+    const email = match[2].toLowerCase();
+    if (!coAuthors.has(email)) {
+      coAuthors.set(email, { name: match[1], email });
+    }
+  }
+
+  return Array.from(coAuthors.values());
+}
+
+/**
+ * GitHub login of a "users.noreply.github.com" commit email
+ */
+export function loginFromNoreplyEmail(email: string): string | undefined {
+  return NOREPLY_EMAIL.exec(email)?.[1];
+}
+
+/**
+ * Build a resolver from identity settings and alias maps keyed by lower-cased
+ * login or email
+ */
+export function createIdentityResolver(
+  settings: IdentitySettings,
+  loginAliases: Map<string, string> = new Map(),
+  emailAliases: Map<string, string> = new Map()
+): IdentityResolver {
+  const botLogins = new Set(settings.botLogins.map(login => login.toLowerCase()));
+  const canonicalLogin = (login: string) => loginAliases.get(login.toLowerCase()) || login;
+
+  return {
+    settings,
+    isBot: user => isBotAccount(user, botLogins),
+    canonicalLogin,
+    loginForEmail: email => {
+      const alias = emailAliases.get(email.toLowerCase());
+      if (alias) {
+        return alias;
+      }
+      const login = loginFromNoreplyEmail(email);
+      return login ? canonicalLogin(login) : undefined;
+    }
+  };
+}
+
+/**
+ * Split a PR's credit equally between its author and the co-authors named in
+ * its commits. Co-authors whose email cannot be resolved to a login, and bots,
+ * get no share.
+ */
+export function resolvePRCredits(
+  pr: GitHubPR,
+  commitMessages: string[],
+  resolver: IdentityResolver
+): PRCredit[] {
+  const logins = [resolver.canonicalLogin(pr.user.login)];
+
+  if (resolver.settings.splitCoAuthorCredit) {
+    for (const coAuthor of commitMessages.flatMap(parseCoAuthors)) {
+      const login = resolver.loginForEmail(coAuthor.email);
+      if (
+        login &&
+        !resolver.isBot({ login }) &&
+        !logins.some(existing => existing.toLowerCase() === login.toLowerCase())
+      ) {
+        logins.push(login);
+      }
+    }
+  }
+
+  return logins.map(login => ({ login, share: 1 / logins.length }));
+}
+
+/**
+ * Validate an alias before it is stored, returning a list of problems
+ */
+export function validateAlias(kind: unknown, value: unknown): string[] {
+  if (!ALIAS_KINDS.includes(kind as AliasKind)) {
+    return [`Alias kind must be one of ${ALIAS_KINDS.join(', ')}`];
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return ['Alias value is required'];
+  }
+  if (kind === 'LOGIN' && !LOGIN_PATTERN.test(value.trim())) {
+    return [`${value} is not a valid GitHub login`];
+  }
+  if (kind === 'EMAIL' && !EMAIL_PATTERN.test(value.trim())) {
+    return [`${value} is not a valid email address`];
+  }
+  return [];
+}
+
+/**
+ * Validate identity settings, returning a list of problems
+ */
+export function validateIdentitySettings(settings: Partial<IdentitySettings>): string[] {
+  const errors: string[] = [];
+
+  if (settings.botLogins !== undefined) {
+    if (!Array.isArray(settings.botLogins)) {
+      errors.push('Bot logins must be a list of GitHub logins');
+    } else {
+      settings.botLogins
+        .filter(login => typeof login !== 'string' || !LOGIN_PATTERN.test(login))
+        .forEach(login => errors.push(`${login} is not a valid GitHub login`));
+    }
+  }
+  if (settings.splitCoAuthorCredit !== undefined && typeof settings.splitCoAuthorCredit !== 'boolean') {
+    errors.push('splitCoAuthorCredit must be true or false');
+  }
+
+  return errors;
+}
+
+export class IdentityService {
+
+  /**
+   * Identity settings, with defaults for anything not configured
+   */
+  async getSettings(): Promise<IdentitySettings> {
+    const config = await prisma.systemConfig.findUnique({
+      where: { key: IDENTITY_SETTINGS_KEY }
+    });
+
+    if (!config) {
+      return DEFAULT_IDENTITY_SETTINGS;
+    }
+
+    try {
+      return { ...DEFAULT_IDENTITY_SETTINGS, ...JSON.parse(config.value) };
+    } catch {
+      return DEFAULT_IDENTITY_SETTINGS;
+    }
+  }
+
+  async updateSettings(updates: Partial<IdentitySettings>): Promise<IdentitySettings> {
+    const settings: IdentitySettings = {
+      ...await this.getSettings(),
+      ...updates
+    };
+    settings.botLogins = Array.from(new Set(settings.botLogins.map(login => login.toLowerCase())));
+
+    await prisma.systemConfig.upsert({
+      where: { key: IDENTITY_SETTINGS_KEY },
+      update: { value: JSON.stringify(settings) },
+      create: {
+        key: IDENTITY_SETTINGS_KEY,
+        value: JSON.stringify(settings),
+        description: 'Bot denylist and co-author credit settings for PR harvesting'
+      }
+    });
+
+    return settings;
+  }
+
+  /**
+   * Build a resolver from the stored settings and aliases. Each contributor
+   * is paid under their GitHub login; their aliases and account email resolve
+   * to it.
+   */
+  async loadResolver(): Promise<IdentityResolver> {
+    const [settings, contributors] = await Promise.all([
+      this.getSettings(),
+      prisma.contributor.findMany({
+        where: { active: true },
+        include: {
+          user: { select: { email: true, githubLogin: true } },
+          aliases: true
+        }
+      })
+    ]);
+
+    const loginAliases = new Map<string, string>();
+    const emailAliases = new Map<string, string>();
+
+    for (const contributor of contributors) {
+      const login = contributor.user.githubLogin || contributor.githubHandle;
+      if (!login) {
+        continue;
+      }
+
+      emailAliases.set(contributor.user.email.toLowerCase(), login);
+      for (const alias of contributor.aliases) {
+        (alias.kind === 'EMAIL' ? emailAliases : loginAliases).set(alias.value, login);
+      }
+    }
+
+    return createIdentityResolver(settings, loginAliases, emailAliases);
+  }
+
+  async listAliases(contributorId: string) {
+    return prisma.contributorAlias.findMany({
+      where: { contributorId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Link a GitHub login or commit email to a contributor. A login already
+   * paid as another contributor cannot become an alias.
+   */
+  async addAlias(contributorId: string, kind: AliasKind, value: string, createdById?: string) {
+    const normalized = value.trim().toLowerCase();
+
+    const contributor = await prisma.contributor.findUnique({
+      where: { id: contributorId },
+      include: { user: { select: { githubLogin: true } } }
+    });
+    if (!contributor) {
+      throw new Error('Contributor not found');
+    }
+
+    const ownLogin = (contributor.user.githubLogin || contributor.githubHandle || '').toLowerCase();
+    if (kind === 'LOGIN' && normalized === ownLogin) {
+      throw new Error(`${value} is already this contributor's login`);
+    }
+
+    if (kind === 'LOGIN') {
+      const owner = await prisma.contributor.findFirst({
+        where: {
+          id: { not: contributorId },
+          OR: [value.trim(), normalized].flatMap(login => [{ githubHandle: login }, { user: { githubLogin: login } }])
+        }
+      });
+      if (owner) {
+        throw new Error(`${value} is the login of another contributor`);
+      }
+    }
+
+    const existing = await prisma.contributorAlias.findUnique({
+      where: { kind_value: { kind, value: normalized } }
+    });
+    if (existing) {
+      const owner = existing.contributorId === contributorId ? 'this' : 'another';
+      throw new Error(`${value} is already an alias of ${owner} contributor`);
+    }
+
+    return prisma.contributorAlias.create({
+      data: { contributorId, kind, value: normalized, createdById }
+    });
+  }
+
+  async removeAlias(aliasId: string) {
+    return prisma.contributorAlias.delete({ where: { id: aliasId } });
+  }
+}
+
+export const identityService = new IdentityService();
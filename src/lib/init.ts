@@ -5,6 +5,7 @@
 
 import { integrationManager } from './integrations/manager';
 import { prisma } from './db';
+import { assetRegistry } from './assets';
 
 export async function initializeSystem(): Promise<void> {
   console.log('🚀 Initializing Foss It System...');
@@ -22,6 +23,9 @@ export async function initializeSystem(): Promise<void> {
 
     // Create default system configuration if needed
     await initializeSystemConfig();
+
+    // Seed the payout asset registry with built-in assets
+    await assetRegistry.ensureDefaultAssets();
     
     console.log('🎉 Foss It System initialization complete!');
     
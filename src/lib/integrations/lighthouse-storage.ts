@@ -122,7 +122,8 @@ export class LighthouseStorageService {
           runItems: true,
           payouts: {
             include: {
-              contributor: true
+              contributor: true,
+              legs: true
             }
           },
           repositories: true
@@ -180,7 +181,20 @@ export class LighthouseStorageService {
           nativeAmount: payout.nativeAmount,
           status: payout.status,
           transactionId: payout.txId,
-          confirmedAt: payout.confirmedAt?.toISOString()
+          confirmedAt: payout.confirmedAt?.toISOString(),
+          assetPercent: payout.assetPercent,
+          legs: payout.legs.map(leg => ({
+            symbol: leg.symbol,
+            asset: leg.asset,
+            percent: leg.percent,
+            usdAmount: leg.usdAmount,
+            nativeAmount: leg.nativeAmount,
+            decimals: leg.decimals,
+            price: JSON.parse(leg.priceSnapshot).price,
+            status: leg.status,
+            transactionId: leg.txId,
+            confirmedAt: leg.confirmedAt?.toISOString()
+          }))
         })),
         execution: {
           status: run.status,
@@ -394,18 +408,33 @@ export class LighthouseStorageService {
       'Title',
       'Contributor ID',
       'Hedera Account ID',
+      'Asset',
       'USD Amount',
       'Native Amount',
       'Status',
       'Transaction ID'
     ];
 
-    const rows = report.payouts.map((payout: any) => {
+    const rows = report.payouts.flatMap((payout: any) => {
       const pr = report.pullRequests.find((pr: any) => 
         pr.author === payout.githubHandle || pr.repository.includes(payout.contributorId)
       );
       
+      // A split payout gets one row per asset it was paid in
+      const legs: Array<{ symbol: string; usdAmount: number; nativeAmount: string; status: string; transactionId?: string }> =
+        payout.legs || [];
+      const runAssetUsd = legs.length ? payout.usdAmount * payout.assetPercent / 100 : payout.usdAmount;
+
       return [
+        {
+          asset: report.budget.asset,
+          usdAmount: runAssetUsd,
+          nativeAmount: payout.nativeAmount,
+          status: payout.status,
+          transactionId: payout.transactionId
+        },
+        ...legs.map(leg => ({ ...leg, asset: leg.symbol }))
+      ].map(leg => [
         pr?.repository || '',
         pr?.prNumber || '',
         pr?.author || payout.githubHandle || '',
@@ -413,11 +442,12 @@ export class LighthouseStorageService {
         pr?.title || '',
         payout.contributorId,
         payout.hederaAccountId,
-        payout.usdAmount,
-        payout.nativeAmount,
-        payout.status,
-        payout.transactionId || ''
-      ];
+        leg.asset,
+        leg.usdAmount,
+        leg.nativeAmount,
+        leg.status,
+        leg.transactionId || ''
+      ]);
     });
 
     const csvContent = [
@@ -37,6 +37,11 @@ export class TaskScheduler {
     this.startAllJobs();
     
     this.isInitialized = true;
+
+    // Pick up payroll runs interrupted by the previous process
+    this.executeJobNow('payroll_resume').catch(error => {
+      console.error('Startup payroll resume failed:', error);
+    });
     console.log(`Task scheduler initialized with ${this.jobs.size} jobs`);
   }
 
@@ -260,6 +265,50 @@ export class TaskScheduler {
       }
     });
 
+    // Resume interrupted payroll runs - every 10 minutes
+    this.registerJob({
+      id: 'payroll_resume',
+      name: 'Resume Interrupted Payroll Runs',
+      schedule: '*/10 * * * *',
+      enabled: true,
+      handler: async () => {
+        await this.resumeInterruptedPayrollRuns();
+      }
+    });
+
+    // Reconcile completed payroll runs against the mirror node - every hour
+    this.registerJob({
+      id: 'payroll_reconciliation',
+      name: 'Payroll Mirror Node Reconciliation',
+      schedule: '30 * * * *',
+      enabled: true,
+      handler: async () => {
+        await this.reconcileCompletedPayrollRuns();
+      }
+    });
+
+    // Sample asset prices for historical run pricing - every 15 minutes
+    this.registerJob({
+      id: 'price_history',
+      name: 'Price History Sampling',
+      schedule: '*/15 * * * *',
+      enabled: true,
+      handler: async () => {
+        await this.recordPriceHistory();
+      }
+    });
+
+    // Refresh the merged PR cache payroll previews read from - every 30 minutes
+    this.registerJob({
+      id: 'pr_cache_sync',
+      name: 'Pull Request Cache Sync',
+      schedule: '*/30 * * * *',
+      enabled: true,
+      handler: async () => {
+        await this.syncPullRequestCache();
+      }
+    });
+
     // System health check - every hour
     this.registerJob({
       id: 'health_check',
@@ -504,6 +553,67 @@ export class TaskScheduler {
     }
   }
 
+  /**
+   * Resume payroll runs left EXECUTING with no recent journal activity
+   */
+  private async resumeInterruptedPayrollRuns(): Promise<void> {
+    try {
+      const { resumeStuckPayrollRuns } = await import('@/lib/execution');
+      const results = await resumeStuckPayrollRuns();
+      console.log(`Payroll resume checked ${results.length} interrupted runs`);
+    } catch (error) {
+      console.error('Payroll resume job failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reconcile completed payroll runs that have not been reconciled yet
+   */
+  private async reconcileCompletedPayrollRuns(): Promise<void> {
+    try {
+      const { reconcileCompletedPayrollRuns } = await import('@/lib/reconciliation');
+      const results = await reconcileCompletedPayrollRuns();
+      const flagged = results.filter(result => result.status === 'DISCREPANCIES').length;
+      console.log(`Payroll reconciliation checked ${results.length} runs, ${flagged} with discrepancies`);
+    } catch (error) {
+      console.error('Payroll reconciliation job failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the current oracle price of each priced payout asset
+   */
+  private async recordPriceHistory(): Promise<void> {
+    try {
+      const { priceHistoryService } = await import('@/lib/price-history');
+      const results = await priceHistoryService.recordSamples();
+      const failed = results.filter(result => result.error).length;
+      console.log(`Price history sampled ${results.length - failed} assets, ${failed} failed`);
+    } catch (error) {
+      console.error('Price history job failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pull PRs updated since the last sync into the PR cache
+   */
+  private async syncPullRequestCache(): Promise<void> {
+    try {
+      const { prCacheService } = await import('@/lib/pr-cache');
+      const results = await prCacheService.syncAll();
+      const failed = results.filter(result => result.error);
+      const fetched = results.reduce((sum, result) => sum + result.fetched, 0);
+      failed.forEach(result => console.error(`PR cache sync failed for ${result.repo}: ${result.error}`));
+      console.log(`PR cache synced ${results.length - failed.length} repositories (${fetched} PRs fetched), ${failed.length} failed`);
+    } catch (error) {
+      console.error('PR cache sync job failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Perform system health check
    */
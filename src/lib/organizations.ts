@@ -0,0 +1,407 @@
+/**
+ * Organization Service
+ * Groups repositories under an organization (or project) with its own
+ * managers and a monthly budget envelope split across its repositories
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { GitHubService } from './github';
+
+export type OrganizationRole = 'OWNER' | 'MANAGER' | 'VIEWER';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['OWNER', 'MANAGER', 'VIEWER'];
+
+/**
+ * Roles that may create runs and rules for the organization's repositories
+ */
+export const MANAGING_ROLES: OrganizationRole[] = ['OWNER', 'MANAGER'];
+
+export interface RepoBudgetShare {
+  fixedUsd?: number;
+  percent?: number;
+}
+
+export interface OrganizationInput {
+  name?: string;
+  slug?: string;
+  githubOrg?: string | null;
+  monthlyBudgetUsd?: number;
+  defaultAsset?: string | null;
+  repoBudgetShares?: Record<string, RepoBudgetShare>; // Keyed by repository ID
+}
+
+export interface BudgetEnvelope {
+  month: string; // "YYYY-MM"
+  monthlyBudgetUsd: number;
+  committedUsd: number; // Budgets of this month's approved, executing and completed runs
+  remainingUsd: number;
+}
+
+export interface OrganizationRunScope {
+  organizationId: string;
+  repositoryIds: string[];
+  usdBudget: number; // Remaining envelope for the month
+  repositoryBudgets: Record<string, RepoBudgetShare>;
+  defaultAsset?: string;
+}
+
+export interface OrganizationImportResult {
+  imported: string[]; // Repositories added to the app
+  linked: string[]; // Repositories already in the app, now in the organization
+  skipped: { fullName: string; reason: string }[];
+}
+
+/**
+ * Run statuses whose budget counts against the month's envelope
+ */
+const COMMITTED_RUN_STATUSES = ['APPROVED', 'EXECUTING', 'COMPLETED'];
+
+/**
+ * Message of the error a run budget above the remaining envelope throws
+ */
+export const ENVELOPE_EXCEEDED = "Budget exceeds the organization's remaining monthly envelope";
+
+export function parseRepoBudgetShares(json: string | null | undefined): Record<string, RepoBudgetShare> {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function validateOrganization(input: OrganizationInput): string[] {
+  const errors: string[] = [];
+
+  if (input.name !== undefined && !input.name.trim()) {
+    errors.push('Organization name is required');
+  }
+
+  if (input.slug !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(input.slug)) {
+    errors.push('Slug may only contain lowercase letters, digits and single hyphens');
+  }
+
+  if (input.monthlyBudgetUsd !== undefined && !(input.monthlyBudgetUsd >= 0)) {
+    errors.push('Monthly budget cannot be negative');
+  }
+
+  if (input.repoBudgetShares) {
+    const envelope = input.monthlyBudgetUsd ?? 0;
+    let assigned = 0;
+
+    for (const [repositoryId, share] of Object.entries(input.repoBudgetShares)) {
+      if (share.fixedUsd !== undefined && share.percent !== undefined) {
+        errors.push(`Repository ${repositoryId} share must be a fixed amount or a percentage, not both`);
+      } else if (share.fixedUsd !== undefined && !(share.fixedUsd >= 0)) {
+        errors.push(`Repository ${repositoryId} fixed share cannot be negative`);
+      } else if (share.percent !== undefined && !(share.percent >= 0 && share.percent <= 100)) {
+        errors.push(`Repository ${repositoryId} share percentage must be between 0 and 100`);
+      }
+      assigned += (share.fixedUsd ?? 0) + envelope * (share.percent ?? 0) / 100;
+    }
+
+    if (input.monthlyBudgetUsd !== undefined && assigned > envelope + 0.005) {
+      errors.push(`Repository shares ($${assigned.toFixed(2)}) exceed the monthly budget ($${envelope.toFixed(2)})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Prisma filter for repositories a user may run payroll for: the ones they
+ * manage directly and those of organizations where they are an owner or manager
+ */
+export function managedRepositoryFilter(userId: string): Prisma.RepositoryWhereInput {
+  return {
+    OR: [
+      { managerId: userId },
+      { organization: { members: { some: { userId, role: { in: MANAGING_ROLES } } } } }
+    ]
+  };
+}
+
+export class OrganizationService {
+
+  async listForUser(userId: string) {
+    return prisma.organization.findMany({
+      where: { members: { some: { userId } } },
+      include: {
+        members: { include: { user: { select: { id: true, githubLogin: true, email: true } } } },
+        repositories: { select: { id: true, fullName: true, active: true } }
+      },
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  /**
+   * The organization if the user holds one of the given roles in it
+   */
+  async getForMember(organizationId: string, userId: string, roles: OrganizationRole[] = ORGANIZATION_ROLES) {
+    return prisma.organization.findFirst({
+      where: {
+        id: organizationId,
+        members: { some: { userId, role: { in: roles } } }
+      },
+      include: {
+        members: { include: { user: { select: { id: true, githubLogin: true, email: true } } } },
+        repositories: { select: { id: true, fullName: true, active: true } }
+      }
+    });
+  }
+
+  /**
+   * Create an organization with its creator as owner
+   */
+  async createOrganization(userId: string, input: OrganizationInput) {
+    const slug = input.slug || slugify(input.name || '');
+    if (!slug) {
+      throw new Error('Organization name must contain letters or digits');
+    }
+
+    const existing = await prisma.organization.findUnique({ where: { slug } });
+    if (existing) {
+      throw new Error(`An organization with slug "${slug}" already exists`);
+    }
+
+    return prisma.organization.create({
+      data: {
+        name: input.name!.trim(),
+        slug,
+        githubOrg: input.githubOrg || null,
+        monthlyBudgetUsd: input.monthlyBudgetUsd ?? 0,
+        defaultAsset: input.defaultAsset || null,
+        repoBudgetShares: JSON.stringify(input.repoBudgetShares || {}),
+        createdById: userId,
+        members: { create: { userId, role: 'OWNER' } }
+      }
+    });
+  }
+
+  async updateOrganization(organizationId: string, input: OrganizationInput) {
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        name: input.name?.trim(),
+        slug: input.slug,
+        githubOrg: input.githubOrg,
+        monthlyBudgetUsd: input.monthlyBudgetUsd,
+        defaultAsset: input.defaultAsset,
+        repoBudgetShares: input.repoBudgetShares ? JSON.stringify(input.repoBudgetShares) : undefined
+      }
+    });
+  }
+
+  /**
+   * Add a member or change their role. An organization always keeps an owner.
+   */
+  async setMember(organizationId: string, userId: string, role: OrganizationRole) {
+    if (role !== 'OWNER') {
+      await this.assertOtherOwner(organizationId, userId);
+    }
+
+    return prisma.organizationMember.upsert({
+      where: { organizationId_userId: { organizationId, userId } },
+      update: { role },
+      create: { organizationId, userId, role }
+    });
+  }
+
+  async removeMember(organizationId: string, userId: string) {
+    await this.assertOtherOwner(organizationId, userId);
+
+    await prisma.organizationMember.delete({
+      where: { organizationId_userId: { organizationId, userId } }
+    });
+  }
+
+  /**
+   * Make the given repositories the organization's repositories. Only
+   * repositories the user manages directly can be added; the shares of
+   * repositories leaving the organization are dropped.
+   */
+  async setRepositories(organizationId: string, userId: string, repositoryIds: string[]) {
+    const owned = await prisma.repository.count({
+      where: {
+        id: { in: repositoryIds },
+        OR: [{ managerId: userId }, { organizationId }]
+      }
+    });
+    if (owned !== new Set(repositoryIds).size) {
+      throw new Error('Repository not found or access denied');
+    }
+
+    await prisma.repository.updateMany({
+      where: { organizationId, id: { notIn: repositoryIds } },
+      data: { organizationId: null }
+    });
+    await prisma.repository.updateMany({
+      where: { id: { in: repositoryIds } },
+      data: { organizationId }
+    });
+
+    const organization = await prisma.organization.findUniqueOrThrow({ where: { id: organizationId } });
+    const shares = parseRepoBudgetShares(organization.repoBudgetShares);
+    const kept = Object.fromEntries(Object.entries(shares).filter(([id]) => repositoryIds.includes(id)));
+
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: { repoBudgetShares: JSON.stringify(kept) }
+    });
+  }
+
+  /**
+   * How much of the month's envelope is left after committed runs
+   */
+  async getBudgetEnvelope(
+    organizationId: string,
+    at: Date = new Date(),
+    client: Prisma.TransactionClient = prisma
+  ): Promise<BudgetEnvelope> {
+    const organization = await client.organization.findUniqueOrThrow({ where: { id: organizationId } });
+    const monthStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+    const monthEnd = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+
+    const committed = await client.payrollRun.aggregate({
+      where: {
+        organizationId,
+        status: { in: COMMITTED_RUN_STATUSES },
+        createdAt: { gte: monthStart, lt: monthEnd }
+      },
+      _sum: { usdBudget: true }
+    });
+    const committedUsd = committed._sum.usdBudget || 0;
+
+    return {
+      month: monthStart.toISOString().slice(0, 7),
+      monthlyBudgetUsd: organization.monthlyBudgetUsd,
+      committedUsd,
+      remainingUsd: Math.max(0, organization.monthlyBudgetUsd - committedUsd)
+    };
+  }
+
+  /**
+   * Throw unless the envelope of the month the run was created in still
+   * covers its budget. Called inside the transaction that creates or
+   * approves the run, so two runs cannot both count on the same remainder.
+   */
+  async assertEnvelopeCovers(
+    organizationId: string,
+    usdBudget: number,
+    at: Date = new Date(),
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const envelope = await this.getBudgetEnvelope(organizationId, at, client);
+    if (usdBudget > envelope.remainingUsd + 0.005) {
+      throw new Error(`${ENVELOPE_EXCEEDED} ($${envelope.remainingUsd.toFixed(2)})`);
+    }
+  }
+
+  /**
+   * Repositories, budget and per-repository shares of a run created for the
+   * whole organization
+   */
+  async resolveRunScope(organizationId: string, userId: string): Promise<OrganizationRunScope> {
+    const organization = await this.getForMember(organizationId, userId, MANAGING_ROLES);
+    if (!organization) {
+      throw new Error('Organization not found or access denied');
+    }
+
+    const repositoryIds = organization.repositories
+      .filter(repo => repo.active)
+      .map(repo => repo.id);
+    if (repositoryIds.length === 0) {
+      throw new Error('Organization has no active repositories');
+    }
+
+    const shares = parseRepoBudgetShares(organization.repoBudgetShares);
+    const envelope = await this.getBudgetEnvelope(organizationId);
+
+    return {
+      organizationId,
+      repositoryIds,
+      usdBudget: envelope.remainingUsd,
+      repositoryBudgets: Object.fromEntries(
+        repositoryIds.filter(id => shares[id]).map(id => [id, shares[id]])
+      ),
+      defaultAsset: organization.defaultAsset || undefined
+    };
+  }
+
+  /**
+   * Add the GitHub organization's repositories the user administers to the
+   * organization, creating the ones the app does not track yet
+   */
+  async importFromGitHub(
+    organizationId: string,
+    userId: string,
+    github: GitHubService
+  ): Promise<OrganizationImportResult> {
+    const organization = await prisma.organization.findUniqueOrThrow({ where: { id: organizationId } });
+    if (!organization.githubOrg) {
+      throw new Error('Organization has no GitHub organization to import from');
+    }
+
+    const repos = await github.getOrganizationRepos({ org: organization.githubOrg });
+    const result: OrganizationImportResult = { imported: [], linked: [], skipped: [] };
+
+    for (const repo of repos) {
+      const existing = await prisma.repository.findUnique({ where: { fullName: repo.full_name } });
+
+      if (!existing) {
+        await prisma.repository.create({
+          data: {
+            owner: repo.owner.login,
+            name: repo.name,
+            fullName: repo.full_name,
+            managerId: userId,
+            organizationId,
+            permissions: JSON.stringify(repo.permissions || {}),
+            includeLabels: '[]',
+            excludeLabels: '[]',
+            defaultAsset: organization.defaultAsset,
+            active: true
+          }
+        });
+        result.imported.push(repo.full_name);
+      } else if (existing.organizationId === organizationId) {
+        continue;
+      } else if (existing.organizationId) {
+        result.skipped.push({ fullName: repo.full_name, reason: 'Belongs to another organization' });
+      } else if (existing.managerId !== userId) {
+        result.skipped.push({ fullName: repo.full_name, reason: 'Managed by another user' });
+      } else {
+        await prisma.repository.update({
+          where: { id: existing.id },
+          data: { organizationId }
+        });
+        result.linked.push(repo.full_name);
+      }
+    }
+
+    return result;
+  }
+
+  private async assertOtherOwner(organizationId: string, userId: string): Promise<void> {
+    const owners = await prisma.organizationMember.count({
+      where: { organizationId, role: 'OWNER', userId: { not: userId } }
+    });
+    if (owners === 0) {
+      throw new Error('An organization must keep at least one owner');
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
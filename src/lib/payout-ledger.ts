@@ -0,0 +1,90 @@
+/**
+ * Payout Ledger Service
+ * Carry-forward balances of contributors whose payouts fell below their
+ * minimum threshold, and the runs those balances were later paid in
+ */
+
+import { prisma } from './db';
+import { ContributorDistribution, ContributorLimits } from './distribution';
+
+export type LedgerEntryKind = 'ACCRUED' | 'PAID_OUT';
+
+export class PayoutLedgerService {
+
+  /**
+   * Unpaid balances by contributor ID. Entries of excludeRunId are left out
+   * so a run being recalculated does not count its own carry-forward.
+   */
+  async getBalances(contributorIds: string[], excludeRunId?: string): Promise<Map<string, number>> {
+    const balances = await prisma.payoutLedgerEntry.groupBy({
+      by: ['contributorId'],
+      where: {
+        contributorId: { in: contributorIds },
+        ...(excludeRunId && { OR: [{ runId: null }, { runId: { not: excludeRunId } }] })
+      },
+      _sum: { usdAmount: true }
+    });
+
+    return new Map(balances.map(balance => [balance.contributorId, Math.max(0, balance._sum.usdAmount || 0)]));
+  }
+
+  /**
+   * Payout limits and carried balances of the verified contributors in a
+   * set of distributions
+   */
+  async loadLimits(
+    distributions: ContributorDistribution[],
+    excludeRunId?: string
+  ): Promise<Map<string, ContributorLimits>> {
+    const contributorIds = distributions
+      .filter(d => d.contributorId)
+      .map(d => d.contributorId!);
+
+    const [contributors, balances] = await Promise.all([
+      prisma.contributor.findMany({
+        where: { id: { in: contributorIds } },
+        select: { id: true, minPayoutThreshold: true, maxPayoutCap: true }
+      }),
+      this.getBalances(contributorIds, excludeRunId)
+    ]);
+
+    return new Map(contributors.map(contributor => [contributor.id, {
+      minPayoutThreshold: contributor.minPayoutThreshold,
+      maxPayoutCap: contributor.maxPayoutCap,
+      carriedUsd: balances.get(contributor.id) || 0
+    }]));
+  }
+
+  /**
+   * Replace a run's ledger entries with what its distributions accrued and
+   * paid out of carried balances. Entries are written when the run is
+   * created, so concurrent runs cannot pay out the same balance twice.
+   */
+  async recordRunEntries(runId: string, distributions: ContributorDistribution[]): Promise<void> {
+    const entries = distributions
+      .filter(d => d.contributorId)
+      .flatMap(d => [
+        ...(d.accruedUsd ? [{
+          contributorId: d.contributorId!,
+          runId,
+          kind: 'ACCRUED' as LedgerEntryKind,
+          usdAmount: d.accruedUsd,
+          note: 'Below minimum payout threshold'
+        }] : []),
+        ...(d.carriedInUsd ? [{
+          contributorId: d.contributorId!,
+          runId,
+          kind: 'PAID_OUT' as LedgerEntryKind,
+          usdAmount: -d.carriedInUsd,
+          note: 'Carried balance added to payout'
+        }] : [])
+      ]);
+
+    await prisma.$transaction([
+      prisma.payoutLedgerEntry.deleteMany({ where: { runId } }),
+      prisma.payoutLedgerEntry.createMany({ data: entries })
+    ]);
+  }
+}
+
+export const payoutLedgerService = new PayoutLedgerService();
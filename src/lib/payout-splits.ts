@@ -0,0 +1,370 @@
+/**
+ * Payout Split Service
+ * Splits contributors' payouts across several assets per their preferences
+ * and pays the legs in assets other than the run's own
+ */
+
+import type { PayoutAsset, PayoutLeg } from '@prisma/client';
+import { prisma } from './db';
+import { pythPriceService, PriceSnapshot, usdToNativeUnits } from './pyth';
+import { assetRegistry, getTransferAsset } from './assets';
+import { distributionService, DistributionPreview, PayoutLegPlan } from './distribution';
+import { priceHistoryService, RunPricingConfig } from './price-history';
+import type { HederaService } from './hedera';
+
+export interface PayoutSplit {
+  symbol: string; // Registry symbol, e.g. "USDC"
+  percent: number; // Share of the payout, all splits summing to 100
+}
+
+export interface SplitOptions {
+  runAssetSymbol: string;
+  network: string;
+  executionMode: string;
+  pricing: RunPricingConfig;
+  knownPrices?: Map<string, PriceSnapshot>; // Reused instead of re-pricing, by symbol
+}
+
+export interface LegExecutionResult {
+  confirmed: number;
+  submitted: number;
+  failed: number;
+}
+
+const MAX_SPLIT_ASSETS = 4;
+
+/**
+ * Parse a contributor's stored payout splits; anything malformed means no split
+ */
+export function parsePayoutSplits(value: string | null | undefined): PayoutSplit[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && validatePayoutSplits(parsed).length === 0 ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Validate payout splits, returning a list of problems. An empty list means
+ * the contributor is paid entirely in each run's asset.
+ */
+export function validatePayoutSplits(splits: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(splits)) {
+    return ['Payout splits must be a list of {symbol, percent}'];
+  }
+
+  if (splits.length > MAX_SPLIT_ASSETS) {
+    errors.push(`At most ${MAX_SPLIT_ASSETS} assets can be split across`);
+  }
+
+  const symbols = new Set<string>();
+  let total = 0;
+
+  for (const split of splits) {
+    if (!split || typeof split.symbol !== 'string' || !/^[A-Z0-9]{2,10}$/.test(split.symbol)) {
+      errors.push('Each split needs an upper-case asset symbol');
+      continue;
+    }
+    if (symbols.has(split.symbol)) {
+      errors.push(`${split.symbol} is listed more than once`);
+    }
+    symbols.add(split.symbol);
+
+    if (typeof split.percent !== 'number' || !(split.percent > 0 && split.percent <= 100)) {
+      errors.push(`${split.symbol} percent must be above 0 and at most 100`);
+      continue;
+    }
+    total += split.percent;
+  }
+
+  if (splits.length > 0 && Math.abs(total - 100) > 0.0001) {
+    errors.push(`Split percentages must add up to 100 (got ${total})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Rebuild a leg plan from its stored record, for hashing and execution
+ */
+export function toLegPlan(leg: PayoutLeg): PayoutLegPlan {
+  return {
+    symbol: leg.symbol,
+    asset: leg.asset,
+    assetId: leg.assetId || '',
+    percent: leg.percent,
+    usdAmount: leg.usdAmount,
+    nativeAmount: leg.nativeAmount,
+    decimals: leg.decimals,
+    priceSnapshot: pythPriceService.parseStoredSnapshot(leg.priceSnapshot)
+  };
+}
+
+export class PayoutSplitService {
+
+  /**
+   * Split the eligible distributions of a preview per their contributors'
+   * preferences. Each asset other than the run's becomes a leg priced with
+   * the run's pricing method; the run asset keeps the remaining percent.
+   * Splits into assets the run's network cannot pay fall back to the run asset.
+   */
+  async applySplits(preview: DistributionPreview, options: SplitOptions): Promise<DistributionPreview> {
+    const contributorIds = preview.distributions
+      .filter(d => d.eligible && d.contributorId)
+      .map(d => d.contributorId!);
+
+    const contributors = await prisma.contributor.findMany({
+      where: { id: { in: contributorIds } },
+      select: { id: true, payoutSplits: true }
+    });
+    const splitsByContributor = new Map(
+      contributors
+        .map(contributor => [contributor.id, parsePayoutSplits(contributor.payoutSplits)] as const)
+        .filter(([, splits]) => splits.some(split => split.symbol !== options.runAssetSymbol))
+    );
+
+    if (splitsByContributor.size === 0) {
+      return preview;
+    }
+
+    const warnings = [...preview.warnings];
+
+    // Schedules are signed per run asset transfer, so scheduled runs are never split
+    if (options.executionMode === 'SCHEDULED') {
+      warnings.push(
+        `${splitsByContributor.size} contributor(s) prefer split payouts; scheduled runs pay ` +
+        `everything in ${options.runAssetSymbol}`
+      );
+      return { ...preview, warnings };
+    }
+
+    const assets = new Map<string, PayoutAsset | null>();
+    const prices = new Map<string, PriceSnapshot | Error>(options.knownPrices);
+
+    const distributions = [];
+    for (const distribution of preview.distributions) {
+      const splits = distribution.eligible && distribution.contributorId
+        ? splitsByContributor.get(distribution.contributorId)
+        : undefined;
+
+      if (!splits) {
+        distributions.push(distribution);
+        continue;
+      }
+
+      const legs: PayoutLegPlan[] = [];
+      for (const split of splits) {
+        if (split.symbol === options.runAssetSymbol) {
+          continue;
+        }
+
+        if (!assets.has(split.symbol)) {
+          assets.set(split.symbol, await assetRegistry.resolveAsset(split.symbol, options.network));
+        }
+        const asset = assets.get(split.symbol);
+        if (!asset || asset.kind === 'ERC20') {
+          warnings.push(
+            `${distribution.githubLogin}'s ${split.percent}% ${split.symbol} split is paid in ` +
+            `${options.runAssetSymbol}: ${split.symbol} is not payable on ${options.network}`
+          );
+          continue;
+        }
+
+        if (!prices.has(split.symbol)) {
+          try {
+            prices.set(split.symbol, await priceHistoryService.getRunPrice(asset, options.pricing));
+          } catch (error) {
+            prices.set(split.symbol, error instanceof Error ? error : new Error('Unknown error'));
+          }
+        }
+        const price = prices.get(split.symbol)!;
+        if (price instanceof Error) {
+          warnings.push(
+            `${distribution.githubLogin}'s ${split.percent}% ${split.symbol} split is paid in ` +
+            `${options.runAssetSymbol}: ${price.message}`
+          );
+          continue;
+        }
+
+        const usdAmount = distribution.usdAmount * split.percent / 100;
+        legs.push({
+          symbol: asset.symbol,
+          asset: getTransferAsset(asset),
+          assetId: asset.id,
+          percent: split.percent,
+          usdAmount,
+          nativeAmount: usdToNativeUnits(usdAmount, price.price, asset.decimals),
+          decimals: asset.decimals,
+          priceSnapshot: price
+        });
+      }
+
+      if (legs.length === 0) {
+        distributions.push(distribution);
+        continue;
+      }
+
+      const assetPercent = Math.max(0, 100 - legs.reduce((sum, leg) => sum + leg.percent, 0));
+      distributions.push({
+        ...distribution,
+        assetPercent,
+        nativeAmount: usdToNativeUnits(
+          distribution.usdAmount * assetPercent / 100,
+          preview.priceSnapshot.price,
+          preview.metadata.assetDecimals
+        ),
+        legs
+      });
+    }
+
+    return {
+      ...preview,
+      distributions,
+      warnings,
+      metadata: {
+        ...preview.metadata,
+        previewHash: distributionService.calculatePreviewHash(
+          distributions,
+          preview.config,
+          preview.priceSnapshot,
+          preview.metadata.asset,
+          preview.metadata.assetDecimals
+        )
+      }
+    };
+  }
+
+  /**
+   * Store the legs of a run's split distributions against its payouts
+   */
+  async storeLegs(runId: string, distributions: DistributionPreview['distributions']): Promise<void> {
+    const split = distributions.filter(d => d.eligible && d.contributorId && d.legs?.length);
+    if (split.length === 0) {
+      return;
+    }
+
+    const payouts = await prisma.payout.findMany({
+      where: { runId, contributorId: { in: split.map(d => d.contributorId!) } },
+      select: { id: true, contributorId: true }
+    });
+    const payoutIds = new Map(payouts.map(payout => [payout.contributorId, payout.id]));
+
+    await prisma.payoutLeg.createMany({
+      data: split.flatMap(d => d.legs!.map(leg => ({
+        payoutId: payoutIds.get(d.contributorId!)!,
+        symbol: leg.symbol,
+        asset: leg.asset,
+        assetId: leg.assetId || null,
+        percent: leg.percent,
+        usdAmount: leg.usdAmount,
+        nativeAmount: leg.nativeAmount,
+        decimals: leg.decimals,
+        priceSnapshot: pythPriceService.createStorableSnapshot(leg.priceSnapshot),
+        idempotencyKey: `leg_${runId}_${d.contributorId}_${leg.symbol}`
+      })))
+    });
+  }
+
+  /**
+   * Prices a run's legs were converted at, by symbol
+   */
+  async getLegPrices(runId: string): Promise<Map<string, PriceSnapshot>> {
+    const legs = await prisma.payoutLeg.findMany({
+      where: { payout: { runId } },
+      select: { symbol: true, priceSnapshot: true }
+    });
+
+    return new Map(legs.map(leg => [leg.symbol, pythPriceService.parseStoredSnapshot(leg.priceSnapshot)]));
+  }
+
+  /**
+   * Mark payouts paid entirely in other assets as settled, since they have
+   * nothing to transfer in the run asset
+   */
+  async settleFullySplitPayouts(runId: string): Promise<number> {
+    const { count } = await prisma.payout.updateMany({
+      where: { runId, assetPercent: 0, status: 'PENDING' },
+      data: { status: 'CONFIRMED', confirmedAt: new Date() }
+    });
+    return count;
+  }
+
+  /**
+   * Send every unpaid leg of a run as its own transfer. The transaction ID is
+   * stored before sending, so a leg interrupted mid-send is looked up on the
+   * mirror node rather than sent twice.
+   */
+  async executeLegs(runId: string, hederaService: HederaService): Promise<LegExecutionResult> {
+    const result: LegExecutionResult = { confirmed: 0, submitted: 0, failed: 0 };
+
+    const legs = await prisma.payoutLeg.findMany({
+      where: { payout: { runId }, status: { in: ['PENDING', 'SUBMITTED'] } },
+      include: { payout: { include: { contributor: true } } },
+      orderBy: { idempotencyKey: 'asc' }
+    });
+
+    for (const leg of legs) {
+      if (leg.txId && await hederaService.isTransactionSuccessful(leg.txId)) {
+        await prisma.payoutLeg.update({
+          where: { id: leg.id },
+          data: { status: 'CONFIRMED', confirmedAt: new Date(), error: null }
+        });
+        result.confirmed++;
+        continue;
+      }
+
+      if (leg.status === 'SUBMITTED') {
+        result.submitted++;
+        continue;
+      }
+
+      const transactionId = hederaService.generateTransactionId();
+      await prisma.payoutLeg.update({ where: { id: leg.id }, data: { txId: transactionId } });
+
+      try {
+        const transfer = await hederaService.executeTransfer({
+          recipientAccountId: leg.payout.contributor.hederaAccountId,
+          amount: leg.nativeAmount,
+          asset: leg.asset,
+          memo: `Foss It - Run ${runId} (${leg.symbol})`,
+          idempotencyKey: leg.idempotencyKey,
+          transactionId
+        });
+
+        if (!transfer.success) {
+          throw new Error(transfer.error || 'Transaction failed');
+        }
+
+        const confirmed = await hederaService.isTransactionSuccessful(transfer.transactionId || transactionId);
+        await prisma.payoutLeg.update({
+          where: { id: leg.id },
+          data: {
+            status: confirmed ? 'CONFIRMED' : 'SUBMITTED',
+            txId: transfer.transactionId || transactionId,
+            submittedAt: new Date(),
+            confirmedAt: confirmed ? new Date() : null,
+            error: null
+          }
+        });
+        result[confirmed ? 'confirmed' : 'submitted']++;
+      } catch (error) {
+        await prisma.payoutLeg.update({
+          where: { id: leg.id },
+          data: { status: 'FAILED', error: error instanceof Error ? error.message : 'Unknown error' }
+        });
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
+
+export const payoutSplitService = new PayoutSplitService();
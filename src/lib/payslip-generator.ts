@@ -4,6 +4,11 @@
  */
 
 import { lighthouseService } from './lighthouse';
+import { pythPriceService } from './pyth';
+import { describePricing } from './price-history';
+import type { PayoutLeg, RunActivityItem } from '@prisma/client';
+import { ACTIVITY_LABELS, ActivityKind } from './github';
+import type { RepositoryBreakdown } from './distribution';
 
 export interface PayslipData {
   // Company Information
@@ -52,6 +57,7 @@ export interface PayslipData {
       linesDeleted: number;
       url: string;
     }>;
+    activities?: WorkActivity[]; // Review and triage credit, when the run credited it
   };
   
   // Payment Details
@@ -59,6 +65,8 @@ export interface PayslipData {
     baseAmount: number;
     currency: string;
     exchangeRate?: number;
+    pricingMethod?: string; // SPOT, TWAP, VWAP or CLOSE
+    pricingDetail?: string;
     cryptoAmount: string;
     cryptoCurrency: string;
     sharePercentage: number;
@@ -66,6 +74,8 @@ export interface PayslipData {
     blockchainNetwork: string;
     status: 'PENDING' | 'PAID' | 'CONFIRMED' | 'FAILED';
     paymentDate?: string;
+    legs?: PaymentLeg[]; // Every asset a split payout was paid in, the run asset first
+    repositories?: RepositoryPay[]; // Per-repository allocations of a multi-repository run
   };
   
   // Verification & Security
@@ -77,6 +87,32 @@ export interface PayslipData {
   };
 }
 
+export interface WorkActivity {
+  activity: string;
+  repository: string;
+  number: number;
+  title: string;
+  occurredAt: string;
+  points: number;
+  url: string;
+}
+
+export interface RepositoryPay {
+  repository: string;
+  prCount: number;
+  usdAmount: number;
+}
+
+export interface PaymentLeg {
+  currency: string;
+  percent: number;
+  usdAmount: number;
+  cryptoAmount: string;
+  exchangeRate: number;
+  transactionId?: string;
+  status: string;
+}
+
 export interface PayslipGenerationResult {
   success: boolean;
   html?: string;
@@ -479,6 +515,31 @@ export class PayslipGenerator {
                     </tbody>
                 </table>
                 ` : ''}
+
+                ${data.workSummary.activities?.length ? `
+                <table class="contributions-table">
+                    <thead>
+                        <tr>
+                            <th>Repository</th>
+                            <th>PR / Issue</th>
+                            <th>Activity</th>
+                            <th>Date</th>
+                            <th>Points</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${data.workSummary.activities.map(activity => `
+                        <tr>
+                            <td>${activity.repository}</td>
+                            <td><a href="${activity.url}" class="blockchain-link">#${activity.number}</a></td>
+                            <td>${activity.activity}</td>
+                            <td>${new Date(activity.occurredAt).toLocaleDateString()}</td>
+                            <td>${activity.points.toFixed(2)}</td>
+                        </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+                ` : ''}
             </div>
 
             <!-- Payment Details -->
@@ -500,6 +561,13 @@ export class PayslipGenerator {
                             <value>1 ${data.payment.cryptoCurrency} = $${data.payment.exchangeRate.toFixed(4)}</value>
                         </div>
                         ` : ''}
+                        ${data.payment.pricingMethod ? `
+                        <div class="payment-detail">
+                            <label>Pricing Method</label>
+                            <value>${data.payment.pricingMethod}</value>
+                            ${data.payment.pricingDetail ? `<div style="font-size: 12px; opacity: 0.8;">${data.payment.pricingDetail}</div>` : ''}
+                        </div>
+                        ` : ''}
                         <div class="payment-detail">
                             <label>Network</label>
                             <value>${data.payment.blockchainNetwork}</value>
@@ -511,6 +579,56 @@ export class PayslipGenerator {
                     </div>
                 </div>
 
+                ${data.payment.legs?.length ? `
+                <table class="contributions-table">
+                    <thead>
+                        <tr>
+                            <th>Asset</th>
+                            <th>Share</th>
+                            <th>USD</th>
+                            <th>Amount</th>
+                            <th>Rate</th>
+                            <th>Status</th>
+                            <th>Transaction</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${data.payment.legs.map(leg => `
+                        <tr>
+                            <td>${leg.currency}</td>
+                            <td>${leg.percent.toFixed(2)}%</td>
+                            <td>$${leg.usdAmount.toFixed(2)}</td>
+                            <td>${leg.cryptoAmount}</td>
+                            <td>$${leg.exchangeRate.toFixed(4)}</td>
+                            <td><span class="status-badge status-${leg.status.toLowerCase()}">${leg.status}</span></td>
+                            <td>${leg.transactionId ? `<a href="https://hashscan.io/${data.payment.blockchainNetwork === 'mainnet' ? 'mainnet' : 'testnet'}/transaction/${leg.transactionId}" class="blockchain-link" target="_blank">${leg.transactionId}</a>` : '-'}</td>
+                        </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+                ` : ''}
+
+                ${data.payment.repositories && data.payment.repositories.length > 1 ? `
+                <table class="contributions-table">
+                    <thead>
+                        <tr>
+                            <th>Repository</th>
+                            <th>PRs</th>
+                            <th>USD</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${data.payment.repositories.map(repository => `
+                        <tr>
+                            <td>${repository.repository}</td>
+                            <td>${repository.prCount}</td>
+                            <td>$${repository.usdAmount.toFixed(2)}</td>
+                        </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+                ` : ''}
+
                 ${data.payment.transactionId ? `
                 <div class="info-item" style="margin-top: 20px;">
                     <label>Transaction ID</label>
@@ -684,10 +802,12 @@ export class PayslipGenerator {
             include: {
               contributor: {
                 include: { user: true }
-              }
+              },
+              legs: true
             }
           },
           runItems: true,
+          activityItems: true,
           repositories: true
         }
       });
@@ -696,6 +816,7 @@ export class PayslipGenerator {
         throw new Error('Payroll run not found');
       }
 
+      const priceSnapshot = pythPriceService.parseStoredSnapshot(run.priceSnapshot);
       const results = [];
       
       for (const payout of run.payouts) {
@@ -718,7 +839,10 @@ export class PayslipGenerator {
               linesAdded: pr.linesAdded || 0,
               linesDeleted: pr.linesDeleted || 0,
               url: `https://github.com/${pr.repo}/pull/${pr.prNumber}`
-            }))
+            })),
+            activities: buildWorkActivities(
+              run.activityItems.filter(item => item.actorLogin === payout.contributor.githubHandle)
+            )
           };
 
           const payslipData: PayslipData = {
@@ -753,13 +877,18 @@ export class PayslipGenerator {
             payment: {
               baseAmount: payout.usdAmount,
               currency: 'USD',
+              exchangeRate: priceSnapshot.price,
+              pricingMethod: run.pricingMethod,
+              pricingDetail: describePricing(priceSnapshot),
               cryptoAmount: payout.nativeAmount,
               cryptoCurrency: run.asset,
               sharePercentage: payout.shareRatio * 100,
               transactionId: payout.txId || undefined,
               blockchainNetwork: run.environment,
               status: payout.status as any,
-              paymentDate: payout.confirmedAt?.toISOString()
+              paymentDate: payout.confirmedAt?.toISOString(),
+              legs: buildPaymentLegs(payout, run.asset, priceSnapshot.price),
+              repositories: buildRepositoryPay(payout.repoBreakdown)
             },
             
             verification: {
@@ -855,4 +984,82 @@ export class PayslipGenerator {
   }
 }
 
+/**
+ * Payment legs of a split payout for its payslip, or undefined when the
+ * payout was paid in the run asset alone
+ */
+export function buildPaymentLegs(
+  payout: {
+    usdAmount: number;
+    nativeAmount: string;
+    assetPercent: number;
+    txId: string | null;
+    status: string;
+    legs: PayoutLeg[];
+  },
+  runAsset: string,
+  exchangeRate: number
+): PaymentLeg[] | undefined {
+  if (payout.legs.length === 0) {
+    return undefined;
+  }
+
+  return [
+    {
+      currency: runAsset,
+      percent: payout.assetPercent,
+      usdAmount: payout.usdAmount * payout.assetPercent / 100,
+      cryptoAmount: payout.nativeAmount,
+      exchangeRate,
+      transactionId: payout.txId || undefined,
+      status: payout.status
+    },
+    ...payout.legs.map(leg => ({
+      currency: leg.symbol,
+      percent: leg.percent,
+      usdAmount: leg.usdAmount,
+      cryptoAmount: leg.nativeAmount,
+      exchangeRate: pythPriceService.parseStoredSnapshot(leg.priceSnapshot).price,
+      transactionId: leg.txId || undefined,
+      status: leg.status
+    }))
+  ];
+}
+
+/**
+ * Per-repository allocations of a payout from its stored breakdown
+ */
+export function buildRepositoryPay(repoBreakdown: string): RepositoryPay[] | undefined {
+  const breakdown = JSON.parse(repoBreakdown || '[]') as RepositoryBreakdown[];
+  if (breakdown.length === 0) {
+    return undefined;
+  }
+
+  return breakdown.map(repo => ({
+    repository: repo.repo,
+    prCount: repo.prCount,
+    usdAmount: repo.usdAmount
+  }));
+}
+
 export const payslipGenerator = PayslipGenerator;
+
+/**
+ * Review and triage rows for a payslip's work summary, or undefined when
+ * the contributor has none
+ */
+export function buildWorkActivities(items: RunActivityItem[]): WorkActivity[] | undefined {
+  if (items.length === 0) {
+    return undefined;
+  }
+
+  return items.map(item => ({
+    activity: ACTIVITY_LABELS[item.kind as ActivityKind] || item.kind,
+    repository: item.repo,
+    number: item.number,
+    title: item.title,
+    occurredAt: item.occurredAt.toISOString(),
+    points: item.points,
+    url: item.url
+  }));
+}
@@ -0,0 +1,275 @@
+/**
+ * PR Cache Service
+ * Keeps a local copy of each repository's merged PRs, refreshed incrementally
+ * by the scheduler, so payroll previews are built without crawling GitHub
+ */
+
+import { CachedPullRequest } from '@prisma/client';
+import { prisma } from './db';
+import {
+  ContributorStats,
+  GitHubPR,
+  GitHubService,
+  PRSearchParams,
+  addPRCredit,
+  createGitHubService,
+  labelFiltersFor
+} from './github';
+import { evaluatePRWeight } from './weighting';
+import { createIdentityResolver, resolvePRCredits, DEFAULT_IDENTITY_SETTINGS } from './identity';
+
+export interface PRSyncResult {
+  repo: string; // "owner/name"
+  notModified: boolean; // GitHub reported no PR changes since the last sync
+  fetched: number; // PRs fetched and written to the cache
+  error?: string;
+}
+
+export interface CachedHarvest {
+  contributorStats: Map<string, ContributorStats>;
+  dataAsOf: Date; // Last sync of the least recently synced repository
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How far back a repository's first sync caches merged PRs
+ */
+function backfillDays(): number {
+  return parseInt(process.env.PR_CACHE_BACKFILL_DAYS || '365');
+}
+
+/**
+ * Rebuild the GitHub PR a cache row was stored from
+ */
+export function cachedPRToGitHubPR(row: CachedPullRequest): GitHubPR {
+  return {
+    id: row.githubId,
+    number: row.number,
+    title: row.title,
+    user: {
+      login: row.authorLogin,
+      id: row.authorId,
+      type: row.authorType || undefined
+    },
+    state: 'closed',
+    merged_at: row.mergedAt.toISOString(),
+    created_at: row.prCreatedAt.toISOString(),
+    updated_at: row.prUpdatedAt.toISOString(),
+    labels: JSON.parse(row.labels || '[]'),
+    additions: row.additions,
+    deletions: row.deletions,
+    changed_files: row.changedFiles,
+    commits: row.commitCount,
+    repository: row.repo
+  };
+}
+
+export class PRCacheService {
+
+  /**
+   * Bring a repository's cache up to date. Only PRs updated since the last
+   * sync are fetched, and nothing at all when the listing's ETag still
+   * matches. Failures are recorded on the sync state and returned.
+   */
+  async syncRepository(repoFullName: string, github: GitHubService): Promise<PRSyncResult> {
+    const [owner, repo] = repoFullName.split('/');
+    const startedAt = new Date();
+
+    const state = await prisma.pullRequestSyncState.findUnique({
+      where: { repo: repoFullName }
+    });
+    const coveredSince = state?.coveredSince || new Date(startedAt.getTime() - backfillDays() * DAY_MS);
+
+    await prisma.pullRequestSyncState.upsert({
+      where: { repo: repoFullName },
+      update: { status: 'SYNCING', error: null },
+      create: { repo: repoFullName, coveredSince, status: 'SYNCING' }
+    });
+
+    let fetched = 0;
+    try {
+      const listing = await github.listUpdatedPRs(owner, repo, {
+        since: state?.lastUpdatedAt || coveredSince,
+        etag: state?.lastSyncedAt ? state.etag : null
+      });
+
+      for (const pull of listing.pulls) {
+        if (!pull.merged_at || new Date(pull.merged_at) < coveredSince) {
+          continue;
+        }
+
+        const cached = await prisma.cachedPullRequest.findUnique({
+          where: { repo_number: { repo: repoFullName, number: pull.number } },
+          select: { prUpdatedAt: true }
+        });
+        if (cached && cached.prUpdatedAt.getTime() === new Date(pull.updated_at).getTime()) {
+          continue;
+        }
+
+        await this.fetchPR(github, repoFullName, pull.number);
+        fetched++;
+      }
+
+      // The listing is newest first, so its first PR moves the watermark
+      const newest = listing.pulls[0] ? new Date(listing.pulls[0].updated_at) : null;
+      await prisma.pullRequestSyncState.update({
+        where: { repo: repoFullName },
+        data: {
+          status: 'IDLE',
+          etag: listing.etag || null,
+          lastUpdatedAt: newest && (!state?.lastUpdatedAt || newest > state.lastUpdatedAt)
+            ? newest
+            : state?.lastUpdatedAt,
+          lastSyncedAt: startedAt
+        }
+      });
+
+      return { repo: repoFullName, notModified: listing.notModified, fetched };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await prisma.pullRequestSyncState.update({
+        where: { repo: repoFullName },
+        data: { status: 'ERROR', error: message }
+      });
+
+      return { repo: repoFullName, notModified: false, fetched, error: message };
+    }
+  }
+
+  /**
+   * Sync every active repository with its manager's GitHub token, falling
+   * back to GITHUB_TOKEN
+   */
+  async syncAll(): Promise<PRSyncResult[]> {
+    const repositories = await prisma.repository.findMany({
+      where: { active: true },
+      include: { manager: { select: { githubAccessToken: true } } }
+    });
+
+    const results: PRSyncResult[] = [];
+    for (const repository of repositories) {
+      const token = repository.manager.githubAccessToken || process.env.GITHUB_TOKEN;
+      if (!token) {
+        results.push({
+          repo: repository.fullName,
+          notModified: false,
+          fetched: 0,
+          error: 'No GitHub access token available'
+        });
+        continue;
+      }
+
+      results.push(await this.syncRepository(repository.fullName, createGitHubService(token)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Build contributor stats from the cache the way a GitHub harvest would.
+   * Returns null when a repository has not been synced back to the start of
+   * the window. Reviews and triage are not cached.
+   */
+  async harvest(params: PRSearchParams): Promise<CachedHarvest | null> {
+    const repos = Array.from(new Set(params.repos));
+    const states = await prisma.pullRequestSyncState.findMany({
+      where: { repo: { in: repos } }
+    });
+
+    if (
+      states.length !== repos.length ||
+      states.some(state => !state.lastSyncedAt || state.coveredSince > params.startDate)
+    ) {
+      return null;
+    }
+
+    const rows = await prisma.cachedPullRequest.findMany({
+      where: {
+        repo: { in: repos },
+        mergedAt: { gte: params.startDate, lte: params.endDate }
+      },
+      orderBy: [{ repo: 'asc' }, { mergedAt: 'asc' }]
+    });
+
+    const contributorStats = new Map<string, ContributorStats>();
+    const identity = params.identity || createIdentityResolver(DEFAULT_IDENTITY_SETTINGS);
+
+    for (const row of rows) {
+      const pr = cachedPRToGitHubPR(row);
+      const prLabels = pr.labels.map(label => label.name.toLowerCase());
+      const filters = labelFiltersFor(params, row.repo);
+      const includeLabels = filters.includeLabels.map(label => label.toLowerCase());
+      const excludeLabels = filters.excludeLabels.map(label => label.toLowerCase());
+
+      if (
+        !includeLabels.every(label => prLabels.includes(label)) ||
+        excludeLabels.some(label => prLabels.includes(label)) ||
+        identity.isBot(pr.user)
+      ) {
+        continue;
+      }
+
+      const { weight, rule } = evaluatePRWeight(
+        pr,
+        params.weightingRules?.[row.repo] || {},
+        JSON.parse(row.files || '[]')
+      );
+      pr.weight = weight;
+      pr.weightRule = rule;
+
+      for (const credit of resolvePRCredits(pr, JSON.parse(row.commitMessages || '[]'), identity)) {
+        addPRCredit(contributorStats, pr, credit);
+      }
+    }
+
+    return {
+      contributorStats,
+      dataAsOf: new Date(Math.min(...states.map(state => state.lastSyncedAt!.getTime())))
+    };
+  }
+
+  async getSyncStates(repos: string[]) {
+    return prisma.pullRequestSyncState.findMany({
+      where: { repo: { in: repos } },
+      orderBy: { repo: 'asc' }
+    });
+  }
+
+  /**
+   * Fetch a merged PR with its files and commit messages into the cache
+   */
+  private async fetchPR(github: GitHubService, repoFullName: string, prNumber: number): Promise<void> {
+    const [owner, repo] = repoFullName.split('/');
+    const pr = await github.getPRDetails(owner, repo, prNumber);
+    const files = await github.getPRFiles(owner, repo, prNumber);
+    const commitMessages = await github.getPRCommitMessages(owner, repo, prNumber);
+
+    const data = {
+      githubId: pr.id,
+      title: pr.title,
+      authorLogin: pr.user.login,
+      authorId: pr.user.id,
+      authorType: pr.user.type || null,
+      labels: JSON.stringify(pr.labels.map(label => ({ name: label.name, color: label.color }))),
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changed_files,
+      commitCount: pr.commits,
+      files: JSON.stringify(files),
+      commitMessages: JSON.stringify(commitMessages),
+      prCreatedAt: new Date(pr.created_at),
+      prUpdatedAt: new Date(pr.updated_at),
+      mergedAt: new Date(pr.merged_at!),
+      fetchedAt: new Date()
+    };
+
+    await prisma.cachedPullRequest.upsert({
+      where: { repo_number: { repo: repoFullName, number: prNumber } },
+      update: data,
+      create: { repo: repoFullName, number: prNumber, ...data }
+    });
+  }
+}
+
+export const prCacheService = new PRCacheService();
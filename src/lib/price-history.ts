@@ -0,0 +1,292 @@
+/**
+ * Price History Service
+ * Local store of oracle prices sampled by the scheduler, and the TWAP, VWAP
+ * and close-time pricing payroll runs can use instead of a spot quote
+ */
+
+import type { PayoutAsset, PriceSample } from '@prisma/client';
+import { prisma } from './db';
+import { pythPriceService, PriceSnapshot } from './pyth';
+import { assetRegistry } from './assets';
+
+export type PricingMethod = 'SPOT' | 'TWAP' | 'VWAP' | 'CLOSE';
+
+export const PRICING_METHODS: PricingMethod[] = ['SPOT', 'TWAP', 'VWAP', 'CLOSE'];
+
+export interface RunPricingConfig {
+  method: PricingMethod;
+  startDate: Date;
+  endDate: Date;
+  closeTime?: Date; // CLOSE only; defaults to the end of the period
+}
+
+// Longest gap between samples a TWAP will interpolate across
+const DEFAULT_MAX_GAP_HOURS = 6;
+
+/**
+ * Validate a run's pricing settings, returning a list of problems
+ */
+export function validatePricingConfig(config: Partial<RunPricingConfig>): string[] {
+  const errors: string[] = [];
+
+  if (!config.method || !PRICING_METHODS.includes(config.method)) {
+    errors.push(`Pricing method must be one of ${PRICING_METHODS.join(', ')}`);
+    return errors;
+  }
+
+  if (config.method !== 'SPOT' && config.startDate && config.startDate.getTime() > Date.now()) {
+    errors.push('Historical pricing needs a pay period that has started');
+  }
+
+  if (config.method === 'CLOSE' && config.closeTime) {
+    if (isNaN(config.closeTime.getTime())) {
+      errors.push('Close time is not a valid date');
+    } else if (config.closeTime.getTime() > Date.now()) {
+      errors.push('Close time cannot be in the future');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Time-weighted average of a step series: each sample's price holds until the
+ * next one. Samples must be sorted by publishedAt; time before the first
+ * sample is not counted.
+ */
+export function calculateTwap(
+  samples: Array<Pick<PriceSample, 'price' | 'publishedAt'>>,
+  from: Date,
+  to: Date
+): number {
+  if (samples.length === 0) {
+    throw new Error('Price history: no samples to average');
+  }
+
+  const end = to.getTime();
+  let weighted = 0;
+  let duration = 0;
+
+  samples.forEach((sample, index) => {
+    const segmentStart = Math.max(sample.publishedAt.getTime(), from.getTime());
+    const segmentEnd = Math.min(index + 1 < samples.length ? samples[index + 1].publishedAt.getTime() : end, end);
+    if (segmentEnd > segmentStart) {
+      weighted += sample.price * (segmentEnd - segmentStart);
+      duration += segmentEnd - segmentStart;
+    }
+  });
+
+  // A window of zero length is priced by its last sample
+  return duration > 0 ? weighted / duration : samples[samples.length - 1].price;
+}
+
+/**
+ * Volume-weighted average price, weighting each sample by the 24h trading
+ * volume reported alongside it
+ */
+export function calculateVwap(samples: Array<Pick<PriceSample, 'price' | 'volume'>>): number {
+  const withVolume = samples.filter(sample => sample.volume && sample.volume > 0);
+  if (withVolume.length === 0) {
+    throw new Error('Price history: no samples with trading volume to weight');
+  }
+
+  const totalVolume = withVolume.reduce((sum, sample) => sum + sample.volume!, 0);
+  return withVolume.reduce((sum, sample) => sum + sample.price * sample.volume!, 0) / totalVolume;
+}
+
+/**
+ * One-line description of how a stored price was derived, for payslips
+ */
+export function describePricing(snapshot: PriceSnapshot): string {
+  const pricing = snapshot.pricing;
+  if (!pricing || pricing.method === 'SPOT') {
+    return `Spot price at ${new Date(snapshot.timestamp).toISOString()}`;
+  }
+
+  if (pricing.method === 'CLOSE') {
+    return `Close price at ${pricing.closeTime}`;
+  }
+
+  const samples = pricing.sampleCount !== undefined ? ` (${pricing.sampleCount} samples)` : '';
+  return `${pricing.method} from ${pricing.windowStart} to ${pricing.windowEnd}${samples}`;
+}
+
+export class PriceHistoryService {
+  private maxGapMs: number;
+
+  constructor() {
+    this.maxGapMs = parseFloat(process.env.PRICE_HISTORY_MAX_GAP_HOURS || `${DEFAULT_MAX_GAP_HOURS}`) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Sample the oracle price of every active priced asset on Hedera networks.
+   * Fallback prices are never stored.
+   */
+  async recordSamples(): Promise<Array<{ symbol: string; network: string; price?: number; error?: string }>> {
+    const assets = await assetRegistry.listAssets();
+    const results: Array<{ symbol: string; network: string; price?: number; error?: string }> = [];
+
+    for (const asset of assets) {
+      if (asset.pegged || (asset.network !== 'testnet' && asset.network !== 'mainnet')) {
+        continue;
+      }
+
+      try {
+        const snapshot = await assetRegistry.getPriceSnapshot(asset);
+        if (snapshot.fallback) {
+          results.push({ symbol: asset.symbol, network: asset.network, error: 'Only a fallback price was available' });
+          continue;
+        }
+
+        const publishedAt = new Date(snapshot.timestamp);
+        const volume = snapshot.sources?.find(source => source.volume !== undefined)?.volume ?? null;
+
+        await prisma.priceSample.upsert({
+          where: {
+            symbol_network_publishedAt: { symbol: asset.symbol, network: asset.network, publishedAt }
+          },
+          create: {
+            symbol: asset.symbol,
+            network: asset.network,
+            price: snapshot.price,
+            confidence: snapshot.confidence,
+            volume,
+            source: snapshot.sources?.[0]?.source || 'pyth',
+            publishedAt
+          },
+          update: {}
+        });
+
+        results.push({ symbol: asset.symbol, network: asset.network, price: snapshot.price });
+      } catch (error) {
+        console.error(`Failed to sample price for ${asset.symbol} on ${asset.network}:`, error);
+        results.push({
+          symbol: asset.symbol,
+          network: asset.network,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Price a payroll run with the requested method. Pegged assets are always
+   * worth 1 USD, whatever the method.
+   */
+  async getRunPrice(asset: PayoutAsset, config: RunPricingConfig): Promise<PriceSnapshot> {
+    if (config.method === 'SPOT' || asset.pegged) {
+      const snapshot = await assetRegistry.getPriceSnapshot(asset);
+      return { ...snapshot, pricing: { method: config.method } };
+    }
+
+    if (config.method === 'CLOSE') {
+      return this.getClosePrice(asset, config.closeTime || config.endDate);
+    }
+
+    // Averages cover the part of the period that has already happened
+    const from = config.startDate;
+    const to = new Date(Math.min(config.endDate.getTime(), Date.now()));
+    const samples = await this.getSamplesCovering(asset, from, to);
+
+    const price = config.method === 'TWAP'
+      ? calculateTwap(samples, from, to)
+      : calculateVwap(samples.filter(sample => sample.publishedAt.getTime() >= from.getTime()));
+    const confidence = samples.reduce((max, sample) => Math.max(max, sample.confidence), 0);
+
+    return {
+      ...pythPriceService.createDerivedSnapshot(
+        `${config.method}:${asset.symbol}/USD`,
+        `${asset.symbol}/USD`,
+        price,
+        confidence,
+        to
+      ),
+      pricing: {
+        method: config.method,
+        windowStart: from.toISOString(),
+        windowEnd: to.toISOString(),
+        sampleCount: samples.length
+      }
+    };
+  }
+
+  /**
+   * Price at a fixed time: the last stored sample at or before it, or the
+   * Pyth archive when the store has nothing close enough
+   */
+  private async getClosePrice(asset: PayoutAsset, closeTime: Date): Promise<PriceSnapshot> {
+    const pricing = { method: 'CLOSE' as const, closeTime: closeTime.toISOString() };
+
+    const sample = await prisma.priceSample.findFirst({
+      where: { symbol: asset.symbol, network: asset.network, publishedAt: { lte: closeTime } },
+      orderBy: { publishedAt: 'desc' }
+    });
+
+    if (sample && closeTime.getTime() - sample.publishedAt.getTime() <= this.maxGapMs) {
+      return {
+        ...pythPriceService.createDerivedSnapshot(
+          `CLOSE:${asset.symbol}/USD`,
+          `${asset.symbol}/USD`,
+          sample.price,
+          sample.confidence,
+          sample.publishedAt
+        ),
+        pricing: { ...pricing, sampleCount: 1 }
+      };
+    }
+
+    if (asset.priceFeedId) {
+      const archived = await pythPriceService.getHistoricalPrice(asset.symbol, closeTime, {
+        symbol: `${asset.symbol}/USD`,
+        feedId: asset.priceFeedId,
+        decimals: asset.decimals,
+        description: `${asset.name} USD Price`
+      });
+
+      if (archived && archived.staleness <= this.maxGapMs / 1000) {
+        return { ...archived, pricing };
+      }
+    }
+
+    throw new Error(`Price history: no ${asset.symbol} price within ${this.maxGapMs / 3600000}h of ${closeTime.toISOString()}`);
+  }
+
+  /**
+   * Samples covering a window, starting with the last one at or before its
+   * start. Refuses windows with gaps wider than the configured maximum.
+   */
+  private async getSamplesCovering(asset: PayoutAsset, from: Date, to: Date): Promise<PriceSample[]> {
+    const [opening, inWindow] = await Promise.all([
+      prisma.priceSample.findFirst({
+        where: { symbol: asset.symbol, network: asset.network, publishedAt: { lte: from } },
+        orderBy: { publishedAt: 'desc' }
+      }),
+      prisma.priceSample.findMany({
+        where: { symbol: asset.symbol, network: asset.network, publishedAt: { gt: from, lte: to } },
+        orderBy: { publishedAt: 'asc' }
+      })
+    ]);
+
+    const samples = opening ? [opening, ...inWindow] : inWindow;
+    if (samples.length === 0) {
+      throw new Error(`Price history: no ${asset.symbol} samples between ${from.toISOString()} and ${to.toISOString()}`);
+    }
+
+    const points = [from.getTime(), ...samples.map(sample => sample.publishedAt.getTime()), to.getTime()];
+    points.sort((a, b) => a - b);
+    for (let i = 1; i < points.length; i++) {
+      if (points[i] - points[i - 1] > this.maxGapMs) {
+        throw new Error(
+          `Price history: ${asset.symbol} has a ${Math.round((points[i] - points[i - 1]) / 3600000)}h gap ` +
+          `around ${new Date(points[i - 1]).toISOString()}, more than ${this.maxGapMs / 3600000}h allowed`
+        );
+      }
+    }
+
+    return samples;
+  }
+}
+
+export const priceHistoryService = new PriceHistoryService();
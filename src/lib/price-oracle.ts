@@ -0,0 +1,293 @@
+/**
+ * Price Oracle
+ * Aggregates USD prices from several sources (Pyth Hermes first, CoinGecko
+ * as a cross-check) and refuses prices that are uncertain or disagree
+ */
+
+import { readFileSync } from 'fs';
+import { PythPriceService, PriceSnapshot, pythPriceService } from './pyth';
+
+export interface OracleAsset {
+  symbol: string; // e.g. "HBAR"
+  pythFeedId?: string | null;
+  coingeckoId?: string | null;
+}
+
+export interface PriceQuote {
+  source: string;
+  price: number;
+  confidence: number; // Confidence interval as a percentage of the price
+  publishTime: Date;
+  volume?: number; // 24h USD trading volume, where the source reports it
+  snapshot?: PriceSnapshot; // Full Pyth snapshot when the source is Pyth
+}
+
+/**
+ * A source of USD prices. Implementations must throw rather than guess when
+ * they cannot answer.
+ */
+export interface PriceSource {
+  name: string;
+  supports(asset: OracleAsset): boolean;
+  getQuote(asset: OracleAsset): Promise<PriceQuote>;
+}
+
+export interface PriceOracleOptions {
+  network: 'testnet' | 'mainnet';
+  maxConfidencePercent: number; // Reject Pyth quotes less certain than this
+  maxDeviationPercent: number; // Reject prices when sources disagree by more than this
+  maxStalenessSeconds: number;
+  minSources: number; // Sources that must answer before a price is accepted
+  allowFallback: boolean; // Use a mock price when no source answers (ignored on mainnet)
+}
+
+type FetchLike = typeof fetch;
+
+/**
+ * Pyth Hermes latest price feeds
+ */
+export class PythHermesSource implements PriceSource {
+  name = 'pyth';
+  private pythService: PythPriceService;
+
+  constructor(options: { hermesUrl?: string; fetchImpl?: FetchLike } = {}) {
+    this.pythService = new PythPriceService(options);
+  }
+
+  supports(asset: OracleAsset): boolean {
+    return !!asset.pythFeedId;
+  }
+
+  async getQuote(asset: OracleAsset): Promise<PriceQuote> {
+    const snapshot = await this.pythService.getLatestPriceForFeed({
+      symbol: `${asset.symbol}/USD`,
+      feedId: asset.pythFeedId!,
+      decimals: 8,
+      description: `${asset.symbol} USD Price`
+    }, asset.symbol);
+
+    return {
+      source: this.name,
+      price: snapshot.price,
+      confidence: snapshot.confidence,
+      publishTime: new Date(snapshot.timestamp),
+      snapshot
+    };
+  }
+}
+
+/**
+ * CoinGecko simple price API
+ */
+export class CoinGeckoSource implements PriceSource {
+  name = 'coingecko';
+  private baseUrl: string;
+  private fetchImpl: FetchLike;
+
+  constructor(options: { baseUrl?: string; fetchImpl?: FetchLike } = {}) {
+    this.baseUrl = options.baseUrl || process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3';
+    this.fetchImpl = options.fetchImpl || fetch;
+  }
+
+  supports(asset: OracleAsset): boolean {
+    return !!asset.coingeckoId;
+  }
+
+  async getQuote(asset: OracleAsset): Promise<PriceQuote> {
+    const url = `${this.baseUrl}/simple/price?ids=${asset.coingeckoId}&vs_currencies=usd&include_24hr_vol=true&include_last_updated_at=true`;
+    const response = await this.fetchImpl(url, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'AI-Payroll-App'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const entry = data?.[asset.coingeckoId!];
+    if (!entry || typeof entry.usd !== 'number') {
+      throw new Error(`CoinGecko returned no USD price for ${asset.coingeckoId}`);
+    }
+
+    return {
+      source: this.name,
+      price: entry.usd,
+      confidence: 0, // CoinGecko publishes no confidence interval
+      publishTime: entry.last_updated_at ? new Date(entry.last_updated_at * 1000) : new Date(),
+      ...(typeof entry.usd_24h_vol === 'number' && { volume: entry.usd_24h_vol })
+    };
+  }
+}
+
+interface FixtureQuote {
+  price: number;
+  confidence?: number;
+  volume?: number;
+  ageSeconds?: number;
+}
+
+/**
+ * Fixed quotes from a local fixture, keyed by asset symbol. A string value is
+ * thrown as an error so failures can be simulated too.
+ */
+export class FixturePriceSource implements PriceSource {
+  name: string;
+  private fixtures: Record<string, FixtureQuote | string>;
+
+  constructor(name: string, fixtures: Record<string, FixtureQuote | string>) {
+    this.name = name;
+    this.fixtures = fixtures;
+  }
+
+  supports(asset: OracleAsset): boolean {
+    return asset.symbol in this.fixtures;
+  }
+
+  async getQuote(asset: OracleAsset): Promise<PriceQuote> {
+    const fixture = this.fixtures[asset.symbol];
+    if (typeof fixture === 'string') {
+      throw new Error(fixture);
+    }
+
+    return {
+      source: this.name,
+      price: fixture.price,
+      confidence: fixture.confidence ?? 0,
+      publishTime: new Date(Date.now() - (fixture.ageSeconds ?? 0) * 1000),
+      ...(fixture.volume !== undefined && { volume: fixture.volume })
+    };
+  }
+}
+
+export class PriceOracle {
+  private sources: PriceSource[];
+  private options: PriceOracleOptions;
+
+  constructor(sources: PriceSource[], options: PriceOracleOptions) {
+    this.sources = sources;
+    // Mainnet payouts are never priced from mock data
+    this.options = { ...options, allowFallback: options.allowFallback && options.network !== 'mainnet' };
+  }
+
+  /**
+   * Get a USD price that every answering source agrees on. The first source
+   * that answers sets the price; the others only cross-check it.
+   */
+  async getPrice(asset: OracleAsset): Promise<PriceSnapshot> {
+    const sources = this.sources.filter(source => source.supports(asset));
+    const results = await Promise.allSettled(sources.map(source => source.getQuote(asset)));
+
+    const quotes: PriceQuote[] = [];
+    const failures: string[] = [];
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failures.push(`${sources[index].name}: ${result.reason instanceof Error ? result.reason.message : result.reason}`);
+        return;
+      }
+
+      const quote = result.value;
+      const staleness = (Date.now() - quote.publishTime.getTime()) / 1000;
+
+      if (!(quote.price > 0)) {
+        failures.push(`${quote.source}: invalid price ${quote.price}`);
+      } else if (staleness > this.options.maxStalenessSeconds) {
+        failures.push(`${quote.source}: price is ${Math.round(staleness)}s old`);
+      } else if (quote.confidence > this.options.maxConfidencePercent) {
+        failures.push(
+          `${quote.source}: confidence interval ${quote.confidence.toFixed(3)}% exceeds ${this.options.maxConfidencePercent}%`
+        );
+      } else {
+        quotes.push(quote);
+      }
+    });
+
+    if (quotes.length === 0 && this.options.allowFallback) {
+      console.warn(`⚠️ No price source answered for ${asset.symbol}, using fallback price: ${failures.join('; ')}`);
+      return pythPriceService.getFallbackPrice(asset.symbol, {
+        symbol: `${asset.symbol}/USD`,
+        feedId: asset.pythFeedId || `fallback:${asset.symbol}/USD`,
+        decimals: 8,
+        description: `${asset.symbol} USD Price`
+      });
+    }
+
+    if (quotes.length === 0) {
+      throw new Error(`Price oracle: no usable price for ${asset.symbol} (${failures.join('; ') || 'no sources configured'})`);
+    }
+
+    if (quotes.length < this.options.minSources) {
+      throw new Error(
+        `Price oracle: ${quotes.length} of ${this.options.minSources} required sources answered for ${asset.symbol}` +
+        (failures.length > 0 ? ` (${failures.join('; ')})` : '')
+      );
+    }
+
+    const primary = quotes[0];
+    for (const quote of quotes.slice(1)) {
+      const deviation = Math.abs(quote.price - primary.price) / primary.price * 100;
+      if (deviation > this.options.maxDeviationPercent) {
+        throw new Error(
+          `Price oracle: ${quote.source} (${quote.price}) deviates ${deviation.toFixed(2)}% from ` +
+          `${primary.source} (${primary.price}) for ${asset.symbol}, limit is ${this.options.maxDeviationPercent}%`
+        );
+      }
+    }
+
+    const snapshot = primary.snapshot || pythPriceService.createDerivedSnapshot(
+      `${primary.source}:${asset.symbol}/USD`,
+      `${asset.symbol}/USD`,
+      primary.price,
+      primary.confidence,
+      primary.publishTime
+    );
+    return {
+      ...snapshot,
+      sources: quotes.map(quote => ({
+        source: quote.source,
+        price: quote.price,
+        confidence: quote.confidence,
+        publishTime: quote.publishTime.toISOString(),
+        ...(quote.volume !== undefined && { volume: quote.volume })
+      }))
+    };
+  }
+}
+
+/**
+ * Sources loaded from the JSON fixture file named by PRICE_ORACLE_FIXTURES,
+ * shaped as { "<source>": { "<SYMBOL>": { price, confidence?, volume?, ageSeconds? } } }
+ */
+function loadFixtureSources(path: string): PriceSource[] {
+  const fixtures = JSON.parse(readFileSync(path, 'utf8'));
+  return Object.entries(fixtures).map(
+    ([name, quotes]) => new FixturePriceSource(name, quotes as Record<string, FixtureQuote | string>)
+  );
+}
+
+/**
+ * Oracle for a network, with thresholds from the environment. Mainnet
+ * requires two agreeing sources unless configured otherwise and never falls
+ * back to mock prices.
+ */
+export function createPriceOracle(network: 'testnet' | 'mainnet', sources?: PriceSource[]): PriceOracle {
+  const fixturePath = process.env.PRICE_ORACLE_FIXTURES;
+
+  return new PriceOracle(
+    sources || (fixturePath ? loadFixtureSources(fixturePath) : [new PythHermesSource(), new CoinGeckoSource()]),
+    {
+      network,
+      maxConfidencePercent: parseFloat(process.env.PRICE_MAX_CONFIDENCE_PERCENT || '1'),
+      maxDeviationPercent: parseFloat(process.env.PRICE_MAX_DEVIATION_PERCENT || '2'),
+      maxStalenessSeconds: parseInt(process.env.MAX_PRICE_STALENESS_SECONDS || '300'),
+      minSources: parseInt(
+        (network === 'mainnet' ? process.env.PRICE_MIN_SOURCES_MAINNET : process.env.PRICE_MIN_SOURCES_TESTNET) ||
+        (network === 'mainnet' ? '2' : '1')
+      ),
+      allowFallback: process.env.PRICE_ALLOW_TESTNET_FALLBACK !== 'false'
+    }
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * Price Re-quote Service
+ * Re-prices an approved run just before execution and compares the quote
+ * with the snapshot the approvers signed off on
+ */
+
+import type { PayoutAsset, PayrollRun, Payout, PayoutLeg } from '@prisma/client';
+import { prisma } from './db';
+import { pythPriceService, PriceSnapshot, allocateNativeUnits } from './pyth';
+import { assetRegistry } from './assets';
+import { runApprovalService, parseRequoteResult } from './run-approval';
+import { createHederaService } from './hedera';
+import { createTreasuryService } from './treasury';
+
+/**
+ * What to do when the re-quoted price is within tolerance: pay the approved
+ * native amounts, or keep the approved USD amounts and recompute the native
+ * amounts at the new price
+ */
+export type RequotePolicy = 'KEEP_NATIVE' | 'RECOMPUTE_NATIVE';
+
+export const REQUOTE_POLICIES: RequotePolicy[] = ['KEEP_NATIVE', 'RECOMPUTE_NATIVE'];
+
+export interface RequoteResult {
+  checkedAt: string;
+  policy: RequotePolicy;
+  approvedPrice: number;
+  executionPrice: number;
+  deviationPercent: number;
+  tolerancePercent: number;
+  outcome: 'KEPT' | 'RECOMPUTED' | 'HALTED';
+  approvedNativeAmounts?: Record<string, string>; // By contributor ID, when recomputed
+  executionHash?: string; // Hash of the recomputed payouts at the execution price
+  signature?: string; // HMAC binding the execution hash to the approved hash
+}
+
+// Largest tolerance a run may be configured with
+const MAX_TOLERANCE_PERCENT = 50;
+
+/**
+ * Validate a run's re-quote settings, returning a list of problems
+ */
+export function validateRequoteConfig(policy: unknown, tolerancePercent: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!REQUOTE_POLICIES.includes(policy as RequotePolicy)) {
+    errors.push(`Re-quote policy must be one of ${REQUOTE_POLICIES.join(', ')}`);
+  }
+  if (typeof tolerancePercent !== 'number' || !(tolerancePercent >= 0 && tolerancePercent <= MAX_TOLERANCE_PERCENT)) {
+    errors.push(`Price tolerance must be between 0 and ${MAX_TOLERANCE_PERCENT}%`);
+  }
+
+  return errors;
+}
+
+export class PriceRequoteService {
+
+  /**
+   * Re-quote an APPROVED run's asset. Within tolerance the run proceeds per
+   * its policy; outside it the run is re-priced at the new quote, its
+   * approvals are revoked and its treasury reservation released. Split
+   * legs in other assets keep the prices they were approved at.
+   */
+  async requoteRun(runId: string): Promise<RequoteResult> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { payouts: { include: { legs: true } } }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    if (run.status !== 'APPROVED') {
+      throw new Error(`Only APPROVED runs can be re-quoted (current: ${run.status})`);
+    }
+
+    const asset = await this.resolveRunAsset(run);
+    if (!asset) {
+      throw new Error(`Payout asset ${run.asset} is no longer registered for ${run.environment}`);
+    }
+
+    const approvedSnapshot = pythPriceService.parseStoredSnapshot(run.priceSnapshot);
+    const executionSnapshot = await assetRegistry.getPriceSnapshot(asset);
+    if (run.environment === 'mainnet' && executionSnapshot.fallback) {
+      throw new Error('Re-quote returned a fallback price, which mainnet runs never use');
+    }
+
+    const deviationPercent = Math.abs(executionSnapshot.price - approvedSnapshot.price) / approvedSnapshot.price * 100;
+    const policy = run.requotePolicy as RequotePolicy;
+    const decimals = run.payouts[0]?.decimals ?? run.assetDecimals;
+    const previous = parseRequoteResult(run.requoteResult);
+
+    const result: RequoteResult = {
+      checkedAt: new Date().toISOString(),
+      policy,
+      approvedPrice: approvedSnapshot.price,
+      executionPrice: executionSnapshot.price,
+      deviationPercent,
+      tolerancePercent: run.priceTolerancePercent,
+      outcome: 'KEPT'
+    };
+
+    if (deviationPercent > run.priceTolerancePercent) {
+      result.outcome = 'HALTED';
+      await this.haltRun(run, approvedSnapshot, executionSnapshot, result, decimals);
+      return result;
+    }
+
+    if (policy === 'RECOMPUTE_NATIVE' && !asset.pegged) {
+      // Keep the amounts the approvers signed, even across repeated re-quotes
+      const approvedNativeAmounts = previous?.approvedNativeAmounts || Object.fromEntries(
+        run.payouts.map(payout => [payout.contributorId, payout.nativeAmount])
+      );
+      const recomputed = this.repricePayouts(run.payouts, executionSnapshot, decimals);
+      const executionSnapshotJson = pythPriceService.createStorableSnapshot(executionSnapshot);
+      const executionHash = runApprovalService.calculateRunHash(
+        { ...run, priceSnapshot: executionSnapshotJson },
+        runApprovalService.payoutsToDistributions(recomputed),
+        decimals
+      );
+
+      result.outcome = 'RECOMPUTED';
+      result.approvedNativeAmounts = approvedNativeAmounts;
+      result.executionHash = executionHash;
+      result.signature = runApprovalService.signRequote(run.id, run.approvedHash!, executionHash);
+
+      await prisma.$transaction([
+        ...recomputed.map(payout => prisma.payout.update({
+          where: { id: payout.id },
+          data: { nativeAmount: payout.nativeAmount }
+        })),
+        prisma.payrollRun.update({
+          where: { id: run.id },
+          data: {
+            approvedPriceSnapshot: run.priceSnapshot,
+            executionPriceSnapshot: executionSnapshotJson,
+            executionHash,
+            requoteResult: JSON.stringify(result)
+          }
+        })
+      ]);
+
+      return result;
+    }
+
+    await prisma.payrollRun.update({
+      where: { id: run.id },
+      data: {
+        approvedPriceSnapshot: run.priceSnapshot,
+        executionPriceSnapshot: pythPriceService.createStorableSnapshot(executionSnapshot),
+        requoteResult: JSON.stringify(result)
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Re-price a run at the execution quote, keeping its USD amounts, and send
+   * it back for approval
+   */
+  private async haltRun(
+    run: PayrollRun & { payouts: Array<Payout & { legs: PayoutLeg[] }> },
+    approvedSnapshot: PriceSnapshot,
+    executionSnapshot: PriceSnapshot,
+    result: RequoteResult,
+    decimals: number
+  ): Promise<void> {
+    const executionSnapshotJson = pythPriceService.createStorableSnapshot(executionSnapshot);
+    const repriced = this.repricePayouts(run.payouts, executionSnapshot, decimals);
+    const previewHash = runApprovalService.calculateRunHash(
+      { ...run, priceSnapshot: executionSnapshotJson },
+      runApprovalService.payoutsToDistributions(repriced),
+      decimals
+    );
+
+    await prisma.$transaction([
+      ...repriced.map(payout => prisma.payout.update({
+        where: { id: payout.id },
+        data: { nativeAmount: payout.nativeAmount }
+      })),
+      prisma.payrollRun.update({
+        where: { id: run.id },
+        data: {
+          priceSnapshot: executionSnapshotJson,
+          pythFeedId: executionSnapshot.feedId,
+          approvedPriceSnapshot: run.priceSnapshot,
+          executionPriceSnapshot: executionSnapshotJson,
+          previewHash,
+          requoteResult: JSON.stringify(result)
+        }
+      })
+    ]);
+
+    await createTreasuryService(createHederaService({
+      network: run.environment as 'testnet' | 'mainnet'
+    })).releaseReservation(run.id, 'RELEASED');
+
+    await runApprovalService.revokeApproval(
+      run.id,
+      `The ${approvedSnapshot.symbol} price moved ${result.deviationPercent.toFixed(2)}% between approval ` +
+      `($${approvedSnapshot.price}) and execution ($${executionSnapshot.price}), beyond the ` +
+      `${result.tolerancePercent}% tolerance. The run was re-priced and needs approval again.`
+    );
+  }
+
+  /**
+   * Convert payouts' run-asset USD amounts at a new price, assigning the
+   * rounding remainder so they sum to the converted total
+   */
+  private repricePayouts<T extends Payout>(payouts: T[], snapshot: PriceSnapshot, decimals: number): T[] {
+    const nativeAmounts = allocateNativeUnits(
+      payouts.map(payout => ({ key: payout.contributorId, usdAmount: payout.usdAmount * payout.assetPercent / 100 })),
+      snapshot.price,
+      decimals
+    );
+
+    return payouts.map(payout => ({ ...payout, nativeAmount: nativeAmounts.get(payout.contributorId)! }));
+  }
+
+  private async resolveRunAsset(run: PayrollRun): Promise<PayoutAsset | null> {
+    if (run.assetId) {
+      const asset = await prisma.payoutAsset.findUnique({ where: { id: run.assetId } });
+      if (asset) {
+        return asset;
+      }
+    }
+
+    return assetRegistry.resolveAsset(run.asset, run.environment);
+  }
+}
+
+/**
+ * Human-readable reason a run was halted by its re-quote
+ */
+export function describeRequoteHalt(result: RequoteResult): string {
+  return `Price moved ${result.deviationPercent.toFixed(2)}% since approval (tolerance ${result.tolerancePercent}%); ` +
+    'the run was re-priced and returned for re-approval';
+}
+
+export const priceRequoteService = new PriceRequoteService();
@@ -21,6 +21,21 @@ export interface PriceSnapshot {
   timestamp: Date | string; // Can be Date object or ISO string
   staleness: number; // Age in seconds
   raw: PythPriceData; // Raw Pyth data for auditability
+  fallback?: boolean; // Mock price used because no source answered (never on mainnet)
+  sources?: Array<{
+    source: string;
+    price: number;
+    confidence: number;
+    publishTime: string;
+    volume?: number; // 24h USD trading volume, where the source reports it
+  }>; // Per-source quotes the price was checked against
+  pricing?: {
+    method: 'SPOT' | 'TWAP' | 'VWAP' | 'CLOSE';
+    windowStart?: string;
+    windowEnd?: string;
+    closeTime?: string;
+    sampleCount?: number;
+  }; // How the price was derived when it is not a single spot quote
 }
 
 export interface AssetConfig {
@@ -58,8 +73,11 @@ export class PythPriceService {
     }
   };
 
-  constructor() {
-    this.hermesUrl = process.env.PYTH_ENDPOINT || process.env.PYTH_HERMES_URL || 'https://hermes.pyth.network';
+  private fetchImpl: typeof fetch;
+
+  constructor(options: { hermesUrl?: string; fetchImpl?: typeof fetch } = {}) {
+    this.hermesUrl = options.hermesUrl || process.env.PYTH_ENDPOINT || process.env.PYTH_HERMES_URL || 'https://hermes.pyth.network';
+    this.fetchImpl = options.fetchImpl || fetch;
     this.maxStalenessSeconds = parseInt(process.env.MAX_PRICE_STALENESS_SECONDS || '300');
     this.retryAttempts = parseInt(process.env.DEFAULT_RETRY_ATTEMPTS || '3');
     this.retryDelay = 1000; // 1 second
@@ -69,8 +87,17 @@ export class PythPriceService {
    * Get latest price for an asset
    */
   async getLatestPrice(asset: string): Promise<PriceSnapshot> {
-    const config = this.getAssetConfig(asset);
-    
+    return this.getLatestPriceForFeed(this.getAssetConfig(asset), asset);
+  }
+
+  /**
+   * Get latest price for a feed that is not one of the built-in assets.
+   * Throws once retries are exhausted; callers decide whether a fallback
+   * price is acceptable.
+   */
+  async getLatestPriceForFeed(config: AssetConfig, asset: string = config.symbol.split('/')[0]): Promise<PriceSnapshot> {
+    let lastError: unknown;
+
     for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
       try {
         const priceData = await this.fetchPriceData(config.feedId);
@@ -85,26 +112,24 @@ export class PythPriceService {
         
         return snapshot;
       } catch (error) {
-        if (attempt === this.retryAttempts) {
-          // Return fallback price for demo purposes
-          console.warn(`⚠️ Pyth API failed for ${asset}, using fallback price`);
-          return this.getFallbackPrice(asset);
+        lastError = error;
+        if (attempt < this.retryAttempts) {
+          // Wait before retrying
+          await this.delay(this.retryDelay * attempt);
         }
-        
-        // Wait before retrying
-        await this.delay(this.retryDelay * attempt);
       }
     }
     
-    throw new Error(`Failed to get latest price for ${asset}`);
+    throw new Error(
+      `Failed to get latest price for ${asset}: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`
+    );
   }
 
   /**
-   * Get fallback price for demo purposes when API fails
+   * Get fallback price for demo purposes when every price source fails.
+   * The snapshot is flagged so it can never be mistaken for a real quote.
    */
-  private getFallbackPrice(asset: string): PriceSnapshot {
-    const config = this.getAssetConfig(asset);
-    
+  getFallbackPrice(asset: string, config: AssetConfig = this.getAssetConfig(asset)): PriceSnapshot {
     // Mock prices for demo purposes
     const mockPrices: Record<string, number> = {
       'HBAR': 0.15,  // $0.15 per HBAR
@@ -112,7 +137,10 @@ export class PythPriceService {
       'ETH': 3000    // $3,000 per ETH
     };
     
-    const price = mockPrices[asset.toUpperCase()] || 1.0;
+    const price = mockPrices[asset.toUpperCase()];
+    if (!price) {
+      throw new Error(`No fallback price for ${asset}`);
+    }
     const now = new Date();
     
     console.log(`📈 Using fallback price for ${asset}: $${price}`);
@@ -124,6 +152,7 @@ export class PythPriceService {
       confidence: 1.0, // 1% confidence for mock data
       timestamp: now,
       staleness: 0, // Fresh mock data
+      fallback: true,
       raw: {
         feedId: config.feedId,
         price: price.toString(),
@@ -137,17 +166,104 @@ export class PythPriceService {
   }
 
   /**
-   * Get price at a specific timestamp (if available)
+   * Snapshot for a USD-pegged stablecoin, which needs no price conversion
    */
-  async getHistoricalPrice(asset: string, timestamp: Date): Promise<PriceSnapshot | null> {
-    const config = this.getAssetConfig(asset);
-    
+  createPeggedSnapshot(symbol: string): PriceSnapshot {
+    const now = new Date();
+    const feedId = `PEGGED:${symbol}/USD`;
+
+    return {
+      feedId,
+      symbol: `${symbol}/USD`,
+      price: 1,
+      confidence: 0,
+      timestamp: now,
+      staleness: 0,
+      raw: {
+        feedId,
+        price: '1',
+        confidence: '0',
+        expo: 0,
+        publishTime: Math.floor(now.getTime() / 1000),
+        emaPrice: '1',
+        emaConfidence: '0'
+      }
+    };
+  }
+
+  /**
+   * Snapshot for a price derived elsewhere, e.g. a CoinGecko quote or an
+   * average over stored history, in the same shape as a Pyth snapshot
+   */
+  createDerivedSnapshot(feedId: string, symbol: string, price: number, confidence: number, timestamp: Date): PriceSnapshot {
+    const confidenceAmount = (price * confidence / 100).toString();
+
+    return {
+      feedId,
+      symbol,
+      price,
+      confidence,
+      timestamp,
+      staleness: Math.max(0, Math.floor((Date.now() - timestamp.getTime()) / 1000)),
+      raw: {
+        feedId,
+        price: price.toString(),
+        confidence: confidenceAmount,
+        expo: 0,
+        publishTime: Math.floor(timestamp.getTime() / 1000),
+        emaPrice: price.toString(),
+        emaConfidence: confidenceAmount
+      }
+    };
+  }
+
+  /**
+   * Get the first price published at or after a timestamp from the Hermes
+   * price update archive, or null if Hermes has none
+   */
+  async getHistoricalPrice(
+    asset: string,
+    timestamp: Date,
+    config: AssetConfig = this.getAssetConfig(asset)
+  ): Promise<PriceSnapshot | null> {
+    const publishTime = Math.floor(timestamp.getTime() / 1000);
+    const url = `${this.hermesUrl}/v2/updates/price/${publishTime}?ids[]=${config.feedId}&parsed=true`;
+
     try {
-      // For historical data, we would typically use a different endpoint
-      // For now, we'll return null as historical data might not be available
-      // In a real implementation, this would query historical price feeds
-      console.log(`Historical price requested for ${asset} at ${timestamp.toISOString()}`);
-      return null;
+      const response = await this.fetchImpl(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'AI-Payroll-System/1.0.0'
+        }
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Hermes API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const priceUpdate = data?.parsed?.[0];
+      if (!priceUpdate?.price) {
+        return null;
+      }
+
+      const snapshot = this.createPriceSnapshot(config, {
+        feedId: priceUpdate.id,
+        price: priceUpdate.price.price,
+        confidence: priceUpdate.price.conf,
+        expo: priceUpdate.price.expo,
+        publishTime: priceUpdate.price.publish_time,
+        emaPrice: priceUpdate.ema_price?.price || priceUpdate.price.price,
+        emaConfidence: priceUpdate.ema_price?.conf || priceUpdate.price.conf
+      });
+
+      // Staleness is measured against the requested time, not now
+      snapshot.staleness = priceUpdate.price.publish_time - publishTime;
+      return snapshot;
     } catch (error) {
       console.error(`Error fetching historical price for ${asset}:`, error);
       return null;
@@ -177,16 +293,14 @@ export class PythPriceService {
    * Convert USD amount to native asset amount
    */
   convertUsdToNative(usdAmount: number, priceSnapshot: PriceSnapshot, assetDecimals: number): string {
-    const nativeAmount = usdAmount / priceSnapshot.price;
-    const scaledAmount = Math.floor(nativeAmount * Math.pow(10, assetDecimals));
-    return scaledAmount.toString();
+    return usdToNativeUnits(usdAmount, priceSnapshot.price, assetDecimals);
   }
 
   /**
    * Convert native asset amount to USD
    */
   convertNativeToUsd(nativeAmount: string, priceSnapshot: PriceSnapshot, assetDecimals: number): number {
-    const amount = parseInt(nativeAmount) / Math.pow(10, assetDecimals);
+    const amount = Number(nativeAmount) / Math.pow(10, assetDecimals);
     return amount * priceSnapshot.price;
   }
 
@@ -221,7 +335,7 @@ export class PythPriceService {
   private async fetchPriceData(feedId: string): Promise<PythPriceData> {
     const url = `${this.hermesUrl}/api/latest_price_feeds?ids[]=${feedId}&encoding=hex`;
     
-    const response = await fetch(url, {
+    const response = await this.fetchImpl(url, {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
@@ -300,7 +414,10 @@ export class PythPriceService {
       confidence: priceSnapshot.confidence,
       timestamp: timestamp.toISOString(),
       staleness: priceSnapshot.staleness,
-      raw: priceSnapshot.raw
+      raw: priceSnapshot.raw,
+      ...(priceSnapshot.fallback && { fallback: true }),
+      ...(priceSnapshot.sources && { sources: priceSnapshot.sources }),
+      ...(priceSnapshot.pricing && { pricing: priceSnapshot.pricing })
     });
   }
 
@@ -318,4 +435,76 @@ export class PythPriceService {
   }
 }
 
-export const pythPriceService = new PythPriceService();
\ No newline at end of file
+export const pythPriceService = new PythPriceService();
+
+// Fixed-point scales for converting USD to base units without floating-point
+// overflow on high-decimal tokens
+const USD_SCALE = BigInt(1000000);
+const PRICE_SCALE = BigInt(1000000000000);
+
+/**
+ * Convert a USD amount to an asset's smallest unit at the given price,
+ * rounding down
+ */
+export function usdToNativeUnits(usdAmount: number, price: number, decimals: number): string {
+  if (!(price > 0)) {
+    throw new Error(`Invalid price for conversion: ${price}`);
+  }
+
+  const usd = BigInt(Math.round(usdAmount * Number(USD_SCALE)));
+  const scaledPrice = BigInt(Math.round(price * Number(PRICE_SCALE)));
+  const units = usd * PRICE_SCALE * BigInt(10) ** BigInt(decimals) / (scaledPrice * USD_SCALE);
+  return units.toString();
+}
+
+/**
+ * Convert several USD amounts to smallest units so that they sum exactly to
+ * the units of their total. Rounding remainders go by largest remainder,
+ * ties broken by key, so the result does not depend on input order.
+ */
+export function allocateNativeUnits(
+  entries: Array<{ key: string; usdAmount: number }>,
+  price: number,
+  decimals: number
+): Map<string, string> {
+  if (!(price > 0)) {
+    throw new Error(`Invalid price for conversion: ${price}`);
+  }
+
+  const ordered = [...entries].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  const indexes = ordered.map((_, index) => index);
+  // Stable, so equal remainders keep key order
+  const byRemainder = (remainder: (index: number) => bigint | number, descending: boolean) =>
+    [...indexes].sort((a, b) => {
+      const [x, y] = descending ? [remainder(b), remainder(a)] : [remainder(a), remainder(b)];
+      return x < y ? -1 : x > y ? 1 : 0;
+    });
+
+  // Whole micro-dollars first, so they add up to the rounded total
+  const scaled = ordered.map(entry => entry.usdAmount * Number(USD_SCALE));
+  const micros = scaled.map(value => BigInt(Math.floor(value)));
+  const totalMicros = BigInt(Math.round(scaled.reduce((sum, value) => sum + value, 0)));
+  const microsLeft = Number(totalMicros - micros.reduce((sum, value) => sum + value, BigInt(0)));
+  const fraction = (index: number) => scaled[index] - Math.floor(scaled[index]);
+  if (microsLeft > 0) {
+    byRemainder(fraction, true).slice(0, microsLeft).forEach(index => { micros[index] += BigInt(1); });
+  } else if (microsLeft < 0) {
+    byRemainder(fraction, false)
+      .filter(index => micros[index] > BigInt(0))
+      .slice(0, -microsLeft)
+      .forEach(index => { micros[index] -= BigInt(1); });
+  }
+
+  // Then base units, handing the division remainders out one unit at a time
+  const scaledPrice = BigInt(Math.round(price * Number(PRICE_SCALE)));
+  const numeratorScale = PRICE_SCALE * BigInt(10) ** BigInt(decimals);
+  const denominator = scaledPrice * USD_SCALE;
+  const units = micros.map(micro => micro * numeratorScale / denominator);
+  const total = totalMicros * numeratorScale / denominator;
+  const unitsLeft = Number(total - units.reduce((sum, value) => sum + value, BigInt(0)));
+  byRemainder(index => micros[index] * numeratorScale % denominator, true)
+    .slice(0, unitsLeft)
+    .forEach(index => { units[index] += BigInt(1); });
+
+  return new Map(ordered.map((entry, index) => [entry.key, units[index].toString()]));
+}
@@ -0,0 +1,285 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+
+const db = vi.hoisted(() => ({
+  users: [] as Array<{ id: string; roles: string; githubLogin: string | null }>,
+  assignments: [] as Array<{ userId: string; role: string; scopeType: string; scopeId: string }>,
+  memberships: [] as Array<{ userId: string; organizationId: string; role: string }>,
+  repositories: [] as Array<{ id: string; managerId: string; organizationId: string | null }>,
+  runs: [] as Array<{ id: string; repoIds: string; organizationId: string | null }>
+}));
+
+vi.mock('./db', () => ({
+  prisma: {
+    user: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.users.find(user => user.id === where.id) || null
+    },
+    roleAssignment: {
+      findMany: async ({ where }: { where: { userId: string } }) =>
+        db.assignments.filter(assignment => assignment.userId === where.userId)
+    },
+    organizationMember: {
+      findMany: async ({ where }: { where: { userId: string } }) =>
+        db.memberships.filter(membership => membership.userId === where.userId)
+    },
+    repository: {
+      findMany: async ({ where }: {
+        where: { managerId?: string; id?: { in: string[] }; organizationId?: { in: string[] } }
+      }) =>
+        db.repositories.filter(repo =>
+          where.managerId !== undefined ? repo.managerId === where.managerId
+            : where.organizationId ? !!repo.organizationId && where.organizationId.in.includes(repo.organizationId)
+              : where.id!.in.includes(repo.id)
+        )
+    },
+    payrollRun: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.runs.find(run => run.id === where.id) || null,
+      // The service checks coverage itself, so every run is a candidate
+      findMany: async () => db.runs
+    }
+  }
+}));
+
+import { rbacService, resolveRouteAccess, roleGrants, validateRoleGrant } from './rbac';
+
+const request = (path: string, method = 'GET', body?: unknown) =>
+  new Request(`http://localhost${path}`, {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } })
+  });
+
+describe('roles', () => {
+  it('grants what each role lists', () => {
+    expect(roleGrants('owner', 'role:manage')).toBe(true);
+    expect(roleGrants('manager', 'role:manage')).toBe(false);
+    expect(roleGrants('manager', 'system:admin')).toBe(false);
+    expect(roleGrants('manager', 'audit:read')).toBe(false);
+    expect(roleGrants('manager', 'run:execute')).toBe(true);
+    expect(roleGrants('approver', 'run:approve')).toBe(true);
+    expect(roleGrants('approver', 'run:execute')).toBe(false);
+    expect(roleGrants('contributor', 'run:view')).toBe(false);
+    expect(roleGrants('superuser', 'run:view')).toBe(false);
+  });
+
+  it('validates grants', () => {
+    expect(validateRoleGrant('viewer')).toEqual([]);
+    expect(validateRoleGrant('viewer', 'REPOSITORY', 'repo-1')).toEqual([]);
+    expect(validateRoleGrant('superuser')).toHaveLength(1);
+    expect(validateRoleGrant('viewer', 'TEAM', 'team-1')).toHaveLength(1);
+    expect(validateRoleGrant('viewer', 'REPOSITORY')).toHaveLength(1);
+  });
+});
+
+describe('resolveRouteAccess', () => {
+  it('maps routes and methods to permissions', async () => {
+    const cases: Array<[Request, string | null]> = [
+      [request('/api/payroll/runs'), 'run:view'],
+      [request('/api/payroll/runs/run-1'), 'run:view'],
+      [request('/api/payroll/runs/run-1/delete', 'POST'), 'run:create'],
+      [request('/api/payroll/runs/run-1/items/item-1', 'PATCH'), 'run:create'],
+      [request('/api/payroll/runs/run-1/reconcile'), 'run:view'],
+      [request('/api/payroll/runs/run-1/reconcile', 'POST'), 'run:execute'],
+      [request('/api/payroll/approval-policies'), 'run:view'],
+      [request('/api/payroll/approval-policies', 'POST'), 'policy:manage'],
+      [request('/api/payroll/assets', 'PUT'), 'settings:treasury'],
+      [request('/api/repositories/github'), 'repository:manage'],
+      [request('/api/organizations'), 'run:view'],
+      [request('/api/organizations', 'POST'), 'repository:manage'],
+      [request('/api/organizations/org-1/members', 'DELETE'), 'run:view'],
+      [request('/api/organizations/org-1/import', 'POST'), 'repository:manage'],
+      [request('/api/contributors?isManager=true'), 'run:view'],
+      [request('/api/contributors'), null],
+      [request('/api/contributors/github-stats'), 'run:view'],
+      [request('/api/contributors/update-wallet', 'POST'), 'repository:manage'],
+      [request('/api/payroll/payslips/run-1'), 'run:view'],
+      [request('/api/payroll/payslips/run-1', 'POST'), 'run:execute'],
+      [request('/api/payroll/payslips/run-1', 'DELETE'), 'run:execute'],
+      [request('/api/repositories/repo-1/analytics', 'POST'), 'repository:manage'],
+      [request('/api/integrations/status'), 'system:admin'],
+      [request('/api/integrations/status', 'POST'), 'system:admin'],
+      [request('/api/blockchain/monitor-donations', 'POST'), 'settings:treasury'],
+      [request('/api/admin/roles', 'POST'), 'role:manage'],
+      [request('/api/admin/audit-logs'), 'audit:read'],
+      [request('/api/auth/session'), null]
+    ];
+
+    for (const [req, permission] of cases) {
+      expect((await resolveRouteAccess(req))?.permission ?? null, `${req.method} ${req.url}`).toBe(permission);
+    }
+  });
+
+  it('lets routes that authenticate on their own through without a permission', async () => {
+    for (const [path, method] of [
+      ['/api/auth/session', 'GET'],
+      ['/api/donate/some-page', 'GET'],
+      ['/api/contributors', 'GET'],
+      ['/api/contributors', 'PUT'],
+      ['/api/contributors/alice/profile', 'GET'],
+      ['/api/self/verification', 'POST']
+    ]) {
+      expect(await resolveRouteAccess(request(path, method)), `${method} ${path}`).toEqual({});
+    }
+  });
+
+  it('lists every API route and method', async () => {
+    const apiDir = join(__dirname, '..', 'app', 'api');
+    const devOnly = /^\/api\/(?:debug|test|test-pyusd|demo\/init-donation-page|self\/verification\/test)(?:\/|$)/;
+    const routes = (dir: string): Array<[string, string[]]> =>
+      readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        if (entry.isDirectory()) {
+          return routes(join(dir, entry.name));
+        }
+        if (entry.name !== 'route.ts') {
+          return [];
+        }
+        const path = `/api/${relative(apiDir, dir).split(sep).map(segment => segment.replace(/^\[.*\]$/, 'example')).join('/')}`;
+        const source = readFileSync(join(dir, entry.name), 'utf8');
+        const methods = Array.from(source.matchAll(/export (?:async )?function (GET|POST|PUT|PATCH|DELETE)\b/g), match => match[1]);
+        return [[path, methods.length > 0 ? methods : ['GET', 'POST']]];
+      });
+
+    for (const [path, methods] of routes(apiDir).filter(([path]) => !devOnly.test(path))) {
+      for (const method of methods) {
+        expect(await resolveRouteAccess(request(path, method)), `${method} ${path}`).not.toBeNull();
+      }
+    }
+  });
+
+  it('lists no access for unknown routes', async () => {
+    expect(await resolveRouteAccess(request('/api/unknown'))).toBeNull();
+    expect(await resolveRouteAccess(request('/api/payroll/runs', 'DELETE'))).toBeNull();
+  });
+
+  it('ignores a trailing slash and decodes path parameters', async () => {
+    expect(await resolveRouteAccess(request('/api/payroll/runs/run%201/'))).toEqual({
+      permission: 'run:view',
+      scope: { runId: 'run 1' }
+    });
+  });
+
+  it('reads run actions from the body without consuming it', async () => {
+    const create = request('/api/payroll/runs', 'POST', { action: 'create', repositoryIds: ['repo-1'], organizationId: 'org-1' });
+    expect(await resolveRouteAccess(create)).toEqual({
+      permission: 'run:create',
+      scope: { repositoryIds: ['repo-1'], organizationId: 'org-1' }
+    });
+    expect(await create.json()).toMatchObject({ action: 'create' });
+
+    expect(await resolveRouteAccess(request('/api/payroll/runs', 'POST', { action: 'approve', runId: 'run-1' }))).toEqual({
+      permission: 'run:approve',
+      scope: { runId: 'run-1' }
+    });
+    expect(await resolveRouteAccess(request('/api/payroll/runs', 'POST', { action: 'resume', runId: 'run-1' }))).toEqual({
+      permission: 'run:execute',
+      scope: { runId: 'run-1' }
+    });
+  });
+
+  it('scopes direct execution and repository analytics', async () => {
+    expect(await resolveRouteAccess(request('/api/payroll/execute-hedera', 'POST', { payrollRunId: 'run-1' }))).toEqual({
+      permission: 'run:execute',
+      scope: { runId: 'run-1' }
+    });
+    expect(await resolveRouteAccess(request('/api/repositories/repo-1/analytics'))).toEqual({
+      permission: 'run:view',
+      scope: { repositoryIds: ['repo-1'] }
+    });
+  });
+
+  it('picks the scheduler permission by job', async () => {
+    const job = (jobId: string) => request('/api/integrations/scheduler', 'POST', { jobId });
+
+    expect((await resolveRouteAccess(job('invoice_generation')))?.permission).toBe('invoice:issue');
+    expect((await resolveRouteAccess(job('resume_payroll_runs')))?.permission).toBe('system:admin');
+  });
+});
+
+describe('RbacService.hasPermission', () => {
+  beforeEach(() => {
+    db.users = [
+      { id: 'admin', roles: '["manager"]', githubLogin: 'admin' },
+      { id: 'scoped', roles: '[]', githubLogin: 'scoped' },
+      { id: 'member', roles: '[]', githubLogin: 'member' },
+      { id: 'nobody', roles: '[]', githubLogin: 'nobody' },
+      { id: 'owner', roles: '["owner"]', githubLogin: 'owner' },
+      { id: 'org-owner', roles: '["manager"]', githubLogin: 'org-owner' }
+    ];
+    db.assignments = [
+      { userId: 'scoped', role: 'payroll-admin', scopeType: 'REPOSITORY', scopeId: 'repo-a' }
+    ];
+    db.memberships = [
+      { userId: 'member', organizationId: 'org-1', role: 'MANAGER' },
+      { userId: 'org-owner', organizationId: 'org-1', role: 'OWNER' }
+    ];
+    db.repositories = [
+      { id: 'repo-a', managerId: 'someone', organizationId: null },
+      { id: 'repo-b', managerId: 'someone', organizationId: null },
+      { id: 'repo-org', managerId: 'someone', organizationId: 'org-1' }
+    ];
+    db.runs = [
+      { id: 'run-a', repoIds: '["repo-a"]', organizationId: null },
+      { id: 'run-ab', repoIds: '["repo-a","repo-b"]', organizationId: null },
+      { id: 'run-org', repoIds: '["repo-org"]', organizationId: 'org-1' },
+      { id: 'run-empty', repoIds: '[]', organizationId: null }
+    ];
+  });
+
+  it('lets global roles through everywhere', async () => {
+    expect(await rbacService.hasPermission('admin', 'run:execute', { runId: 'run-ab' })).toBe(true);
+    expect(await rbacService.hasPermission('admin', 'run:execute', { runId: 'missing' })).toBe(true);
+  });
+
+  it('grants global permissions to global roles only', async () => {
+    expect(await rbacService.hasPermission('owner', 'role:manage')).toBe(true);
+    expect(await rbacService.hasPermission('owner', 'audit:read')).toBe(true);
+
+    // Verified managers and scoped owners cannot hand out roles or read every tenant's data
+    for (const permission of ['role:manage', 'system:admin', 'audit:read'] as const) {
+      expect(await rbacService.hasPermission('admin', permission), `admin ${permission}`).toBe(false);
+      expect(await rbacService.hasPermission('org-owner', permission), `org-owner ${permission}`).toBe(false);
+      expect(
+        await rbacService.hasPermission('org-owner', permission, { organizationId: 'org-1' }),
+        `org-owner ${permission} on org-1`
+      ).toBe(false);
+    }
+
+    expect(await rbacService.getPermissions('org-owner')).not.toContain('role:manage');
+    expect(await rbacService.getPermissions('owner')).toContain('role:manage');
+  });
+
+  it('requires a scoped role on every repository of a run', async () => {
+    expect(await rbacService.hasPermission('scoped', 'run:execute', { runId: 'run-a' })).toBe(true);
+    expect(await rbacService.hasPermission('scoped', 'run:execute', { runId: 'run-ab' })).toBe(false);
+    expect(await rbacService.hasPermission('scoped', 'run:approve', { runId: 'run-a' })).toBe(false);
+  });
+
+  it('covers organization repositories through membership', async () => {
+    expect(await rbacService.hasPermission('member', 'run:execute', { runId: 'run-org' })).toBe(true);
+    expect(await rbacService.hasPermission('member', 'run:create', { repositoryIds: ['repo-org'] })).toBe(true);
+    expect(await rbacService.hasPermission('member', 'run:create', { repositoryIds: ['repo-a'] })).toBe(false);
+    expect(await rbacService.hasPermission('scoped', 'run:create', { organizationId: 'org-1' })).toBe(false);
+  });
+
+  it('denies scoped roles a run that resolves to nothing', async () => {
+    expect(await rbacService.hasPermission('scoped', 'run:execute', { runId: 'missing' })).toBe(false);
+    expect(await rbacService.hasPermission('scoped', 'run:execute', { runId: 'run-empty' })).toBe(false);
+  });
+
+  it('denies scoped roles repositories that do not exist', async () => {
+    expect(await rbacService.hasPermission('scoped', 'run:create', { repositoryIds: ['repo-a', 'missing'] })).toBe(false);
+  });
+
+  it('filters the run list to runs the user may view', async () => {
+    expect(await rbacService.runFilter('admin', 'run:view')).toEqual({});
+    expect(await rbacService.runFilter('scoped', 'run:view')).toEqual({ id: { in: ['run-a'] } });
+    expect(await rbacService.runFilter('member', 'run:view')).toEqual({ id: { in: ['run-org'] } });
+    expect(await rbacService.runFilter('nobody', 'run:view')).toEqual({ id: { in: [] } });
+  });
+
+  it('asks whether any role grants the permission for an empty scope', async () => {
+    expect(await rbacService.hasPermission('scoped', 'run:view')).toBe(true);
+    expect(await rbacService.hasPermission('scoped', 'audit:read')).toBe(false);
+    expect(await rbacService.hasPermission('nobody', 'run:view')).toBe(false);
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * Role-based access control
+ * Roles grant permissions globally (User.roles) or on a repository or
+ * organization (RoleAssignment). The API middleware maps every guarded
+ * /api route to the permission and scope it needs.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+
+export type Role =
+  | 'owner'
+  | 'manager'
+  | 'payroll-admin'
+  | 'approver'
+  | 'viewer'
+  | 'auditor'
+  | 'contributor';
+
+export type Permission =
+  | 'run:view'
+  | 'run:create'
+  | 'run:approve'
+  | 'run:execute'
+  | 'invoice:issue'
+  | 'settings:treasury'
+  | 'settings:identity'
+  | 'policy:manage'
+  | 'repository:manage'
+  | 'audit:read'
+  | 'role:manage'
+  | 'system:admin';
+
+export type ScopeType = 'REPOSITORY' | 'ORGANIZATION';
+
+export interface RoleScope {
+  type: ScopeType;
+  id: string;
+}
+
+/**
+ * What a request touches; permissions must cover all of it
+ */
+export interface AccessScope {
+  repositoryIds?: string[];
+  organizationId?: string;
+  runId?: string;
+}
+
+export interface RouteAccess {
+  permission?: Permission; // None when the route authenticates the caller itself
+  scope?: AccessScope;
+}
+
+export interface ScopedRole {
+  role: Role;
+  scopeType: ScopeType;
+  scopeId: string;
+  source: 'ASSIGNMENT' | 'ORGANIZATION_MEMBER' | 'REPOSITORY_MANAGER';
+}
+
+export const PERMISSIONS: Permission[] = [
+  'run:view',
+  'run:create',
+  'run:approve',
+  'run:execute',
+  'invoice:issue',
+  'settings:treasury',
+  'settings:identity',
+  'policy:manage',
+  'repository:manage',
+  'audit:read',
+  'role:manage',
+  'system:admin'
+];
+
+/**
+ * Permissions only a global role grants. They reach every tenant's data or
+ * hand out roles, so a role on one repository or organization never does.
+ */
+export const GLOBAL_PERMISSIONS: Permission[] = ['role:manage', 'system:admin', 'audit:read'];
+
+/**
+ * Roles an administrator can assign. 'manager' is the role Self verification
+ * grants every verified user, so it runs payroll but holds none of the
+ * global permissions.
+ */
+export const ROLES: Role[] = ['owner', 'manager', 'payroll-admin', 'approver', 'viewer', 'auditor', 'contributor'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: PERMISSIONS,
+  manager: PERMISSIONS.filter(permission => !GLOBAL_PERMISSIONS.includes(permission)),
+  'payroll-admin': ['run:view', 'run:create', 'run:execute', 'invoice:issue', 'repository:manage'],
+  approver: ['run:view', 'run:approve'],
+  viewer: ['run:view'],
+  auditor: ['run:view', 'audit:read'],
+  contributor: [] // Contributors only reach their own profile, wallet and payslips
+};
+
+/**
+ * Organization member roles as RBAC roles on the organization
+ */
+const ORGANIZATION_MEMBER_ROLES: Record<string, Role> = {
+  OWNER: 'owner',
+  MANAGER: 'payroll-admin',
+  VIEWER: 'viewer'
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return PERMISSIONS.includes(value as Permission);
+}
+
+export function roleGrants(role: string, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function parseRoles(json: string | null | undefined): string[] {
+  try {
+    const roles = json ? JSON.parse(json) : [];
+    return Array.isArray(roles) ? roles : [];
+  } catch {
+    return [];
+  }
+}
+
+export function validateRoleGrant(role: unknown, scopeType?: unknown, scopeId?: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRole(role)) {
+    errors.push(`Role must be one of ${ROLES.join(', ')}`);
+  }
+  if (scopeType !== undefined && scopeType !== null && scopeType !== 'REPOSITORY' && scopeType !== 'ORGANIZATION') {
+    errors.push('Scope must be REPOSITORY or ORGANIZATION');
+  }
+  if (scopeType && !scopeId) {
+    errors.push('A scoped role needs the repository or organization ID');
+  }
+
+  return errors;
+}
+
+/**
+ * GitHub logins that are owners regardless of stored roles, so a fresh
+ * install has someone who can assign roles
+ */
+function bootstrapOwnerLogins(): string[] {
+  return (process.env.RBAC_OWNER_LOGINS || '')
+    .split(',')
+    .map(login => login.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export class RbacService {
+
+  /**
+   * Roles the user holds everywhere
+   */
+  async getGlobalRoles(userId: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { roles: true, githubLogin: true }
+    });
+    if (!user) {
+      return [];
+    }
+
+    const roles = parseRoles(user.roles);
+    if (user.githubLogin && bootstrapOwnerLogins().includes(user.githubLogin.toLowerCase())) {
+      roles.push('owner');
+    }
+
+    return roles;
+  }
+
+  /**
+   * Roles the user holds on single repositories and organizations, from
+   * explicit assignments, organization membership and managing a repository
+   */
+  async getScopedRoles(userId: string): Promise<ScopedRole[]> {
+    const [assignments, memberships, managedRepos] = await Promise.all([
+      prisma.roleAssignment.findMany({ where: { userId } }),
+      prisma.organizationMember.findMany({ where: { userId } }),
+      prisma.repository.findMany({ where: { managerId: userId }, select: { id: true } })
+    ]);
+
+    return [
+      ...assignments
+        .filter(assignment => isRole(assignment.role))
+        .map(assignment => ({
+          role: assignment.role as Role,
+          scopeType: assignment.scopeType as ScopeType,
+          scopeId: assignment.scopeId,
+          source: 'ASSIGNMENT' as const
+        })),
+      ...memberships.map(membership => ({
+        role: ORGANIZATION_MEMBER_ROLES[membership.role] || 'viewer',
+        scopeType: 'ORGANIZATION' as const,
+        scopeId: membership.organizationId,
+        source: 'ORGANIZATION_MEMBER' as const
+      })),
+      ...managedRepos.map(repo => ({
+        role: 'manager' as const,
+        scopeType: 'REPOSITORY' as const,
+        scopeId: repo.id,
+        source: 'REPOSITORY_MANAGER' as const
+      }))
+    ];
+  }
+
+  /**
+   * Whether the user holds the permission on everything in the scope. An
+   * empty scope asks whether the user holds it anywhere; the route then
+   * limits what it returns to the user's own resources. Global permissions
+   * need a global role whatever the scope.
+   */
+  async hasPermission(userId: string, permission: Permission, scope: AccessScope = {}): Promise<boolean> {
+    const globalRoles = await this.getGlobalRoles(userId);
+    if (globalRoles.some(role => roleGrants(role, permission))) {
+      return true;
+    }
+    if (GLOBAL_PERMISSIONS.includes(permission)) {
+      return false;
+    }
+
+    const granting = (await this.getScopedRoles(userId)).filter(scoped => roleGrants(scoped.role, permission));
+    const target = await this.resolveScope(scope);
+
+    if (!target) {
+      // A run naming no repositories or organization, or no run at all, is
+      // covered by no scoped role
+      return !scope.runId && granting.length > 0;
+    }
+
+    // Nor are repositories that do not exist
+    if (target.repositories.length < target.repositoryIds.length) {
+      return false;
+    }
+
+    const coversOrganization = (organizationId: string | null) =>
+      !!organizationId && granting.some(scoped => scoped.scopeType === 'ORGANIZATION' && scoped.scopeId === organizationId);
+
+    if (target.organizationId && !coversOrganization(target.organizationId)) {
+      return false;
+    }
+
+    return target.repositories.every(repo =>
+      coversOrganization(repo.organizationId) ||
+      granting.some(scoped => scoped.scopeType === 'REPOSITORY' && scoped.scopeId === repo.id)
+    );
+  }
+
+  /**
+   * Prisma filter for the runs the user holds the permission on: every run
+   * with a global role, else the runs whose organization and repositories
+   * their scoped roles all cover, as hasPermission checks a single run
+   */
+  async runFilter(userId: string, permission: Permission): Promise<Prisma.PayrollRunWhereInput> {
+    const globalRoles = await this.getGlobalRoles(userId);
+    if (globalRoles.some(role => roleGrants(role, permission))) {
+      return {};
+    }
+
+    const granting = GLOBAL_PERMISSIONS.includes(permission)
+      ? []
+      : (await this.getScopedRoles(userId)).filter(scoped => roleGrants(scoped.role, permission));
+    const organizationIds = granting.filter(scoped => scoped.scopeType === 'ORGANIZATION').map(scoped => scoped.scopeId);
+    const repositoryIds = new Set(granting.filter(scoped => scoped.scopeType === 'REPOSITORY').map(scoped => scoped.scopeId));
+
+    const organizationRepos = await prisma.repository.findMany({
+      where: { organizationId: { in: organizationIds } },
+      select: { id: true }
+    });
+    organizationRepos.forEach(repo => repositoryIds.add(repo.id));
+
+    if (organizationIds.length === 0 && repositoryIds.size === 0) {
+      return { id: { in: [] } };
+    }
+
+    const candidates = await prisma.payrollRun.findMany({
+      where: {
+        OR: [
+          { organizationId: { in: organizationIds } },
+          ...Array.from(repositoryIds, id => ({ repoIds: { contains: id } }))
+        ]
+      },
+      select: { id: true, repoIds: true, organizationId: true }
+    });
+
+    const covered = candidates.filter(run => {
+      const runRepositoryIds = parseRoles(run.repoIds);
+      return (runRepositoryIds.length > 0 || !!run.organizationId) &&
+        (!run.organizationId || organizationIds.includes(run.organizationId)) &&
+        runRepositoryIds.every(id => repositoryIds.has(id));
+    });
+
+    return { id: { in: covered.map(run => run.id) } };
+  }
+
+  /**
+   * Every permission the user holds in at least one scope
+   */
+  async getPermissions(userId: string): Promise<Permission[]> {
+    const globalRoles = await this.getGlobalRoles(userId);
+    const scopedRoles = (await this.getScopedRoles(userId)).map(scoped => scoped.role);
+
+    return PERMISSIONS.filter(permission =>
+      globalRoles.some(role => roleGrants(role, permission)) ||
+      (!GLOBAL_PERMISSIONS.includes(permission) && scopedRoles.some(role => roleGrants(role, permission)))
+    );
+  }
+
+  async listAssignments(userId?: string) {
+    return prisma.roleAssignment.findMany({
+      where: userId ? { userId } : undefined,
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async assignScopedRole(userId: string, role: Role, scope: RoleScope, grantedById?: string) {
+    return prisma.roleAssignment.upsert({
+      where: {
+        userId_role_scopeType_scopeId: { userId, role, scopeType: scope.type, scopeId: scope.id }
+      },
+      update: {},
+      create: { userId, role, scopeType: scope.type, scopeId: scope.id, grantedById }
+    });
+  }
+
+  async revokeScopedRole(userId: string, role: Role, scope: RoleScope): Promise<void> {
+    await prisma.roleAssignment.deleteMany({
+      where: { userId, role, scopeType: scope.type, scopeId: scope.id }
+    });
+  }
+
+  /**
+   * Repositories (with their organization) and organization a scope covers,
+   * or null when it names nothing
+   */
+  private async resolveScope(scope: AccessScope) {
+    const repositoryIds = new Set(scope.repositoryIds || []);
+    let organizationId = scope.organizationId;
+
+    if (scope.runId) {
+      const run = await prisma.payrollRun.findUnique({
+        where: { id: scope.runId },
+        select: { repoIds: true, organizationId: true }
+      });
+      parseRoles(run?.repoIds).forEach(id => repositoryIds.add(id));
+      organizationId = organizationId || run?.organizationId || undefined;
+    }
+
+    if (repositoryIds.size === 0 && !organizationId) {
+      return null;
+    }
+
+    const repositories = await prisma.repository.findMany({
+      where: { id: { in: Array.from(repositoryIds) } },
+      select: { id: true, organizationId: true }
+    });
+
+    return { repositoryIds: Array.from(repositoryIds), repositories, organizationId };
+  }
+}
+
+export const rbacService = new RbacService();
+
+type AccessResolver = (request: Request, params: string[]) => RouteAccess | null | Promise<RouteAccess | null>;
+
+interface ApiAccessRule {
+  path: RegExp;
+  methods?: string[];
+  access: AccessResolver;
+}
+
+/**
+ * Read a JSON body without consuming it for the route handler
+ */
+async function peekJson(request: Request): Promise<Record<string, unknown>> {
+  try {
+    return await request.clone().json();
+  } catch {
+    return {};
+  }
+}
+
+const allow = (permission: Permission): AccessResolver => () => ({ permission });
+
+/**
+ * Public routes and routes that only serve the caller's own data
+ */
+const selfAuthenticated: AccessResolver = () => ({});
+
+const onRun = (permission: Permission): AccessResolver => (_, [runId]) => ({ permission, scope: { runId } });
+
+const onOrganization = (permission: Permission): AccessResolver => (_, [organizationId]) => ({
+  permission,
+  scope: { organizationId }
+});
+
+/**
+ * Payroll run actions share one POST endpoint
+ */
+const runAction: AccessResolver = async request => {
+  const body = await peekJson(request);
+
+  if (body.action === 'preview' || body.action === 'create') {
+    return {
+      permission: 'run:create',
+      scope: {
+        repositoryIds: Array.isArray(body.repositoryIds) ? body.repositoryIds as string[] : undefined,
+        organizationId: typeof body.organizationId === 'string' ? body.organizationId : undefined
+      }
+    };
+  }
+
+  const runId = typeof body.runId === 'string' ? body.runId : undefined;
+  return {
+    permission: body.action === 'approve' ? 'run:approve' : 'run:execute',
+    scope: { runId }
+  };
+};
+
+/**
+ * Every API route and the access it needs. Routes listed without a
+ * permission authenticate on their own: NextAuth, public donation pages
+ * and contributors' own profile endpoints. Unlisted routes are refused.
+ */
+export const API_ACCESS_RULES: ApiAccessRule[] = [
+  { path: /^\/api\/auth\/.+$/, access: selfAuthenticated },
+  { path: /^\/api\/donate\/[^/]+(?:\/create|\/history)?$/, access: selfAuthenticated },
+  { path: /^\/api\/crypto-prices$/, methods: ['GET'], access: selfAuthenticated },
+  { path: /^\/api\/self\/verification$/, access: selfAuthenticated },
+  { path: /^\/api\/register-wallet$/, methods: ['POST'], access: selfAuthenticated },
+  { path: /^\/api\/dashboard\/(?:activity|stats)$/, methods: ['GET'], access: selfAuthenticated },
+  { path: /^\/api\/payroll\/runs$/, methods: ['GET'], access: allow('run:view') },
+  { path: /^\/api\/payroll\/runs$/, methods: ['POST'], access: runAction },
+  { path: /^\/api\/payroll\/runs\/([^/]+)$/, access: onRun('run:view') },
+  { path: /^\/api\/payroll\/runs\/([^/]+)\/(?:delete|items\/[^/]+)$/, access: onRun('run:create') },
+  { path: /^\/api\/payroll\/runs\/([^/]+)\/(?:preflight|reconcile|schedules)$/, methods: ['GET'], access: onRun('run:view') },
+  { path: /^\/api\/payroll\/runs\/([^/]+)\/(?:preflight|reconcile|schedules)$/, access: onRun('run:execute') },
+  {
+    path: /^\/api\/payroll\/execute-hedera$/,
+    access: async request => {
+      const { payrollRunId } = await peekJson(request);
+      return { permission: 'run:execute', scope: { runId: typeof payrollRunId === 'string' ? payrollRunId : undefined } };
+    }
+  },
+  {
+    path: /^\/api\/payroll\/payslips$/,
+    methods: ['GET'],
+    access: request => ({
+      permission: 'run:view',
+      scope: { runId: new URL(request.url).searchParams.get('runId') || undefined }
+    })
+  },
+  {
+    path: /^\/api\/payroll\/payslips$/,
+    methods: ['POST'],
+    access: async request => {
+      const { runId } = await peekJson(request);
+      return { permission: 'run:execute', scope: { runId: typeof runId === 'string' ? runId : undefined } };
+    }
+  },
+  { path: /^\/api\/payroll\/payslips\/([^/]+)$/, methods: ['GET'], access: onRun('run:view') },
+  { path: /^\/api\/payroll\/payslips\/([^/]+)$/, methods: ['POST', 'DELETE'], access: onRun('run:execute') },
+  { path: /^\/api\/payroll\/approval-policies$/, methods: ['GET'], access: allow('run:view') },
+  { path: /^\/api\/payroll\/approval-policies$/, access: allow('policy:manage') },
+  { path: /^\/api\/payroll\/assets$/, methods: ['GET'], access: allow('run:view') },
+  { path: /^\/api\/payroll\/assets$/, access: allow('settings:treasury') },
+  { path: /^\/api\/payroll\/automated$/, methods: ['GET'], access: allow('run:view') },
+  { path: /^\/api\/payroll\/automated$/, access: allow('run:create') },
+  { path: /^\/api\/repositories(?:\/github)?$/, access: allow('repository:manage') },
+  {
+    path: /^\/api\/repositories\/([^/]+)\/analytics$/,
+    methods: ['GET'],
+    access: (_, [repositoryId]) => ({ permission: 'run:view', scope: { repositoryIds: [repositoryId] } })
+  },
+  {
+    path: /^\/api\/repositories\/([^/]+)\/analytics$/,
+    access: (_, [repositoryId]) => ({ permission: 'repository:manage', scope: { repositoryIds: [repositoryId] } })
+  },
+  { path: /^\/api\/organizations$/, methods: ['GET'], access: allow('run:view') },
+  { path: /^\/api\/organizations$/, access: allow('repository:manage') },
+  // Any member may leave; the route only lets owners remove others
+  { path: /^\/api\/organizations\/([^/]+)\/members$/, methods: ['DELETE'], access: onOrganization('run:view') },
+  { path: /^\/api\/organizations\/([^/]+)(?:\/members|\/import)?$/, access: onOrganization('repository:manage') },
+  {
+    path: /^\/api\/contributors$/,
+    methods: ['GET'],
+    access: request => new URL(request.url).searchParams.get('isManager') === 'true'
+      ? { permission: 'run:view' }
+      : {}
+  },
+  // Contributors create, edit and leave their own profile
+  { path: /^\/api\/contributors$/, methods: ['POST', 'PUT', 'DELETE'], access: selfAuthenticated },
+  { path: /^\/api\/contributors\/[^/]+\/(?:profile|wallet)$/, access: selfAuthenticated },
+  { path: /^\/api\/contributors\/github-stats$/, methods: ['GET'], access: allow('run:view') },
+  { path: /^\/api\/contributors\/update-wallet$/, methods: ['POST'], access: allow('repository:manage') },
+  { path: /^\/api\/contributors\/aliases$/, access: allow('settings:identity') },
+  { path: /^\/api\/settings\/identity$/, access: allow('settings:identity') },
+  { path: /^\/api\/settings\/manager-wallet$/, access: allow('settings:treasury') },
+  { path: /^\/api\/settings\/donation-page$/, access: allow('settings:treasury') },
+  { path: /^\/api\/blockchain\/monitor-donations$/, access: allow('settings:treasury') },
+  { path: /^\/api\/admin\/resume-payroll-runs$/, access: allow('run:execute') },
+  { path: /^\/api\/admin\/fix-stuck-agents$/, access: allow('system:admin') },
+  { path: /^\/api\/admin\/roles$/, access: allow('role:manage') },
+  { path: /^\/api\/admin\/audit-logs$/, access: allow('audit:read') },
+  { path: /^\/api\/admin\/diagnostics$/, access: allow('system:admin') },
+  { path: /^\/api\/integrations\/status$/, access: allow('system:admin') },
+  { path: /^\/api\/integrations\/scheduler$/, methods: ['GET'], access: allow('run:view') },
+  {
+    path: /^\/api\/integrations\/scheduler$/,
+    access: async request => {
+      const { jobId } = await peekJson(request);
+      return { permission: jobId === 'invoice_generation' ? 'invoice:issue' : 'system:admin' };
+    }
+  }
+];
+
+/**
+ * Permission and scope an API request needs, or null when no rule lists
+ * the route
+ */
+export async function resolveRouteAccess(request: Request): Promise<RouteAccess | null> {
+  const { pathname } = new URL(request.url);
+  const path = pathname.replace(/\/+$/, '');
+
+  for (const rule of API_ACCESS_RULES) {
+    if (rule.methods && !rule.methods.includes(request.method)) {
+      continue;
+    }
+
+    const match = path.match(rule.path);
+    if (match) {
+      return rule.access(request, match.slice(1).map(decodeURIComponent));
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,414 @@
+/**
+ * Payroll Reconciliation Service
+ * Compares what the database says a run paid, in its own asset and in split
+ * payout legs, with what actually left the treasury according to the mirror node
+ */
+
+import { prisma } from './db';
+import { lighthouseService } from './lighthouse';
+import {
+  HederaService,
+  MirrorNodeTransaction,
+  createHederaService,
+  toMirrorTransactionId
+} from './hedera';
+
+export type ReconciliationClassification =
+  | 'MATCHED'
+  | 'AMOUNT_MISMATCH'
+  | 'MISSING_ON_CHAIN'
+  | 'UNEXPECTED_TRANSFER'
+  | 'LOOKUP_FAILED'; // The mirror node could not be asked, so nothing is known either way
+
+export interface ReconciliationEntry {
+  classification: ReconciliationClassification;
+  payoutId?: string;
+  legId?: string; // Set for split payout legs
+  asset: string; // 'HBAR' or token ID the amounts are in
+  githubLogin?: string;
+  recipientAccountId: string;
+  txId?: string;
+  consensusTimestamp?: string;
+  expectedAmount: string; // Smallest unit; "0" for transfers nobody recorded
+  actualAmount: string;
+  fee?: string; // Tinybars charged for the transaction
+  detail?: string;
+}
+
+interface RecordedTransfer {
+  payoutId: string;
+  legId?: string;
+  contributor: { hederaAccountId: string; githubHandle: string | null };
+  asset: string;
+  txId: string | null;
+  status: string;
+  nativeAmount: string;
+  scheduled: boolean;
+  confirmedAt: Date | null;
+}
+
+export interface ReconciliationSummary {
+  matched: number;
+  amountMismatches: number;
+  missingOnChain: number;
+  unexpectedTransfers: number;
+  lookupFailures: number;
+  totalFees: string;
+}
+
+export interface ReconciliationReport {
+  runId: string;
+  asset: string;
+  environment: string;
+  treasuryAccountId: string;
+  window: { from: string; to: string };
+  generatedAt: string;
+  hasDiscrepancies: boolean;
+  verified: boolean; // False while any mirror node lookup failed
+  summary: ReconciliationSummary;
+  entries: ReconciliationEntry[];
+  artifactCid?: string;
+}
+
+// Accounts credited by every transaction: node fees, the fee collection
+// account and the staking reward accounts
+const FEE_ACCOUNTS = new Set(['0.0.98', '0.0.800', '0.0.801']);
+
+// Padding around the run window so transfers near its edges are listed
+const WINDOW_PADDING_MS = 5 * 60 * 1000;
+
+export class ReconciliationService {
+  private hederaService: HederaService;
+
+  constructor(hederaService: HederaService) {
+    this.hederaService = hederaService;
+  }
+
+  /**
+   * Reconcile a run's payouts against the mirror node, store the report as an
+   * artifact and flag the run when discrepancies exist
+   */
+  async reconcileRun(runId: string): Promise<ReconciliationReport> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: {
+        payouts: {
+          include: { contributor: true, legs: true }
+        }
+      }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    if (!run.startedAt) {
+      throw new Error('Payroll run has not been executed');
+    }
+
+    const treasuryAccountId = this.hederaService.getOperatorAccountId();
+    const entries: ReconciliationEntry[] = [];
+    const mirrorTransactions = new Map<string, { found?: MirrorNodeTransaction | null; error?: string }>();
+    const fees = new Map<string, string>();
+
+    // Every transfer the run recorded: payouts in the run asset and split
+    // legs in their own assets
+    const transfers: RecordedTransfer[] = run.payouts.flatMap(payout => [
+      // Paid entirely in split legs, so nothing was sent in the run asset
+      ...(payout.assetPercent === 0 ? [] : [{
+        payoutId: payout.id,
+        contributor: payout.contributor,
+        asset: run.asset,
+        txId: payout.txId,
+        status: payout.status,
+        nativeAmount: payout.nativeAmount,
+        scheduled: !!payout.scheduleId,
+        confirmedAt: payout.confirmedAt
+      }]),
+      ...payout.legs.map(leg => ({
+        payoutId: payout.id,
+        legId: leg.id,
+        contributor: payout.contributor,
+        asset: leg.asset,
+        txId: leg.txId,
+        status: leg.status,
+        nativeAmount: leg.nativeAmount,
+        scheduled: false,
+        confirmedAt: leg.confirmedAt
+      }))
+    ]);
+
+    for (const transfer of transfers) {
+      const recipientAccountId = transfer.contributor.hederaAccountId;
+      const recordedPaid = transfer.status === 'CONFIRMED' || transfer.status === 'SUBMITTED';
+      const label = transfer.legId ? `${transfer.asset} leg` : 'Payout';
+      const base = {
+        payoutId: transfer.payoutId,
+        ...(transfer.legId && { legId: transfer.legId }),
+        asset: transfer.asset,
+        githubLogin: transfer.contributor.githubHandle || undefined,
+        recipientAccountId
+      };
+
+      if (!transfer.txId) {
+        if (recordedPaid) {
+          entries.push({
+            ...base,
+            classification: 'MISSING_ON_CHAIN',
+            expectedAmount: transfer.nativeAmount,
+            actualAmount: '0',
+            detail: `${label} is ${transfer.status} but has no transaction ID`
+          });
+        }
+        continue;
+      }
+
+      // Batched payouts share a transaction, so look each one up once
+      if (!mirrorTransactions.has(transfer.txId)) {
+        try {
+          mirrorTransactions.set(transfer.txId, {
+            found: await this.hederaService.verifyTransactionFromMirror(transfer.txId, transfer.scheduled)
+          });
+        } catch (error) {
+          mirrorTransactions.set(transfer.txId, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        const fee = await this.hederaService.getTransactionFee(transfer.txId, transfer.scheduled);
+        if (fee) {
+          fees.set(transfer.txId, fee);
+        }
+      }
+
+      const lookup = mirrorTransactions.get(transfer.txId)!;
+      if (lookup.error !== undefined) {
+        entries.push({
+          ...base,
+          classification: 'LOOKUP_FAILED',
+          txId: transfer.txId,
+          expectedAmount: recordedPaid ? transfer.nativeAmount : '0',
+          actualAmount: '0',
+          detail: `Mirror node lookup failed: ${lookup.error}`
+        });
+        continue;
+      }
+
+      const mirrorTx = lookup.found;
+      const succeeded = mirrorTx?.result === 'SUCCESS';
+      const actualAmount = succeeded
+        ? getCreditedAmount(mirrorTx!, recipientAccountId, transfer.asset)
+        : BigInt(0);
+
+      const entry: ReconciliationEntry = {
+        ...base,
+        classification: 'MATCHED',
+        txId: transfer.txId,
+        consensusTimestamp: mirrorTx?.consensus_timestamp,
+        expectedAmount: recordedPaid ? transfer.nativeAmount : '0',
+        actualAmount: actualAmount.toString(),
+        fee: fees.get(transfer.txId)
+      };
+
+      if (!recordedPaid) {
+        // Transfers recorded as unpaid only matter if money moved anyway
+        if (actualAmount === BigInt(0)) {
+          continue;
+        }
+        entry.classification = 'UNEXPECTED_TRANSFER';
+        entry.detail = `${label} is ${transfer.status} but the transfer succeeded on-chain`;
+      } else if (!mirrorTx) {
+        entry.classification = 'MISSING_ON_CHAIN';
+        entry.detail = 'Transaction not found on the mirror node';
+      } else if (!succeeded) {
+        entry.classification = 'MISSING_ON_CHAIN';
+        entry.detail = `Transaction result: ${mirrorTx.result}`;
+      } else if (actualAmount.toString() !== transfer.nativeAmount) {
+        entry.classification = 'AMOUNT_MISMATCH';
+        entry.detail = `Expected ${transfer.nativeAmount}, recipient was credited ${actualAmount}`;
+      }
+
+      entries.push(entry);
+    }
+
+    // Any other treasury outflow inside the run window, in any asset the run
+    // paid out in, is unexpected
+    const knownTxIds = new Set(
+      transfers
+        .filter(transfer => transfer.txId)
+        .map(transfer => toMirrorTransactionId(transfer.txId!))
+    );
+    const assets = new Set(transfers.map(transfer => transfer.asset).concat(run.asset));
+    const latestConfirmation = transfers.reduce<number>(
+      (latest, transfer) => Math.max(latest, transfer.confirmedAt?.getTime() || 0),
+      0
+    );
+    const from = new Date(run.startedAt.getTime() - WINDOW_PADDING_MS);
+    const to = new Date(Math.min(
+      Date.now(),
+      Math.max((run.finishedAt || new Date()).getTime(), latestConfirmation) + WINDOW_PADDING_MS
+    ));
+
+    const treasuryTransactions = await this.hederaService.getAccountTransactions(
+      treasuryAccountId,
+      from,
+      to
+    );
+
+    for (const tx of treasuryTransactions) {
+      if (tx.result !== 'SUCCESS' || knownTxIds.has(tx.transaction_id)) {
+        continue;
+      }
+
+      for (const asset of assets) {
+        for (const credit of getTreasuryOutflows(tx, treasuryAccountId, asset)) {
+          entries.push({
+            classification: 'UNEXPECTED_TRANSFER',
+            asset,
+            recipientAccountId: credit.account,
+            txId: tx.transaction_id,
+            consensusTimestamp: tx.consensus_timestamp,
+            expectedAmount: '0',
+            actualAmount: credit.amount.toString(),
+            fee: tx.charged_tx_fee?.toString(),
+            detail: 'Treasury transfer not recorded against any payout of this run'
+          });
+        }
+      }
+    }
+
+    const summary: ReconciliationSummary = {
+      matched: entries.filter(e => e.classification === 'MATCHED').length,
+      amountMismatches: entries.filter(e => e.classification === 'AMOUNT_MISMATCH').length,
+      missingOnChain: entries.filter(e => e.classification === 'MISSING_ON_CHAIN').length,
+      unexpectedTransfers: entries.filter(e => e.classification === 'UNEXPECTED_TRANSFER').length,
+      lookupFailures: entries.filter(e => e.classification === 'LOOKUP_FAILED').length,
+      totalFees: [...fees.values()].reduce((sum, fee) => sum + BigInt(fee), BigInt(0)).toString()
+    };
+
+    const report: ReconciliationReport = {
+      runId: run.id,
+      asset: run.asset,
+      environment: run.environment,
+      treasuryAccountId,
+      window: { from: from.toISOString(), to: to.toISOString() },
+      generatedAt: new Date().toISOString(),
+      hasDiscrepancies: summary.amountMismatches + summary.missingOnChain + summary.unexpectedTransfers > 0,
+      verified: summary.lookupFailures === 0,
+      summary,
+      entries
+    };
+
+    const filename = `reconciliation-${run.id}-${Date.now()}.json`;
+    const upload = await lighthouseService.uploadFile(JSON.stringify(report, null, 2), filename);
+    if (upload.success) {
+      await prisma.artifact.create({
+        data: {
+          runId: run.id,
+          type: 'reconciliation',
+          filename,
+          cid: upload.cid!,
+          size: upload.size!
+        }
+      });
+      report.artifactCid = upload.cid;
+    } else {
+      console.error(`Failed to store reconciliation report for run ${run.id}:`, upload.error);
+    }
+
+    // A run whose lookups failed is not flagged; it stays unreconciled so
+    // the next scheduled pass checks it again
+    await prisma.payrollRun.update({
+      where: { id: run.id },
+      data: {
+        reconciliationStatus: getReconciliationStatus(report),
+        reconciliationSummary: JSON.stringify(summary),
+        reconciledAt: report.hasDiscrepancies || report.verified ? new Date() : null
+      }
+    });
+
+    return report;
+  }
+}
+
+export function getReconciliationStatus(report: Pick<ReconciliationReport, 'hasDiscrepancies' | 'verified'>): string {
+  if (report.hasDiscrepancies) {
+    return 'DISCREPANCIES';
+  }
+  return report.verified ? 'RECONCILED' : 'UNVERIFIED';
+}
+
+/**
+ * Amount credited to an account in the run's asset
+ */
+function getCreditedAmount(tx: MirrorNodeTransaction, accountId: string, asset: string): bigint {
+  const transfers = asset === 'HBAR'
+    ? tx.transfers
+    : (tx.token_transfers || []).filter(transfer => transfer.token_id === asset);
+
+  return transfers
+    .filter(transfer => transfer.account === accountId && transfer.amount > 0)
+    .reduce((sum, transfer) => sum + BigInt(transfer.amount), BigInt(0));
+}
+
+/**
+ * Credits paid by the treasury in a transaction, excluding network fees
+ */
+function getTreasuryOutflows(
+  tx: MirrorNodeTransaction,
+  treasuryAccountId: string,
+  asset: string
+): Array<{ account: string; amount: bigint }> {
+  const transfers = asset === 'HBAR'
+    ? tx.transfers.filter(transfer => transfer.account !== tx.node && !FEE_ACCOUNTS.has(transfer.account))
+    : (tx.token_transfers || []).filter(transfer => transfer.token_id === asset);
+
+  const debitsTreasury = transfers.some(
+    transfer => transfer.account === treasuryAccountId && transfer.amount < 0
+  );
+  if (!debitsTreasury) {
+    return [];
+  }
+
+  return transfers
+    .filter(transfer => transfer.account !== treasuryAccountId && transfer.amount > 0)
+    .map(transfer => ({ account: transfer.account, amount: BigInt(transfer.amount) }));
+}
+
+/**
+ * Reconcile completed runs that have not been reconciled yet
+ */
+export async function reconcileCompletedPayrollRuns(settleMs: number = 10 * 60 * 1000): Promise<Array<{
+  runId: string;
+  status: string;
+  error?: string;
+}>> {
+  const runs = await prisma.payrollRun.findMany({
+    where: {
+      status: 'COMPLETED',
+      reconciledAt: null,
+      finishedAt: { lt: new Date(Date.now() - settleMs) }
+    }
+  });
+
+  const results: Array<{ runId: string; status: string; error?: string }> = [];
+
+  for (const run of runs) {
+    try {
+      const report = await new ReconciliationService(createHederaService({
+        network: run.environment as 'testnet' | 'mainnet'
+      })).reconcileRun(run.id);
+      results.push({ runId: run.id, status: getReconciliationStatus(report) });
+    } catch (error) {
+      console.error(`Failed to reconcile payroll run ${run.id}:`, error);
+      results.push({
+        runId: run.id,
+        status: 'ERROR',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return results;
+}
+
+export function createReconciliationService(hederaService: HederaService): ReconciliationService {
+  return new ReconciliationService(hederaService);
+}
@@ -0,0 +1,359 @@
+/**
+ * Payroll Run Adjustment Service
+ * Applies manual per-PR exclusions, weight overrides and co-author reassignment
+ * to PREVIEW_READY runs and recomputes their payouts
+ */
+
+import type { RunActivityItem, RunItem } from '@prisma/client';
+import { prisma } from './db';
+import { createAuditLog } from './auth';
+import { ActivityKind, ContributorStats, GitHubPR } from './github';
+import { pythPriceService } from './pyth';
+import { distributionService, DistributionConfig, DistributionPreview } from './distribution';
+import { assetRegistry } from './assets';
+import { PricingMethod } from './price-history';
+import { payoutSplitService } from './payout-splits';
+import { payoutLedgerService } from './payout-ledger';
+
+export type RunItemAdjustment =
+  | { type: 'exclude'; excluded: boolean }
+  | { type: 'weight'; weight: number }
+  | { type: 'reassign'; authorLogin: string };
+
+export interface RunItemRecord {
+  id: string;
+  repo: string;
+  prNumber: number;
+  authorLogin: string;
+  authorId: string | null;
+  mergedAt: Date;
+  title: string;
+  labels: string;
+  linesAdded: number | null;
+  linesDeleted: number | null;
+  filesChanged: number | null;
+  weight: number;
+  weightRule: string | null;
+  creditShare: number;
+  excluded: boolean;
+}
+
+type RunItemUpdate = Partial<Pick<RunItem,
+  'excluded' | 'weight' | 'weightRule' | 'authorLogin' | 'authorId' | 'contributorId' | 'originalAuthorLogin' | 'overrideReason'
+>>;
+
+export interface AdjustmentResult {
+  previewHash: string;
+  totalPrCount: number;
+  totalPayouts: number;
+  totalDistribution: number;
+  warnings: string[];
+}
+
+const AUDIT_ACTIONS: Record<RunItemAdjustment['type'], string> = {
+  exclude: 'RUN_ITEM_EXCLUSION_CHANGED',
+  weight: 'RUN_ITEM_WEIGHT_OVERRIDDEN',
+  reassign: 'RUN_ITEM_REASSIGNED'
+};
+
+export class RunAdjustmentService {
+
+  /**
+   * Apply a manual adjustment to a run item, recompute payouts and audit the change
+   */
+  async adjustRunItem(
+    userId: string,
+    runId: string,
+    itemId: string,
+    adjustment: RunItemAdjustment,
+    reason: string
+  ): Promise<AdjustmentResult> {
+    const item = await prisma.runItem.findFirst({
+      where: { id: itemId, runId }
+    });
+
+    if (!item) {
+      throw new Error('Run item not found');
+    }
+
+    const before = {
+      excluded: item.excluded,
+      weight: item.weight,
+      weightRule: item.weightRule,
+      authorLogin: item.authorLogin
+    };
+
+    let data: RunItemUpdate;
+    switch (adjustment.type) {
+      case 'exclude':
+        data = { excluded: adjustment.excluded, overrideReason: reason };
+        break;
+
+      case 'weight':
+        data = { weight: adjustment.weight, weightRule: 'manual override', overrideReason: reason };
+        break;
+
+      case 'reassign': {
+        const contributorId = await this.findContributorId(adjustment.authorLogin);
+        data = {
+          authorLogin: adjustment.authorLogin,
+          authorId: null,
+          contributorId: contributorId || null,
+          originalAuthorLogin: item.originalAuthorLogin || item.authorLogin,
+          overrideReason: reason
+        };
+        break;
+      }
+    }
+
+    const result = await this.recalculateRun(runId, { itemId, data });
+
+    await createAuditLog(
+      userId,
+      AUDIT_ACTIONS[adjustment.type],
+      runId,
+      {
+        itemId,
+        repo: item.repo,
+        prNumber: item.prNumber,
+        before,
+        adjustment,
+        reason,
+        previewHash: result.previewHash
+      }
+    );
+
+    return result;
+  }
+
+  /**
+   * Recompute a run's distribution from its non-excluded run items
+   * and replace its pending payouts. An item update is applied in the
+   * same transaction so the item never disagrees with the payouts.
+   */
+  async recalculateRun(
+    runId: string,
+    itemUpdate?: { itemId: string; data: RunItemUpdate }
+  ): Promise<AdjustmentResult> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { runItems: true, activityItems: true, payouts: true }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    const storedConfig = JSON.parse(run.distributionConfig || '{}') as Partial<DistributionConfig>;
+    const config: DistributionConfig = {
+      minPrCountThreshold: 1,
+      ...storedConfig,
+      mode: storedConfig.mode || run.distributionMode,
+      totalBudgetUsd: run.usdBudget
+    };
+
+    const assetDecimals = run.payouts[0]?.decimals ?? run.assetDecimals;
+    const originalPreview = {
+      config,
+      priceSnapshot: pythPriceService.parseStoredSnapshot(run.priceSnapshot),
+      distributions: [],
+      metadata: { asset: run.asset, assetDecimals }
+    } as unknown as DistributionPreview;
+
+    const runItems = run.runItems.map(item =>
+      item.id === itemUpdate?.itemId ? { ...item, ...itemUpdate.data } : item
+    );
+    const contributorStats = this.buildContributorStats(
+      runItems.filter(item => !item.excluded),
+      run.activityItems
+    );
+    const verifiedContributors = await this.loadVerifiedContributors();
+
+    const recalculated = distributionService.recalculateDistribution(
+      originalPreview,
+      {},
+      contributorStats,
+      verifiedContributors
+    );
+
+    // Split legs keep the prices the run was created with
+    const runAsset = (run.assetId && await prisma.payoutAsset.findUnique({ where: { id: run.assetId } })) ||
+      await assetRegistry.resolveAsset(run.asset, run.environment);
+    const closeTime = originalPreview.priceSnapshot.pricing?.closeTime;
+    const limited = distributionService.applyContributorLimits(
+      recalculated,
+      await payoutLedgerService.loadLimits(recalculated.distributions, runId)
+    );
+    const preview = await payoutSplitService.applySplits(limited, {
+      runAssetSymbol: runAsset?.symbol || run.asset,
+      network: run.environment,
+      executionMode: run.executionMode,
+      pricing: {
+        method: run.pricingMethod as PricingMethod,
+        startDate: run.startDate,
+        endDate: run.endDate,
+        closeTime: closeTime ? new Date(closeTime) : undefined
+      },
+      knownPrices: await payoutSplitService.getLegPrices(runId)
+    });
+
+    const payouts = preview.distributions
+      .filter(d => d.eligible && d.contributorId)
+      .map(d => ({
+        runId,
+        contributorId: d.contributorId!,
+        prCount: d.prCount,
+        shareRatio: d.shareRatio,
+        usdAmount: d.usdAmount,
+        nativeAmount: d.nativeAmount,
+        decimals: assetDecimals,
+        assetPercent: d.assetPercent ?? 100,
+        carriedInUsd: d.carriedInUsd || 0,
+        redistributedUsd: d.redistributedUsd || 0,
+        repoBreakdown: JSON.stringify(d.repoBreakdown || []),
+        status: 'PENDING',
+        idempotencyKey: distributionService.createPayoutIdempotencyKey(runId, d.contributorId!)
+      }));
+
+    // Payouts change, so approvals collected on the previous hash no longer apply
+    await prisma.$transaction([
+      ...(itemUpdate ? [prisma.runItem.update({ where: { id: itemUpdate.itemId }, data: itemUpdate.data })] : []),
+      prisma.runApproval.deleteMany({ where: { runId } }),
+      prisma.payout.deleteMany({ where: { runId } }),
+      prisma.payout.createMany({ data: payouts }),
+      prisma.payrollRun.update({
+        where: { id: runId },
+        data: {
+          previewHash: preview.metadata.previewHash,
+          totalPrCount: preview.totalPrCount,
+          totalPayouts: preview.distributions.filter(d => d.eligible).length
+        }
+      })
+    ]);
+    await payoutSplitService.storeLegs(runId, preview.distributions);
+    await payoutLedgerService.recordRunEntries(runId, preview.distributions);
+
+    return {
+      previewHash: preview.metadata.previewHash,
+      totalPrCount: preview.totalPrCount,
+      totalPayouts: payouts.length,
+      totalDistribution: preview.totalDistribution,
+      warnings: preview.warnings
+    };
+  }
+
+  /**
+   * Group run items into contributor stats, carrying each item's weight,
+   * along with the run's review and triage activity
+   */
+  buildContributorStats(
+    items: RunItemRecord[],
+    activityItems: RunActivityItem[] = []
+  ): Map<string, ContributorStats> {
+    const contributorStats = new Map<string, ContributorStats>();
+    const statsFor = (login: string, authorId?: string | null) => {
+      if (!contributorStats.has(login)) {
+        contributorStats.set(login, {
+          login,
+          id: authorId ? parseInt(authorId) : 0,
+          prCount: 0,
+          weightedPoints: 0,
+          totalAdditions: 0,
+          totalDeletions: 0,
+          totalChangedFiles: 0,
+          prs: []
+        });
+      }
+      return contributorStats.get(login)!;
+    };
+
+    for (const item of items) {
+      const stats = statsFor(item.authorLogin, item.authorId);
+      const pr: GitHubPR = {
+        id: 0,
+        number: item.prNumber,
+        title: item.title,
+        user: { login: item.authorLogin, id: stats.id },
+        state: 'closed',
+        merged_at: item.mergedAt.toISOString(),
+        created_at: item.mergedAt.toISOString(),
+        updated_at: item.mergedAt.toISOString(),
+        labels: this.parseLabels(item.labels).map(name => ({ name, color: '' })),
+        additions: item.linesAdded || 0,
+        deletions: item.linesDeleted || 0,
+        changed_files: item.filesChanged || 0,
+        commits: 0,
+        repository: item.repo,
+        weight: item.weight,
+        weightRule: item.weightRule || undefined,
+        credit: item.creditShare
+      };
+
+      stats.prCount++;
+      stats.weightedPoints += item.weight * item.creditShare;
+      stats.totalAdditions += pr.additions * item.creditShare;
+      stats.totalDeletions += pr.deletions * item.creditShare;
+      stats.totalChangedFiles += pr.changed_files * item.creditShare;
+      stats.prs.push(pr);
+    }
+
+    for (const item of activityItems) {
+      const stats = statsFor(item.actorLogin);
+      stats.activities = [...(stats.activities || []), {
+        kind: item.kind as ActivityKind,
+        login: item.actorLogin,
+        repository: item.repo,
+        number: item.number,
+        title: item.title,
+        occurredAt: item.occurredAt.toISOString(),
+        url: item.url
+      }];
+    }
+
+    return contributorStats;
+  }
+
+  private parseLabels(labels: string): string[] {
+    try {
+      const parsed = JSON.parse(labels || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async findContributorId(githubLogin: string): Promise<string | undefined> {
+    const contributor = await prisma.contributor.findFirst({
+      where: {
+        active: true,
+        OR: [
+          { githubHandle: githubLogin },
+          { user: { githubLogin } }
+        ]
+      }
+    });
+    return contributor?.id;
+  }
+
+  private async loadVerifiedContributors(): Promise<Map<string, string>> {
+    const verifiedContributors = new Map<string, string>();
+    const contributors = await prisma.contributor.findMany({
+      where: { active: true },
+      include: { user: true }
+    });
+
+    // Same matching as findContributorId: the contributor's handle or their user's login
+    contributors.forEach(contributor => {
+      if (contributor.githubHandle) {
+        verifiedContributors.set(contributor.githubHandle, contributor.id);
+      }
+      if (contributor.user.githubLogin) {
+        verifiedContributors.set(contributor.user.githubLogin, contributor.id);
+      }
+    });
+
+    return verifiedContributors;
+  }
+}
+
+export const runAdjustmentService = new RunAdjustmentService();
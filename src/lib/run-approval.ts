@@ -0,0 +1,653 @@
+/**
+ * Payroll Run Approval Service
+ * Collects signed M-of-N approvals of preview hashes and verifies them before execution
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { prisma } from './db';
+import { pythPriceService } from './pyth';
+import { distributionService, ContributorDistribution, DistributionConfig } from './distribution';
+import { createHederaService } from './hedera';
+import { createTreasuryService } from './treasury';
+import { organizationService } from './organizations';
+import type { RequoteResult } from './price-requote';
+import { toLegPlan } from './payout-splits';
+import type { PayoutLeg } from '@prisma/client';
+
+export interface RunApproval {
+  runId: string;
+  approvedById: string;
+  approvedAt: Date;
+  previewHash: string;
+  signature: string;
+  approvals: number;
+  requiredApprovals: number;
+  quorumReached: boolean;
+}
+
+export interface ApprovalRequirement {
+  policyId: string | null;
+  requiredApprovals: number;
+  approverIds: string[]; // Empty means the run creator approves alone
+}
+
+export interface ApprovalPolicyInput {
+  name?: string;
+  repositoryId?: string | null;
+  organizationId?: string | null;
+  minRunUsd?: number;
+  requiredApprovals?: number;
+  approverIds?: string[];
+}
+
+export interface ApprovalVerification {
+  valid: boolean;
+  reason?: string;
+  expectedHash?: string;
+  actualHash?: string;
+}
+
+// Rolls back an approval that turned out final before funds were reserved
+const QUORUM_NEEDS_RESERVATION = 'Approval reached quorum without a treasury reservation';
+
+interface StoredPayout {
+  contributorId: string;
+  prCount: number;
+  shareRatio: number;
+  usdAmount: number;
+  nativeAmount: string;
+  decimals: number;
+  assetPercent?: number;
+  legs?: PayoutLeg[];
+}
+
+interface StoredRun {
+  id: string;
+  asset: string;
+  assetDecimals: number;
+  usdBudget: number;
+  distributionMode: string;
+  distributionConfig: string;
+  priceSnapshot: string;
+  executionPriceSnapshot?: string | null;
+  requoteResult?: string;
+}
+
+interface StoredApproval {
+  approverId: string;
+  previewHash: string;
+  signature: string;
+  approvedAt: Date;
+}
+
+interface QuorumRun {
+  id: string;
+  createdById: string;
+  requiredApprovals: number;
+  approverIds: string;
+  approvals: StoredApproval[];
+}
+
+/**
+ * Parse a JSON string array of user IDs
+ */
+export function parseApproverIds(json: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse a run's stored price re-quote result, or null if it was never re-quoted
+ */
+export function parseRequoteResult(json: string | null | undefined): RequoteResult | null {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed.outcome === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate an approval policy, returning a list of problems
+ */
+export function validateApprovalPolicy(policy: ApprovalPolicyInput): string[] {
+  const errors: string[] = [];
+  const approverIds = policy.approverIds || [];
+
+  if (!policy.name) {
+    errors.push('Policy name is required');
+  }
+  if (!!policy.repositoryId === !!policy.organizationId) {
+    errors.push('Policy must be scoped to exactly one of repositoryId or organizationId');
+  }
+  if (policy.minRunUsd !== undefined && (typeof policy.minRunUsd !== 'number' || policy.minRunUsd < 0)) {
+    errors.push('minRunUsd must be a non-negative number');
+  }
+  if (!Number.isInteger(policy.requiredApprovals) || (policy.requiredApprovals as number) < 1) {
+    errors.push('requiredApprovals must be a positive integer');
+  }
+  if (new Set(approverIds).size !== approverIds.length) {
+    errors.push('Approvers must be unique');
+  }
+  if ((policy.requiredApprovals || 0) > approverIds.length) {
+    errors.push('requiredApprovals cannot exceed the number of approvers');
+  }
+
+  return errors;
+}
+
+export class RunApprovalService {
+
+  /**
+   * Resolve the strictest active approval policy covering the given repositories and budget
+   */
+  async resolveApprovalRequirement(repositoryIds: string[], usdBudget: number): Promise<ApprovalRequirement> {
+    const repositories = await prisma.repository.findMany({
+      where: { id: { in: repositoryIds } },
+      select: { id: true, organizationId: true }
+    });
+    const organizationIds = [...new Set(repositories.flatMap(repo => repo.organizationId ? [repo.organizationId] : []))];
+
+    const policies = await prisma.approvalPolicy.findMany({
+      where: {
+        active: true,
+        minRunUsd: { lte: usdBudget },
+        OR: [
+          { repositoryId: { in: repositories.map(repo => repo.id) } },
+          { organizationId: { in: organizationIds } }
+        ]
+      },
+      orderBy: [{ requiredApprovals: 'desc' }, { minRunUsd: 'desc' }]
+    });
+
+    const policy = policies[0];
+    if (!policy) {
+      return { policyId: null, requiredApprovals: 1, approverIds: [] };
+    }
+
+    return {
+      policyId: policy.id,
+      requiredApprovals: policy.requiredApprovals,
+      approverIds: parseApproverIds(policy.approverIds)
+    };
+  }
+
+  /**
+   * Attach the applicable approval policy to a newly created run and notify its approvers
+   */
+  async applyApprovalPolicy(runId: string): Promise<ApprovalRequirement> {
+    const run = await prisma.payrollRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    const requirement = await this.resolveApprovalRequirement(
+      JSON.parse(run.repoIds || '[]'),
+      run.usdBudget
+    );
+
+    await prisma.payrollRun.update({
+      where: { id: runId },
+      data: {
+        approvalPolicyId: requirement.policyId,
+        requiredApprovals: requirement.requiredApprovals,
+        approverIds: JSON.stringify(requirement.approverIds)
+      }
+    });
+
+    if (requirement.approverIds.length > 0) {
+      await this.notifyUsers(requirement.approverIds, 'run_approval_requested', {
+        subject: `Payroll run #${run.runNumber} needs your approval`,
+        content: `Payroll run #${run.runNumber} ($${run.usdBudget.toFixed(2)} in ${run.asset}) requires ` +
+          `${requirement.requiredApprovals} of ${requirement.approverIds.length} approvals before it can be executed.`,
+        runId
+      });
+    }
+
+    return requirement;
+  }
+
+  /**
+   * Check whether a user may approve a run
+   */
+  canApprove(run: { createdById: string; approverIds: string }, userId: string): boolean {
+    const approverIds = parseApproverIds(run.approverIds);
+    return approverIds.length > 0 ? approverIds.includes(userId) : run.createdById === userId;
+  }
+
+  /**
+   * Record a signed approval of a PREVIEW_READY run's current payouts.
+   * The run moves to APPROVED once the quorum of approvals on the same hash is reached.
+   */
+  async approveRun(userId: string, runId: string): Promise<RunApproval> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { payouts: { include: { legs: true } }, approvals: true }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    if (run.status !== 'PREVIEW_READY') {
+      throw new Error(`Only PREVIEW_READY runs can be approved (current: ${run.status})`);
+    }
+
+    if (!this.canApprove(run, userId)) {
+      throw new Error('User is not an approver for this run');
+    }
+
+    const previewHash = this.calculateRunHash(run, this.payoutsToDistributions(run.payouts));
+    if (run.previewHash && run.previewHash !== previewHash) {
+      throw new Error('Stored payouts no longer match the preview hash - regenerate the preview before approving');
+    }
+
+    if (run.approvals.some(approval => approval.approverId === userId && approval.previewHash === previewHash)) {
+      throw new Error('You have already approved this run');
+    }
+
+    // The final approval reserves treasury funds so concurrently approved
+    // runs cannot count on the same balance. Approvals read above only tell
+    // whether this one is likely final; the transaction counts them again.
+    const treasuryService = createTreasuryService(createHederaService({
+      network: run.environment as 'testnet' | 'mainnet'
+    }));
+    let reserved = false;
+    const reserve = async () => {
+      const preflight = await treasuryService.reserveFunds(runId);
+
+      if (!preflight.passed) {
+        throw new Error(`Treasury pre-flight failed: ${preflight.shortfalls.join('; ')}`);
+      }
+      reserved = true;
+    };
+
+    const otherApprovals = run.approvals
+      .filter(approval => approval.approverId !== userId && approval.previewHash === previewHash)
+      .length;
+    if (otherApprovals + 1 >= run.requiredApprovals) {
+      await reserve();
+    }
+
+    const approvedAt = new Date();
+    const signature = this.signApproval(runId, previewHash, userId, approvedAt);
+    let outcome: { approvals: number; quorumReached: boolean } | null = null;
+
+    try {
+      while (!outcome) {
+        try {
+          outcome = await prisma.$transaction(async tx => {
+            await tx.runApproval.upsert({
+              where: { runId_approverId: { runId, approverId: userId } },
+              create: { runId, approverId: userId, previewHash, signature, approvedAt },
+              update: { previewHash, signature, approvedAt }
+            });
+
+            const approvals = await tx.runApproval.count({ where: { runId, previewHash } });
+            const quorumReached = approvals >= run.requiredApprovals;
+
+            if (quorumReached && !reserved) {
+              throw new Error(QUORUM_NEEDS_RESERVATION);
+            }
+
+            // An organization run commits its budget to the month's envelope as
+            // it is approved, so the envelope is checked in the same transaction
+            if (quorumReached && run.organizationId) {
+              await organizationService.assertEnvelopeCovers(run.organizationId, run.usdBudget, run.createdAt, tx);
+            }
+
+            // Only a run still awaiting approval moves on, so concurrent final
+            // approvals cannot both approve it
+            const updated = await tx.payrollRun.updateMany({
+              where: { id: runId, status: 'PREVIEW_READY' },
+              data: quorumReached
+                ? {
+                    status: 'APPROVED',
+                    previewHash,
+                    approvedHash: previewHash,
+                    approvedById: userId,
+                    approvedAt,
+                    approvalSignature: signature
+                  }
+                : { previewHash }
+            });
+
+            if (updated.count === 0) {
+              throw new Error('Run is no longer awaiting approval');
+            }
+
+            return { approvals, quorumReached };
+          });
+        } catch (error) {
+          // A concurrent approval made this one final: hold the funds and record it again
+          if (reserved || !(error instanceof Error) || error.message !== QUORUM_NEEDS_RESERVATION) {
+            throw error;
+          }
+          await reserve();
+        }
+      }
+    } catch (error) {
+      // The reservation stays with a run another approval has just approved
+      const current = await prisma.payrollRun.findUnique({ where: { id: runId }, select: { status: true } });
+      if (reserved && current?.status === 'PREVIEW_READY') {
+        await treasuryService.releaseReservation(runId, 'RELEASED');
+      }
+      throw error;
+    }
+
+    const { approvals, quorumReached } = outcome;
+
+    if (quorumReached && run.requiredApprovals > 1) {
+      await this.notifyUsers([run.createdById], 'run_approval_quorum_reached', {
+        subject: `Payroll run #${run.runNumber} is approved`,
+        content: `Payroll run #${run.runNumber} reached ${approvals} of ${run.requiredApprovals} required approvals and can now be executed.`,
+        runId
+      });
+    }
+
+    return {
+      runId,
+      approvedById: userId,
+      approvedAt,
+      previewHash,
+      signature,
+      approvals,
+      requiredApprovals: run.requiredApprovals,
+      quorumReached
+    };
+  }
+
+  /**
+   * Verify that a run is approved and the distributions about to be paid
+   * hash to exactly what was approved
+   */
+  async verifyExecutionIntegrity(
+    runId: string,
+    distributions: ContributorDistribution[],
+    allowedStatuses: string[] = ['APPROVED']
+  ): Promise<ApprovalVerification> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { payouts: true, approvals: true }
+    });
+
+    if (!run) {
+      return { valid: false, reason: 'Payroll run not found' };
+    }
+
+    if (!allowedStatuses.includes(run.status)) {
+      return { valid: false, reason: `Run must be ${allowedStatuses.join(' or ')} to execute (current: ${run.status})` };
+    }
+
+    if (!run.approvedHash || !run.approvedById || !run.approvedAt || !run.approvalSignature) {
+      return { valid: false, reason: 'Run has no recorded approval' };
+    }
+
+    const expectedSignature = this.signApproval(run.id, run.approvedHash, run.approvedById, run.approvedAt);
+    if (!this.signaturesMatch(expectedSignature, run.approvalSignature)) {
+      return { valid: false, reason: 'Approval signature is invalid' };
+    }
+
+    const quorum = this.checkQuorum(run, run.approvedHash);
+    if (!quorum.valid) {
+      return quorum;
+    }
+
+    const decimals = run.payouts[0]?.decimals ?? run.assetDecimals;
+    const requote = parseRequoteResult(run.requoteResult);
+    if (requote?.outcome === 'RECOMPUTED') {
+      return this.verifyRecomputedIntegrity(run, run.approvedHash, distributions, requote, decimals);
+    }
+
+    const actualHash = this.calculateRunHash(run, distributions, decimals);
+    if (actualHash !== run.approvedHash) {
+      return {
+        valid: false,
+        reason: 'Payout data no longer matches the approved preview',
+        expectedHash: run.approvedHash,
+        actualHash
+      };
+    }
+
+    return { valid: true, expectedHash: run.approvedHash, actualHash };
+  }
+
+  /**
+   * Verify payouts whose native amounts were recomputed at the re-quoted
+   * price: with the approved native amounts restored they must hash to the
+   * approval, and as they stand to the signed execution hash
+   */
+  private verifyRecomputedIntegrity(
+    run: StoredRun,
+    approvedHash: string,
+    distributions: ContributorDistribution[],
+    requote: RequoteResult,
+    decimals: number
+  ): ApprovalVerification {
+    if (!requote.executionHash || !requote.signature || !requote.approvedNativeAmounts || !run.executionPriceSnapshot) {
+      return { valid: false, reason: 'Re-quote record is incomplete' };
+    }
+
+    if (!this.signaturesMatch(this.signRequote(run.id, approvedHash, requote.executionHash), requote.signature)) {
+      return { valid: false, reason: 'Re-quote signature is invalid' };
+    }
+
+    const approvedDistributions = distributions.map(distribution => ({
+      ...distribution,
+      nativeAmount: requote.approvedNativeAmounts![distribution.contributorId!] ?? distribution.nativeAmount
+    }));
+    const restoredHash = this.calculateRunHash(run, approvedDistributions, decimals);
+    if (restoredHash !== approvedHash) {
+      return {
+        valid: false,
+        reason: 'Payout data no longer matches the approved preview',
+        expectedHash: approvedHash,
+        actualHash: restoredHash
+      };
+    }
+
+    const actualHash = this.calculateRunHash(
+      { ...run, priceSnapshot: run.executionPriceSnapshot },
+      distributions,
+      decimals
+    );
+    if (actualHash !== requote.executionHash) {
+      return {
+        valid: false,
+        reason: 'Payout amounts no longer match the re-quoted price',
+        expectedHash: requote.executionHash,
+        actualHash
+      };
+    }
+
+    return { valid: true, expectedHash: requote.executionHash, actualHash };
+  }
+
+  /**
+   * Send an APPROVED run back to PREVIEW_READY, dropping every approval, and
+   * tell its approvers why
+   */
+  async revokeApproval(runId: string, reason: string): Promise<void> {
+    const run = await prisma.payrollRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    await prisma.$transaction([
+      prisma.runApproval.deleteMany({ where: { runId } }),
+      prisma.payrollRun.update({
+        where: { id: runId },
+        data: {
+          status: 'PREVIEW_READY',
+          approvedHash: null,
+          approvedById: null,
+          approvedAt: null,
+          approvalSignature: null
+        }
+      })
+    ]);
+
+    const approverIds = parseApproverIds(run.approverIds);
+    await this.notifyUsers([...new Set([run.createdById, ...approverIds])], 'run_approval_revoked', {
+      subject: `Payroll run #${run.runNumber} needs approval again`,
+      content: reason,
+      runId
+    });
+  }
+
+  /**
+   * Verify that an APPROVED run still holds a quorum of valid approvals
+   */
+  async verifyApprovalQuorum(runId: string): Promise<ApprovalVerification> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { approvals: true }
+    });
+
+    if (!run) {
+      return { valid: false, reason: 'Payroll run not found' };
+    }
+
+    if (run.status !== 'APPROVED' || !run.approvedHash) {
+      return { valid: false, reason: `Run must be APPROVED before execution (current: ${run.status})` };
+    }
+
+    return this.checkQuorum(run, run.approvedHash);
+  }
+
+  /**
+   * Count approvals that sign the given hash, come from an eligible approver
+   * and carry a valid signature
+   */
+  checkQuorum(run: QuorumRun, previewHash: string): ApprovalVerification {
+    const validApprovals = run.approvals.filter(approval =>
+      approval.previewHash === previewHash &&
+      this.canApprove(run, approval.approverId) &&
+      this.signaturesMatch(
+        this.signApproval(run.id, previewHash, approval.approverId, approval.approvedAt),
+        approval.signature
+      )
+    );
+
+    if (validApprovals.length < run.requiredApprovals) {
+      return {
+        valid: false,
+        reason: `Approval quorum not met (${validApprovals.length} of ${run.requiredApprovals} required approvals)`
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Recompute the preview hash for a run from a set of distributions
+   */
+  calculateRunHash(
+    run: StoredRun & { payouts?: StoredPayout[] },
+    distributions: ContributorDistribution[],
+    assetDecimals?: number
+  ): string {
+    const storedConfig = JSON.parse(run.distributionConfig || '{}') as Partial<DistributionConfig>;
+    const config: DistributionConfig = {
+      minPrCountThreshold: 1,
+      ...storedConfig,
+      mode: storedConfig.mode || run.distributionMode,
+      totalBudgetUsd: run.usdBudget
+    };
+
+    return distributionService.calculatePreviewHash(
+      distributions,
+      config,
+      pythPriceService.parseStoredSnapshot(run.priceSnapshot),
+      run.asset,
+      assetDecimals ?? run.payouts?.[0]?.decimals ?? run.assetDecimals
+    );
+  }
+
+  /**
+   * Convert stored payouts into distributions for hashing and execution
+   */
+  payoutsToDistributions(payouts: StoredPayout[]): ContributorDistribution[] {
+    return payouts.map(payout => ({
+      githubLogin: '',
+      githubId: 0,
+      contributorId: payout.contributorId,
+      prCount: payout.prCount,
+      weightedPoints: 0,
+      prs: [],
+      score: 0,
+      shareRatio: payout.shareRatio,
+      usdAmount: payout.usdAmount,
+      nativeAmount: payout.nativeAmount,
+      eligible: true,
+      assetPercent: payout.assetPercent,
+      legs: payout.legs?.map(toLegPlan)
+    }));
+  }
+
+  /**
+   * HMAC-SHA256 signature binding the approver and time to the preview hash
+   */
+  signApproval(runId: string, previewHash: string, approverId: string, approvedAt: Date): string {
+    return createHmac('sha256', this.getSigningSecret())
+      .update(`${runId}:${previewHash}:${approverId}:${approvedAt.toISOString()}`)
+      .digest('hex');
+  }
+
+  /**
+   * HMAC-SHA256 signature binding a re-quote's execution hash to the
+   * approved hash it was derived from
+   */
+  signRequote(runId: string, approvedHash: string, executionHash: string): string {
+    return createHmac('sha256', this.getSigningSecret())
+      .update(`${runId}:requote:${approvedHash}:${executionHash}`)
+      .digest('hex');
+  }
+
+  private getSigningSecret(): string {
+    const secret = process.env.RUN_APPROVAL_SECRET || process.env.NEXTAUTH_SECRET;
+    if (!secret) {
+      throw new Error('RUN_APPROVAL_SECRET or NEXTAUTH_SECRET must be set to sign approvals');
+    }
+    return secret;
+  }
+
+  private async notifyUsers(
+    userIds: string[],
+    templateId: string,
+    notification: { subject: string; content: string; runId: string }
+  ): Promise<void> {
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, email: true }
+    });
+
+    for (const user of users) {
+      await prisma.notificationQueue.create({
+        data: {
+          type: 'email',
+          recipient: user.email,
+          subject: notification.subject,
+          content: notification.content,
+          templateId,
+          templateData: JSON.stringify({ runId: notification.runId, userId: user.id }),
+          priority: 5,
+          metadata: JSON.stringify({ runId: notification.runId })
+        }
+      });
+    }
+  }
+
+  private signaturesMatch(expected: string, actual: string): boolean {
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const actualBuffer = Buffer.from(actual, 'hex');
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+}
+
+export const runApprovalService = new RunApprovalService();
@@ -0,0 +1,331 @@
+/**
+ * Scheduled Payout Service
+ * Pays run payouts through Hedera schedule transactions and tracks
+ * signatures collected against the run's required signers
+ */
+
+import { PublicKey } from '@hashgraph/sdk';
+import { prisma } from './db';
+import { HederaService, MAX_BATCH_TRANSFER_RECIPIENTS } from './hedera';
+
+export type ScheduleGranularity = 'PAYOUT' | 'BATCH';
+
+export interface ScheduleConfig {
+  granularity: ScheduleGranularity;
+  batchSize: number; // Recipients per schedule when granularity is BATCH
+  requiredSigners: string[]; // Public keys that must sign each schedule
+  expirationHours?: number;
+}
+
+export interface ScheduledPayoutInput {
+  contributorId: string;
+  nativeAmount: string;
+}
+
+export interface ScheduleState {
+  id: string;
+  scheduleId: string;
+  payoutIds: string[];
+  requiredSigners: string[];
+  collectedSigners: string[];
+  status: string;
+  expiresAt: Date | null;
+  executedAt: Date | null;
+  lastCheckedAt: Date | null;
+  error: string | null;
+}
+
+export interface ScheduleSyncResult {
+  schedules: ScheduleState[];
+  settled: boolean; // No schedule is still waiting for signatures
+  confirmedPayouts: number;
+  failedPayouts: number;
+}
+
+const DEFAULT_SCHEDULE_CONFIG: ScheduleConfig = {
+  granularity: 'PAYOUT',
+  batchSize: MAX_BATCH_TRANSFER_RECIPIENTS,
+  requiredSigners: []
+};
+
+/**
+ * Parse a run's stored schedule configuration, filling in defaults
+ */
+export function parseScheduleConfig(json: string | null | undefined): ScheduleConfig {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return { ...DEFAULT_SCHEDULE_CONFIG, ...(parsed && typeof parsed === 'object' ? parsed : {}) };
+  } catch {
+    return { ...DEFAULT_SCHEDULE_CONFIG };
+  }
+}
+
+/**
+ * Validate a schedule configuration, returning a list of problems
+ */
+export function validateScheduleConfig(config: Partial<ScheduleConfig>): string[] {
+  const errors: string[] = [];
+
+  if (config.granularity && !['PAYOUT', 'BATCH'].includes(config.granularity)) {
+    errors.push('Schedule granularity must be PAYOUT or BATCH');
+  }
+
+  if (config.batchSize !== undefined &&
+      (!Number.isInteger(config.batchSize) || config.batchSize < 1 || config.batchSize > MAX_BATCH_TRANSFER_RECIPIENTS)) {
+    errors.push(`Schedule batch size must be between 1 and ${MAX_BATCH_TRANSFER_RECIPIENTS}`);
+  }
+
+  if (config.expirationHours !== undefined && (typeof config.expirationHours !== 'number' || config.expirationHours <= 0)) {
+    errors.push('Schedule expiration must be a positive number of hours');
+  }
+
+  for (const signer of config.requiredSigners || []) {
+    if (!normalizePublicKey(signer)) {
+      errors.push(`Invalid signer public key: ${signer}`);
+    }
+  }
+
+  return errors;
+}
+
+function normalizePublicKey(key: string): string | null {
+  try {
+    return PublicKey.fromString(key).toString();
+  } catch {
+    return null;
+  }
+}
+
+function parseStringArray(json: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export class ScheduledPayoutService {
+  private hederaService: HederaService;
+
+  constructor(hederaService: HederaService) {
+    this.hederaService = hederaService;
+  }
+
+  /**
+   * Create Hedera schedules for a run's payouts and mark them SUBMITTED
+   */
+  async createSchedules(
+    runId: string,
+    payouts: ScheduledPayoutInput[],
+    asset: string,
+    config: ScheduleConfig
+  ): Promise<ScheduleState[]> {
+    const records = await prisma.payout.findMany({
+      // Only unsent payouts, so resuming a run never schedules a payout twice
+      where: { runId, status: 'PENDING', scheduleId: null, contributorId: { in: payouts.map(p => p.contributorId) } },
+      include: { contributor: true },
+      orderBy: { contributorId: 'asc' }
+    });
+
+    const groupSize = config.granularity === 'BATCH'
+      ? Math.min(config.batchSize, MAX_BATCH_TRANSFER_RECIPIENTS)
+      : 1;
+    const expirationTime = config.expirationHours
+      ? new Date(Date.now() + config.expirationHours * 60 * 60 * 1000)
+      : undefined;
+    const requiredSigners = config.requiredSigners.map(signer => normalizePublicKey(signer) || signer);
+
+    const schedules: ScheduleState[] = [];
+
+    for (let i = 0; i < records.length; i += groupSize) {
+      const group = records.slice(i, i + groupSize);
+      const payoutIds = group.map(payout => payout.id);
+
+      const result = await this.hederaService.createScheduledBatchTransfer({
+        transfers: group.map(payout => ({
+          recipientAccountId: payout.contributor.hederaAccountId,
+          amount: payout.nativeAmount
+        })),
+        asset,
+        memo: `Foss It - Run ${runId}`,
+        requiredSigners,
+        expirationTime
+      });
+
+      if (!result.success || !result.scheduleId) {
+        await prisma.payout.updateMany({
+          where: { id: { in: payoutIds } },
+          data: { status: 'FAILED', error: result.error || `Schedule creation failed: ${result.status}` }
+        });
+        continue;
+      }
+
+      await prisma.payout.updateMany({
+        where: { id: { in: payoutIds } },
+        data: {
+          status: 'SUBMITTED',
+          scheduleId: result.scheduleId,
+          txId: result.transactionId,
+          submittedAt: new Date()
+        }
+      });
+
+      const schedule = await prisma.payoutSchedule.create({
+        data: {
+          runId,
+          scheduleId: result.scheduleId,
+          payoutIds: JSON.stringify(payoutIds),
+          requiredSigners: JSON.stringify(requiredSigners),
+          collectedSigners: JSON.stringify([]),
+          expiresAt: expirationTime
+        }
+      });
+
+      schedules.push(this.toScheduleState(schedule));
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Refresh every open schedule of a run from the network. Executed schedules
+   * confirm their payouts once the mirror node reports the inner transfer
+   * succeeded, and fail them if it did not; expired or deleted schedules
+   * fail them too.
+   */
+  async syncRunSchedules(runId: string): Promise<ScheduleSyncResult> {
+    const schedules = await prisma.payoutSchedule.findMany({
+      where: { runId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const schedule of schedules) {
+      if (schedule.status !== 'PENDING_SIGNATURES') {
+        continue;
+      }
+
+      const payoutIds = parseStringArray(schedule.payoutIds);
+
+      try {
+        const info = await this.hederaService.getScheduleInfo(schedule.scheduleId);
+        const signatories = new Set(info.signatories.map(key => normalizePublicKey(key) || key));
+        const collectedSigners = parseStringArray(schedule.requiredSigners)
+          .filter(signer => signatories.has(signer));
+
+        let status = schedule.status;
+        let executedAt: Date | null = null;
+        let error: string | null = null;
+
+        if (info.executed) {
+          // Executing the schedule does not mean its transfer succeeded
+          const payout = await prisma.payout.findFirst({
+            where: { id: { in: payoutIds }, txId: { not: null } },
+            select: { txId: true }
+          });
+          const transfer = payout?.txId
+            ? await this.hederaService.verifyTransactionFromMirror(payout.txId, true)
+            : null;
+
+          if (transfer?.result === 'SUCCESS') {
+            status = 'EXECUTED';
+            executedAt = info.executedAt?.toDate() || new Date();
+          } else if (transfer) {
+            status = 'FAILED';
+            error = `Scheduled transfer failed: ${transfer.result}`;
+          }
+          // Otherwise the mirror node has no record yet; check again next sync
+        } else if (info.deleted) {
+          status = 'FAILED';
+          error = 'Schedule was deleted before execution';
+        } else if (info.expirationTime && info.expirationTime.toDate() < new Date()) {
+          status = 'EXPIRED';
+          error = 'Schedule expired before collecting all signatures';
+        }
+
+        const updated = await prisma.payoutSchedule.update({
+          where: { id: schedule.id },
+          data: {
+            status,
+            collectedSigners: JSON.stringify(collectedSigners),
+            executedAt,
+            error,
+            lastCheckedAt: new Date()
+          }
+        });
+        Object.assign(schedule, updated);
+
+        if (status === 'EXECUTED') {
+          await prisma.payout.updateMany({
+            where: { id: { in: payoutIds } },
+            data: { status: 'CONFIRMED', confirmedAt: executedAt }
+          });
+        } else if (error) {
+          await prisma.payout.updateMany({
+            where: { id: { in: payoutIds } },
+            data: { status: 'FAILED', error }
+          });
+        }
+      } catch (error) {
+        console.error(`Error syncing schedule ${schedule.scheduleId}:`, error);
+        await prisma.payoutSchedule.update({
+          where: { id: schedule.id },
+          data: { lastCheckedAt: new Date() }
+        });
+      }
+    }
+
+    const payouts = await prisma.payout.findMany({
+      where: { runId },
+      select: { status: true }
+    });
+
+    return {
+      schedules: schedules.map(schedule => this.toScheduleState(schedule)),
+      settled: schedules.every(schedule => schedule.status !== 'PENDING_SIGNATURES'),
+      confirmedPayouts: payouts.filter(p => p.status === 'CONFIRMED').length,
+      failedPayouts: payouts.filter(p => p.status === 'FAILED').length
+    };
+  }
+
+  /**
+   * Load a run's schedules without contacting the network
+   */
+  async getRunSchedules(runId: string): Promise<ScheduleState[]> {
+    const schedules = await prisma.payoutSchedule.findMany({
+      where: { runId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return schedules.map(schedule => this.toScheduleState(schedule));
+  }
+
+  private toScheduleState(schedule: {
+    id: string;
+    scheduleId: string;
+    payoutIds: string;
+    requiredSigners: string;
+    collectedSigners: string;
+    status: string;
+    expiresAt: Date | null;
+    executedAt: Date | null;
+    lastCheckedAt: Date | null;
+    error: string | null;
+  }): ScheduleState {
+    return {
+      id: schedule.id,
+      scheduleId: schedule.scheduleId,
+      payoutIds: parseStringArray(schedule.payoutIds),
+      requiredSigners: parseStringArray(schedule.requiredSigners),
+      collectedSigners: parseStringArray(schedule.collectedSigners),
+      status: schedule.status,
+      expiresAt: schedule.expiresAt,
+      executedAt: schedule.executedAt,
+      lastCheckedAt: schedule.lastCheckedAt,
+      error: schedule.error
+    };
+  }
+}
+
+export function createScheduledPayoutService(hederaService: HederaService): ScheduledPayoutService {
+  return new ScheduledPayoutService(hederaService);
+}
@@ -0,0 +1,471 @@
+/**
+ * Treasury Pre-flight Service
+ * Checks the operator account can cover a run plus fees before any money
+ * moves, and reserves those funds so concurrent runs cannot count on them twice
+ */
+
+import { prisma } from './db';
+import { HederaService, MAX_BATCH_TRANSFER_RECIPIENTS } from './hedera';
+import { parseScheduleConfig } from './scheduled-payouts';
+
+export interface PreflightInput {
+  runId?: string; // Excluded from existing reservations when set
+  network: 'testnet' | 'mainnet';
+  asset: string; // 'HBAR' or token ID
+  amount: string; // Payout total in the asset's smallest unit
+  legs?: Array<{ asset: string; amount: string }>; // Split payout legs in other assets, sent one transfer each
+  payoutCount: number;
+  executionMode: string;
+  scheduleConfig?: string;
+}
+
+export interface AssetCheck {
+  required: string; // Smallest unit; HBAR includes fees
+  balance: string;
+  reserved: string; // Held by other runs' active reservations
+  available: string;
+}
+
+export interface PreflightResult {
+  passed: boolean;
+  checkedAt: string;
+  network: string;
+  treasuryAccountId: string;
+  asset: string;
+  required: {
+    amount: string;
+    fees: string; // Tinybars
+    feePerTransaction: string;
+    transactionCount: number;
+    feeSamples: number; // Recent transactions the fee estimate is based on
+  };
+  balances: { hbar: string; token?: string };
+  reserved: { hbar: string; token?: string };
+  available: { hbar: string; token?: string };
+  assets: Record<string, AssetCheck>; // Every asset the run pays out in, plus HBAR for fees
+  legs?: Record<string, string>; // Split leg totals by asset
+  shortfalls: string[];
+}
+
+// Used when there are no recent payouts to sample fees from (0.01 HBAR)
+const DEFAULT_FEE_PER_TRANSACTION = BigInt(1000000);
+const FEE_SAMPLE_SIZE = 5;
+const FEE_SAFETY_MARGIN_PERCENT = BigInt(120);
+
+const TINYBARS_PER_HBAR = 100000000;
+
+// Transfers that have left the treasury balance
+const SENT_STATUSES = ['SUBMITTED', 'CONFIRMED'];
+
+export class TreasuryService {
+  private hederaService: HederaService;
+
+  constructor(hederaService: HederaService) {
+    this.hederaService = hederaService;
+  }
+
+  /**
+   * Check the treasury can cover a payout total plus estimated fees on top of
+   * everything already reserved by other runs. Every asset the run pays out
+   * in, including split legs, is checked against its own balance less other
+   * runs' reservations of that asset.
+   */
+  async runPreflight(input: PreflightInput): Promise<PreflightResult> {
+    const treasuryAccountId = this.hederaService.getOperatorAccountId();
+    const legTotals = sumLegsByAsset(input.legs || []);
+    const legCount = input.legs?.length || 0;
+    const transactionCount = estimateTransactionCount(input.payoutCount, input.executionMode, input.scheduleConfig) + legCount;
+    const { feePerTransaction, samples } = await this.estimateFeePerTransaction(input.network);
+    const fees = feePerTransaction * BigInt(transactionCount);
+    const requiredByAsset = getRequiredByAsset(input);
+    const amount = requiredByAsset.get(input.asset)!;
+    legTotals.delete(input.asset);
+
+    const result: PreflightResult = {
+      passed: false,
+      checkedAt: new Date().toISOString(),
+      network: input.network,
+      treasuryAccountId,
+      asset: input.asset,
+      required: {
+        amount: amount.toString(),
+        fees: fees.toString(),
+        feePerTransaction: feePerTransaction.toString(),
+        transactionCount,
+        feeSamples: samples
+      },
+      balances: { hbar: '0' },
+      reserved: { hbar: '0' },
+      available: { hbar: '0' },
+      assets: {},
+      ...(legCount > 0 && {
+        legs: Object.fromEntries(Array.from(legTotals.entries()).map(([asset, total]) => [asset, total.toString()]))
+      }),
+      shortfalls: []
+    };
+
+    let balance: { hbar: string; tokens: Map<string, string> };
+    try {
+      balance = await this.hederaService.getAccountBalance(treasuryAccountId);
+    } catch (error) {
+      result.shortfalls.push(`Unable to read treasury balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return result;
+    }
+
+    const reserved = await this.getReservedTotals(input.network, treasuryAccountId, input.runId);
+    const hbarBalance = BigInt(balance.hbar);
+    const hbarReserved = reserved.get('HBAR') || BigInt(0);
+    const hbarAvailable = hbarBalance - hbarReserved;
+    const hbarRequired = fees + (requiredByAsset.get('HBAR') || BigInt(0));
+
+    result.balances.hbar = hbarBalance.toString();
+    result.reserved.hbar = hbarReserved.toString();
+    result.available.hbar = hbarAvailable.toString();
+    result.assets.HBAR = {
+      required: hbarRequired.toString(),
+      balance: hbarBalance.toString(),
+      reserved: hbarReserved.toString(),
+      available: hbarAvailable.toString()
+    };
+
+    if (hbarAvailable < hbarRequired) {
+      result.shortfalls.push(
+        `HBAR: need ${formatHbar(hbarRequired)} (${requiredByAsset.has('HBAR') ? 'payouts plus ' : ''}fees), ` +
+        `${formatHbar(hbarAvailable)} available after reservations`
+      );
+    }
+
+    for (const [asset, total] of requiredByAsset) {
+      if (asset === 'HBAR') {
+        continue;
+      }
+
+      const tokenBalance = BigInt(balance.tokens.get(asset) || '0');
+      const tokenReserved = reserved.get(asset) || BigInt(0);
+      const tokenAvailable = tokenBalance - tokenReserved;
+      const isRunAsset = asset === input.asset;
+
+      result.assets[asset] = {
+        required: total.toString(),
+        balance: tokenBalance.toString(),
+        reserved: tokenReserved.toString(),
+        available: tokenAvailable.toString()
+      };
+      if (isRunAsset) {
+        result.balances.token = tokenBalance.toString();
+        result.reserved.token = tokenReserved.toString();
+        result.available.token = tokenAvailable.toString();
+      }
+
+      if (!balance.tokens.has(asset)) {
+        result.shortfalls.push(isRunAsset
+          ? `Treasury is not associated with token ${asset}`
+          : `Treasury is not associated with split payout token ${asset}`);
+      } else if (tokenAvailable < total) {
+        result.shortfalls.push(
+          `${asset}: ${isRunAsset ? '' : 'split payouts '}need ${total} base units, ${tokenAvailable} available after reservations`
+        );
+      }
+    }
+
+    result.passed = result.shortfalls.length === 0;
+    return result;
+  }
+
+  /**
+   * Run the pre-flight check for a stored run and record the result on it
+   */
+  async preflightRun(runId: string): Promise<PreflightResult> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { payouts: { include: { legs: true } } }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    const result = await this.runPreflight(getRunPreflightInput(run));
+
+    await prisma.payrollRun.update({
+      where: { id: runId },
+      data: { preflightResult: JSON.stringify(result) }
+    });
+
+    return result;
+  }
+
+  /**
+   * Reserve treasury funds for a run, one reservation per asset it pays out
+   * in. Fails, leaving no reservation, when the treasury cannot cover the run
+   * alongside other active reservations.
+   */
+  async reserveFunds(runId: string): Promise<PreflightResult> {
+    const run = await prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { payouts: { include: { legs: true } } }
+    });
+
+    if (!run) {
+      throw new Error('Payroll run not found');
+    }
+
+    const input = getRunPreflightInput(run);
+    const result = await this.runPreflight(input);
+
+    await prisma.payrollRun.update({
+      where: { id: runId },
+      data: { preflightResult: JSON.stringify(result) }
+    });
+
+    if (!result.passed) {
+      await this.releaseReservation(runId, 'RELEASED');
+      return result;
+    }
+
+    // Network fees are held on the run asset's reservation
+    const amounts = getRequiredByAsset(input);
+    const assets = Array.from(amounts.keys());
+    await prisma.$transaction([
+      ...Array.from(amounts).map(([asset, amount]) => {
+        const data = {
+          network: input.network,
+          treasuryAccountId: result.treasuryAccountId,
+          amount: amount.toString(),
+          feeAmount: asset === input.asset ? result.required.fees : '0'
+        };
+        return prisma.treasuryReservation.upsert({
+          where: { runId_asset: { runId, asset } },
+          create: { runId, asset, ...data },
+          update: { ...data, status: 'ACTIVE', releasedAt: null }
+        });
+      }),
+      prisma.treasuryReservation.updateMany({
+        where: { runId, status: 'ACTIVE', asset: { notIn: assets } },
+        data: { status: 'RELEASED', releasedAt: new Date() }
+      })
+    ]);
+
+    // Another run may have reserved between our check and our write; if the
+    // treasury no longer covers every reservation of any asset, back ours out
+    const reserved = await this.getReservedTotals(input.network, result.treasuryAccountId);
+    const overcommitted = Array.from(reserved).some(([asset, total]) => {
+      const balance = result.assets[asset]?.balance;
+      return balance !== undefined && total > BigInt(balance);
+    });
+
+    if (overcommitted) {
+      await this.releaseReservation(runId, 'RELEASED');
+      result.passed = false;
+      result.shortfalls.push('Treasury funds were reserved by another run at the same time');
+      await prisma.payrollRun.update({
+        where: { id: runId },
+        data: { preflightResult: JSON.stringify(result) }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Release a run's reservation, either because it was paid out (CONSUMED)
+   * or because it will not be (RELEASED)
+   */
+  async releaseReservation(runId: string, status: 'CONSUMED' | 'RELEASED'): Promise<void> {
+    await prisma.treasuryReservation.updateMany({
+      where: { runId, status: 'ACTIVE' },
+      data: { status, releasedAt: new Date() }
+    });
+  }
+
+  /**
+   * Funds held by active reservations on a treasury account, by asset, with
+   * network fees counted as HBAR. Payouts and legs of a run that have already
+   * been sent no longer count, since they have left the balance too.
+   */
+  private async getReservedTotals(
+    network: string,
+    treasuryAccountId: string,
+    excludeRunId?: string
+  ): Promise<Map<string, bigint>> {
+    const reservations = await prisma.treasuryReservation.findMany({
+      where: {
+        network,
+        treasuryAccountId,
+        status: 'ACTIVE',
+        ...(excludeRunId ? { runId: { not: excludeRunId } } : {})
+      },
+      include: {
+        run: {
+          select: {
+            asset: true,
+            payouts: {
+              select: {
+                nativeAmount: true,
+                status: true,
+                legs: {
+                  where: { status: { in: SENT_STATUSES } },
+                  select: { asset: true, nativeAmount: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    const totals = new Map<string, bigint>();
+    const add = (asset: string, amount: bigint) => totals.set(asset, (totals.get(asset) || BigInt(0)) + amount);
+
+    for (const reservation of reservations) {
+      const { run } = reservation;
+      const sentPayouts = reservation.asset === run.asset
+        ? run.payouts.filter(payout => SENT_STATUSES.includes(payout.status))
+        : [];
+      const sentLegs = run.payouts
+        .flatMap(payout => payout.legs)
+        .filter(leg => leg.asset === reservation.asset);
+      const sent = [...sentPayouts, ...sentLegs].reduce((sum, sentTransfer) => sum + BigInt(sentTransfer.nativeAmount), BigInt(0));
+      const outstanding = BigInt(reservation.amount) - sent;
+
+      add('HBAR', BigInt(reservation.feeAmount));
+      add(reservation.asset, outstanding > BigInt(0) ? outstanding : BigInt(0));
+    }
+
+    return totals;
+  }
+
+  /**
+   * Estimate the fee of one payout transaction from recent payouts on the
+   * same network, with a safety margin
+   */
+  private async estimateFeePerTransaction(network: string): Promise<{ feePerTransaction: bigint; samples: number }> {
+    const recent = await prisma.payout.findMany({
+      where: {
+        status: 'CONFIRMED',
+        txId: { not: null },
+        run: { environment: network }
+      },
+      orderBy: { confirmedAt: 'desc' },
+      select: { txId: true, scheduleId: true },
+      take: FEE_SAMPLE_SIZE * MAX_BATCH_TRANSFER_RECIPIENTS
+    });
+
+    const txIds = new Map<string, boolean>();
+    for (const payout of recent) {
+      if (txIds.size >= FEE_SAMPLE_SIZE) break;
+      txIds.set(payout.txId!, !!payout.scheduleId);
+    }
+
+    const fees: bigint[] = [];
+    for (const [txId, scheduled] of txIds) {
+      const fee = await this.hederaService.getTransactionFee(txId, scheduled);
+      if (fee) {
+        fees.push(BigInt(fee));
+      }
+    }
+
+    if (fees.length === 0) {
+      return { feePerTransaction: DEFAULT_FEE_PER_TRANSACTION, samples: 0 };
+    }
+
+    // Batched transfers cost more than single ones, so take the highest sample
+    const highest = fees.reduce((max, fee) => (fee > max ? fee : max), BigInt(0));
+    return {
+      feePerTransaction: highest * FEE_SAFETY_MARGIN_PERCENT / BigInt(100),
+      samples: fees.length
+    };
+  }
+}
+
+/**
+ * Number of treasury-paid transactions a run will submit
+ */
+export function estimateTransactionCount(payoutCount: number, executionMode: string, scheduleConfig?: string): number {
+  if (payoutCount <= 0) {
+    return 0;
+  }
+
+  if (executionMode === 'BATCH') {
+    return Math.ceil(payoutCount / MAX_BATCH_TRANSFER_RECIPIENTS);
+  }
+
+  if (executionMode === 'SCHEDULED') {
+    // The treasury pays for creating each schedule and for its execution
+    const config = parseScheduleConfig(scheduleConfig);
+    const schedules = config.granularity === 'BATCH'
+      ? Math.ceil(payoutCount / Math.min(config.batchSize, MAX_BATCH_TRANSFER_RECIPIENTS))
+      : payoutCount;
+    return schedules * 2;
+  }
+
+  return payoutCount;
+}
+
+/**
+ * Parse a run's stored pre-flight result, or null if it was never checked
+ */
+export function parsePreflightResult(json: string | null | undefined): PreflightResult | null {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed.passed === 'boolean' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function getRunPreflightInput(run: {
+  id: string;
+  environment: string;
+  asset: string;
+  executionMode: string;
+  scheduleConfig: string;
+  payouts: Array<{
+    nativeAmount: string;
+    status: string;
+    legs?: Array<{ asset: string; nativeAmount: string; status: string }>;
+  }>;
+}): PreflightInput {
+  // Payouts already sent have left the balance; only what is unpaid must be covered
+  const unpaid = run.payouts.filter(payout => payout.status === 'PENDING' || payout.status === 'FAILED');
+  const unpaidLegs = run.payouts
+    .flatMap(payout => payout.legs || [])
+    .filter(leg => leg.status === 'PENDING');
+
+  return {
+    runId: run.id,
+    network: run.environment as 'testnet' | 'mainnet',
+    asset: run.asset,
+    amount: unpaid.reduce((sum, payout) => sum + BigInt(payout.nativeAmount), BigInt(0)).toString(),
+    legs: unpaidLegs.map(leg => ({ asset: leg.asset, amount: leg.nativeAmount })),
+    payoutCount: unpaid.length,
+    executionMode: run.executionMode,
+    scheduleConfig: run.scheduleConfig
+  };
+}
+
+/**
+ * What a run pays out in each asset: its payouts in the run asset plus every
+ * split leg. The run asset is always present, even when nothing is left to pay.
+ */
+function getRequiredByAsset(input: PreflightInput): Map<string, bigint> {
+  const required = sumLegsByAsset(input.legs || []);
+  required.set(input.asset, BigInt(input.amount || '0') + (required.get(input.asset) || BigInt(0)));
+  return required;
+}
+
+function sumLegsByAsset(legs: Array<{ asset: string; amount: string }>): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const leg of legs) {
+    totals.set(leg.asset, (totals.get(leg.asset) || BigInt(0)) + BigInt(leg.amount));
+  }
+  return totals;
+}
+
+function formatHbar(tinybars: bigint): string {
+  return `${(Number(tinybars) / TINYBARS_PER_HBAR).toFixed(8)} HBAR`;
+}
+
+export function createTreasuryService(hederaService: HederaService): TreasuryService {
+  return new TreasuryService(hederaService);
+}
@@ -0,0 +1,184 @@
+/**
+ * PR Weighting Rules
+ * Evaluates per-repository label, path and size rules into a per-PR weight
+ */
+
+export interface PathWeightRule {
+  pattern: string; // Glob matched against changed file paths, e.g. "docs/**"
+  multiplier: number;
+}
+
+export interface SizeBucketRule {
+  name: string; // e.g. "small", "large"
+  maxLinesChanged?: number; // additions + deletions, inclusive upper bound
+  maxFilesChanged?: number; // changed_files, inclusive upper bound
+  multiplier: number;
+}
+
+export interface PRWeightingRules {
+  labels?: Record<string, number>; // Label name -> multiplier
+  paths?: PathWeightRule[];
+  sizeBuckets?: SizeBucketRule[]; // Evaluated in order, first match wins
+}
+
+export interface PRWeightInput {
+  labels: Array<{ name: string }>;
+  additions: number;
+  deletions: number;
+  changed_files: number;
+}
+
+export interface PRWeightResult {
+  weight: number;
+  rule: string; // Human-readable description of the rules that set the weight
+}
+
+export const DEFAULT_WEIGHT_RULE = 'default';
+
+/**
+ * Parse weighting rules stored as a JSON string on a repository
+ */
+export function parseWeightingRules(json: string | null | undefined): PRWeightingRules {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed as PRWeightingRules : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Check whether any rule in the set needs the PR's changed file list
+ */
+export function requiresFileList(rules: PRWeightingRules): boolean {
+  return (rules.paths?.length || 0) > 0;
+}
+
+/**
+ * Validate weighting rules, returning a list of problems
+ */
+export function validateWeightingRules(rules: PRWeightingRules): string[] {
+  const errors: string[] = [];
+
+  for (const [label, multiplier] of Object.entries(rules.labels || {})) {
+    if (typeof multiplier !== 'number' || multiplier < 0) {
+      errors.push(`Label multiplier for "${label}" must be a non-negative number`);
+    }
+  }
+
+  for (const rule of rules.paths || []) {
+    if (!rule.pattern) {
+      errors.push('Path rules require a pattern');
+    }
+    if (typeof rule.multiplier !== 'number' || rule.multiplier < 0) {
+      errors.push(`Path multiplier for "${rule.pattern}" must be a non-negative number`);
+    }
+  }
+
+  for (const bucket of rules.sizeBuckets || []) {
+    if (!bucket.name) {
+      errors.push('Size buckets require a name');
+    }
+    if (typeof bucket.multiplier !== 'number' || bucket.multiplier < 0) {
+      errors.push(`Size bucket multiplier for "${bucket.name}" must be a non-negative number`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluate weighting rules for a single PR.
+ * Label, path and size multipliers are combined by multiplication; within each
+ * category the highest matching label or path multiplier applies.
+ */
+export function evaluatePRWeight(
+  pr: PRWeightInput,
+  rules: PRWeightingRules,
+  changedFiles: string[] = []
+): PRWeightResult {
+  let weight = 1;
+  const applied: string[] = [];
+
+  // Label multipliers
+  const labelMultipliers = new Map(
+    Object.entries(rules.labels || {}).map(([label, multiplier]) => [label.toLowerCase(), multiplier])
+  );
+  let bestLabel: { name: string; multiplier: number } | undefined;
+  for (const label of pr.labels) {
+    const multiplier = labelMultipliers.get(label.name.toLowerCase());
+    if (multiplier !== undefined && (!bestLabel || multiplier > bestLabel.multiplier)) {
+      bestLabel = { name: label.name, multiplier };
+    }
+  }
+  if (bestLabel) {
+    weight *= bestLabel.multiplier;
+    applied.push(`label:${bestLabel.name}×${bestLabel.multiplier}`);
+  }
+
+  // Path glob multipliers
+  let bestPath: PathWeightRule | undefined;
+  for (const rule of rules.paths || []) {
+    const matcher = globToRegExp(rule.pattern);
+    if (changedFiles.some(file => matcher.test(file))) {
+      if (!bestPath || rule.multiplier > bestPath.multiplier) {
+        bestPath = rule;
+      }
+    }
+  }
+  if (bestPath) {
+    weight *= bestPath.multiplier;
+    applied.push(`path:${bestPath.pattern}×${bestPath.multiplier}`);
+  }
+
+  // Size buckets
+  const linesChanged = (pr.additions || 0) + (pr.deletions || 0);
+  const filesChanged = pr.changed_files || 0;
+  const bucket = (rules.sizeBuckets || []).find(b =>
+    (b.maxLinesChanged === undefined || linesChanged <= b.maxLinesChanged) &&
+    (b.maxFilesChanged === undefined || filesChanged <= b.maxFilesChanged)
+  );
+  if (bucket) {
+    weight *= bucket.multiplier;
+    applied.push(`size:${bucket.name}×${bucket.multiplier}`);
+  }
+
+  return {
+    weight,
+    rule: applied.length > 0 ? applied.join(', ') : DEFAULT_WEIGHT_RULE
+  };
+}
+
+/**
+ * Convert a glob pattern into a regular expression.
+ * Supports "**" (any path), "*" (any segment characters) and "?" (one character).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
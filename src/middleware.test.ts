@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readdirSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { NextRequest } from 'next/server';
+
+const auth = vi.hoisted(() => ({
+  createAuthMiddleware: vi.fn()
+}));
+
+vi.mock('@/lib/auth', () => auth);
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { middleware } from './middleware';
+import { resolveRouteAccess } from '@/lib/rbac';
+
+const API_DIR = join(__dirname, 'app', 'api');
+const DEV_ONLY_DIRS = ['debug', 'test', 'test-pyusd', 'demo/init-donation-page', 'self/verification/test'];
+
+/**
+ * URL paths of the API routes below a directory, with dynamic segments filled in
+ */
+function routePaths(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return routePaths(path);
+    }
+    if (entry.name !== 'route.ts') {
+      return [];
+    }
+    const segments = relative(API_DIR, dir).split(sep).map(segment => segment.replace(/^\[.*\]$/, 'example'));
+    return [`/api/${segments.join('/')}`];
+  });
+}
+
+const devOnlyPaths = DEV_ONLY_DIRS.flatMap(dir => routePaths(join(API_DIR, dir)));
+
+const request = (path: string, method = 'GET') => new NextRequest(`http://localhost${path}`, { method });
+
+describe('middleware', () => {
+  beforeEach(() => {
+    auth.createAuthMiddleware.mockReturnValue(async () => ({ authorized: true }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    auth.createAuthMiddleware.mockReset();
+  });
+
+  it('finds the development-only routes', () => {
+    expect(devOnlyPaths).toEqual(expect.arrayContaining([
+      '/api/debug/repositories',
+      '/api/test-pyusd',
+      '/api/demo/init-donation-page',
+      '/api/self/verification/test'
+    ]));
+  });
+
+  for (const nodeEnv of ['production', 'test']) {
+    it(`hides every development-only route when NODE_ENV is ${nodeEnv}`, async () => {
+      vi.stubEnv('NODE_ENV', nodeEnv);
+
+      for (const path of devOnlyPaths) {
+        for (const method of ['GET', 'POST']) {
+          const response = await middleware(request(path, method));
+          expect(response.status, `${method} ${path}`).toBe(404);
+        }
+      }
+      expect(auth.createAuthMiddleware).not.toHaveBeenCalled();
+    });
+  }
+
+  it('lets development-only routes through in development', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+
+    for (const path of devOnlyPaths) {
+      const response = await middleware(request(path));
+      expect(response.status, path).toBe(200);
+    }
+  });
+
+  it('keeps routes next to development-only ones reachable', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    const response = await middleware(request('/api/self/verification'));
+    expect(response.status).toBe(200);
+  });
+
+  it('refuses routes no access rule lists', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    const response = await middleware(request('/api/unknown'));
+    expect(response.status).toBe(403);
+    expect(auth.createAuthMiddleware).not.toHaveBeenCalled();
+  });
+
+  it('requires system:admin for admin diagnostics', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(await resolveRouteAccess(request('/api/admin/diagnostics'))).toEqual({ permission: 'system:admin' });
+
+    auth.createAuthMiddleware.mockReturnValue(async () => ({
+      authorized: false,
+      reason: "Permission 'system:admin' required",
+      status: 403
+    }));
+
+    const response = await middleware(request('/api/admin/diagnostics?section=repositories'));
+    expect(auth.createAuthMiddleware).toHaveBeenCalledWith('system:admin', true);
+    expect(response.status).toBe(403);
+  });
+});
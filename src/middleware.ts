@@ -0,0 +1,45 @@
+/**
+ * API access middleware
+ * Hides development-only routes outside development, enforces the
+ * permission each guarded /api route needs before its handler runs and
+ * refuses routes the access rules do not list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAuthMiddleware } from '@/lib/auth';
+import { resolveRouteAccess } from '@/lib/rbac';
+import { devRoutesEnabled, isDevOnlyRoute } from '@/lib/dev-routes';
+
+export async function middleware(request: NextRequest) {
+  if (isDevOnlyRoute(request.nextUrl.pathname)) {
+    return devRoutesEnabled()
+      ? NextResponse.next()
+      : NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const access = await resolveRouteAccess(request);
+    if (!access) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!access.permission) {
+      return NextResponse.next();
+    }
+
+    const result = await createAuthMiddleware(access.permission, true)(request, access.scope);
+    if (!result.authorized) {
+      return NextResponse.json({ error: result.reason }, { status: result.status });
+    }
+
+    return NextResponse.next();
+  } catch (error) {
+    console.error('Error checking API access:', error);
+    return NextResponse.json({ error: 'Access check failed' }, { status: 500 });
+  }
+}
+
+export const config = {
+  matcher: '/api/:path*',
+  // Role lookups need Prisma, which does not run on the edge runtime
+  runtime: 'nodejs'
+};